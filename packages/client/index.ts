@@ -3,6 +3,8 @@ import "./systems/ui"
 import "./systems/spectate"
 import "./systems/noclip"
 import "./systems/freeze"
+import "./systems/injury"
+import "./systems/waypoint"
 import "./systems/chat"
 import "./systems/hud"
 
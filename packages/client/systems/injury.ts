@@ -0,0 +1,16 @@
+// Client-side downed state: the server sends client:setDowned when the character goes down, and again once they are
+// revived or respawned at hospital
+let downedUntil = 0
+
+mp.events.add("client:setDowned", (downed: boolean, bleedOutSeconds: number) => {
+  downedUntil = downed ? Date.now() + bleedOutSeconds * 1000 : 0
+  mp.players.local.freezePosition(downed)
+})
+
+mp.events.add("render", () => {
+  if (downedUntil) {
+    const seconds = Math.max(0, Math.ceil((downedUntil - Date.now()) / 1000))
+    mp.game.controls.disableAllControlActions(0)
+    mp.game.ui.displayHelpTextThisFrame(`You are down. Wait for a paramedic or bleed out in ${seconds}s`)
+  }
+})
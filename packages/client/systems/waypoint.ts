@@ -0,0 +1,4 @@
+// Client-side GPS: the server sends setWaypoint with map coordinates to route the player there
+mp.events.add("setWaypoint", (x: number, y: number) => {
+  mp.game.ui.setNewWaypoint(x, y)
+})
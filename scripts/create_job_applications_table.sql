@@ -1,21 +0,0 @@
--- Create job applications table for government job approval system
-
-CREATE TABLE IF NOT EXISTS job_applications (
-  id INT AUTO_INCREMENT PRIMARY KEY,
-  character_id INT NOT NULL,
-  job_id INT NOT NULL,
-  application_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  status ENUM('pending', 'approved', 'rejected') DEFAULT 'pending',
-  reviewed_by INT NULL,
-  review_date TIMESTAMP NULL,
-  review_notes TEXT NULL,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-  FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
-  FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
-  FOREIGN KEY (reviewed_by) REFERENCES characters(id) ON DELETE SET NULL
-);
-
--- Create index for faster queries
-CREATE INDEX idx_job_applications_status ON job_applications(status);
-CREATE INDEX idx_job_applications_job ON job_applications(job_id);
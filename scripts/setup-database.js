@@ -1,59 +1,53 @@
-const mysql = require("mysql2/promise")
-const fs = require("fs")
 const path = require("path")
 
+// Migrations live in the compiled server code, so run `npm run build` first
+const distDir = path.join(__dirname, "../dist/server/core")
+
 async function setupDatabase() {
+  const [command = "migrate", argument] = process.argv.slice(2)
+
+  let Database
+  let MigrationRunner
+  try {
+    Database = require(path.join(distDir, "database")).Database
+    MigrationRunner = require(path.join(distDir, "MigrationRunner")).MigrationRunner
+  } catch (error) {
+    console.error("❌ Compiled server not found. Run `npm run build` first.")
+    process.exit(1)
+  }
+
+  const database = new Database()
+  const runner = new MigrationRunner(database)
+
   try {
     console.log("🚀 Setting up American Roleplay Database...")
 
-    // Database connection
-    const connection = await mysql.createConnection({
-      host: process.env.DB_HOST || "localhost",
-      port: process.env.DB_PORT || 3306,
-      user: process.env.DB_USER || "root",
-      password: process.env.DB_PASSWORD || "",
-      database: process.env.DB_NAME || "american_roleplay",
-    })
-
-    console.log("✅ Connected to database")
-
-    // Get all SQL files from scripts directory
-    const scriptsDir = path.join(__dirname, "../scripts")
-    const sqlFiles = fs
-      .readdirSync(scriptsDir)
-      .filter((file) => file.endsWith(".sql"))
-      .sort()
-
-    console.log(`📁 Found ${sqlFiles.length} SQL files to execute`)
-
-    // Execute each SQL file
-    for (const file of sqlFiles) {
-      console.log(`⚡ Executing ${file}...`)
-      const filePath = path.join(scriptsDir, file)
-      const sql = fs.readFileSync(filePath, "utf8")
-
-      // Split by semicolon and execute each statement
-      const statements = sql.split(";").filter((stmt) => stmt.trim())
-
-      for (const statement of statements) {
-        if (statement.trim()) {
-          await connection.execute(statement)
-        }
+    if (command === "migrate") {
+      const applied = await runner.migrate()
+      console.log(`✅ ${applied} migration(s) applied`)
+    } else if (command === "rollback") {
+      const steps = Number.parseInt(argument || "1")
+      const reverted = await runner.rollback(steps)
+      console.log(`✅ ${reverted} migration(s) reverted`)
+    } else if (command === "status") {
+      const status = await runner.getStatus()
+      for (const migration of status) {
+        const version = String(migration.version).padStart(3, "0")
+        const state = migration.applied_at ? `applied ${migration.applied_at.toISOString()}` : "pending"
+        console.log(`${version}_${migration.name}: ${state}`)
       }
-
-      console.log(`✅ ${file} executed successfully`)
+    } else {
+      console.error(`❌ Unknown command "${command}". Use migrate, rollback [steps] or status.`)
+      process.exitCode = 1
+      return
     }
 
-    await connection.end()
     console.log("🎉 Database setup completed successfully!")
-    console.log("")
-    console.log("📋 Next steps:")
-    console.log("1. Configure your environment variables")
-    console.log("2. Start your RageMP server")
-    console.log("3. Connect and enjoy your American Roleplay server!")
   } catch (error) {
     console.error("❌ Database setup failed:", error.message)
-    process.exit(1)
+    process.exitCode = 1
+  } finally {
+    await database.close()
   }
 }
 
@@ -1,165 +1,282 @@
-import { AdminManager } from "../systems/admin/AdminManager"
-import { PlayerManager } from "../systems/player/PlayerManager"
-import { Logger } from "../utils/Logger"
+import type { AdminManager } from "../systems/admin/AdminManager"
+import type { CommandManager } from "../core/CommandManager"
+import { formatDuration } from "../core/ArgumentParser"
+import type { CommandParams } from "../types"
 import { mp } from "../utils/RageMP" // Declare the mp variable
 
 export class AdminCommands {
   private adminManager: AdminManager
-  private playerManager: PlayerManager
 
-  constructor() {
-    this.adminManager = AdminManager.getInstance()
-    this.playerManager = PlayerManager.getInstance()
-    this.registerCommands()
+  constructor(adminManager: AdminManager, commandManager: CommandManager) {
+    this.adminManager = adminManager
+    this.registerCommands(commandManager)
   }
 
-  private registerCommands(): void {
-    // Register admin commands with RageMP
-    mp.events.add("playerCommand", this.handleCommand.bind(this))
+  private registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      // Basic admin commands
+      {
+        name: "akick",
+        description: "Expulsa a un jugador del servidor",
+        usage: "/akick [ID o nombre] [razón]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "reason", type: "text" },
+        ],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleKick(player, params),
+      },
+      {
+        name: "aban",
+        description: "Banea a un jugador",
+        usage: "/aban [ID o nombre] [duración: 30m, 2h, 7d, perm] [razón]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "duration", type: "duration", unit: "h" },
+          { name: "reason", type: "text", optional: true },
+        ],
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleBan(player, params),
+      },
+      {
+        name: "aunban",
+        description: "Retira el baneo de un personaje",
+        usage: "/aunban [ID del personaje] [razón]",
+        params: [
+          { name: "characterId", type: "integer", min: 1 },
+          { name: "reason", type: "text" },
+        ],
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleUnban(player, params),
+      },
+      {
+        name: "amute",
+        description: "Silencia a un jugador",
+        usage: "/amute [ID o nombre] [duración: 10, 30m, 2h] [razón]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "duration", type: "duration", min: 1 },
+          { name: "reason", type: "text" },
+        ],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleMute(player, params),
+      },
+      {
+        name: "aunmute",
+        description: "Retira el silencio de un jugador",
+        usage: "/aunmute [ID o nombre] [razón]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "reason", type: "text" },
+        ],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleUnmute(player, params),
+      },
+      {
+        name: "awarn",
+        description: "Advierte a un jugador",
+        usage: "/awarn [ID o nombre] [razón]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "reason", type: "text" },
+        ],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleWarn(player, params),
+      },
+
+      // Teleportation commands
+      {
+        name: "goto",
+        description: "Teletranspórtate a un jugador",
+        usage: "/goto [ID o nombre]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleGoto(player, params),
+      },
+      {
+        name: "gethere",
+        description: "Trae a un jugador a tu posición",
+        usage: "/gethere [ID o nombre]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleGetHere(player, params),
+      },
+      {
+        name: "tp",
+        description: "Teletranspórtate a unas coordenadas",
+        usage: "/tp [x] [y] [z]",
+        params: [
+          { name: "x", type: "number" },
+          { name: "y", type: "number" },
+          { name: "z", type: "number" },
+        ],
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleTeleport(player, params),
+      },
+
+      // Spectate commands
+      {
+        name: "spec",
+        aliases: ["spectate"],
+        description: "Espectea a un jugador",
+        usage: "/spec [ID o nombre]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleSpectate(player, params),
+      },
+      {
+        name: "specoff",
+        description: "Deja de espectear",
+        usage: "/specoff",
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player) => this.handleSpectateOff(player),
+      },
+
+      // Utility commands
+      {
+        name: "noclip",
+        description: "Activa o desactiva el noclip",
+        usage: "/noclip",
+        adminLevel: 3,
+        category: "Admin",
+        execute: (player) => this.handleNoclip(player),
+      },
+      {
+        name: "invisible",
+        aliases: ["invis"],
+        description: "Activa o desactiva la invisibilidad",
+        usage: "/invisible",
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player) => this.handleInvisible(player),
+      },
+      {
+        name: "freeze",
+        description: "Congela a un jugador",
+        usage: "/freeze [ID o nombre]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleFreeze(player, params),
+      },
+      {
+        name: "unfreeze",
+        description: "Descongela a un jugador",
+        usage: "/unfreeze [ID o nombre]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleUnfreeze(player, params),
+      },
+
+      // Information commands
+      {
+        name: "aduty",
+        description: "Entra o sal del servicio administrativo",
+        usage: "/aduty",
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player) => this.handleAdminDuty(player),
+      },
+      {
+        name: "admins",
+        description: "Lista los administradores en línea",
+        usage: "/admins",
+        adminLevel: 0,
+        category: "General",
+        allowWhileDowned: true,
+        execute: (player) => this.handleAdminList(player),
+      },
+      {
+        name: "reports",
+        description: "Lista los reportes activos",
+        usage: "/reports",
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player) => this.handleReportList(player),
+      },
+      {
+        name: "acceptreport",
+        aliases: ["ar"],
+        description: "Acepta un reporte",
+        usage: "/ar [ID del reporte]",
+        params: [{ name: "reportId", type: "integer", min: 1 }],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleAcceptReport(player, params),
+      },
+      {
+        name: "closereport",
+        aliases: ["cr"],
+        description: "Cierra un reporte con una resolución",
+        usage: "/cr [ID del reporte] [resolución]",
+        params: [
+          { name: "reportId", type: "integer", min: 1 },
+          { name: "resolution", type: "text" },
+        ],
+        adminLevel: 1,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleCloseReport(player, params),
+      },
+
+      // High-level admin commands
+      {
+        name: "setadmin",
+        description: "Establece el nivel de administrador de un jugador",
+        usage: "/setadmin [ID o nombre] [nivel 0-10]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "level", type: "integer", min: 0, max: 10 },
+        ],
+        adminLevel: 9,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleSetAdmin(player, params),
+      },
+      {
+        name: "announce",
+        aliases: ["ann"],
+        description: "Envía un anuncio a todo el servidor",
+        usage: "/ann [mensaje]",
+        params: [{ name: "message", type: "text" }],
+        adminLevel: 3,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleAnnounce(player, params),
+      },
+
+      // Player report command (available to all players)
+      {
+        name: "report",
+        description: "Reporta a un jugador ante la administración",
+        usage: "/report [ID o nombre] [razón] [descripción]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "reason", type: "word", max: 50 },
+          { name: "description", type: "text" },
+        ],
+        adminLevel: 0,
+        category: "General",
+        allowWhileDowned: true,
+        execute: (player, _args, params) => this.handleReport(player, params),
+      },
+    ])
   }
 
-  private async handleCommand(player: any, command: string): Promise<void> {
-    const args = command.split(" ")
-    const cmd = args[0].toLowerCase()
-    const playerId = player.getVariable("characterId")
-    const adminLevel = this.adminManager.getAdminLevel(playerId)
-
-    try {
-      switch (cmd) {
-        // Basic admin commands
-        case "/akick":
-          if (adminLevel >= 1) await this.handleKick(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/aban":
-          if (adminLevel >= 2) await this.handleBan(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/aunban":
-          if (adminLevel >= 2) await this.handleUnban(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/amute":
-          if (adminLevel >= 1) await this.handleMute(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/aunmute":
-          if (adminLevel >= 1) await this.handleUnmute(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/awarn":
-          if (adminLevel >= 1) await this.handleWarn(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-
-        // Teleportation commands
-        case "/goto":
-          if (adminLevel >= 2) await this.handleGoto(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/gethere":
-          if (adminLevel >= 2) await this.handleGetHere(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/tp":
-          if (adminLevel >= 2) await this.handleTeleport(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-
-        // Spectate commands
-        case "/spec":
-        case "/spectate":
-          if (adminLevel >= 1) await this.handleSpectate(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/specoff":
-          if (adminLevel >= 1) await this.handleSpectateOff(player)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-
-        // Utility commands
-        case "/noclip":
-          if (adminLevel >= 3) await this.handleNoclip(player)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/invisible":
-        case "/invis":
-          if (adminLevel >= 2) await this.handleInvisible(player)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/freeze":
-          if (adminLevel >= 1) await this.handleFreeze(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/unfreeze":
-          if (adminLevel >= 1) await this.handleUnfreeze(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-
-        // Information commands
-        case "/aduty":
-          if (adminLevel >= 1) await this.handleAdminDuty(player)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/admins":
-          await this.handleAdminList(player)
-          break
-        case "/reports":
-          if (adminLevel >= 1) await this.handleReportList(player)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/acceptreport":
-        case "/ar":
-          if (adminLevel >= 1) await this.handleAcceptReport(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/closereport":
-        case "/cr":
-          if (adminLevel >= 1) await this.handleCloseReport(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-
-        // High-level admin commands
-        case "/setadmin":
-          if (adminLevel >= 9) await this.handleSetAdmin(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-        case "/announce":
-        case "/ann":
-          if (adminLevel >= 3) await this.handleAnnounce(player, args)
-          else player.outputChatBox("No tienes permisos suficientes.")
-          break
-
-        // Player report command (available to all players)
-        case "/report":
-          await this.handleReport(player, args)
-          break
-
-        default:
-          break
-      }
-    } catch (error) {
-      Logger.error(`Error handling admin command ${cmd}:`, error)
-      player.outputChatBox("Error interno del servidor.")
-    }
-  }
-
-  private async handleKick(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /akick [ID] [razón]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const reason = args.slice(2).join(" ")
+  private async handleKick(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const reason: string = params.reason
     const adminId = player.getVariable("characterId")
 
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
     const result = await this.adminManager.kickPlayer(targetCharId, adminId, reason)
 
@@ -171,102 +288,52 @@ export class AdminCommands {
     }
   }
 
-  private async handleBan(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /aban [ID] [duración en horas, 0 = permanente] [razón]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const duration = Number.parseInt(args[2])
-    const reason = args.slice(3).join(" ")
+  private async handleBan(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const durationMinutes: number = params.duration
+    const reason: string = params.reason || ""
     const adminId = player.getVariable("characterId")
 
-    if (isNaN(duration) || duration < 0) {
-      player.outputChatBox("Duración inválida.")
-      return
-    }
-
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
-    const result = await this.adminManager.banPlayer(targetCharId, adminId, reason, duration)
+    const result = await this.adminManager.banPlayer(targetCharId, adminId, reason, durationMinutes / 60)
 
     player.outputChatBox(result.message)
 
     if (result.success) {
       targetPlayer.kick(`Baneado: ${reason}`)
-      const durationText = duration > 0 ? `${duration} horas` : "permanentemente"
+      const durationText = durationMinutes > 0 ? `por ${formatDuration(durationMinutes)}` : "permanentemente"
       mp.players.broadcast(`${targetPlayer.name} ha sido baneado ${durationText} por un administrador.`)
     }
   }
 
-  private async handleUnban(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /aunban [ID del personaje] [razón]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const reason = args.slice(2).join(" ")
+  private async handleUnban(player: any, params: CommandParams): Promise<void> {
     const adminId = player.getVariable("characterId")
 
-    const result = await this.adminManager.unbanPlayer(targetId, adminId, reason)
+    const result = await this.adminManager.unbanPlayer(params.characterId, adminId, params.reason)
     player.outputChatBox(result.message)
   }
 
-  private async handleMute(player: any, args: string[]): Promise<void> {
-    if (args.length < 4) {
-      player.outputChatBox("Uso: /amute [ID] [duración en minutos] [razón]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const duration = Number.parseInt(args[2])
-    const reason = args.slice(3).join(" ")
+  private async handleMute(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const duration: number = params.duration
+    const reason: string = params.reason
     const adminId = player.getVariable("characterId")
 
-    if (isNaN(duration) || duration <= 0) {
-      player.outputChatBox("Duración inválida.")
-      return
-    }
-
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
     const result = await this.adminManager.mutePlayer(targetCharId, adminId, reason, duration)
 
     player.outputChatBox(result.message)
 
     if (result.success) {
-      targetPlayer.outputChatBox(`Has sido muteado por ${duration} minutos. Razón: ${reason}`)
+      targetPlayer.outputChatBox(`Has sido muteado por ${formatDuration(duration)}. Razón: ${reason}`)
     }
   }
 
-  private async handleUnmute(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /aunmute [ID] [razón]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const reason = args.slice(2).join(" ")
+  private async handleUnmute(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const reason: string = params.reason
     const adminId = player.getVariable("characterId")
 
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
     const result = await this.adminManager.unmutePlayer(targetCharId, adminId, reason)
 
@@ -277,22 +344,11 @@ export class AdminCommands {
     }
   }
 
-  private async handleWarn(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /awarn [ID] [razón]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const reason = args.slice(2).join(" ")
+  private async handleWarn(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const reason: string = params.reason
     const adminId = player.getVariable("characterId")
 
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
     const result = await this.adminManager.warnPlayer(targetCharId, adminId, reason)
 
@@ -306,75 +362,30 @@ export class AdminCommands {
     }
   }
 
-  private async handleGoto(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /goto [ID]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleGoto(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
     player.position = targetPlayer.position
     player.outputChatBox(`Te has teletransportado a ${targetPlayer.name}.`)
   }
 
-  private async handleGetHere(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /gethere [ID]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleGetHere(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
     targetPlayer.position = player.position
     player.outputChatBox(`${targetPlayer.name} ha sido teletransportado a tu posición.`)
     targetPlayer.outputChatBox(`Has sido teletransportado por un administrador.`)
   }
 
-  private async handleTeleport(player: any, args: string[]): Promise<void> {
-    if (args.length < 4) {
-      player.outputChatBox("Uso: /tp [x] [y] [z]")
-      return
-    }
-
-    const x = Number.parseFloat(args[1])
-    const y = Number.parseFloat(args[2])
-    const z = Number.parseFloat(args[3])
-
-    if (isNaN(x) || isNaN(y) || isNaN(z)) {
-      player.outputChatBox("Coordenadas inválidas.")
-      return
-    }
+  private async handleTeleport(player: any, params: CommandParams): Promise<void> {
+    const { x, y, z } = params
 
     player.position = new mp.Vector3(x, y, z)
     player.outputChatBox(`Teletransportado a: ${x}, ${y}, ${z}`)
   }
 
-  private async handleSpectate(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /spec [ID]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleSpectate(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
     // Enable spectate mode (this would be handled by client-side script)
     player.call("startSpectate", [targetPlayer.id])
@@ -404,39 +415,19 @@ export class AdminCommands {
     player.outputChatBox(`Invisibilidad ${!currentInvis ? "activada" : "desactivada"}.`)
   }
 
-  private async handleFreeze(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /freeze [ID]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleFreeze(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
+    targetPlayer.setVariable("frozen", true)
     targetPlayer.call("freezePlayer", [true])
     player.outputChatBox(`${targetPlayer.name} ha sido congelado.`)
     targetPlayer.outputChatBox("Has sido congelado por un administrador.")
   }
 
-  private async handleUnfreeze(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /unfreeze [ID]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleUnfreeze(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
+    targetPlayer.setVariable("frozen", false)
     targetPlayer.call("freezePlayer", [false])
     player.outputChatBox(`${targetPlayer.name} ha sido descongelado.`)
     targetPlayer.outputChatBox("Has sido descongelado por un administrador.")
@@ -504,54 +495,25 @@ export class AdminCommands {
     }
   }
 
-  private async handleAcceptReport(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /ar [ID del reporte]")
-      return
-    }
-
-    const reportId = Number.parseInt(args[1])
+  private async handleAcceptReport(player: any, params: CommandParams): Promise<void> {
     const adminId = player.getVariable("characterId")
 
-    const result = await this.adminManager.acceptReport(reportId, adminId)
+    const result = await this.adminManager.acceptReport(params.reportId, adminId)
     player.outputChatBox(result.message)
   }
 
-  private async handleCloseReport(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /cr [ID del reporte] [resolución]")
-      return
-    }
-
-    const reportId = Number.parseInt(args[1])
-    const resolution = args.slice(2).join(" ")
+  private async handleCloseReport(player: any, params: CommandParams): Promise<void> {
     const adminId = player.getVariable("characterId")
 
-    const result = await this.adminManager.closeReport(reportId, adminId, resolution)
+    const result = await this.adminManager.closeReport(params.reportId, adminId, params.resolution)
     player.outputChatBox(result.message)
   }
 
-  private async handleSetAdmin(player: any, args: string[]): Promise<void> {
-    if (args.length < 3) {
-      player.outputChatBox("Uso: /setadmin [ID] [nivel]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const level = Number.parseInt(args[2])
+  private async handleSetAdmin(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const level: number = params.level
     const adminId = player.getVariable("characterId")
 
-    if (isNaN(level) || level < 0 || level > 10) {
-      player.outputChatBox("Nivel inválido (0-10).")
-      return
-    }
-
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
 
     // Define permissions based on level
@@ -567,38 +529,20 @@ export class AdminCommands {
     }
   }
 
-  private async handleAnnounce(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /ann [mensaje]")
-      return
-    }
-
-    const message = args.slice(1).join(" ")
-
+  private async handleAnnounce(player: any, params: CommandParams): Promise<void> {
     mp.players.broadcast("=== ANUNCIO ADMINISTRATIVO ===")
-    mp.players.broadcast(message)
+    mp.players.broadcast(params.message)
     mp.players.broadcast("===============================")
 
     player.outputChatBox("Anuncio enviado.")
   }
 
-  private async handleReport(player: any, args: string[]): Promise<void> {
-    if (args.length < 4) {
-      player.outputChatBox("Uso: /report [ID] [razón] [descripción]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const reason = args[2]
-    const description = args.slice(3).join(" ")
+  private async handleReport(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+    const reason: string = params.reason
+    const description: string = params.description
     const reporterId = player.getVariable("characterId")
 
-    const targetPlayer = mp.players.getById(targetId)
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
-
     const targetCharId = targetPlayer.getVariable("characterId")
 
     if (targetCharId === reporterId) {
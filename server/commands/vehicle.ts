@@ -1,84 +1,178 @@
-import { VehicleManager } from "../systems/vehicles/VehicleManager"
-import { PlayerManager } from "../systems/player/PlayerManager"
-import { Logger } from "../utils/Logger"
-import { mp } from "your-mp-module" // Declare mp variable
-import { Database } from "your-database-module" // Declare Database variable
+import type { VehicleManager } from "../systems/vehicles/VehicleManager"
+import type { PlayerManager } from "../systems/player/PlayerManager"
+import type { CommandManager } from "../core/CommandManager"
+import type { Database } from "../core/database"
+import type { CommandParams } from "../types"
+import { MECHANIC_JOBS } from "../systems/mechanic/MechanicManager"
+import { mp } from "../utils/RageMP" // Declare mp variable
 
 export class VehicleCommands {
+  private database: Database
   private vehicleManager: VehicleManager
   private playerManager: PlayerManager
 
-  constructor() {
-    this.vehicleManager = VehicleManager.getInstance()
-    this.playerManager = PlayerManager.getInstance()
-    this.registerCommands()
+  constructor(
+    database: Database,
+    vehicleManager: VehicleManager,
+    playerManager: PlayerManager,
+    commandManager: CommandManager,
+  ) {
+    this.database = database
+    this.vehicleManager = vehicleManager
+    this.playerManager = playerManager
+    this.registerCommands(commandManager)
   }
 
-  private registerCommands(): void {
+  private registerCommands(commandManager: CommandManager): void {
     // Vehicle management commands
-    mp.events.add("playerCommand", this.handleCommand.bind(this))
+    commandManager.registerMany([
+      {
+        name: "veh",
+        aliases: ["vehicle"],
+        description: "Muestra la información del vehículo en el que estás",
+        usage: "/veh",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleVehicleInfo(player),
+      },
+      {
+        name: "vlock",
+        description: "Cierra el vehículo más cercano",
+        usage: "/vlock",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleVehicleLock(player),
+      },
+      {
+        name: "vunlock",
+        description: "Abre el vehículo más cercano",
+        usage: "/vunlock",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleVehicleUnlock(player),
+      },
+      {
+        name: "engine",
+        description: "Enciende o apaga el motor",
+        usage: "/engine",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleEngine(player),
+      },
+      {
+        name: "vgivekey",
+        description: "Entrega una llave de repuesto del vehículo cercano",
+        usage: "/vgivekey [ID o nombre del jugador]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleGiveKey(player, params),
+      },
+      {
+        name: "vremovekey",
+        description: "Retira la llave de un jugador del vehículo cercano",
+        usage: "/vremovekey [ID o nombre del jugador]",
+        params: [{ name: "target", type: "player" }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleRemoveKey(player, params),
+      },
+      {
+        name: "vmyvehicles",
+        aliases: ["vmyvehs"],
+        description: "Lista tus vehículos",
+        usage: "/vmyvehicles",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleMyVehicles(player),
+      },
+      {
+        name: "vpark",
+        description: "Estaciona tu vehículo en la posición actual",
+        usage: "/vpark",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleParkVehicle(player),
+      },
+      {
+        name: "vfind",
+        description: "Marca la ubicación de tu vehículo",
+        usage: "/vfind [ID del vehículo]",
+        params: [{ name: "vehicleId", type: "integer", min: 1 }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleFindVehicle(player, params),
+      },
+      {
+        name: "vimpound",
+        description: "Incauta el vehículo más cercano",
+        usage: "/vimpound [razón]",
+        params: [{ name: "reason", type: "text" }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleImpoundVehicle(player, params),
+      },
+      {
+        name: "vunimpound",
+        description: "Recupera un vehículo incautado",
+        usage: "/vunimpound [ID del vehículo]",
+        params: [{ name: "vehicleId", type: "integer", min: 1 }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleUnimpoundVehicle(player, params),
+      },
+      {
+        name: "vrepair",
+        description: "Repara tu vehículo en un taller",
+        usage: "/vrepair",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleRepairVehicle(player),
+      },
+      {
+        name: "vrefuel",
+        description: "Reposta tu vehículo en una gasolinera",
+        usage: "/vrefuel [litros]",
+        params: [{ name: "amount", type: "integer", optional: true, min: 1, max: 500 }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleRefuelVehicle(player, params),
+      },
+      {
+        name: "vsell",
+        description: "Vende tu vehículo al concesionario",
+        usage: "/vsell [ID del vehículo]",
+        params: [{ name: "vehicleId", type: "integer", min: 1 }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleSellVehicle(player, params),
+      },
+      {
+        name: "vsellto",
+        description: "Ofrece uno de tus vehículos a un jugador cercano",
+        usage: "/vsellto [ID o nombre del jugador] [ID del vehículo] [precio]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "vehicleId", type: "integer", min: 1 },
+          { name: "price", type: "money" },
+        ],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleSellTo(player, params),
+      },
+      {
+        name: "vsale",
+        description: "Acepta, rechaza o cancela una venta de vehículo entre jugadores",
+        usage: "/vsale [accept|decline|cancel]",
+        params: [{ name: "action", type: "word", choices: ["accept", "decline", "cancel"] }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleSale(player, params),
+      },
+    ])
   }
 
-  private async handleCommand(player: any, command: string): Promise<void> {
-    const args = command.split(" ")
-    const cmd = args[0].toLowerCase()
-
-    try {
-      switch (cmd) {
-        case "/veh":
-        case "/vehicle":
-          await this.handleVehicleInfo(player, args)
-          break
-        case "/vlock":
-          await this.handleVehicleLock(player)
-          break
-        case "/vunlock":
-          await this.handleVehicleUnlock(player)
-          break
-        case "/engine":
-          await this.handleEngine(player)
-          break
-        case "/vgivekey":
-          await this.handleGiveKey(player, args)
-          break
-        case "/vremovekey":
-          await this.handleRemoveKey(player, args)
-          break
-        case "/vmyvehicles":
-        case "/vmyvehs":
-          await this.handleMyVehicles(player)
-          break
-        case "/vpark":
-          await this.handleParkVehicle(player)
-          break
-        case "/vfind":
-          await this.handleFindVehicle(player, args)
-          break
-        case "/vimpound":
-          await this.handleImpoundVehicle(player, args)
-          break
-        case "/vunimpound":
-          await this.handleUnimpoundVehicle(player, args)
-          break
-        case "/vrepair":
-          await this.handleRepairVehicle(player)
-          break
-        case "/vrefuel":
-          await this.handleRefuelVehicle(player, args)
-          break
-        case "/vsell":
-          await this.handleSellVehicle(player, args)
-          break
-        default:
-          break
-      }
-    } catch (error) {
-      Logger.error(`Error handling vehicle command ${cmd}:`, error)
-      player.outputChatBox("Error interno del servidor.")
-    }
-  }
-
-  private async handleVehicleInfo(player: any, args: string[]): Promise<void> {
+  private async handleVehicleInfo(player: any): Promise<void> {
     if (!player.vehicle) {
       player.outputChatBox("Debes estar en un vehículo.")
       return
@@ -102,7 +196,8 @@ export class VehicleCommands {
     player.outputChatBox(`Modelo: ${vehicle.model}`)
     player.outputChatBox(`Placa: ${vehicle.plate}`)
     player.outputChatBox(`Propietario: ${ownerName}`)
-    player.outputChatBox(`Combustible: ${vehicle.fuel}%`)
+    const tankSize = global.AmericanRP.getFuelManager().getProfile(vehicle.model).tank_liters
+    player.outputChatBox(`Combustible: ${vehicle.fuel.toFixed(1)}/${tankSize} L`)
     player.outputChatBox(`Salud del Motor: ${vehicle.engine_health}/1000`)
     player.outputChatBox(`Salud de la Carrocería: ${vehicle.body_health}/1000`)
     player.outputChatBox(`Estado: ${vehicle.locked ? "Cerrado" : "Abierto"}`)
@@ -111,6 +206,8 @@ export class VehicleCommands {
     if (vehicle.insurance_expires) {
       const daysLeft = Math.ceil((vehicle.insurance_expires.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
       player.outputChatBox(`Seguro: ${daysLeft > 0 ? `${daysLeft} días restantes` : "Expirado"}`)
+    } else {
+      player.outputChatBox("Seguro: Sin seguro")
     }
   }
 
@@ -198,19 +295,8 @@ export class VehicleCommands {
     mp.players.broadcast(`${player.name} ${!currentEngine ? "enciende" : "apaga"} el motor de su vehículo.`)
   }
 
-  private async handleGiveKey(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /vgivekey [ID del jugador]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleGiveKey(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
     const nearestVehicle = this.getNearestVehicle(player)
     if (!nearestVehicle) {
@@ -235,19 +321,8 @@ export class VehicleCommands {
     }
   }
 
-  private async handleRemoveKey(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /vremovekey [ID del jugador]")
-      return
-    }
-
-    const targetId = Number.parseInt(args[1])
-    const targetPlayer = mp.players.getById(targetId)
-
-    if (!targetPlayer) {
-      player.outputChatBox("Jugador no encontrado.")
-      return
-    }
+  private async handleRemoveKey(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
 
     const nearestVehicle = this.getNearestVehicle(player)
     if (!nearestVehicle) {
@@ -309,7 +384,7 @@ export class VehicleCommands {
       vehicle.rotation = player.vehicle.rotation
 
       // Save to database
-      await Database.query("UPDATE vehicles SET position = ?, rotation = ? WHERE id = ?", [
+      await this.database.query("UPDATE vehicles SET position = ?, rotation = ? WHERE id = ?", [
         JSON.stringify(vehicle.position),
         JSON.stringify(vehicle.rotation),
         vehicleId,
@@ -319,13 +394,8 @@ export class VehicleCommands {
     }
   }
 
-  private async handleFindVehicle(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /vfind [ID del vehículo]")
-      return
-    }
-
-    const vehicleId = Number.parseInt(args[1])
+  private async handleFindVehicle(player: any, params: CommandParams): Promise<void> {
+    const vehicleId: number = params.vehicleId
     const playerId = player.getVariable("characterId")
 
     if (!this.vehicleManager.hasVehicleKey(vehicleId, playerId)) {
@@ -349,7 +419,7 @@ export class VehicleCommands {
     player.outputChatBox(`Waypoint establecido hacia tu ${vehicle.model} (${vehicle.plate}).`)
   }
 
-  private async handleImpoundVehicle(player: any, args: string[]): Promise<void> {
+  private async handleImpoundVehicle(player: any, params: CommandParams): Promise<void> {
     const playerId = player.getVariable("characterId")
     const playerJob = player.getVariable("job")
 
@@ -358,12 +428,7 @@ export class VehicleCommands {
       return
     }
 
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /vimpound [razón]")
-      return
-    }
-
-    const reason = args.slice(1).join(" ")
+    const reason: string = params.reason
     const nearestVehicle = this.getNearestVehicle(player)
 
     if (!nearestVehicle) {
@@ -383,13 +448,8 @@ export class VehicleCommands {
     }
   }
 
-  private async handleUnimpoundVehicle(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /vunimpound [ID del vehículo]")
-      return
-    }
-
-    const vehicleId = Number.parseInt(args[1])
+  private async handleUnimpoundVehicle(player: any, params: CommandParams): Promise<void> {
+    const vehicleId: number = params.vehicleId
     const playerId = player.getVariable("characterId")
 
     const result = await this.vehicleManager.unimpoundVehicle(vehicleId, playerId)
@@ -417,6 +477,12 @@ export class VehicleCommands {
       return
     }
 
+    // Self-service repairs are only for when no mechanic is on duty to take a service order
+    if (global.AmericanRP.getJobManager().getOnDutyPlayers(MECHANIC_JOBS).length > 0) {
+      player.outputChatBox("Hay mecánicos de servicio. Usa /requestrepair para pedir una reparación.")
+      return
+    }
+
     const vehicleId = player.vehicle.getVariable("vehicleId")
     const playerId = player.getVariable("characterId")
 
@@ -435,19 +501,9 @@ export class VehicleCommands {
       return
     }
 
-    const result = await this.vehicleManager.repairVehicle(vehicleId)
+    const result = await this.vehicleManager.repairVehicle(vehicleId, playerId)
 
     if (result.success && result.cost) {
-      // Check and deduct money
-      const playerData = await Database.query("SELECT money FROM characters WHERE id = ?", [playerId])
-
-      if (!playerData.length || playerData[0].money < result.cost) {
-        player.outputChatBox(`No tienes suficiente dinero. Costo: $${result.cost}`)
-        return
-      }
-
-      await Database.query("UPDATE characters SET money = money - ? WHERE id = ?", [result.cost, playerId])
-
       // Repair vehicle visually
       player.vehicle.repair()
 
@@ -457,100 +513,120 @@ export class VehicleCommands {
     }
   }
 
-  private async handleRefuelVehicle(player: any, args: string[]): Promise<void> {
+  private async handleRefuelVehicle(player: any, params: CommandParams): Promise<void> {
     if (!player.vehicle) {
       player.outputChatBox("Debes estar en un vehículo.")
       return
     }
 
-    // Check if at gas station
-    const gasStations = [
-      { x: 49.4, y: 2778.8, z: 58.0, radius: 15.0 },
-      { x: 263.8, y: 2606.4, z: 44.9, radius: 15.0 },
-      { x: 1039.9, y: 2671.1, z: 39.5, radius: 15.0 },
-      { x: 1207.2, y: 2660.1, z: 37.8, radius: 15.0 },
-      { x: 2539.6, y: 2594.1, z: 37.9, radius: 15.0 },
-      { x: 2679.8, y: 3263.9, z: 55.2, radius: 15.0 },
-      { x: 2005.0, y: 3773.8, z: 32.4, radius: 15.0 },
-      { x: 1687.1, y: 4929.4, z: 42.1, radius: 15.0 },
-      { x: 1701.3, y: 6416.0, z: 32.8, radius: 15.0 },
-      { x: 179.8, y: 6602.8, z: 31.9, radius: 15.0 },
-      { x: -94.4, y: 6419.5, z: 31.6, radius: 15.0 },
-      { x: -2554.9, y: 2334.4, z: 33.1, radius: 15.0 },
-      { x: -1800.0, y: 803.6, z: 138.7, radius: 15.0 },
-      { x: -1437.1, y: -276.7, z: 46.2, radius: 15.0 },
-      { x: -2096.2, y: -320.2, z: 13.2, radius: 15.0 },
-      { x: -724.6, y: -935.1, z: 19.2, radius: 15.0 },
-      { x: -526.0, y: -1211.0, z: 18.2, radius: 15.0 },
-      { x: -70.2, y: -1761.8, z: 29.5, radius: 15.0 },
-      { x: 265.6, y: -1261.3, z: 29.3, radius: 15.0 },
-      { x: 819.6, y: -1028.8, z: 26.4, radius: 15.0 },
-      { x: 1208.9, y: -1402.5, z: 35.2, radius: 15.0 },
-      { x: 1181.4, y: -330.8, z: 69.3, radius: 15.0 },
-      { x: 620.8, y: 269.1, z: 103.1, radius: 15.0 },
-      { x: 2581.3, y: 362.0, z: 108.5, radius: 15.0 },
-    ]
-
-    const playerPos = player.position
-    const nearGasStation = gasStations.some((station) => this.getDistance(playerPos, station) <= station.radius)
-
-    if (!nearGasStation) {
-      player.outputChatBox("Debes estar en una gasolinera para repostar.")
-      return
-    }
-
-    const amount = args.length > 1 ? Number.parseInt(args[1]) : 50
-    if (isNaN(amount) || amount <= 0 || amount > 100) {
-      player.outputChatBox("Uso: /vrefuel [cantidad] (1-100 litros)")
+    // Check if at a pump; each station sets its own price
+    const station = global.AmericanRP.getFuelManager().getStationAt(player.position)
+    if (!station) {
+      player.outputChatBox("Debes estar en una gasolinera para repostar. Usa /fuel para encontrar la más cercana.")
       return
     }
 
     const vehicleId = player.vehicle.getVariable("vehicleId")
     const playerId = player.getVariable("characterId")
 
-    const result = await this.vehicleManager.refuelVehicle(vehicleId, amount)
+    // Without an amount the tank is filled up
+    const amount: number = params.amount ?? Number.POSITIVE_INFINITY
+    const result = await this.vehicleManager.refuelVehicle(vehicleId, amount, playerId, station)
 
     if (result.success && result.cost) {
-      // Check and deduct money
-      const playerData = await Database.query("SELECT money FROM characters WHERE id = ?", [playerId])
-
-      if (!playerData.length || playerData[0].money < result.cost) {
-        player.outputChatBox(`No tienes suficiente dinero. Costo: $${result.cost}`)
-        return
-      }
-
-      await Database.query("UPDATE characters SET money = money - ? WHERE id = ?", [result.cost, playerId])
       player.outputChatBox(`${result.message} - Costo: $${result.cost}`)
     } else {
       player.outputChatBox(result.message)
     }
   }
 
-  private async handleSellVehicle(player: any, args: string[]): Promise<void> {
-    if (args.length < 2) {
-      player.outputChatBox("Uso: /vsell [ID del vehículo]")
+  private async handleSellVehicle(player: any, params: CommandParams): Promise<void> {
+    const vehicleId: number = params.vehicleId
+    const playerId = player.getVariable("characterId")
+
+    // Check if at dealership
+    if (!global.AmericanRP.getDealershipManager().getDealershipAt(player.position)) {
+      player.outputChatBox("Debes estar en un concesionario para vender tu vehículo.")
+      return
+    }
+
+    const result = await this.vehicleManager.sellVehicle(vehicleId, playerId)
+    player.outputChatBox(result.message)
+  }
+
+  private async handleSellTo(player: any, params: CommandParams): Promise<void> {
+    const targetPlayer = params.target
+
+    if (this.getDistance(player.position, targetPlayer.position) > 5.0) {
+      player.outputChatBox("El comprador debe estar a tu lado.")
       return
     }
 
-    const vehicleId = Number.parseInt(args[1])
+    const result = this.vehicleManager.offerVehicleSale(
+      params.vehicleId,
+      player.getVariable("characterId"),
+      targetPlayer.getVariable("characterId"),
+      params.price,
+    )
+
+    player.outputChatBox(result.message)
+    if (result.success) {
+      const vehicle = this.vehicleManager.getVehicle(params.vehicleId)!
+      targetPlayer.outputChatBox(
+        `${player.name} te ofrece su ${vehicle.model} (${vehicle.plate}) por $${params.price}, pagados desde tu banco.`,
+      )
+      targetPlayer.outputChatBox("Usa /vsale accept o /vsale decline en los próximos 2 minutos.")
+    }
+  }
+
+  private async handleSale(player: any, params: CommandParams): Promise<void> {
     const playerId = player.getVariable("characterId")
 
-    // Check if at dealership
-    const dealerships = [
-      { x: -56.79, y: -1096.85, z: 25.42, radius: 20.0 }, // PDM
-      { x: -1255.6, y: -361.16, z: 36.91, radius: 20.0 }, // Simeon's
-    ]
+    if (params.action === "decline") {
+      const offer = this.vehicleManager.declineVehicleSale(playerId)
+      if (!offer) {
+        player.outputChatBox("No tienes ninguna oferta de compra pendiente.")
+        return
+      }
 
-    const playerPos = player.position
-    const nearDealership = dealerships.some((dealer) => this.getDistance(playerPos, dealer) <= dealer.radius)
+      player.outputChatBox("Has rechazado la oferta.")
+      this.findCharacter(offer.sellerId)?.outputChatBox(`${player.name} ha rechazado tu oferta de venta.`)
+      return
+    }
 
-    if (!nearDealership) {
-      player.outputChatBox("Debes estar en un concesionario para vender tu vehículo.")
+    if (params.action === "cancel") {
+      const offer = this.vehicleManager.cancelVehicleSale(playerId)
+      if (!offer) {
+        player.outputChatBox("No has hecho ninguna oferta de venta.")
+        return
+      }
+
+      player.outputChatBox("Has cancelado tu oferta de venta.")
+      this.findCharacter(offer.buyerId)?.outputChatBox(`${player.name} ha cancelado su oferta de venta.`)
       return
     }
 
-    const result = await this.vehicleManager.sellVehicle(vehicleId, playerId)
+    const pending = this.vehicleManager.getSaleOffer(playerId)
+    const seller = pending && this.findCharacter(pending.sellerId)
+    if (pending && (!seller || this.getDistance(player.position, seller.position) > 5.0)) {
+      player.outputChatBox("El vendedor debe estar a tu lado para cerrar la venta.")
+      return
+    }
+
+    const result = await this.vehicleManager.acceptVehicleSale(playerId)
     player.outputChatBox(result.message)
+    if (result.success && result.offer) {
+      const vehicle = this.vehicleManager.getVehicle(result.offer.vehicleId)!
+      seller.outputChatBox(`${player.name} ha comprado tu ${vehicle.model} (${vehicle.plate}).`)
+      seller.outputChatBox(`Has recibido $${result.offer.price} en tu banco.`)
+      player.outputChatBox("El título está a tu nombre. El seguro del anterior propietario ha sido cancelado.")
+    }
+  }
+
+  private findCharacter(characterId: number): any | undefined {
+    return Array.from(this.playerManager.getConnectedPlayers().values()).find(
+      (player: any) => player.getVariable("characterId") === characterId,
+    )
   }
 
   private getNearestVehicle(player: any): any {
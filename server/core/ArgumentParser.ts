@@ -0,0 +1,233 @@
+/**
+ * Argument Parser - Converts raw command arguments into typed values using a command's parameter schema
+ */
+
+import type { CommandArgument, CommandParams } from "../types"
+
+export type ArgumentParseResult = { success: true; params: CommandParams } | { success: false; message: string }
+
+type ValueParseResult = { success: true; value: any } | { success: false; message: string }
+
+const DURATION_UNITS: { [unit: string]: number } = { m: 1, h: 60, d: 1440 }
+
+export class ArgumentParser {
+  public parse(specs: CommandArgument[], args: string[]): ArgumentParseResult {
+    const params: CommandParams = {}
+    let index = 0
+
+    for (const spec of specs) {
+      // Rest-of-line text consumes everything that is left
+      if (spec.type === "text") {
+        const rest = args.slice(index).join(" ").trim()
+        index = args.length
+
+        if (!rest) {
+          if (spec.optional) continue
+          return { success: false, message: `Missing argument <${spec.name}>.` }
+        }
+
+        if (spec.max !== undefined && rest.length > spec.max) {
+          return { success: false, message: `<${spec.name}> must be at most ${spec.max} characters.` }
+        }
+
+        params[spec.name] = rest
+        continue
+      }
+
+      const raw = args[index]
+      if (raw === undefined) {
+        if (spec.optional) continue
+        return { success: false, message: `Missing argument <${spec.name}>.` }
+      }
+      index++
+
+      const result = this.parseValue(spec, raw)
+      if (!result.success) return result
+
+      params[spec.name] = result.value
+    }
+
+    if (index < args.length) {
+      return { success: false, message: "Too many arguments." }
+    }
+
+    return { success: true, params }
+  }
+
+  public buildUsage(commandName: string, specs: CommandArgument[]): string {
+    const parts = specs.map((spec) => {
+      const label = spec.type === "text" ? `${spec.name}...` : spec.name
+      return spec.optional ? `[${label}]` : `<${label}>`
+    })
+
+    return [`/${commandName}`, ...parts].join(" ")
+  }
+
+  private parseValue(spec: CommandArgument, raw: string): ValueParseResult {
+    switch (spec.type) {
+      case "player":
+        return this.parsePlayer(raw)
+      case "integer":
+        return this.parseInteger(spec, raw)
+      case "number":
+        return this.parseNumber(spec, raw)
+      case "money":
+        return this.parseMoney(spec, raw)
+      case "duration":
+        return this.parseDurationArgument(spec, raw)
+      case "plate":
+        return this.parsePlate(spec, raw)
+      case "word":
+        return this.parseWord(spec, raw)
+      default:
+        return { success: true, value: raw }
+    }
+  }
+
+  private parsePlayer(raw: string): ValueParseResult {
+    const playerManager = global.AmericanRP.getPlayerManager()
+
+    if (/^\d+$/.test(raw)) {
+      const player = playerManager.getPlayerById(Number.parseInt(raw))
+      return player ? { success: true, value: player } : { success: false, message: `No player found with ID ${raw}.` }
+    }
+
+    const player = playerManager.getPlayerByName(raw)
+    if (player) {
+      return { success: true, value: player }
+    }
+
+    const matches = playerManager.findPlayersByName(raw)
+    if (matches.length > 1) {
+      const names = matches
+        .slice(0, 5)
+        .map((match: any) => `${match.name} (${match.id})`)
+        .join(", ")
+      return { success: false, message: `"${raw}" matches ${matches.length} players: ${names}. Be more specific.` }
+    }
+
+    return { success: false, message: `No player found matching "${raw}".` }
+  }
+
+  private parseInteger(spec: CommandArgument, raw: string): ValueParseResult {
+    if (!/^-?\d+$/.test(raw)) {
+      return { success: false, message: `<${spec.name}> must be a whole number.` }
+    }
+
+    return this.checkRange(spec, Number.parseInt(raw))
+  }
+
+  private parseNumber(spec: CommandArgument, raw: string): ValueParseResult {
+    const value = Number(raw)
+    if (raw.trim() === "" || !Number.isFinite(value)) {
+      return { success: false, message: `<${spec.name}> must be a number.` }
+    }
+
+    return this.checkRange(spec, value)
+  }
+
+  private parseMoney(spec: CommandArgument, raw: string): ValueParseResult {
+    const value = parseMoney(raw)
+    if (value === null || value <= 0) {
+      return { success: false, message: `<${spec.name}> must be a money amount such as 1500, $2,500 or 2.5k.` }
+    }
+
+    return this.checkRange(spec, value, (amount) => `$${amount.toLocaleString()}`)
+  }
+
+  private parseDurationArgument(spec: CommandArgument, raw: string): ValueParseResult {
+    const minutes = parseDuration(raw, spec.unit)
+    if (minutes === null) {
+      return { success: false, message: `<${spec.name}> must be a duration such as 30m, 2h, 1d or perm.` }
+    }
+
+    return this.checkRange(spec, minutes, formatDuration)
+  }
+
+  private parsePlate(spec: CommandArgument, raw: string): ValueParseResult {
+    const plate = raw.toUpperCase()
+    if (!/^[A-Z0-9]{2,8}$/.test(plate)) {
+      return { success: false, message: `<${spec.name}> must be a license plate of 2-8 letters or digits.` }
+    }
+
+    return { success: true, value: plate }
+  }
+
+  private parseWord(spec: CommandArgument, raw: string): ValueParseResult {
+    if (spec.choices) {
+      const choice = spec.choices.find((option) => option.toLowerCase() === raw.toLowerCase())
+      if (!choice) {
+        return { success: false, message: `<${spec.name}> must be one of: ${spec.choices.join(", ")}.` }
+      }
+      return { success: true, value: choice }
+    }
+
+    if (spec.max !== undefined && raw.length > spec.max) {
+      return { success: false, message: `<${spec.name}> must be at most ${spec.max} characters.` }
+    }
+
+    return { success: true, value: raw }
+  }
+
+  private checkRange(
+    spec: CommandArgument,
+    value: number,
+    format: (value: number) => string = (n) => n.toString(),
+  ): ValueParseResult {
+    if (spec.min !== undefined && value < spec.min) {
+      return { success: false, message: `<${spec.name}> must be at least ${format(spec.min)}.` }
+    }
+
+    if (spec.max !== undefined && value > spec.max) {
+      return { success: false, message: `<${spec.name}> must be at most ${format(spec.max)}.` }
+    }
+
+    return { success: true, value }
+  }
+}
+
+/**
+ * Parses amounts like "1500", "$2,500.50", "2.5k" or "1m". Returns null when the input is not a money amount.
+ */
+export function parseMoney(raw: string): number | null {
+  const match = /^\$?((?:\d{1,3}(?:,\d{3})+)|\d+)(\.\d{1,2})?([km])?$/i.exec(raw.trim())
+  if (!match) return null
+
+  const base = Number.parseFloat(match[1].replace(/,/g, "") + (match[2] || ""))
+  const multiplier = match[3] ? (match[3].toLowerCase() === "k" ? 1000 : 1000000) : 1
+
+  return Math.round(base * multiplier * 100) / 100
+}
+
+/**
+ * Parses durations like "30m", "2h", "1d12h" or "perm" into minutes. Permanent durations are returned as 0 and
+ * bare numbers use the given default unit.
+ */
+export function parseDuration(raw: string, defaultUnit: "m" | "h" | "d" = "m"): number | null {
+  const input = raw.trim().toLowerCase()
+
+  if (input === "perm" || input === "permanent") return 0
+
+  if (/^\d+$/.test(input)) {
+    return Number.parseInt(input) * DURATION_UNITS[defaultUnit]
+  }
+
+  if (!/^(\d+[mhd])+$/.test(input)) return null
+
+  let minutes = 0
+  for (const [, amount, unit] of input.matchAll(/(\d+)([mhd])/g)) {
+    minutes += Number.parseInt(amount) * DURATION_UNITS[unit]
+  }
+
+  return minutes
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes === 0) return "permanent"
+
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  const mins = Math.round(minutes % 60)
+
+  return [days ? `${days}d` : "", hours ? `${hours}h` : "", mins ? `${mins}m` : ""].filter(Boolean).join(" ")
+}
@@ -0,0 +1,175 @@
+/**
+ * Command Manager - Central registry and dispatcher for player chat commands
+ */
+
+import type { EventManager } from "./EventManager"
+import { ArgumentParser } from "./ArgumentParser"
+import { Logger } from "../utils/Logger"
+import type { Command, CommandParams } from "../types"
+
+export class CommandManager {
+  private eventManager: EventManager
+  private logger: Logger
+  private argumentParser: ArgumentParser = new ArgumentParser()
+  private commands: Map<string, Command> = new Map()
+  private aliases: Map<string, string> = new Map()
+
+  constructor(eventManager: EventManager) {
+    this.eventManager = eventManager
+    this.logger = new Logger("CommandManager")
+
+    this.registerHelpCommand()
+  }
+
+  public register(command: Command): void {
+    const name = command.name.toLowerCase()
+
+    if (this.commands.has(name) || this.aliases.has(name)) {
+      this.logger.warn(`Command /${name} is already registered, skipping`)
+      return
+    }
+
+    this.commands.set(name, command)
+
+    for (const alias of command.aliases || []) {
+      const key = alias.toLowerCase()
+      if (this.commands.has(key) || this.aliases.has(key)) {
+        this.logger.warn(`Alias /${key} for /${name} conflicts with an existing command, skipping`)
+        continue
+      }
+      this.aliases.set(key, name)
+    }
+
+    this.logger.debug(`Registered command: /${name}`)
+  }
+
+  public registerMany(commands: Command[]): void {
+    for (const command of commands) {
+      this.register(command)
+    }
+  }
+
+  public getCommand(name: string): Command | undefined {
+    const key = name.replace(/^\//, "").toLowerCase()
+    const resolved = this.aliases.get(key) || key
+    return this.commands.get(resolved)
+  }
+
+  public async handle(player: any, fullCommand: string): Promise<void> {
+    const parts = fullCommand.trim().split(/\s+/)
+    const name = parts[0] || ""
+    const args = parts.slice(1)
+
+    const command = this.getCommand(name)
+    if (!command) {
+      global.AmericanRP.getChatManager().sendErrorMessage(player, "Unknown command. Use /help for available commands.")
+      return
+    }
+
+    if (!this.canUse(player, command)) {
+      global.AmericanRP.getChatManager().sendErrorMessage(player, "You don't have permission to use this command.")
+      return
+    }
+
+    // Staff commands stay available so admins can still act while downed
+    const downed = global.AmericanRP.getInjuryManager().isDowned(player)
+    if (downed && command.adminLevel === 0 && !command.allowWhileDowned) {
+      global.AmericanRP.getChatManager().sendErrorMessage(player, "You can't do that while you are down.")
+      return
+    }
+
+    let params: CommandParams = {}
+    if (command.params) {
+      const result = this.argumentParser.parse(command.params, args)
+      if (!result.success) {
+        global.AmericanRP.getChatManager().sendErrorMessage(player, `${result.message} Usage: ${this.getUsage(command)}`)
+        return
+      }
+      params = result.params
+    }
+
+    try {
+      await command.execute(player, args, params)
+      this.eventManager.emit("command:executed", player, command.name, args)
+    } catch (error) {
+      this.logger.error(`Error executing command /${command.name}:`, error)
+      global.AmericanRP.getChatManager().sendErrorMessage(player, "An error occurred while executing the command.")
+    }
+  }
+
+  public canUse(player: any, command: Command): boolean {
+    return this.getAdminLevel(player) >= command.adminLevel
+  }
+
+  public getAvailableCommands(player: any): Command[] {
+    return Array.from(this.commands.values())
+      .filter((command) => this.canUse(player, command))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  public getUsage(command: Command): string {
+    if (command.usage) return command.usage
+    return this.argumentParser.buildUsage(command.name, command.params || [])
+  }
+
+  private getAdminLevel(player: any): number {
+    const characterId = player.characterData?.id
+    const staffLevel = characterId ? global.AmericanRP.getAdminManager().getAdminLevel(characterId) : 0
+    return Math.max(player.adminLevel || 0, staffLevel)
+  }
+
+  private registerHelpCommand(): void {
+    this.register({
+      name: "help",
+      aliases: ["commands"],
+      description: "List available commands or show details for one command",
+      params: [{ name: "command", type: "word", optional: true }],
+      adminLevel: 0,
+      category: "General",
+      allowWhileDowned: true,
+      execute: (player, _args, params) => this.showHelp(player, params.command),
+    })
+  }
+
+  private showHelp(player: any, commandName?: string): void {
+    const chatManager = global.AmericanRP.getChatManager()
+
+    if (commandName) {
+      const command = this.getCommand(commandName)
+      if (!command || !this.canUse(player, command)) {
+        chatManager.sendErrorMessage(player, `No command named /${commandName.replace(/^\//, "")} is available to you.`)
+        return
+      }
+
+      let message = `=== /${command.name} ===\n`
+      message += `${command.description}\n`
+      message += `Usage: ${this.getUsage(command)}\n`
+      if (command.aliases && command.aliases.length > 0) {
+        message += `Aliases: ${command.aliases.map((alias) => `/${alias}`).join(", ")}\n`
+      }
+      if (command.adminLevel > 0) {
+        message += `Admin level: ${command.adminLevel}\n`
+      }
+
+      chatManager.sendInfoMessage(player, message)
+      return
+    }
+
+    const byCategory: Map<string, Command[]> = new Map()
+    for (const command of this.getAvailableCommands(player)) {
+      const category = command.category || "General"
+      if (!byCategory.has(category)) {
+        byCategory.set(category, [])
+      }
+      byCategory.get(category)!.push(command)
+    }
+
+    let message = "=== Available Commands ===\n"
+    for (const [category, commands] of Array.from(byCategory.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      message += `${category}: ${commands.map((command) => `/${command.name}`).join(", ")}\n`
+    }
+    message += "Use /help [command] for details."
+
+    chatManager.sendInfoMessage(player, message)
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Migration Runner - Applies versioned schema migrations in order and records them in schema_migrations
+ */
+
+import type { Database } from "./database"
+import { Logger } from "../utils/Logger"
+import { migrations as registeredMigrations } from "../migrations"
+
+export interface MigrationContext {
+  query: (sql: string, params?: any[]) => Promise<any>
+  hasTable: (table: string) => Promise<boolean>
+  hasColumn: (table: string, column: string) => Promise<boolean>
+}
+
+export interface Migration {
+  version: number
+  name: string
+  up: (context: MigrationContext) => Promise<void>
+  down: (context: MigrationContext) => Promise<void>
+}
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  applied_at: Date | null
+}
+
+export class MigrationRunner {
+  private database: Database
+  private logger: Logger
+  private migrations: Migration[]
+
+  constructor(database: Database, migrations: Migration[] = registeredMigrations) {
+    this.database = database
+    this.logger = new Logger("MigrationRunner")
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version)
+
+    this.validateMigrations()
+  }
+
+  /**
+   * Applies every pending migration in version order. Returns the number of migrations applied.
+   */
+  public async migrate(): Promise<number> {
+    await this.ensureMigrationsTable()
+
+    const applied = await this.getAppliedVersions()
+    const pending = this.migrations.filter((migration) => !applied.has(migration.version))
+
+    if (pending.length === 0) {
+      this.logger.info("Database schema is up to date")
+      return 0
+    }
+
+    const context = this.createContext()
+    for (const migration of pending) {
+      this.logger.info(`Applying migration ${this.describe(migration)}...`)
+
+      try {
+        await migration.up(context)
+        await this.database.query("INSERT INTO schema_migrations (version, name) VALUES (?, ?)", [
+          migration.version,
+          migration.name,
+        ])
+      } catch (error) {
+        this.logger.error(`Migration ${this.describe(migration)} failed:`, error)
+        throw error
+      }
+    }
+
+    this.logger.success(`Applied ${pending.length} migration(s)`)
+    return pending.length
+  }
+
+  /**
+   * Reverts the most recently applied migrations. Returns the number of migrations reverted.
+   */
+  public async rollback(steps = 1): Promise<number> {
+    await this.ensureMigrationsTable()
+
+    const applied = await this.getAppliedVersions()
+    const toRevert = this.migrations
+      .filter((migration) => applied.has(migration.version))
+      .reverse()
+      .slice(0, steps)
+
+    const context = this.createContext()
+    for (const migration of toRevert) {
+      this.logger.info(`Reverting migration ${this.describe(migration)}...`)
+
+      try {
+        await migration.down(context)
+        await this.database.query("DELETE FROM schema_migrations WHERE version = ?", [migration.version])
+      } catch (error) {
+        this.logger.error(`Rollback of ${this.describe(migration)} failed:`, error)
+        throw error
+      }
+    }
+
+    this.logger.success(`Reverted ${toRevert.length} migration(s)`)
+    return toRevert.length
+  }
+
+  public async getStatus(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable()
+
+    const rows = await this.database.query("SELECT version, applied_at FROM schema_migrations")
+    const appliedAt = new Map<number, Date>(rows.map((row: any) => [row.version, row.applied_at]))
+
+    return this.migrations.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: appliedAt.get(migration.version) || null,
+    }))
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.database.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INT PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+  }
+
+  private async getAppliedVersions(): Promise<Set<number>> {
+    const rows = await this.database.query("SELECT version FROM schema_migrations")
+    return new Set(rows.map((row: any) => row.version))
+  }
+
+  private createContext(): MigrationContext {
+    return {
+      query: (sql, params = []) => this.database.query(sql, params),
+      hasTable: async (table) => {
+        const rows = await this.database.query(
+          "SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?",
+          [table],
+        )
+        return rows.length > 0
+      },
+      hasColumn: async (table, column) => {
+        const rows = await this.database.query(
+          "SELECT 1 FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?",
+          [table, column],
+        )
+        return rows.length > 0
+      },
+    }
+  }
+
+  private validateMigrations(): void {
+    const versions = new Set<number>()
+    for (const migration of this.migrations) {
+      if (versions.has(migration.version)) {
+        throw new Error(`Duplicate migration version ${migration.version}`)
+      }
+      versions.add(migration.version)
+    }
+  }
+
+  private describe(migration: Migration): string {
+    return `${String(migration.version).padStart(3, "0")}_${migration.name}`
+  }
+}
@@ -19,6 +19,7 @@ export class Database {
   private pool: mysql.Pool
   private logger: Logger
   private config: DatabaseConfig
+  private commitCallbacks: WeakMap<mysql.PoolConnection, (() => void)[]> = new WeakMap()
 
   constructor() {
     this.logger = new Logger("Database")
@@ -32,7 +33,6 @@ export class Database {
     }
 
     this.initializeConnection()
-    this.createTables()
   }
 
   private initializeConnection(): void {
@@ -58,136 +58,6 @@ export class Database {
     }
   }
 
-  private async createTables(): Promise<void> {
-    const tables = [
-      // Users table
-      `CREATE TABLE IF NOT EXISTS users (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        username VARCHAR(50) UNIQUE NOT NULL,
-        password_hash VARCHAR(255) NOT NULL,
-        email VARCHAR(100) UNIQUE NOT NULL,
-        registration_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        last_login TIMESTAMP NULL,
-        admin_level INT DEFAULT 0,
-        banned BOOLEAN DEFAULT FALSE,
-        ban_reason TEXT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )`,
-
-      // Characters table
-      `CREATE TABLE IF NOT EXISTS characters (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        user_id INT NOT NULL,
-        first_name VARCHAR(50) NOT NULL,
-        last_name VARCHAR(50) NOT NULL,
-        age INT NOT NULL,
-        gender ENUM('Male', 'Female') NOT NULL,
-        phone_number VARCHAR(20) UNIQUE,
-        money DECIMAL(15,2) DEFAULT 5000.00,
-        bank_money DECIMAL(15,2) DEFAULT 0.00,
-        job_id INT NULL,
-        faction_id INT NULL,
-        faction_rank INT DEFAULT 0,
-        position_x FLOAT DEFAULT 0,
-        position_y FLOAT DEFAULT 0,
-        position_z FLOAT DEFAULT 0,
-        dimension INT DEFAULT 0,
-        health INT DEFAULT 100,
-        armor INT DEFAULT 0,
-        hunger INT DEFAULT 100,
-        thirst INT DEFAULT 100,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      )`,
-
-      // Jobs table
-      `CREATE TABLE IF NOT EXISTS jobs (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        description TEXT,
-        salary_per_hour DECIMAL(10,2) DEFAULT 0,
-        required_level INT DEFAULT 1,
-        max_employees INT DEFAULT -1,
-        is_government BOOLEAN DEFAULT FALSE,
-        spawn_x FLOAT DEFAULT 0,
-        spawn_y FLOAT DEFAULT 0,
-        spawn_z FLOAT DEFAULT 0,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )`,
-
-      // Factions table
-      `CREATE TABLE IF NOT EXISTS factions (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        tag VARCHAR(10) NOT NULL,
-        type ENUM('Gang', 'Mafia', 'Government', 'Business', 'Other') NOT NULL,
-        leader_id INT NULL,
-        max_members INT DEFAULT 50,
-        money DECIMAL(15,2) DEFAULT 0,
-        spawn_x FLOAT DEFAULT 0,
-        spawn_y FLOAT DEFAULT 0,
-        spawn_z FLOAT DEFAULT 0,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (leader_id) REFERENCES characters(id) ON DELETE SET NULL
-      )`,
-
-      // Properties table
-      `CREATE TABLE IF NOT EXISTS properties (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        type ENUM('House', 'Business', 'Garage', 'Warehouse') NOT NULL,
-        owner_id INT NULL,
-        price DECIMAL(15,2) NOT NULL,
-        rent_price DECIMAL(10,2) DEFAULT 0,
-        entrance_x FLOAT NOT NULL,
-        entrance_y FLOAT NOT NULL,
-        entrance_z FLOAT NOT NULL,
-        exit_x FLOAT DEFAULT 0,
-        exit_y FLOAT DEFAULT 0,
-        exit_z FLOAT DEFAULT 0,
-        interior_id INT DEFAULT 0,
-        locked BOOLEAN DEFAULT TRUE,
-        for_sale BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (owner_id) REFERENCES characters(id) ON DELETE SET NULL
-      )`,
-
-      // Vehicles table
-      `CREATE TABLE IF NOT EXISTS vehicles (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        owner_id INT NULL,
-        model VARCHAR(50) NOT NULL,
-        plate VARCHAR(10) UNIQUE NOT NULL,
-        color1 INT DEFAULT 0,
-        color2 INT DEFAULT 0,
-        position_x FLOAT DEFAULT 0,
-        position_y FLOAT DEFAULT 0,
-        position_z FLOAT DEFAULT 0,
-        rotation FLOAT DEFAULT 0,
-        dimension INT DEFAULT 0,
-        fuel FLOAT DEFAULT 100,
-        engine_health FLOAT DEFAULT 1000,
-        body_health FLOAT DEFAULT 1000,
-        locked BOOLEAN DEFAULT TRUE,
-        impounded BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (owner_id) REFERENCES characters(id) ON DELETE SET NULL
-      )`,
-    ]
-
-    try {
-      for (const table of tables) {
-        await this.query(table)
-      }
-      this.logger.success("All database tables created/verified successfully")
-    } catch (error) {
-      this.logger.error("Failed to create database tables:", error)
-      throw error
-    }
-  }
-
   public async query(sql: string, params: any[] = []): Promise<any> {
     try {
       const [results] = await this.pool.execute(sql, params)
@@ -204,6 +74,53 @@ export class Database {
     return await this.pool.getConnection()
   }
 
+  /**
+   * Runs fn inside a transaction on a dedicated connection. Commits when fn resolves and rolls back when it throws.
+   */
+  public async transaction<T>(fn: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+    const connection = await this.getConnection()
+    const callbacks: (() => void)[] = []
+
+    try {
+      await connection.beginTransaction()
+      this.commitCallbacks.set(connection, callbacks)
+      const result = await fn(connection)
+      await connection.commit()
+      this.commitCallbacks.delete(connection)
+      this.runCommitCallbacks(callbacks)
+      return result
+    } catch (error) {
+      this.commitCallbacks.delete(connection)
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+  }
+
+  /**
+   * Defers fn until the transaction running on connection commits, and drops it if the transaction rolls back, so
+   * in-memory state only follows writes that were kept. Outside a transaction fn runs right away.
+   */
+  public afterCommit(connection: mysql.PoolConnection, fn: () => void): void {
+    const callbacks = this.commitCallbacks.get(connection)
+    if (callbacks) {
+      callbacks.push(fn)
+    } else {
+      fn()
+    }
+  }
+
+  private runCommitCallbacks(callbacks: (() => void)[]): void {
+    for (const callback of callbacks) {
+      try {
+        callback()
+      } catch (error) {
+        this.logger.error("Error running commit callback:", error)
+      }
+    }
+  }
+
   public async close(): Promise<void> {
     await this.pool.end()
     this.logger.info("Database connection pool closed")
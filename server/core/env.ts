@@ -0,0 +1,11 @@
+/**
+ * Environment helpers - Reads the numeric settings each server can tune through its environment
+ */
+
+/**
+ * Reads a non-negative number from the environment, falling back to the default when it is unset or invalid
+ */
+export function envNumber(name: string, fallback: number): number {
+  const value = Number.parseFloat(process.env[name] ?? "")
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
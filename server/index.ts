@@ -4,14 +4,35 @@
  */
 
 import { Database } from "./core/database"
+import { MigrationRunner } from "./core/MigrationRunner"
 import { PlayerManager } from "./systems/player/PlayerManager"
 import { JobManager } from "./systems/jobs/JobManager"
 import { FactionManager } from "./systems/factions/FactionManager"
 import { PropertyManager } from "./systems/properties/PropertyManager"
 import { VehicleManager } from "./systems/vehicles/VehicleManager"
+import { DealershipManager } from "./systems/vehicles/DealershipManager"
 import { AdminManager } from "./systems/admin/AdminManager"
+import { EconomyManager } from "./systems/economy/EconomyManager"
+import { LoanManager } from "./systems/economy/LoanManager"
+import { TaxPolicyManager } from "./systems/economy/TaxPolicyManager"
+import { InventoryManager } from "./systems/inventory/InventoryManager"
+import { NeedsManager } from "./systems/needs/NeedsManager"
+import { InjuryManager } from "./systems/medical/InjuryManager"
+import { MdcManager } from "./systems/police/MdcManager"
+import { DetentionManager } from "./systems/police/DetentionManager"
+import { CourtManager } from "./systems/courts/CourtManager"
+import { PhoneManager } from "./systems/phone/PhoneManager"
+import { DispatchManager } from "./systems/dispatch/DispatchManager"
+import { TaxiManager } from "./systems/taxi/TaxiManager"
+import { LogisticsManager } from "./systems/logistics/LogisticsManager"
+import { MechanicManager } from "./systems/mechanic/MechanicManager"
+import { FuelManager } from "./systems/fuel/FuelManager"
+import { InsuranceManager } from "./systems/insurance/InsuranceManager"
 import { ChatManager } from "./systems/chat/ChatManager"
 import { EventManager } from "./core/EventManager"
+import { CommandManager } from "./core/CommandManager"
+import { AdminCommands } from "./commands/admin"
+import { VehicleCommands } from "./commands/vehicle"
 import { Logger } from "./utils/Logger"
 
 declare const mp: any
@@ -23,9 +44,29 @@ class AmericanRoleplayServer {
   private factionManager: FactionManager
   private propertyManager: PropertyManager
   private vehicleManager: VehicleManager
+  private dealershipManager: DealershipManager
   private adminManager: AdminManager
+  private economyManager: EconomyManager
+  private loanManager: LoanManager
+  private taxPolicyManager: TaxPolicyManager
+  private inventoryManager: InventoryManager
+  private needsManager: NeedsManager
+  private injuryManager: InjuryManager
+  private mdcManager: MdcManager
+  private detentionManager: DetentionManager
+  private courtManager: CourtManager
+  private phoneManager: PhoneManager
+  private dispatchManager: DispatchManager
+  private taxiManager: TaxiManager
+  private logisticsManager: LogisticsManager
+  private mechanicManager: MechanicManager
+  private fuelManager: FuelManager
+  private insuranceManager: InsuranceManager
   private chatManager: ChatManager
   private eventManager: EventManager
+  private commandManager: CommandManager
+  private adminCommands: AdminCommands
+  private vehicleCommands: VehicleCommands
   private logger: Logger
 
   constructor() {
@@ -33,7 +74,17 @@ class AmericanRoleplayServer {
     this.logger.info("Initializing American Roleplay Server...")
 
     this.initializeCore()
+    this.start().catch((error) => {
+      this.logger.error("Failed to start American Roleplay Server:", error)
+    })
+  }
+
+  private async start(): Promise<void> {
+    // Systems load their data on construction, so the schema must be current first
+    await new MigrationRunner(this.database).migrate()
+
     this.initializeSystems()
+    this.registerCommands()
     this.registerEvents()
 
     this.logger.success("American Roleplay Server initialized successfully!")
@@ -42,18 +93,65 @@ class AmericanRoleplayServer {
   private initializeCore(): void {
     this.database = new Database()
     this.eventManager = new EventManager()
+    this.commandManager = new CommandManager(this.eventManager)
   }
 
   private initializeSystems(): void {
     this.playerManager = new PlayerManager(this.database, this.eventManager)
+    this.economyManager = new EconomyManager(this.database, this.eventManager)
+    this.loanManager = new LoanManager(this.database, this.eventManager)
+    this.taxPolicyManager = new TaxPolicyManager(this.database, this.eventManager)
     this.jobManager = new JobManager(this.database, this.eventManager)
     this.factionManager = new FactionManager(this.database, this.eventManager)
     this.propertyManager = new PropertyManager(this.database, this.eventManager)
     this.vehicleManager = new VehicleManager(this.database, this.eventManager)
+    this.dealershipManager = new DealershipManager(this.database, this.eventManager)
     this.adminManager = new AdminManager(this.database, this.eventManager)
+    this.inventoryManager = new InventoryManager(this.database, this.eventManager)
+    this.needsManager = new NeedsManager(this.database, this.eventManager)
+    this.injuryManager = new InjuryManager(this.database, this.eventManager)
+    this.mdcManager = new MdcManager(this.database, this.eventManager)
+    this.detentionManager = new DetentionManager(this.database, this.eventManager)
+    this.courtManager = new CourtManager(this.database, this.eventManager)
+    this.phoneManager = new PhoneManager(this.database, this.eventManager)
+    this.dispatchManager = new DispatchManager(this.database, this.eventManager)
+    this.taxiManager = new TaxiManager(this.database, this.eventManager)
+    this.logisticsManager = new LogisticsManager(this.database, this.eventManager)
+    this.mechanicManager = new MechanicManager(this.database, this.eventManager)
+    this.fuelManager = new FuelManager(this.database, this.eventManager)
+    this.insuranceManager = new InsuranceManager(this.database, this.eventManager)
     this.chatManager = new ChatManager(this.eventManager)
   }
 
+  private registerCommands(): void {
+    this.jobManager.registerCommands(this.commandManager)
+    this.factionManager.registerCommands(this.commandManager)
+    this.propertyManager.registerCommands(this.commandManager)
+    this.loanManager.registerCommands(this.commandManager)
+    this.taxPolicyManager.registerCommands(this.commandManager)
+    this.inventoryManager.registerCommands(this.commandManager)
+    this.needsManager.registerCommands(this.commandManager)
+    this.injuryManager.registerCommands(this.commandManager)
+    this.mdcManager.registerCommands(this.commandManager)
+    this.detentionManager.registerCommands(this.commandManager)
+    this.courtManager.registerCommands(this.commandManager)
+    this.phoneManager.registerCommands(this.commandManager)
+    this.dispatchManager.registerCommands(this.commandManager)
+    this.taxiManager.registerCommands(this.commandManager)
+    this.logisticsManager.registerCommands(this.commandManager)
+    this.mechanicManager.registerCommands(this.commandManager)
+    this.fuelManager.registerCommands(this.commandManager)
+    this.dealershipManager.registerCommands(this.commandManager)
+    this.insuranceManager.registerCommands(this.commandManager)
+    this.adminCommands = new AdminCommands(this.adminManager, this.commandManager)
+    this.vehicleCommands = new VehicleCommands(
+      this.database,
+      this.vehicleManager,
+      this.playerManager,
+      this.commandManager,
+    )
+  }
+
   private registerEvents(): void {
     // Player connection events
     mp.events.add("playerJoin", (player: PlayerMp) => {
@@ -68,6 +166,18 @@ class AmericanRoleplayServer {
       this.playerManager.onPlayerReady(player)
     })
 
+    mp.events.add("playerDeath", (player: PlayerMp, reason: number, killer?: PlayerMp) => {
+      this.injuryManager.onPlayerDeath(player, reason, killer)
+    })
+
+    mp.events.add("playerEnterVehicle", (player: PlayerMp) => {
+      this.injuryManager.onPlayerEnterVehicle(player)
+    })
+
+    mp.events.add("vehicleDeath", (vehicle: any) => {
+      this.insuranceManager.onVehicleDeath(vehicle)
+    })
+
     // Chat events
     mp.events.add("playerChat", (player: PlayerMp, message: string) => {
       this.chatManager.handlePlayerChat(player, message)
@@ -75,31 +185,10 @@ class AmericanRoleplayServer {
 
     // Command events
     mp.events.add("playerCommand", (player: PlayerMp, command: string) => {
-      this.handlePlayerCommand(player, command)
+      this.commandManager.handle(player, command)
     })
   }
 
-  private handlePlayerCommand(player: PlayerMp, fullCommand: string): void {
-    const args = fullCommand.split(" ")
-    const command = args[0].toLowerCase()
-    const params = args.slice(1)
-
-    // Route commands to appropriate managers
-    if (this.adminManager.isAdminCommand(command)) {
-      this.adminManager.handleCommand(player, command, params)
-    } else if (this.jobManager.isJobCommand(command)) {
-      this.jobManager.handleCommand(player, command, params)
-    } else if (this.factionManager.isFactionCommand(command)) {
-      this.factionManager.handleCommand(player, command, params)
-    } else if (this.propertyManager.isPropertyCommand(command)) {
-      this.propertyManager.handleCommand(player, command, params)
-    } else if (this.vehicleManager.isVehicleCommand(command)) {
-      this.vehicleManager.handleCommand(player, command, params)
-    } else {
-      this.chatManager.sendErrorMessage(player, "Unknown command. Use /help for available commands.")
-    }
-  }
-
   public getPlayerManager(): PlayerManager {
     return this.playerManager
   }
@@ -115,12 +204,76 @@ class AmericanRoleplayServer {
   public getVehicleManager(): VehicleManager {
     return this.vehicleManager
   }
+  public getDealershipManager(): DealershipManager {
+    return this.dealershipManager
+  }
   public getAdminManager(): AdminManager {
     return this.adminManager
   }
+  public getEconomyManager(): EconomyManager {
+    return this.economyManager
+  }
+  public getLoanManager(): LoanManager {
+    return this.loanManager
+  }
+  public getTaxPolicyManager(): TaxPolicyManager {
+    return this.taxPolicyManager
+  }
+  public getInventoryManager(): InventoryManager {
+    return this.inventoryManager
+  }
+  public getNeedsManager(): NeedsManager {
+    return this.needsManager
+  }
+  public getInjuryManager(): InjuryManager {
+    return this.injuryManager
+  }
+  public getMdcManager(): MdcManager {
+    return this.mdcManager
+  }
+
+  public getDetentionManager(): DetentionManager {
+    return this.detentionManager
+  }
+
+  public getCourtManager(): CourtManager {
+    return this.courtManager
+  }
+
+  public getPhoneManager(): PhoneManager {
+    return this.phoneManager
+  }
+
+  public getDispatchManager(): DispatchManager {
+    return this.dispatchManager
+  }
+
+  public getTaxiManager(): TaxiManager {
+    return this.taxiManager
+  }
+
+  public getLogisticsManager(): LogisticsManager {
+    return this.logisticsManager
+  }
+
+  public getMechanicManager(): MechanicManager {
+    return this.mechanicManager
+  }
+
+  public getFuelManager(): FuelManager {
+    return this.fuelManager
+  }
+
+  public getInsuranceManager(): InsuranceManager {
+    return this.insuranceManager
+  }
+
   public getChatManager(): ChatManager {
     return this.chatManager
   }
+  public getCommandManager(): CommandManager {
+    return this.commandManager
+  }
 }
 
 // Initialize the server
@@ -139,5 +292,6 @@ declare global {
     adminLevel?: number
     jobData?: any
     factionData?: any
+    onDuty?: boolean
   }
 }
@@ -0,0 +1,372 @@
+/**
+ * 001 - Initial schema
+ * Consolidates the tables previously created by Database.createTables, the manager constructors and scripts/*.sql
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const tables: { [name: string]: string } = {
+  users: `CREATE TABLE IF NOT EXISTS users (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    username VARCHAR(50) UNIQUE NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    email VARCHAR(100) UNIQUE NOT NULL,
+    registration_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_login TIMESTAMP NULL,
+    admin_level INT DEFAULT 0,
+    banned BOOLEAN DEFAULT FALSE,
+    ban_reason TEXT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )`,
+
+  characters: `CREATE TABLE IF NOT EXISTS characters (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    first_name VARCHAR(50) NOT NULL,
+    last_name VARCHAR(50) NOT NULL,
+    age INT NOT NULL,
+    gender ENUM('Male', 'Female') NOT NULL,
+    phone_number VARCHAR(20) UNIQUE,
+    money DECIMAL(15,2) DEFAULT 5000.00,
+    bank_money DECIMAL(15,2) DEFAULT 0.00,
+    job_id INT NULL,
+    faction_id INT NULL,
+    faction_rank INT DEFAULT 0,
+    position_x FLOAT DEFAULT 0,
+    position_y FLOAT DEFAULT 0,
+    position_z FLOAT DEFAULT 0,
+    dimension INT DEFAULT 0,
+    health INT DEFAULT 100,
+    armor INT DEFAULT 0,
+    hunger INT DEFAULT 100,
+    thirst INT DEFAULT 100,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )`,
+
+  jobs: `CREATE TABLE IF NOT EXISTS jobs (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    salary_per_hour DECIMAL(10,2) DEFAULT 0,
+    required_level INT DEFAULT 1,
+    max_employees INT DEFAULT -1,
+    is_government BOOLEAN DEFAULT FALSE,
+    spawn_x FLOAT DEFAULT 0,
+    spawn_y FLOAT DEFAULT 0,
+    spawn_z FLOAT DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )`,
+
+  factions: `CREATE TABLE IF NOT EXISTS factions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    tag VARCHAR(10) NOT NULL,
+    type ENUM('Gang', 'Mafia', 'Government', 'Business', 'Other') NOT NULL,
+    leader_id INT NULL,
+    max_members INT DEFAULT 50,
+    money DECIMAL(15,2) DEFAULT 0,
+    spawn_x FLOAT DEFAULT 0,
+    spawn_y FLOAT DEFAULT 0,
+    spawn_z FLOAT DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (leader_id) REFERENCES characters(id) ON DELETE SET NULL
+  )`,
+
+  faction_ranks: `CREATE TABLE IF NOT EXISTS faction_ranks (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    faction_id INT NOT NULL,
+    name VARCHAR(50) NOT NULL,
+    level INT NOT NULL,
+    permissions JSON,
+    salary_bonus DECIMAL(10,2) DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (faction_id) REFERENCES factions(id) ON DELETE CASCADE
+  )`,
+
+  faction_invites: `CREATE TABLE IF NOT EXISTS faction_invites (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    faction_id INT NOT NULL,
+    character_id INT NOT NULL,
+    invited_by INT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    FOREIGN KEY (faction_id) REFERENCES factions(id) ON DELETE CASCADE,
+    FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (invited_by) REFERENCES characters(id) ON DELETE CASCADE,
+    INDEX idx_faction_invites_character (character_id),
+    INDEX idx_faction_invites_faction (faction_id),
+    INDEX idx_faction_invites_expires (expires_at)
+  )`,
+
+  faction_wars: `CREATE TABLE IF NOT EXISTS faction_wars (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    faction1_id INT NOT NULL,
+    faction2_id INT NOT NULL,
+    started_by INT NOT NULL,
+    start_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    end_date TIMESTAMP NULL,
+    status ENUM('active', 'ended') DEFAULT 'active',
+    reason TEXT,
+    FOREIGN KEY (faction1_id) REFERENCES factions(id) ON DELETE CASCADE,
+    FOREIGN KEY (faction2_id) REFERENCES factions(id) ON DELETE CASCADE,
+    FOREIGN KEY (started_by) REFERENCES characters(id) ON DELETE CASCADE
+  )`,
+
+  job_applications: `CREATE TABLE IF NOT EXISTS job_applications (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    character_id INT NOT NULL,
+    job_id INT NOT NULL,
+    application_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    status ENUM('pending', 'approved', 'rejected') DEFAULT 'pending',
+    reviewed_by INT NULL,
+    review_date TIMESTAMP NULL,
+    review_notes TEXT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+    FOREIGN KEY (reviewed_by) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_job_applications_status (status),
+    INDEX idx_job_applications_job (job_id)
+  )`,
+
+  properties: `CREATE TABLE IF NOT EXISTS properties (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    type ENUM('House', 'Business', 'Garage', 'Warehouse') NOT NULL,
+    owner_id INT NULL,
+    price DECIMAL(15,2) NOT NULL,
+    position JSON NOT NULL,
+    interior INT DEFAULT 0,
+    locked BOOLEAN DEFAULT TRUE,
+    for_sale BOOLEAN DEFAULT TRUE,
+    for_rent BOOLEAN DEFAULT FALSE,
+    rent_price DECIMAL(10,2) DEFAULT 0,
+    rented_by INT NULL,
+    rent_expires DATETIME NULL,
+    tax_rate DECIMAL(5,4) DEFAULT 0.0100,
+    last_tax_paid DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    deleted_at TIMESTAMP NULL,
+    FOREIGN KEY (owner_id) REFERENCES characters(id) ON DELETE SET NULL,
+    FOREIGN KEY (rented_by) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_owner (owner_id)
+  )`,
+
+  property_keys: `CREATE TABLE IF NOT EXISTS property_keys (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    property_id INT NOT NULL,
+    player_id INT NOT NULL,
+    key_type ENUM('owner', 'renter', 'spare') DEFAULT 'spare',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+    FOREIGN KEY (player_id) REFERENCES characters(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_property_player (property_id, player_id),
+    INDEX idx_player (player_id)
+  )`,
+
+  vehicles: `CREATE TABLE IF NOT EXISTS vehicles (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    owner_id INT NOT NULL,
+    model VARCHAR(50) NOT NULL,
+    plate VARCHAR(8) UNIQUE NOT NULL,
+    color_primary JSON NOT NULL,
+    color_secondary JSON NOT NULL,
+    position JSON NOT NULL,
+    rotation JSON NOT NULL,
+    fuel DECIMAL(5,2) DEFAULT 100.00,
+    engine_health DECIMAL(7,2) DEFAULT 1000.00,
+    body_health DECIMAL(7,2) DEFAULT 1000.00,
+    locked BOOLEAN DEFAULT TRUE,
+    impounded BOOLEAN DEFAULT FALSE,
+    insurance_expires DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    deleted_at TIMESTAMP NULL,
+    FOREIGN KEY (owner_id) REFERENCES characters(id) ON DELETE CASCADE,
+    INDEX idx_owner (owner_id),
+    INDEX idx_impounded (impounded)
+  )`,
+
+  vehicle_keys: `CREATE TABLE IF NOT EXISTS vehicle_keys (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    vehicle_id INT NOT NULL,
+    player_id INT NOT NULL,
+    key_type ENUM('owner', 'spare') DEFAULT 'spare',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+    FOREIGN KEY (player_id) REFERENCES characters(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_vehicle_player (vehicle_id, player_id),
+    INDEX idx_player (player_id)
+  )`,
+
+  vehicle_modifications: `CREATE TABLE IF NOT EXISTS vehicle_modifications (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    vehicle_id INT NOT NULL,
+    component INT NOT NULL,
+    value INT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_vehicle_component (vehicle_id, component)
+  )`,
+
+  vehicle_impounds: `CREATE TABLE IF NOT EXISTS vehicle_impounds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    vehicle_id INT NOT NULL,
+    reason TEXT NOT NULL,
+    impounded_by INT NOT NULL,
+    impounded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    released_at TIMESTAMP NULL,
+    released_by INT NULL,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+    FOREIGN KEY (impounded_by) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (released_by) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_vehicle (vehicle_id),
+    INDEX idx_impounded_by (impounded_by)
+  )`,
+
+  transactions: `CREATE TABLE IF NOT EXISTS transactions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    from_character_id INT NULL,
+    to_character_id INT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    type ENUM('salary', 'purchase', 'transfer', 'fine', 'bonus', 'deposit', 'withdraw') NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (from_character_id) REFERENCES characters(id) ON DELETE SET NULL,
+    FOREIGN KEY (to_character_id) REFERENCES characters(id) ON DELETE SET NULL
+  )`,
+
+  government_funds: `CREATE TABLE IF NOT EXISTS government_funds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    amount DECIMAL(15,2) DEFAULT 0,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )`,
+
+  admin_levels: `CREATE TABLE IF NOT EXISTS admin_levels (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    player_id INT NOT NULL,
+    level INT NOT NULL DEFAULT 0,
+    permissions JSON NOT NULL,
+    set_by INT NOT NULL,
+    active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (player_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (set_by) REFERENCES characters(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_player (player_id),
+    INDEX idx_level (level),
+    INDEX idx_active (active)
+  )`,
+
+  admin_logs: `CREATE TABLE IF NOT EXISTS admin_logs (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    admin_id INT NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    target_id INT NULL,
+    details TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (admin_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (target_id) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_admin (admin_id),
+    INDEX idx_action (action),
+    INDEX idx_created (created_at)
+  )`,
+
+  player_bans: `CREATE TABLE IF NOT EXISTS player_bans (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    player_id INT NOT NULL,
+    banned_by INT NOT NULL,
+    reason TEXT NOT NULL,
+    expires_at DATETIME NULL,
+    active BOOLEAN DEFAULT TRUE,
+    unbanned_by INT NULL,
+    unban_reason TEXT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    unbanned_at TIMESTAMP NULL,
+    FOREIGN KEY (player_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (banned_by) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (unbanned_by) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_player (player_id),
+    INDEX idx_active (active),
+    INDEX idx_expires (expires_at)
+  )`,
+
+  player_mutes: `CREATE TABLE IF NOT EXISTS player_mutes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    player_id INT NOT NULL,
+    muted_by INT NOT NULL,
+    reason TEXT NOT NULL,
+    expires_at DATETIME NOT NULL,
+    active BOOLEAN DEFAULT TRUE,
+    unmuted_by INT NULL,
+    unmute_reason TEXT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    unmuted_at TIMESTAMP NULL,
+    FOREIGN KEY (player_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (muted_by) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (unmuted_by) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_player (player_id),
+    INDEX idx_active (active),
+    INDEX idx_expires (expires_at)
+  )`,
+
+  player_warnings: `CREATE TABLE IF NOT EXISTS player_warnings (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    player_id INT NOT NULL,
+    warned_by INT NOT NULL,
+    reason TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (player_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (warned_by) REFERENCES characters(id) ON DELETE CASCADE,
+    INDEX idx_player (player_id),
+    INDEX idx_warned_by (warned_by),
+    INDEX idx_created (created_at)
+  )`,
+
+  player_reports: `CREATE TABLE IF NOT EXISTS player_reports (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    reporter_id INT NOT NULL,
+    reported_id INT NOT NULL,
+    reason VARCHAR(100) NOT NULL,
+    description TEXT NOT NULL,
+    status ENUM('open', 'in_progress', 'closed') DEFAULT 'open',
+    assigned_admin INT NULL,
+    resolution TEXT NULL,
+    closed_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    closed_at TIMESTAMP NULL,
+    FOREIGN KEY (reporter_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (reported_id) REFERENCES characters(id) ON DELETE CASCADE,
+    FOREIGN KEY (assigned_admin) REFERENCES characters(id) ON DELETE SET NULL,
+    FOREIGN KEY (closed_by) REFERENCES characters(id) ON DELETE SET NULL,
+    INDEX idx_reporter (reporter_id),
+    INDEX idx_reported (reported_id),
+    INDEX idx_status (status),
+    INDEX idx_assigned (assigned_admin)
+  )`,
+}
+
+export const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+
+  up: async ({ query }) => {
+    // Tables are listed in dependency order, so foreign keys always reference existing tables
+    for (const sql of Object.values(tables)) {
+      await query(sql)
+    }
+  },
+
+  down: async ({ query }) => {
+    for (const name of Object.keys(tables).reverse()) {
+      await query(`DROP TABLE IF EXISTS ${name}`)
+    }
+  },
+}
@@ -0,0 +1,107 @@
+/**
+ * 002 - Reconcile legacy layouts
+ * Databases created before migrations may hold the old Database.createTables shape of `properties` and `vehicles`,
+ * which lacks the columns PropertyManager and VehicleManager read. This converts them in place.
+ */
+
+import type { Migration, MigrationContext } from "../core/MigrationRunner"
+
+async function addColumnIfMissing(
+  context: MigrationContext,
+  table: string,
+  column: string,
+  definition: string,
+): Promise<void> {
+  if (!(await context.hasColumn(table, column))) {
+    await context.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  }
+}
+
+async function dropColumnIfPresent(context: MigrationContext, table: string, column: string): Promise<void> {
+  if (await context.hasColumn(table, column)) {
+    await context.query(`ALTER TABLE ${table} DROP COLUMN ${column}`)
+  }
+}
+
+async function reconcileProperties(context: MigrationContext): Promise<void> {
+  if (!(await context.hasColumn("properties", "entrance_x"))) return
+
+  await addColumnIfMissing(context, "properties", "position", "JSON NULL AFTER price")
+  await addColumnIfMissing(context, "properties", "interior", "INT DEFAULT 0 AFTER position")
+  await addColumnIfMissing(context, "properties", "for_rent", "BOOLEAN DEFAULT FALSE AFTER for_sale")
+  await addColumnIfMissing(context, "properties", "rented_by", "INT NULL AFTER rent_price")
+  await addColumnIfMissing(context, "properties", "rent_expires", "DATETIME NULL AFTER rented_by")
+  await addColumnIfMissing(context, "properties", "tax_rate", "DECIMAL(5,4) DEFAULT 0.0100 AFTER rent_expires")
+  await addColumnIfMissing(context, "properties", "last_tax_paid", "DATETIME NULL AFTER tax_rate")
+  await addColumnIfMissing(
+    context,
+    "properties",
+    "updated_at",
+    "TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP",
+  )
+  await addColumnIfMissing(context, "properties", "deleted_at", "TIMESTAMP NULL")
+
+  await context.query(`
+    UPDATE properties SET
+      position = JSON_OBJECT('x', entrance_x, 'y', entrance_y, 'z', entrance_z),
+      interior = interior_id,
+      for_rent = rent_price > 0
+  `)
+  await context.query("ALTER TABLE properties MODIFY position JSON NOT NULL")
+  await context.query(
+    "ALTER TABLE properties ADD CONSTRAINT fk_properties_rented_by FOREIGN KEY (rented_by) REFERENCES characters(id) ON DELETE SET NULL",
+  )
+
+  for (const column of ["entrance_x", "entrance_y", "entrance_z", "exit_x", "exit_y", "exit_z", "interior_id"]) {
+    await dropColumnIfPresent(context, "properties", column)
+  }
+}
+
+async function reconcileVehicles(context: MigrationContext): Promise<void> {
+  if (!(await context.hasColumn("vehicles", "position_x"))) return
+
+  await addColumnIfMissing(context, "vehicles", "color_primary", "JSON NULL AFTER plate")
+  await addColumnIfMissing(context, "vehicles", "color_secondary", "JSON NULL AFTER color_primary")
+  await addColumnIfMissing(context, "vehicles", "position", "JSON NULL AFTER color_secondary")
+  await addColumnIfMissing(context, "vehicles", "rotation_json", "JSON NULL AFTER position")
+  await addColumnIfMissing(context, "vehicles", "insurance_expires", "DATETIME NULL AFTER impounded")
+  await addColumnIfMissing(
+    context,
+    "vehicles",
+    "updated_at",
+    "TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP",
+  )
+  await addColumnIfMissing(context, "vehicles", "deleted_at", "TIMESTAMP NULL")
+
+  // Legacy colors were GTA palette indexes, which have no RGB equivalent, so they reset to black
+  await context.query(`
+    UPDATE vehicles SET
+      color_primary = JSON_OBJECT('r', 0, 'g', 0, 'b', 0),
+      color_secondary = JSON_OBJECT('r', 0, 'g', 0, 'b', 0),
+      position = JSON_OBJECT('x', position_x, 'y', position_y, 'z', position_z),
+      rotation_json = JSON_OBJECT('x', 0, 'y', 0, 'z', rotation)
+  `)
+
+  for (const column of ["color1", "color2", "position_x", "position_y", "position_z", "rotation", "dimension"]) {
+    await dropColumnIfPresent(context, "vehicles", column)
+  }
+
+  await context.query("ALTER TABLE vehicles CHANGE rotation_json rotation JSON NOT NULL")
+  await context.query(
+    "ALTER TABLE vehicles MODIFY color_primary JSON NOT NULL, MODIFY color_secondary JSON NOT NULL, MODIFY position JSON NOT NULL",
+  )
+}
+
+export const migration: Migration = {
+  version: 2,
+  name: "reconcile_legacy_layouts",
+
+  up: async (context) => {
+    await reconcileProperties(context)
+    await reconcileVehicles(context)
+  },
+
+  down: async () => {
+    // The legacy layouts are not restored: 001 already defines the current shape for fresh databases
+  },
+}
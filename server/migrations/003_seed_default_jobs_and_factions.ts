@@ -0,0 +1,158 @@
+/**
+ * 003 - Default jobs and factions
+ * Seeds the data previously inserted by scripts/create_default_jobs.sql and scripts/create_default_factions.sql.
+ * Databases that were already seeded by those scripts are left untouched.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const DEFAULT_JOBS = `
+  INSERT INTO jobs (name, description, salary_per_hour, required_level, max_employees, is_government, spawn_x, spawn_y, spawn_z) VALUES
+    ('Police Officer', 'Protect and serve the citizens of Los Santos', 150, 5, 20, TRUE, 425.1, -979.5, 30.7),
+    ('Sheriff Deputy', 'Law enforcement for Blaine County', 140, 4, 15, TRUE, 1853.2, 3686.0, 34.3),
+    ('Paramedic', 'Emergency medical services', 130, 3, 12, TRUE, 338.5, -1394.5, 32.5),
+    ('Firefighter', 'Fire suppression and rescue operations', 135, 3, 10, TRUE, 216.0, -1644.0, 29.8),
+    ('Judge', 'Preside over court proceedings', 300, 15, 3, TRUE, -544.7, -204.2, 38.2),
+    ('District Attorney', 'Prosecute criminal cases', 250, 12, 2, TRUE, -544.7, -204.2, 38.2),
+    ('Public Defender', 'Defend citizens in court', 200, 10, 3, TRUE, -544.7, -204.2, 38.2),
+    ('Mayor', 'Lead the city government', 500, 20, 1, TRUE, -544.7, -204.2, 38.2),
+    ('Taxi Driver', 'Transport passengers around the city', 80, 1, -1, FALSE, 895.4, -179.3, 74.7),
+    ('Bus Driver', 'Public transportation services', 85, 2, 8, FALSE, 453.3, -602.3, 28.6),
+    ('Mechanic', 'Repair and maintain vehicles', 100, 3, 15, FALSE, -347.3, -133.2, 39.0),
+    ('Trucker', 'Long-distance cargo transportation', 120, 4, -1, FALSE, 1240.5, -3257.0, 5.9),
+    ('Delivery Driver', 'Package and food delivery services', 75, 1, -1, FALSE, -425.5, -2789.5, 6.0),
+    ('Store Clerk', 'Work in retail establishments', 60, 1, -1, FALSE, 373.9, 328.1, 103.6),
+    ('Security Guard', 'Private security services', 90, 2, -1, FALSE, -141.3, -620.9, 168.8),
+    ('Construction Worker', 'Building and infrastructure development', 95, 2, -1, FALSE, -598.3, -1735.8, 22.4),
+    ('Garbage Collector', 'Waste management services', 85, 1, 10, FALSE, -354.0, -1513.9, 27.7),
+    ('Fisherman', 'Commercial fishing operations', 70, 1, -1, FALSE, -1816.9, -1193.5, 14.3),
+    ('News Reporter', 'Broadcast news and events', 110, 5, 8, FALSE, -598.9, -930.9, 23.9),
+    ('DJ/Radio Host', 'Entertainment broadcasting', 95, 3, 6, FALSE, -598.9, -930.9, 23.9),
+    ('Bartender', 'Serve drinks and manage bars', 70, 2, -1, FALSE, -565.9, 276.6, 83.1),
+    ('Chef', 'Prepare food in restaurants', 85, 3, -1, FALSE, -1193.9, -768.0, 17.3),
+    ('Real Estate Agent', 'Property sales and rentals', 150, 8, 12, FALSE, -716.9, 261.3, 84.1),
+    ('Lawyer', 'Legal representation services', 200, 10, -1, FALSE, -544.7, -204.2, 38.2),
+    ('Bank Teller', 'Banking and financial services', 90, 4, 8, FALSE, 150.3, -1040.5, 29.4),
+    ('Insurance Agent', 'Insurance sales and claims', 105, 6, 10, FALSE, -1368.9, -503.7, 33.2),
+    ('Pilot', 'Aircraft transportation services', 200, 12, 6, FALSE, -1336.1, -3044.3, 13.9),
+    ('Boat Captain', 'Maritime transportation', 130, 8, 4, FALSE, -1816.9, -1193.5, 14.3),
+    ('Tow Truck Driver', 'Vehicle recovery services', 110, 5, 8, FALSE, 408.9, -1625.1, 29.3),
+    ('Locksmith', 'Lock and security services', 120, 6, 5, FALSE, -347.3, -133.2, 39.0),
+    ('Photographer', 'Professional photography services', 80, 3, -1, FALSE, -598.9, -930.9, 23.9),
+    ('Personal Trainer', 'Fitness and health services', 75, 2, -1, FALSE, -1201.2, -1570.1, 4.6)
+`
+
+const DEFAULT_FACTIONS = `
+  INSERT INTO factions (name, tag, type, max_members, money, spawn_x, spawn_y, spawn_z) VALUES
+    ('Los Santos Police Department', 'LSPD', 'Government', 50, 100000, 425.1, -979.5, 30.7),
+    ('Blaine County Sheriff Office', 'BCSO', 'Government', 30, 75000, 1853.2, 3686.0, 34.3),
+    ('San Andreas Fire Department', 'SAFD', 'Government', 25, 60000, 216.0, -1644.0, 29.8),
+    ('Los Santos Medical Center', 'LSMC', 'Government', 20, 80000, 338.5, -1394.5, 32.5),
+    ('Department of Justice', 'DOJ', 'Government', 15, 120000, -544.7, -204.2, 38.2),
+    ('City Hall', 'CITY', 'Government', 10, 200000, -544.7, -204.2, 38.2),
+    ('Grove Street Families', 'GSF', 'Gang', 25, 50000, -2522.2, -624.3, 132.8),
+    ('Ballas', 'BALLAS', 'Gang', 25, 45000, 105.5, -1885.2, 24.3),
+    ('Vagos', 'VAGOS', 'Gang', 25, 40000, 331.3, -2012.9, 22.3),
+    ('Marabunta Grande', 'MG13', 'Gang', 20, 35000, 1432.1, -1888.2, 71.6),
+    ('Los Santos Triads', 'TRIAD', 'Mafia', 20, 80000, -1004.8, -478.2, 50.0),
+    ('Russian Bratva', 'BRATVA', 'Mafia', 15, 90000, -1158.4, -1519.9, 10.6),
+    ('Italian Cosa Nostra', 'COSA', 'Mafia', 18, 100000, -1288.1, -1115.5, 6.8),
+    ('Weazel News', 'WN', 'Business', 15, 60000, -598.9, -930.9, 23.9),
+    ('Dynasty 8 Real Estate', 'D8', 'Business', 12, 80000, -716.9, 261.3, 84.1),
+    ('Maze Bank', 'MAZE', 'Business', 20, 150000, -1368.9, -503.7, 33.2),
+    ('Los Santos Customs', 'LSC', 'Business', 25, 70000, -347.3, -133.2, 39.0),
+    ('Cluckin Bell', 'CB', 'Business', 30, 40000, -146.8, -256.9, 43.6),
+    ('Burger Shot', 'BS', 'Business', 30, 45000, -1193.9, -768.0, 17.3),
+    ('Los Santos Taxi', 'TAXI', 'Other', 40, 30000, 895.4, -179.3, 74.7),
+    ('Trucking Company', 'TRUCK', 'Other', 35, 50000, 1240.5, -3257.0, 5.9),
+    ('Motorcycle Club', 'MC', 'Other', 20, 60000, 982.1, -123.8, 74.1)
+`
+
+const JOB_NAMES = [
+  "Police Officer",
+  "Sheriff Deputy",
+  "Paramedic",
+  "Firefighter",
+  "Judge",
+  "District Attorney",
+  "Public Defender",
+  "Mayor",
+  "Taxi Driver",
+  "Bus Driver",
+  "Mechanic",
+  "Trucker",
+  "Delivery Driver",
+  "Store Clerk",
+  "Security Guard",
+  "Construction Worker",
+  "Garbage Collector",
+  "Fisherman",
+  "News Reporter",
+  "DJ/Radio Host",
+  "Bartender",
+  "Chef",
+  "Real Estate Agent",
+  "Lawyer",
+  "Bank Teller",
+  "Insurance Agent",
+  "Pilot",
+  "Boat Captain",
+  "Tow Truck Driver",
+  "Locksmith",
+  "Photographer",
+  "Personal Trainer",
+]
+
+const FACTION_TAGS = [
+  "LSPD",
+  "BCSO",
+  "SAFD",
+  "LSMC",
+  "DOJ",
+  "CITY",
+  "GSF",
+  "BALLAS",
+  "VAGOS",
+  "MG13",
+  "TRIAD",
+  "BRATVA",
+  "COSA",
+  "WN",
+  "D8",
+  "MAZE",
+  "LSC",
+  "CB",
+  "BS",
+  "TAXI",
+  "TRUCK",
+  "MC",
+]
+
+export const migration: Migration = {
+  version: 3,
+  name: "seed_default_jobs_and_factions",
+
+  up: async ({ query }) => {
+    const [jobs] = await query("SELECT COUNT(*) as count FROM jobs")
+    if (jobs.count === 0) {
+      await query(DEFAULT_JOBS)
+    }
+
+    const [factions] = await query("SELECT COUNT(*) as count FROM factions")
+    if (factions.count === 0) {
+      await query(DEFAULT_FACTIONS)
+    }
+
+    // Grant the first character full admin rights, as the old admin table script did
+    await query(`
+      INSERT INTO admin_levels (player_id, level, permissions, set_by)
+      SELECT id, 10, '["*"]', id FROM characters WHERE id = 1
+      ON DUPLICATE KEY UPDATE level = 10, permissions = '["*"]'
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query(`DELETE FROM jobs WHERE name IN (${JOB_NAMES.map(() => "?").join(", ")})`, JOB_NAMES)
+    await query(`DELETE FROM factions WHERE tag IN (${FACTION_TAGS.map(() => "?").join(", ")})`, FACTION_TAGS)
+  },
+}
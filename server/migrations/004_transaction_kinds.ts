@@ -0,0 +1,29 @@
+/**
+ * 004 - Transaction kinds
+ * Adds the sale, fee, rent and tax kinds written by EconomyManager.transfer
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 4,
+  name: "transaction_kinds",
+
+  up: async ({ query }) => {
+    await query(`
+      ALTER TABLE transactions MODIFY type ENUM(
+        'salary', 'purchase', 'sale', 'transfer', 'fine', 'fee', 'rent', 'tax', 'bonus', 'deposit', 'withdraw'
+      ) NOT NULL
+    `)
+  },
+
+  down: async ({ query }) => {
+    // Rows using the new kinds would not fit the old ENUM
+    await query("UPDATE transactions SET type = 'purchase' WHERE type IN ('sale', 'fee', 'rent', 'tax')")
+    await query(`
+      ALTER TABLE transactions MODIFY type ENUM(
+        'salary', 'purchase', 'transfer', 'fine', 'bonus', 'deposit', 'withdraw'
+      ) NOT NULL
+    `)
+  },
+}
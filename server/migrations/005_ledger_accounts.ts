@@ -0,0 +1,102 @@
+/**
+ * 005 - Ledger accounts
+ * Moves balances into a double-entry ledger: every account (character cash and bank, faction, property, the
+ * government treasury and the world outside the player economy) has a row in `accounts`, and every transaction
+ * writes one debit and one credit to `ledger_entries`. Existing balances are carried over as opening entries
+ * against the world account, and `government_funds` is replaced by the government account.
+ */
+
+import type { Migration, MigrationContext } from "../core/MigrationRunner"
+
+const LEGACY_KINDS = "'salary', 'purchase', 'sale', 'transfer', 'fine', 'fee', 'rent', 'tax', 'bonus', 'deposit', 'withdraw'"
+const LEDGER_KINDS = `${LEGACY_KINDS}, 'grant', 'faction_deposit', 'faction_withdraw', 'business_income', 'adjustment'`
+
+async function openAccounts(context: MigrationContext): Promise<void> {
+  await context.query("INSERT INTO accounts (type, owner_id) VALUES ('world', 0), ('government', 0)")
+
+  await context.query(`
+    INSERT INTO accounts (type, owner_id, balance)
+    SELECT 'cash', id, money FROM characters
+    UNION ALL SELECT 'bank', id, bank_money FROM characters
+    UNION ALL SELECT 'faction', id, money FROM factions
+  `)
+  await context.query(`
+    UPDATE accounts SET balance = (SELECT COALESCE(SUM(amount), 0) FROM government_funds)
+    WHERE type = 'government'
+  `)
+
+  // The world account funds every opening balance, so the ledger sums to zero from the first entry
+  await context.query("DELETE FROM accounts WHERE type IN ('cash', 'bank', 'faction') AND balance = 0")
+  const [{ total }] = await context.query("SELECT COALESCE(SUM(balance), 0) AS total FROM accounts WHERE type <> 'world'")
+  if (Number(total) === 0) return
+
+  await context.query("UPDATE accounts SET balance = ? WHERE type = 'world'", [-Number(total)])
+  const result = await context.query(
+    "INSERT INTO transactions (amount, type, description) VALUES (?, 'adjustment', 'Opening balances')",
+    [total],
+  )
+  await context.query(
+    "INSERT INTO ledger_entries (transaction_id, account_id, amount) SELECT ?, id, balance FROM accounts WHERE balance <> 0",
+    [result.insertId],
+  )
+}
+
+export const migration: Migration = {
+  version: 5,
+  name: "ledger_accounts",
+
+  up: async (context) => {
+    await context.query(`ALTER TABLE transactions MODIFY type ENUM(${LEDGER_KINDS}) NOT NULL`)
+
+    await context.query(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        type ENUM('cash', 'bank', 'faction', 'property', 'government', 'world') NOT NULL,
+        owner_id INT NOT NULL DEFAULT 0,
+        balance DECIMAL(15,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_account_owner (type, owner_id)
+      )
+    `)
+    await context.query(`
+      CREATE TABLE IF NOT EXISTS ledger_entries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        transaction_id INT NOT NULL,
+        account_id INT NOT NULL,
+        amount DECIMAL(15,2) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_ledger_account (account_id, created_at),
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE,
+        FOREIGN KEY (account_id) REFERENCES accounts(id)
+      )
+    `)
+
+    await openAccounts(context)
+    await context.query("DROP TABLE IF EXISTS government_funds")
+  },
+
+  down: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS government_funds (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        amount DECIMAL(15,2) DEFAULT 0,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+    await query(`
+      INSERT INTO government_funds (amount, description)
+      SELECT balance, 'Treasury balance' FROM accounts WHERE type = 'government' AND balance <> 0
+    `)
+
+    await query("DROP TABLE IF EXISTS ledger_entries")
+    await query("DROP TABLE IF EXISTS accounts")
+
+    // Rows using the ledger kinds would not fit the old ENUM
+    await query("DELETE FROM transactions WHERE type = 'adjustment' AND description = 'Opening balances'")
+    await query(
+      "UPDATE transactions SET type = 'bonus' WHERE type IN ('grant', 'faction_deposit', 'faction_withdraw', 'business_income', 'adjustment')",
+    )
+    await query(`ALTER TABLE transactions MODIFY type ENUM(${LEGACY_KINDS}) NOT NULL`)
+  },
+}
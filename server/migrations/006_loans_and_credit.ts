@@ -0,0 +1,76 @@
+/**
+ * 006 - Loans and credit
+ * Adds bank loans with their payment history, a credit score per character, the interest and loan transaction
+ * kinds, and lets vehicle impounds be recorded without an impounding character (automatic repossessions).
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const LEDGER_KINDS =
+  "'salary', 'purchase', 'sale', 'transfer', 'fine', 'fee', 'rent', 'tax', 'bonus', 'deposit', 'withdraw', " +
+  "'grant', 'faction_deposit', 'faction_withdraw', 'business_income', 'adjustment'"
+const LOAN_KINDS = `${LEDGER_KINDS}, 'interest', 'loan_disbursement', 'loan_payment'`
+
+export const migration: Migration = {
+  version: 6,
+  name: "loans_and_credit",
+
+  up: async ({ query, hasColumn }) => {
+    await query(`ALTER TABLE transactions MODIFY type ENUM(${LOAN_KINDS}) NOT NULL`)
+
+    if (!(await hasColumn("characters", "credit_score"))) {
+      await query("ALTER TABLE characters ADD COLUMN credit_score INT NOT NULL DEFAULT 650 AFTER bank_money")
+    }
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS loans (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        principal DECIMAL(15,2) NOT NULL,
+        apr DECIMAL(6,4) NOT NULL,
+        installments INT NOT NULL,
+        installment_amount DECIMAL(15,2) NOT NULL,
+        balance DECIMAL(15,2) NOT NULL,
+        period_paid DECIMAL(15,2) NOT NULL DEFAULT 0,
+        installments_paid INT NOT NULL DEFAULT 0,
+        missed_payments INT NOT NULL DEFAULT 0,
+        collateral_type ENUM('none', 'vehicle', 'property') NOT NULL DEFAULT 'none',
+        collateral_id INT NULL,
+        status ENUM('active', 'paid', 'defaulted') NOT NULL DEFAULT 'active',
+        next_due_at DATETIME NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        closed_at DATETIME NULL,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        INDEX idx_loans_status_due (status, next_due_at)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS loan_events (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        loan_id INT NOT NULL,
+        type ENUM('disbursed', 'payment', 'interest', 'missed', 'penalty', 'paid_off', 'defaulted', 'repossessed') NOT NULL,
+        amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+        transaction_id INT NULL,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE SET NULL
+      )
+    `)
+
+    await query("ALTER TABLE vehicle_impounds MODIFY impounded_by INT NULL")
+  },
+
+  down: async ({ query }) => {
+    await query("DELETE FROM vehicle_impounds WHERE impounded_by IS NULL")
+    await query("ALTER TABLE vehicle_impounds MODIFY impounded_by INT NOT NULL")
+
+    await query("DROP TABLE IF EXISTS loan_events")
+    await query("DROP TABLE IF EXISTS loans")
+    await query("ALTER TABLE characters DROP COLUMN credit_score")
+
+    // Rows using the loan kinds would not fit the old ENUM
+    await query("UPDATE transactions SET type = 'adjustment' WHERE type IN ('interest', 'loan_disbursement', 'loan_payment')")
+    await query(`ALTER TABLE transactions MODIFY type ENUM(${LEDGER_KINDS}) NOT NULL`)
+  },
+}
@@ -0,0 +1,63 @@
+/**
+ * 007 - Tax policy
+ * Stores the income tax policy (allowance, progressive brackets and the limits admins allow the mayor) and adds
+ * one payslip per character per payroll run.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const DEFAULT_BRACKETS = [
+  { threshold: 0, rate: 0.1 },
+  { threshold: 100, rate: 0.15 },
+  { threshold: 250, rate: 0.22 },
+  { threshold: 500, rate: 0.3 },
+]
+
+export const migration: Migration = {
+  version: 7,
+  name: "tax_policy",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS tax_policy (
+        id INT PRIMARY KEY,
+        allowance DECIMAL(10,2) NOT NULL,
+        brackets JSON NOT NULL,
+        min_rate DECIMAL(5,4) NOT NULL,
+        max_rate DECIMAL(5,4) NOT NULL,
+        max_allowance DECIMAL(10,2) NOT NULL,
+        updated_by INT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (updated_by) REFERENCES characters(id) ON DELETE SET NULL
+      )
+    `)
+    await query(
+      "INSERT IGNORE INTO tax_policy (id, allowance, brackets, min_rate, max_rate, max_allowance) VALUES (1, ?, ?, ?, ?, ?)",
+      [25, JSON.stringify(DEFAULT_BRACKETS), 0, 0.5, 250],
+    )
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS payslips (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        job_id INT NULL,
+        salary DECIMAL(10,2) NOT NULL,
+        faction_bonus DECIMAL(10,2) NOT NULL DEFAULT 0,
+        tax_exempt_salary BOOLEAN NOT NULL DEFAULT FALSE,
+        allowance DECIMAL(10,2) NOT NULL DEFAULT 0,
+        taxable_income DECIMAL(10,2) NOT NULL DEFAULT 0,
+        income_tax DECIMAL(10,2) NOT NULL DEFAULT 0,
+        net_pay DECIMAL(10,2) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE SET NULL,
+        INDEX idx_payslips_character (character_id, created_at)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS payslips")
+    await query("DROP TABLE IF EXISTS tax_policy")
+  },
+}
@@ -0,0 +1,53 @@
+/**
+ * 008 - Inventory
+ * Item stacks held by containers (characters, vehicle trunks, property storage, faction lockers and the ground),
+ * plus a log of every item move between containers.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const CONTAINER_TYPES = "'character', 'vehicle', 'property', 'faction', 'ground'"
+
+export const migration: Migration = {
+  version: 8,
+  name: "inventory",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS inventory_items (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        container_type ENUM(${CONTAINER_TYPES}) NOT NULL,
+        container_id INT NOT NULL DEFAULT 0,
+        item_key VARCHAR(50) NOT NULL,
+        quantity INT NOT NULL DEFAULT 1,
+        metadata JSON NULL,
+        position JSON NULL,
+        dimension INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_inventory_container (container_type, container_id)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS item_transfers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        item_key VARCHAR(50) NOT NULL,
+        quantity INT NOT NULL,
+        from_type ENUM(${CONTAINER_TYPES}) NULL,
+        from_id INT NULL,
+        to_type ENUM(${CONTAINER_TYPES}) NULL,
+        to_id INT NULL,
+        actor_id INT NULL,
+        reason VARCHAR(100) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (actor_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_item_transfers_actor (actor_id, created_at)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS item_transfers")
+    await query("DROP TABLE IF EXISTS inventory_items")
+  },
+}
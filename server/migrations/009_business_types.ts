@@ -0,0 +1,25 @@
+/**
+ * 009 - Business types
+ * Tags Business properties with what they trade, so stores and restaurants can sell food and drink.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 9,
+  name: "business_types",
+
+  up: async ({ query, hasColumn }) => {
+    if (!(await hasColumn("properties", "business_type"))) {
+      await query(
+        "ALTER TABLE properties ADD COLUMN business_type ENUM('store', 'restaurant', 'bar', 'gas_station') NULL AFTER type",
+      )
+    }
+  },
+
+  down: async ({ query, hasColumn }) => {
+    if (await hasColumn("properties", "business_type")) {
+      await query("ALTER TABLE properties DROP COLUMN business_type")
+    }
+  },
+}
@@ -0,0 +1,41 @@
+/**
+ * 010 - Injuries
+ * Logs every time a character goes down, how they went down, and whether a paramedic revived them or they
+ * respawned at hospital (with the bill charged).
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 10,
+  name: "injuries",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS character_injuries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        cause ENUM('assault', 'accident', 'starvation', 'dehydration') NOT NULL,
+        weapon_hash INT UNSIGNED NULL,
+        attacker_id INT NULL,
+        position JSON NOT NULL,
+        status ENUM('downed', 'revived', 'respawned') NOT NULL DEFAULT 'downed',
+        treated_by INT NULL,
+        hospital_bill DECIMAL(10,2) NOT NULL DEFAULT 0,
+        transaction_id INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME NULL,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (attacker_id) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (treated_by) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE SET NULL,
+        INDEX idx_injuries_character (character_id, created_at),
+        INDEX idx_injuries_status (status)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS character_injuries")
+  },
+}
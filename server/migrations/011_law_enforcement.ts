@@ -0,0 +1,84 @@
+/**
+ * 011 - Law enforcement
+ * Criminal records, arrest warrants, BOLOs (be on the lookout notices) and traffic citations for the police MDC.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 11,
+  name: "law_enforcement",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS criminal_records (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        offense VARCHAR(150) NOT NULL,
+        officer_id INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (officer_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_records_character (character_id, created_at)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS warrants (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        reason VARCHAR(255) NOT NULL,
+        issued_by INT NULL,
+        status ENUM('active', 'served', 'revoked') NOT NULL DEFAULT 'active',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        closed_at DATETIME NULL,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (issued_by) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_warrants_character (character_id, status)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS bolos (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NULL,
+        plate VARCHAR(10) NULL,
+        description VARCHAR(255) NOT NULL,
+        issued_by INT NULL,
+        status ENUM('active', 'cleared') NOT NULL DEFAULT 'active',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        cleared_at DATETIME NULL,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (issued_by) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_bolos_status (status)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS citations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        vehicle_id INT NULL,
+        offense VARCHAR(150) NOT NULL,
+        amount DECIMAL(10,2) NOT NULL,
+        late_penalty DECIMAL(10,2) NOT NULL DEFAULT 0,
+        status ENUM('unpaid', 'overdue', 'paid') NOT NULL DEFAULT 'unpaid',
+        issued_by INT NULL,
+        due_at DATETIME NOT NULL,
+        paid_at DATETIME NULL,
+        transaction_id INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE SET NULL,
+        FOREIGN KEY (issued_by) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE SET NULL,
+        INDEX idx_citations_character (character_id, status),
+        INDEX idx_citations_due (status, due_at)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS citations")
+    await query("DROP TABLE IF EXISTS bolos")
+    await query("DROP TABLE IF EXISTS warrants")
+    await query("DROP TABLE IF EXISTS criminal_records")
+  },
+}
@@ -0,0 +1,34 @@
+/**
+ * 012 - Jail sentences
+ * Jail time served by characters. The remaining time only counts down while the character is online.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 12,
+  name: "jail_sentences",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS jail_sentences (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        officer_id INT NULL,
+        charges VARCHAR(255) NOT NULL,
+        minutes INT NOT NULL,
+        remaining_seconds INT NOT NULL,
+        status ENUM('serving', 'released') NOT NULL DEFAULT 'serving',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        released_at DATETIME NULL,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (officer_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_jail_character (character_id, status)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS jail_sentences")
+  },
+}
@@ -0,0 +1,66 @@
+/**
+ * 013 - Courts
+ * Court cases brought over arrests and citations, search warrants for properties, and a dismissed status for
+ * citations thrown out in court.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 13,
+  name: "courts",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS court_cases (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        defendant_id INT NOT NULL,
+        record_id INT NULL,
+        citation_id INT NULL,
+        charges VARCHAR(255) NOT NULL,
+        prosecutor_id INT NULL,
+        defender_id INT NULL,
+        judge_id INT NULL,
+        status ENUM('filed', 'scheduled', 'awaiting_sentence', 'closed') NOT NULL DEFAULT 'filed',
+        hearing_at DATETIME NULL,
+        plea ENUM('guilty', 'not_guilty', 'no_contest') NULL,
+        verdict ENUM('guilty', 'not_guilty', 'dismissed') NULL,
+        fine DECIMAL(10,2) NULL,
+        jail_minutes INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        closed_at DATETIME NULL,
+        FOREIGN KEY (defendant_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (record_id) REFERENCES criminal_records(id) ON DELETE SET NULL,
+        FOREIGN KEY (citation_id) REFERENCES citations(id) ON DELETE SET NULL,
+        FOREIGN KEY (prosecutor_id) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (defender_id) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (judge_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_cases_defendant (defendant_id, status),
+        INDEX idx_cases_docket (status, hearing_at)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS search_warrants (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        property_id INT NOT NULL,
+        reason VARCHAR(255) NOT NULL,
+        issued_by INT NULL,
+        status ENUM('active', 'revoked') NOT NULL DEFAULT 'active',
+        expires_at DATETIME NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+        FOREIGN KEY (issued_by) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_search_warrants_property (property_id, status, expires_at)
+      )
+    `)
+    await query("ALTER TABLE citations MODIFY status ENUM('unpaid', 'overdue', 'paid', 'dismissed') NOT NULL DEFAULT 'unpaid'")
+  },
+
+  down: async ({ query }) => {
+    // Dismissed citations would not fit the old ENUM
+    await query("UPDATE citations SET status = 'paid' WHERE status = 'dismissed'")
+    await query("ALTER TABLE citations MODIFY status ENUM('unpaid', 'overdue', 'paid') NOT NULL DEFAULT 'unpaid'")
+    await query("DROP TABLE IF EXISTS search_warrants")
+    await query("DROP TABLE IF EXISTS court_cases")
+  },
+}
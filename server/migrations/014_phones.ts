@@ -0,0 +1,62 @@
+/**
+ * 014 - Phones
+ * SMS inbox and contact list for the phone system, and numbers for characters created before phones existed.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 14,
+  name: "phones",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS phone_messages (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        sender_id INT NULL,
+        sender_number VARCHAR(20) NOT NULL,
+        recipient_id INT NOT NULL,
+        body VARCHAR(255) NOT NULL,
+        read_at DATETIME NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (sender_id) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (recipient_id) REFERENCES characters(id) ON DELETE CASCADE,
+        INDEX idx_messages_recipient (recipient_id, created_at)
+      )
+    `)
+    await query(`
+      CREATE TABLE IF NOT EXISTS phone_contacts (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        name VARCHAR(32) NOT NULL,
+        number VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        UNIQUE KEY uniq_contact_name (character_id, name)
+      )
+    `)
+
+    // Existing characters get the lowest free numbers in the 555 exchange
+    const taken = new Set(
+      (await query("SELECT phone_number FROM characters WHERE phone_number IS NOT NULL")).map(
+        (row: any) => row.phone_number,
+      ),
+    )
+    const missing = await query("SELECT id FROM characters WHERE phone_number IS NULL ORDER BY id")
+    let next = 100
+    for (const character of missing) {
+      let number = `555-${String(next).padStart(4, "0")}`
+      while (taken.has(number)) {
+        next++
+        number = `555-${String(next).padStart(4, "0")}`
+      }
+      taken.add(number)
+      await query("UPDATE characters SET phone_number = ? WHERE id = ?", [number, character.id])
+    }
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS phone_contacts")
+    await query("DROP TABLE IF EXISTS phone_messages")
+  },
+}
@@ -0,0 +1,41 @@
+/**
+ * 015 - Dispatch calls
+ * The 911/311 call queue worked by on-duty police, sheriff, paramedic and firefighter units. The timestamps of each
+ * stage feed the response-time statistics.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 15,
+  name: "dispatch_calls",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS dispatch_calls (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        line ENUM('911', '311') NOT NULL DEFAULT '911',
+        caller_id INT NULL,
+        caller_number VARCHAR(20) NULL,
+        description VARCHAR(255) NOT NULL,
+        position JSON NOT NULL,
+        status ENUM('pending', 'accepted', 'en_route', 'closed') NOT NULL DEFAULT 'pending',
+        unit_id INT NULL,
+        unit_job VARCHAR(50) NULL,
+        report VARCHAR(255) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        accepted_at DATETIME NULL,
+        en_route_at DATETIME NULL,
+        closed_at DATETIME NULL,
+        FOREIGN KEY (caller_id) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (unit_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_dispatch_status (status, created_at),
+        INDEX idx_dispatch_job (unit_job, accepted_at)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS dispatch_calls")
+  },
+}
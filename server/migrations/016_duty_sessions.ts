@@ -0,0 +1,42 @@
+/**
+ * 016 - Duty sessions
+ * Time characters spend on duty for their job. Payroll pays the active (non-AFK) seconds that have not been paid
+ * yet, and payslips record how many minutes they covered.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 16,
+  name: "duty_sessions",
+
+  up: async ({ query, hasColumn }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS duty_sessions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        job_id INT NOT NULL,
+        started_at DATETIME NOT NULL,
+        ended_at DATETIME NULL,
+        end_reason ENUM('off_duty', 'disconnect', 'quit', 'fired', 'server_restart') NULL,
+        active_seconds INT NOT NULL DEFAULT 0,
+        paid_seconds INT NOT NULL DEFAULT 0,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+        INDEX idx_duty_character (character_id, ended_at),
+        INDEX idx_duty_job (job_id, started_at)
+      )
+    `)
+
+    if (!(await hasColumn("payslips", "duty_minutes"))) {
+      await query("ALTER TABLE payslips ADD COLUMN duty_minutes INT NOT NULL DEFAULT 0 AFTER job_id")
+    }
+  },
+
+  down: async ({ query, hasColumn }) => {
+    if (await hasColumn("payslips", "duty_minutes")) {
+      await query("ALTER TABLE payslips DROP COLUMN duty_minutes")
+    }
+    await query("DROP TABLE IF EXISTS duty_sessions")
+  },
+}
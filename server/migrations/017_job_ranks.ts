@@ -0,0 +1,143 @@
+/**
+ * 017 - Job ranks
+ * Per-job rank ladders with salary multipliers and promotion requirements, the rank and completed task count of each
+ * employee, the rank a duty session was worked at, and the history of every promotion and demotion.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+// [name, salary multiplier, required duty hours, required tasks, can manage employees]
+type RankSeed = [string, number, number, number, boolean]
+
+const DEFAULT_LADDER: RankSeed[] = [
+  ["Trainee", 1.0, 0, 0, false],
+  ["Employee", 1.1, 5, 5, false],
+  ["Senior Employee", 1.25, 20, 20, false],
+  ["Supervisor", 1.4, 50, 50, true],
+  ["Manager", 1.6, 100, 100, true],
+]
+
+const JOB_LADDERS: Record<string, RankSeed[]> = {
+  "Police Officer": [
+    ["Cadet", 1.0, 0, 0, false],
+    ["Officer", 1.1, 5, 5, false],
+    ["Senior Officer", 1.25, 20, 20, false],
+    ["Sergeant", 1.4, 50, 50, true],
+    ["Lieutenant", 1.6, 100, 100, true],
+    ["Chief of Police", 2.0, 200, 200, true],
+  ],
+  "Sheriff Deputy": [
+    ["Deputy Trainee", 1.0, 0, 0, false],
+    ["Deputy", 1.1, 5, 5, false],
+    ["Senior Deputy", 1.25, 20, 20, false],
+    ["Sergeant", 1.4, 50, 50, true],
+    ["Sheriff", 2.0, 150, 150, true],
+  ],
+  Paramedic: [
+    ["EMT Trainee", 1.0, 0, 0, false],
+    ["EMT", 1.1, 5, 5, false],
+    ["Paramedic", 1.25, 20, 20, false],
+    ["EMS Supervisor", 1.4, 50, 50, true],
+    ["EMS Chief", 2.0, 150, 150, true],
+  ],
+  Firefighter: [
+    ["Probationary Firefighter", 1.0, 0, 0, false],
+    ["Firefighter", 1.1, 5, 5, false],
+    ["Engineer", 1.25, 20, 20, false],
+    ["Captain", 1.4, 50, 50, true],
+    ["Fire Chief", 2.0, 150, 150, true],
+  ],
+  Judge: [
+    ["Associate Judge", 1.0, 0, 0, false],
+    ["Judge", 1.2, 20, 10, false],
+    ["Chief Judge", 1.5, 100, 50, true],
+  ],
+  "District Attorney": [
+    ["Assistant District Attorney", 1.0, 0, 0, false],
+    ["District Attorney", 1.5, 50, 25, true],
+  ],
+  "Public Defender": [
+    ["Public Defender", 1.0, 0, 0, false],
+    ["Chief Public Defender", 1.5, 50, 25, true],
+  ],
+  Mayor: [["Mayor", 1.0, 0, 0, true]],
+}
+
+export const migration: Migration = {
+  version: 17,
+  name: "job_ranks",
+
+  up: async ({ query, hasColumn }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS job_ranks (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        job_id INT NOT NULL,
+        level INT NOT NULL,
+        name VARCHAR(50) NOT NULL,
+        salary_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.00,
+        required_duty_hours INT NOT NULL DEFAULT 0,
+        required_tasks INT NOT NULL DEFAULT 0,
+        can_manage BOOLEAN NOT NULL DEFAULT FALSE,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+        UNIQUE KEY uniq_job_rank_level (job_id, level)
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS job_rank_history (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        job_id INT NOT NULL,
+        from_level INT NOT NULL,
+        to_level INT NOT NULL,
+        changed_by INT NULL,
+        reason VARCHAR(255) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+        FOREIGN KEY (changed_by) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_rank_history_character (character_id, created_at)
+      )
+    `)
+
+    if (!(await hasColumn("characters", "job_rank"))) {
+      await query("ALTER TABLE characters ADD COLUMN job_rank INT NOT NULL DEFAULT 1 AFTER job_id")
+    }
+    if (!(await hasColumn("characters", "job_tasks"))) {
+      await query("ALTER TABLE characters ADD COLUMN job_tasks INT NOT NULL DEFAULT 0 AFTER job_rank")
+    }
+    if (!(await hasColumn("duty_sessions", "job_rank"))) {
+      await query("ALTER TABLE duty_sessions ADD COLUMN job_rank INT NOT NULL DEFAULT 1 AFTER job_id")
+    }
+
+    // Jobs that already have a ladder are left alone
+    const jobs = await query(
+      "SELECT id, name FROM jobs WHERE NOT EXISTS (SELECT 1 FROM job_ranks jr WHERE jr.job_id = jobs.id)",
+    )
+    for (const job of jobs) {
+      const ladder = JOB_LADDERS[job.name] ?? DEFAULT_LADDER
+      for (const [index, [name, multiplier, dutyHours, tasks, canManage]] of ladder.entries()) {
+        await query(
+          `INSERT INTO job_ranks
+             (job_id, level, name, salary_multiplier, required_duty_hours, required_tasks, can_manage)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [job.id, index + 1, name, multiplier, dutyHours, tasks, canManage],
+        )
+      }
+    }
+  },
+
+  down: async ({ query, hasColumn }) => {
+    if (await hasColumn("duty_sessions", "job_rank")) {
+      await query("ALTER TABLE duty_sessions DROP COLUMN job_rank")
+    }
+    if (await hasColumn("characters", "job_tasks")) {
+      await query("ALTER TABLE characters DROP COLUMN job_tasks")
+    }
+    if (await hasColumn("characters", "job_rank")) {
+      await query("ALTER TABLE characters DROP COLUMN job_rank")
+    }
+    await query("DROP TABLE IF EXISTS job_rank_history")
+    await query("DROP TABLE IF EXISTS job_ranks")
+  },
+}
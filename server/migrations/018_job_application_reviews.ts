@@ -0,0 +1,74 @@
+/**
+ * 018 - Job application reviews
+ * Interviews and deferred hiring for job applications, and an employment history so reviewers can see an applicant's
+ * previous jobs. Characters who already have a job get an open history entry starting now.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 18,
+  name: "job_application_reviews",
+
+  up: async ({ query, hasColumn }) => {
+    await query(`
+      ALTER TABLE job_applications
+        MODIFY status ENUM('pending', 'interview', 'approved', 'rejected') DEFAULT 'pending'
+    `)
+
+    if (!(await hasColumn("job_applications", "interview_at"))) {
+      await query("ALTER TABLE job_applications ADD COLUMN interview_at DATETIME NULL AFTER status")
+    }
+    if (!(await hasColumn("job_applications", "interviewer_id"))) {
+      await query(`
+        ALTER TABLE job_applications
+          ADD COLUMN interviewer_id INT NULL AFTER interview_at,
+          ADD CONSTRAINT fk_job_applications_interviewer
+            FOREIGN KEY (interviewer_id) REFERENCES characters(id) ON DELETE SET NULL
+      `)
+    }
+    if (!(await hasColumn("job_applications", "hired_at"))) {
+      await query("ALTER TABLE job_applications ADD COLUMN hired_at DATETIME NULL AFTER review_notes")
+    }
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS employment_history (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        character_id INT NOT NULL,
+        job_id INT NOT NULL,
+        started_at DATETIME NOT NULL,
+        ended_at DATETIME NULL,
+        end_reason ENUM('quit', 'fired') NULL,
+        final_rank INT NULL,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+        INDEX idx_employment_character (character_id, started_at)
+      )
+    `)
+
+    await query(`
+      INSERT INTO employment_history (character_id, job_id, started_at)
+      SELECT c.id, c.job_id, NOW() FROM characters c
+      WHERE c.job_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM employment_history eh WHERE eh.character_id = c.id AND eh.ended_at IS NULL)
+    `)
+  },
+
+  down: async ({ query, hasColumn }) => {
+    await query("DROP TABLE IF EXISTS employment_history")
+
+    if (await hasColumn("job_applications", "hired_at")) {
+      await query("ALTER TABLE job_applications DROP COLUMN hired_at")
+    }
+    if (await hasColumn("job_applications", "interviewer_id")) {
+      await query("ALTER TABLE job_applications DROP FOREIGN KEY fk_job_applications_interviewer")
+      await query("ALTER TABLE job_applications DROP COLUMN interviewer_id")
+    }
+    if (await hasColumn("job_applications", "interview_at")) {
+      await query("ALTER TABLE job_applications DROP COLUMN interview_at")
+    }
+
+    await query("UPDATE job_applications SET status = 'pending' WHERE status = 'interview'")
+    await query("ALTER TABLE job_applications MODIFY status ENUM('pending', 'approved', 'rejected') DEFAULT 'pending'")
+  },
+}
@@ -0,0 +1,39 @@
+/**
+ * 019 - Taxi fares
+ * Every completed taxi ride, for player passengers and NPC fares alike, with the meter readings and how the fare was
+ * split between the driver and the taxi company. Per-driver statistics are aggregated from these rows.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 19,
+  name: "taxi_fares",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS taxi_fares (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        driver_id INT NOT NULL,
+        passenger_id INT NULL,
+        npc_passenger VARCHAR(50) NULL,
+        pickup JSON NOT NULL,
+        dropoff JSON NOT NULL,
+        distance_meters INT NOT NULL,
+        duration_seconds INT NOT NULL,
+        fare DECIMAL(10,2) NOT NULL,
+        driver_share DECIMAL(10,2) NOT NULL,
+        company_share DECIMAL(10,2) NOT NULL,
+        status ENUM('paid', 'unpaid') NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (driver_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (passenger_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_taxi_driver (driver_id, created_at)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS taxi_fares")
+  },
+}
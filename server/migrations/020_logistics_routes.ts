@@ -0,0 +1,212 @@
+/**
+ * 020 - Logistics routes
+ * Depots and destinations, the routes between them with their cargo, vehicle and pay for the trucker, delivery and
+ * garbage collector jobs, and a log of every delivery run. Routes are seeded once and edited in the database.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const DEFAULT_LOCATIONS = `
+  INSERT INTO logistics_locations (name, type, position) VALUES
+    ('Port of Los Santos', 'depot', '{"x": 1240.5, "y": -3257.0, "z": 5.9}'),
+    ('Elysian Island Warehouse', 'depot', '{"x": 153.2, "y": -3103.6, "z": 5.9}'),
+    ('Post OP Depot', 'depot', '{"x": -425.5, "y": -2789.5, "z": 6.0}'),
+    ('Sanitation Yard', 'depot', '{"x": -354.0, "y": -1513.9, "z": 27.7}'),
+    ('Sandy Shores Supply', 'destination', '{"x": 1961.2, "y": 3753.1, "z": 32.2}'),
+    ('Paleto Bay Sawmill', 'destination', '{"x": -573.1, "y": 5253.4, "z": 70.5}'),
+    ('Grapeseed Farm', 'destination', '{"x": 2416.0, "y": 4993.6, "z": 46.2}'),
+    ('LTD Little Seoul', 'destination', '{"x": -707.5, "y": -914.3, "z": 19.2}'),
+    ('Rockford Plaza', 'destination', '{"x": -171.6, "y": -152.3, "z": 43.6}'),
+    ('Vinewood Hills', 'destination', '{"x": -174.5, "y": 502.6, "z": 137.4}'),
+    ('Strawberry Dumpsters', 'destination', '{"x": 203.1, "y": -1656.2, "z": 29.8}'),
+    ('Landfill', 'destination', '{"x": 2349.6, "y": 3133.1, "z": 48.2}')
+`
+
+interface RouteSeed {
+  job: string
+  name: string
+  from: string
+  to: string
+  cargo: { name: string; weightKg: number; value: number }
+  vehicle: string
+  pay: { base: number; perKm: number }
+  minutes: number
+}
+
+const DEFAULT_ROUTES: RouteSeed[] = [
+  {
+    job: "Trucker",
+    name: "Port to Sandy Shores",
+    from: "Port of Los Santos",
+    to: "Sandy Shores Supply",
+    cargo: { name: "Building materials", weightKg: 12000, value: 18000 },
+    vehicle: "phantom",
+    pay: { base: 250, perKm: 40 },
+    minutes: 15,
+  },
+  {
+    job: "Trucker",
+    name: "Port to Paleto Bay",
+    from: "Port of Los Santos",
+    to: "Paleto Bay Sawmill",
+    cargo: { name: "Machinery", weightKg: 15000, value: 35000 },
+    vehicle: "phantom",
+    pay: { base: 350, perKm: 45 },
+    minutes: 20,
+  },
+  {
+    job: "Trucker",
+    name: "Elysian to Grapeseed",
+    from: "Elysian Island Warehouse",
+    to: "Grapeseed Farm",
+    cargo: { name: "Fertilizer", weightKg: 10000, value: 8000 },
+    vehicle: "hauler",
+    pay: { base: 220, perKm: 35 },
+    minutes: 18,
+  },
+  {
+    job: "Delivery Driver",
+    name: "Post OP to Little Seoul",
+    from: "Post OP Depot",
+    to: "LTD Little Seoul",
+    cargo: { name: "Parcels", weightKg: 300, value: 2500 },
+    vehicle: "boxville2",
+    pay: { base: 80, perKm: 25 },
+    minutes: 8,
+  },
+  {
+    job: "Delivery Driver",
+    name: "Post OP to Rockford Plaza",
+    from: "Post OP Depot",
+    to: "Rockford Plaza",
+    cargo: { name: "Electronics", weightKg: 250, value: 6000 },
+    vehicle: "boxville2",
+    pay: { base: 90, perKm: 25 },
+    minutes: 10,
+  },
+  {
+    job: "Delivery Driver",
+    name: "Post OP to Vinewood Hills",
+    from: "Post OP Depot",
+    to: "Vinewood Hills",
+    cargo: { name: "Furniture", weightKg: 600, value: 4000 },
+    vehicle: "boxville2",
+    pay: { base: 100, perKm: 25 },
+    minutes: 12,
+  },
+  {
+    job: "Garbage Collector",
+    name: "Strawberry pickup",
+    from: "Sanitation Yard",
+    to: "Strawberry Dumpsters",
+    cargo: { name: "Household waste", weightKg: 4000, value: 0 },
+    vehicle: "trash",
+    pay: { base: 90, perKm: 30 },
+    minutes: 8,
+  },
+  {
+    job: "Garbage Collector",
+    name: "Landfill run",
+    from: "Sanitation Yard",
+    to: "Landfill",
+    cargo: { name: "Compacted waste", weightKg: 9000, value: 0 },
+    vehicle: "trash",
+    pay: { base: 200, perKm: 30 },
+    minutes: 20,
+  },
+]
+
+export const migration: Migration = {
+  version: 20,
+  name: "logistics_routes",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS logistics_locations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        type ENUM('depot', 'destination') NOT NULL,
+        position JSON NOT NULL,
+        UNIQUE KEY uniq_logistics_location_name (name)
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS logistics_routes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        job_id INT NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        depot_id INT NOT NULL,
+        destination_id INT NOT NULL,
+        cargo_name VARCHAR(100) NOT NULL,
+        cargo_weight_kg INT NOT NULL,
+        cargo_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+        vehicle_model VARCHAR(50) NOT NULL,
+        base_pay DECIMAL(10,2) NOT NULL,
+        pay_per_km DECIMAL(10,2) NOT NULL,
+        time_limit_minutes INT NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+        FOREIGN KEY (depot_id) REFERENCES logistics_locations(id) ON DELETE CASCADE,
+        FOREIGN KEY (destination_id) REFERENCES logistics_locations(id) ON DELETE CASCADE
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS logistics_deliveries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        route_id INT NOT NULL,
+        character_id INT NOT NULL,
+        status ENUM('in_progress', 'delivered', 'failed', 'abandoned') NOT NULL DEFAULT 'in_progress',
+        started_at DATETIME NOT NULL,
+        loaded_at DATETIME NULL,
+        finished_at DATETIME NULL,
+        distance_meters INT NULL,
+        condition_percent INT NULL,
+        late_seconds INT NULL,
+        payout DECIMAL(10,2) NOT NULL DEFAULT 0,
+        FOREIGN KEY (route_id) REFERENCES logistics_routes(id) ON DELETE CASCADE,
+        FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        INDEX idx_logistics_deliveries_character (character_id, started_at)
+      )
+    `)
+
+    const [locations] = await query("SELECT COUNT(*) AS count FROM logistics_locations")
+    if (locations.count === 0) {
+      await query(DEFAULT_LOCATIONS)
+    }
+
+    const [routes] = await query("SELECT COUNT(*) AS count FROM logistics_routes")
+    if (routes.count > 0) return
+
+    for (const route of DEFAULT_ROUTES) {
+      await query(
+        `INSERT INTO logistics_routes
+           (job_id, name, depot_id, destination_id, cargo_name, cargo_weight_kg, cargo_value, vehicle_model,
+            base_pay, pay_per_km, time_limit_minutes)
+         SELECT j.id, ?, d.id, t.id, ?, ?, ?, ?, ?, ?, ?
+         FROM jobs j, logistics_locations d, logistics_locations t
+         WHERE j.name = ? AND d.name = ? AND t.name = ?`,
+        [
+          route.name,
+          route.cargo.name,
+          route.cargo.weightKg,
+          route.cargo.value,
+          route.vehicle,
+          route.pay.base,
+          route.pay.perKm,
+          route.minutes,
+          route.job,
+          route.from,
+          route.to,
+        ],
+      )
+    }
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS logistics_deliveries")
+    await query("DROP TABLE IF EXISTS logistics_routes")
+    await query("DROP TABLE IF EXISTS logistics_locations")
+  },
+}
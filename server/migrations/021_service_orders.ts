@@ -0,0 +1,70 @@
+/**
+ * 021 - Service orders
+ * Repair and modification orders worked by mechanics, from the owner's request through the quote and the work itself
+ * to the split of the payment between mechanic and shop, and tow requests that bring vehicles to a shop or the impound
+ * lot.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 21,
+  name: "service_orders",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS service_orders (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        vehicle_id INT NOT NULL,
+        customer_id INT NOT NULL,
+        mechanic_id INT NULL,
+        type ENUM('repair', 'modification') NOT NULL,
+        mod_component INT NULL,
+        mod_value INT NULL,
+        note VARCHAR(255) NULL,
+        status ENUM('requested', 'quoted', 'accepted', 'in_progress', 'completed', 'rejected', 'cancelled')
+          NOT NULL DEFAULT 'requested',
+        parts_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+        labor_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+        work_seconds INT NOT NULL DEFAULT 0,
+        progress_seconds INT NOT NULL DEFAULT 0,
+        mechanic_share DECIMAL(10,2) NOT NULL DEFAULT 0,
+        shop_share DECIMAL(10,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        quoted_at DATETIME NULL,
+        paid_at DATETIME NULL,
+        completed_at DATETIME NULL,
+        FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+        FOREIGN KEY (customer_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (mechanic_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_service_orders_status (status),
+        INDEX idx_service_orders_mechanic (mechanic_id, completed_at)
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS tow_requests (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        vehicle_id INT NOT NULL,
+        requested_by INT NOT NULL,
+        driver_id INT NULL,
+        destination ENUM('shop', 'impound') NOT NULL,
+        reason VARCHAR(255) NULL,
+        status ENUM('requested', 'accepted', 'delivered', 'cancelled') NOT NULL DEFAULT 'requested',
+        fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        accepted_at DATETIME NULL,
+        delivered_at DATETIME NULL,
+        FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+        FOREIGN KEY (requested_by) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (driver_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_tow_requests_status (status)
+      )
+    `)
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS tow_requests")
+    await query("DROP TABLE IF EXISTS service_orders")
+  },
+}
@@ -0,0 +1,147 @@
+/**
+ * 022 - Gas stations and fuel profiles
+ * Gas stations with their own fuel price, optionally linked to a business property whose owner collects the sales,
+ * and per-model tank sizes and consumption. Consumption is scaled to the game map so a full tank lasts about an hour
+ * of driving; models without a profile use the manager's defaults.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+const DEFAULT_STATIONS = `
+  INSERT INTO gas_stations (name, position, fuel_price) VALUES
+    ('Route 68 Globe Oil', '{"x": 49.4, "y": 2778.8, "z": 58.0}', 2.40),
+    ('Harmony Ron', '{"x": 263.8, "y": 2606.4, "z": 44.9}', 2.40),
+    ('Grand Senora Xero', '{"x": 1039.9, "y": 2671.1, "z": 39.5}', 2.35),
+    ('Grand Senora Ron', '{"x": 1207.2, "y": 2660.1, "z": 37.8}', 2.35),
+    ('Tataviam Globe Oil', '{"x": 2539.6, "y": 2594.1, "z": 37.9}', 2.45),
+    ('Senora Freeway Ron', '{"x": 2679.8, "y": 3263.9, "z": 55.2}', 2.60),
+    ('Sandy Shores Xero', '{"x": 2005.0, "y": 3773.8, "z": 32.4}', 2.30),
+    ('Grapeseed LTD', '{"x": 1687.1, "y": 4929.4, "z": 42.1}', 2.30),
+    ('Paleto Freeway Ron', '{"x": 1701.3, "y": 6416.0, "z": 32.8}', 2.60),
+    ('Paleto Bay Ron', '{"x": 179.8, "y": 6602.8, "z": 31.9}', 2.45),
+    ('Paleto Bay Xero', '{"x": -94.4, "y": 6419.5, "z": 31.6}', 2.45),
+    ('Lago Zancudo Ron', '{"x": -2554.9, "y": 2334.4, "z": 33.1}', 2.50),
+    ('Richman Glen LTD', '{"x": -1800.0, "y": 803.6, "z": 138.7}', 2.75),
+    ('Morningwood Ron', '{"x": -1437.1, "y": -276.7, "z": 46.2}', 2.65),
+    ('Pacific Bluffs Xero', '{"x": -2096.2, "y": -320.2, "z": 13.2}', 2.60),
+    ('Little Seoul LTD', '{"x": -724.6, "y": -935.1, "z": 19.2}', 2.55),
+    ('Little Seoul Xero', '{"x": -526.0, "y": -1211.0, "z": 18.2}', 2.50),
+    ('Grove Street LTD', '{"x": -70.2, "y": -1761.8, "z": 29.5}', 2.40),
+    ('Strawberry Xero', '{"x": 265.6, "y": -1261.3, "z": 29.3}', 2.50),
+    ('La Mesa Ron', '{"x": 819.6, "y": -1028.8, "z": 26.4}', 2.45),
+    ('El Burro Heights Ron', '{"x": 1208.9, "y": -1402.5, "z": 35.2}', 2.40),
+    ('Mirror Park LTD', '{"x": 1181.4, "y": -330.8, "z": 69.3}', 2.55),
+    ('Vinewood Globe Oil', '{"x": 620.8, "y": 269.1, "z": 103.1}', 2.70),
+    ('Palomino Freeway Ron', '{"x": 2581.3, "y": 362.0, "z": 108.5}', 2.60)
+`
+
+interface ClassProfile {
+  tank: number // Liters
+  per100Km: number // Liters per 100 km driven
+  idlePerHour: number // Liters per hour with the engine idling
+  models: string[]
+}
+
+const CLASS_PROFILES: { [vehicleClass: string]: ClassProfile } = {
+  compact: {
+    tank: 40,
+    per100Km: 45,
+    idlePerHour: 2,
+    models: ["blista", "brioso", "dilettante", "issi2", "panto", "prairie", "rhapsody"],
+  },
+  sedan: {
+    tank: 55,
+    per100Km: 50,
+    idlePerHour: 2.5,
+    models: ["asea", "asterope", "fugitive", "ingot", "intruder", "premier", "primo", "regina", "stratum", "taxi"],
+  },
+  sports: {
+    tank: 60,
+    per100Km: 65,
+    idlePerHour: 3,
+    models: ["banshee", "carbonizzare", "coquette", "ninef", "rapidgt", "stinger", "buffalo", "feltzer2", "police"],
+  },
+  super: {
+    tank: 70,
+    per100Km: 80,
+    idlePerHour: 4,
+    models: ["adder", "zentorno", "entityxf", "infernus", "vacca", "bullet", "cheetah"],
+  },
+  electric: { tank: 60, per100Km: 30, idlePerHour: 0, models: ["voltic"] },
+  motorcycle: {
+    tank: 15,
+    per100Km: 25,
+    idlePerHour: 1,
+    models: [
+      "akuma",
+      "bagger",
+      "bati",
+      "bati2",
+      "carbonrs",
+      "daemon",
+      "double",
+      "faggio2",
+      "hexer",
+      "innovation",
+      "nemesis",
+      "pcj",
+      "ruffian",
+      "sanchez",
+      "sovereign",
+      "thrust",
+    ],
+  },
+  van: { tank: 90, per100Km: 70, idlePerHour: 3, models: ["boxville2", "towtruck", "flatbed"] },
+  heavy: { tank: 400, per100Km: 150, idlePerHour: 6, models: ["phantom", "hauler", "trash"] },
+}
+
+export const migration: Migration = {
+  version: 22,
+  name: "gas_stations",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS gas_stations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        position JSON NOT NULL,
+        radius DECIMAL(5,2) NOT NULL DEFAULT 15.00,
+        fuel_price DECIMAL(6,2) NOT NULL DEFAULT 2.50,
+        property_id INT NULL,
+        FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE SET NULL
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS vehicle_fuel_profiles (
+        model VARCHAR(50) PRIMARY KEY,
+        tank_liters DECIMAL(6,2) NOT NULL,
+        liters_per_100km DECIMAL(6,2) NOT NULL,
+        idle_liters_per_hour DECIMAL(5,2) NOT NULL
+      )
+    `)
+
+    const [stations] = await query("SELECT COUNT(*) AS count FROM gas_stations")
+    if (stations.count === 0) {
+      await query(DEFAULT_STATIONS)
+    }
+
+    const [profiles] = await query("SELECT COUNT(*) AS count FROM vehicle_fuel_profiles")
+    if (profiles.count > 0) return
+
+    for (const profile of Object.values(CLASS_PROFILES)) {
+      for (const model of profile.models) {
+        await query(
+          `INSERT INTO vehicle_fuel_profiles (model, tank_liters, liters_per_100km, idle_liters_per_hour)
+           VALUES (?, ?, ?, ?)`,
+          [model, profile.tank, profile.per100Km, profile.idlePerHour],
+        )
+      }
+    }
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS vehicle_fuel_profiles")
+    await query("DROP TABLE IF EXISTS gas_stations")
+  },
+}
@@ -0,0 +1,66 @@
+/**
+ * 023 - Vehicle insurance
+ * Insurance policies sold by agents, billed monthly to the owner's bank, and the claims filed against them for
+ * destroyed or stolen vehicles. The insurance_expires date that purchases used to set covered nothing, so it is cleared
+ * and from now on mirrors the paid-up date of the vehicle's active policy.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 23,
+  name: "insurance",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS insurance_policies (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        vehicle_id INT NOT NULL,
+        owner_id INT NOT NULL,
+        agent_id INT NULL,
+        tier ENUM('liability', 'collision', 'comprehensive') NOT NULL,
+        coverage_value DECIMAL(12,2) NOT NULL,
+        premium DECIMAL(10,2) NOT NULL,
+        deductible DECIMAL(10,2) NOT NULL,
+        status ENUM('active', 'lapsed', 'cancelled') NOT NULL DEFAULT 'active',
+        started_at DATETIME NOT NULL,
+        paid_until DATETIME NOT NULL,
+        ended_at DATETIME NULL,
+        FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+        FOREIGN KEY (owner_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (agent_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_insurance_policies_status (status, paid_until)
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS insurance_claims (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        policy_id INT NOT NULL,
+        claimant_id INT NOT NULL,
+        type ENUM('destroyed', 'stolen') NOT NULL,
+        description VARCHAR(255) NOT NULL,
+        verified BOOLEAN NOT NULL DEFAULT FALSE,
+        status ENUM('pending', 'approved', 'denied') NOT NULL DEFAULT 'pending',
+        settlement ENUM('payout', 'replacement') NULL,
+        amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+        agent_id INT NULL,
+        agent_commission DECIMAL(10,2) NOT NULL DEFAULT 0,
+        decision_reason VARCHAR(255) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        decided_at DATETIME NULL,
+        FOREIGN KEY (policy_id) REFERENCES insurance_policies(id) ON DELETE CASCADE,
+        FOREIGN KEY (claimant_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (agent_id) REFERENCES characters(id) ON DELETE SET NULL,
+        INDEX idx_insurance_claims_status (status)
+      )
+    `)
+
+    await query("UPDATE vehicles SET insurance_expires = NULL")
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS insurance_claims")
+    await query("DROP TABLE IF EXISTS insurance_policies")
+  },
+}
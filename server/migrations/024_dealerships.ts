@@ -0,0 +1,201 @@
+/**
+ * 024 - Dealerships
+ * Moves the dealership catalog out of code: the vehicle models on sale with their list price, the dealerships with
+ * their showroom and delivery spot, and each dealership's stock and retail price per model, restocked on a schedule.
+ * Dealerships can be run as business properties, which buy stock wholesale and set their own prices. Every sale is
+ * recorded with the financing loan that paid for it, if any.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+interface SeedDealership {
+  tag: string
+  name: string
+  position: { x: number; y: number; z: number }
+  spawn: { x: number; y: number; z: number }
+  models: [model: string, name: string, price: number, category: string][]
+}
+
+const DEALERSHIPS: SeedDealership[] = [
+  {
+    tag: "pdm",
+    name: "Premium Deluxe Motorsport",
+    position: { x: -56.79, y: -1096.85, z: 25.42 },
+    spawn: { x: -44.5, y: -1082.5, z: 26.7 },
+    models: [
+      ["adder", "Truffade Adder", 1000000, "super"],
+      ["zentorno", "Pegassi Zentorno", 725000, "super"],
+      ["entityxf", "Overflod Entity XF", 795000, "super"],
+      ["infernus", "Pegassi Infernus", 440000, "super"],
+      ["vacca", "Pegassi Vacca", 240000, "super"],
+      ["bullet", "Vapid Bullet", 155000, "super"],
+      ["cheetah", "Grotti Cheetah", 650000, "super"],
+      ["voltic", "Coil Voltic", 150000, "super"],
+      ["banshee", "Bravado Banshee", 105000, "sports"],
+      ["carbonizzare", "Grotti Carbonizzare", 195000, "sports"],
+      ["coquette", "Invetero Coquette", 138000, "sports"],
+      ["ninef", "Obey 9F", 130000, "sports"],
+      ["rapidgt", "Dewbauchee Rapid GT", 132000, "sports"],
+      ["stinger", "Grotti Stinger", 850000, "sports_classic"],
+      ["buffalo", "Bravado Buffalo", 35000, "sports"],
+      ["feltzer2", "Benefactor Feltzer", 130000, "sports"],
+    ],
+  },
+  {
+    tag: "simeon",
+    name: "Simeon's Dealership",
+    position: { x: -1255.6, y: -361.16, z: 36.91 },
+    spawn: { x: -1233.0, y: -349.0, z: 37.3 },
+    models: [
+      ["blista", "Dinka Blista", 8000, "compact"],
+      ["brioso", "Grotti Brioso R/A", 18000, "compact"],
+      ["dilettante", "Karin Dilettante", 25000, "compact"],
+      ["issi2", "Weeny Issi", 18000, "compact"],
+      ["panto", "Benefactor Panto", 85000, "compact"],
+      ["prairie", "Bollokan Prairie", 25000, "compact"],
+      ["rhapsody", "Declasse Rhapsody", 140000, "compact"],
+      ["asea", "Declasse Asea", 12000, "sedan"],
+      ["asterope", "Karin Asterope", 26000, "sedan"],
+      ["fugitive", "Cheval Fugitive", 24000, "sedan"],
+      ["ingot", "Vulcar Ingot", 9000, "sedan"],
+      ["intruder", "Karin Intruder", 16000, "sedan"],
+      ["premier", "Declasse Premier", 10000, "sedan"],
+      ["primo", "Albany Primo", 9000, "sedan"],
+      ["regina", "Dundreary Regina", 8000, "sedan"],
+      ["stratum", "Zirconium Stratum", 10000, "sedan"],
+    ],
+  },
+  {
+    tag: "bikes",
+    name: "Sanders Motorcycles",
+    position: { x: 268.0, y: -1155.0, z: 29.3 },
+    spawn: { x: 255.0, y: -1160.0, z: 29.2 },
+    models: [
+      ["akuma", "Dinka Akuma", 9000, "motorcycle"],
+      ["bagger", "Western Bagger", 16000, "motorcycle"],
+      ["bati", "Pegassi Bati 801", 15000, "motorcycle"],
+      ["bati2", "Pegassi Bati 801RR", 15000, "motorcycle"],
+      ["carbonrs", "Nagasaki Carbon RS", 40000, "motorcycle"],
+      ["daemon", "Western Daemon", 5000, "motorcycle"],
+      ["double", "Dinka Double-T", 12000, "motorcycle"],
+      ["faggio2", "Pegassi Faggio", 4000, "motorcycle"],
+      ["hexer", "LCC Hexer", 15000, "motorcycle"],
+      ["innovation", "LCC Innovation", 90000, "motorcycle"],
+      ["nemesis", "Principe Nemesis", 12000, "motorcycle"],
+      ["pcj", "Shitzu PCJ 600", 9000, "motorcycle"],
+      ["ruffian", "Pegassi Ruffian", 10000, "motorcycle"],
+      ["sanchez", "Maibatsu Sanchez", 7000, "motorcycle"],
+      ["sovereign", "Western Sovereign", 90000, "motorcycle"],
+      ["thrust", "Dinka Thrust", 75000, "motorcycle"],
+    ],
+  },
+]
+
+// Rarer cars are kept in smaller numbers
+const MAX_STOCK: { [category: string]: number } = { super: 2, sports_classic: 2, sports: 3 }
+const DEFAULT_MAX_STOCK = 5
+
+export const migration: Migration = {
+  version: 24,
+  name: "dealerships",
+
+  up: async ({ query }) => {
+    await query(
+      `ALTER TABLE properties MODIFY COLUMN business_type
+       ENUM('store', 'restaurant', 'bar', 'gas_station', 'dealership') NULL`,
+    )
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS vehicle_models (
+        model VARCHAR(50) PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        category VARCHAR(30) NOT NULL,
+        list_price DECIMAL(12,2) NOT NULL
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS dealerships (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        tag VARCHAR(20) NOT NULL UNIQUE,
+        name VARCHAR(100) NOT NULL,
+        position JSON NOT NULL,
+        spawn_position JSON NOT NULL,
+        radius DECIMAL(5,2) NOT NULL DEFAULT 20.00,
+        restock_hours INT NOT NULL DEFAULT 6,
+        last_restocked_at DATETIME NULL,
+        property_id INT NULL,
+        FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE SET NULL
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS dealership_stock (
+        dealership_id INT NOT NULL,
+        model VARCHAR(50) NOT NULL,
+        retail_price DECIMAL(12,2) NOT NULL,
+        stock INT NOT NULL DEFAULT 0,
+        max_stock INT NOT NULL DEFAULT 5,
+        restock_amount INT NOT NULL DEFAULT 1,
+        PRIMARY KEY (dealership_id, model),
+        FOREIGN KEY (dealership_id) REFERENCES dealerships(id) ON DELETE CASCADE,
+        FOREIGN KEY (model) REFERENCES vehicle_models(model) ON DELETE CASCADE
+      )
+    `)
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS dealership_sales (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        dealership_id INT NOT NULL,
+        vehicle_id INT NOT NULL,
+        buyer_id INT NOT NULL,
+        model VARCHAR(50) NOT NULL,
+        price DECIMAL(12,2) NOT NULL,
+        down_payment DECIMAL(12,2) NOT NULL,
+        loan_id INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (dealership_id) REFERENCES dealerships(id) ON DELETE CASCADE,
+        FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+        FOREIGN KEY (buyer_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE SET NULL,
+        INDEX idx_dealership_sales_dealership (dealership_id, created_at)
+      )
+    `)
+
+    const [existing] = await query("SELECT COUNT(*) AS count FROM dealerships")
+    if (existing.count > 0) return
+
+    for (const dealership of DEALERSHIPS) {
+      const result = await query(
+        "INSERT INTO dealerships (tag, name, position, spawn_position, last_restocked_at) VALUES (?, ?, ?, ?, NOW())",
+        [dealership.tag, dealership.name, JSON.stringify(dealership.position), JSON.stringify(dealership.spawn)],
+      )
+
+      for (const [model, name, price, category] of dealership.models) {
+        const maxStock = MAX_STOCK[category] ?? DEFAULT_MAX_STOCK
+        await query("INSERT IGNORE INTO vehicle_models (model, name, category, list_price) VALUES (?, ?, ?, ?)", [
+          model,
+          name,
+          category,
+          price,
+        ])
+        await query(
+          `INSERT INTO dealership_stock (dealership_id, model, retail_price, stock, max_stock)
+           VALUES (?, ?, ?, ?, ?)`,
+          [result.insertId, model, price, maxStock, maxStock],
+        )
+      }
+    }
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS dealership_sales")
+    await query("DROP TABLE IF EXISTS dealership_stock")
+    await query("DROP TABLE IF EXISTS dealerships")
+    await query("DROP TABLE IF EXISTS vehicle_models")
+    await query("UPDATE properties SET business_type = NULL WHERE business_type = 'dealership'")
+    await query(
+      "ALTER TABLE properties MODIFY COLUMN business_type ENUM('store', 'restaurant', 'bar', 'gas_station') NULL",
+    )
+  },
+}
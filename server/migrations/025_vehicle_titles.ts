@@ -0,0 +1,42 @@
+/**
+ * 025 - Vehicle titles
+ * Every change of a vehicle's registered owner is kept as a title record: the title issued when a vehicle is first
+ * registered, and each sale from one player to another with its price. Vehicles that already exist get an issued
+ * title dated to when they were registered.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+
+export const migration: Migration = {
+  version: 25,
+  name: "vehicle_titles",
+
+  up: async ({ query }) => {
+    await query(`
+      CREATE TABLE IF NOT EXISTS vehicle_title_transfers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        vehicle_id INT NOT NULL,
+        from_owner_id INT NULL,
+        to_owner_id INT NOT NULL,
+        type ENUM('issued', 'sale') NOT NULL,
+        price DECIMAL(12,2) NULL,
+        transaction_id INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+        FOREIGN KEY (from_owner_id) REFERENCES characters(id) ON DELETE SET NULL,
+        FOREIGN KEY (to_owner_id) REFERENCES characters(id) ON DELETE CASCADE,
+        INDEX idx_vehicle_title_transfers_vehicle (vehicle_id, created_at)
+      )
+    `)
+
+    await query(
+      `INSERT INTO vehicle_title_transfers (vehicle_id, to_owner_id, type, created_at)
+       SELECT v.id, v.owner_id, 'issued', v.created_at FROM vehicles v
+       WHERE NOT EXISTS (SELECT 1 FROM vehicle_title_transfers t WHERE t.vehicle_id = v.id)`,
+    )
+  },
+
+  down: async ({ query }) => {
+    await query("DROP TABLE IF EXISTS vehicle_title_transfers")
+  },
+}
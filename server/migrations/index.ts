@@ -0,0 +1,59 @@
+/**
+ * Schema migrations, applied in version order by the MigrationRunner.
+ * Add new migrations as NNN_description.ts and list them here; never edit one that has shipped.
+ */
+
+import type { Migration } from "../core/MigrationRunner"
+import { migration as initialSchema } from "./001_initial_schema"
+import { migration as reconcileLegacyLayouts } from "./002_reconcile_legacy_layouts"
+import { migration as seedDefaultJobsAndFactions } from "./003_seed_default_jobs_and_factions"
+import { migration as transactionKinds } from "./004_transaction_kinds"
+import { migration as ledgerAccounts } from "./005_ledger_accounts"
+import { migration as loansAndCredit } from "./006_loans_and_credit"
+import { migration as taxPolicy } from "./007_tax_policy"
+import { migration as inventory } from "./008_inventory"
+import { migration as businessTypes } from "./009_business_types"
+import { migration as injuries } from "./010_injuries"
+import { migration as lawEnforcement } from "./011_law_enforcement"
+import { migration as jailSentences } from "./012_jail_sentences"
+import { migration as courts } from "./013_courts"
+import { migration as phones } from "./014_phones"
+import { migration as dispatchCalls } from "./015_dispatch_calls"
+import { migration as dutySessions } from "./016_duty_sessions"
+import { migration as jobRanks } from "./017_job_ranks"
+import { migration as jobApplicationReviews } from "./018_job_application_reviews"
+import { migration as taxiFares } from "./019_taxi_fares"
+import { migration as logisticsRoutes } from "./020_logistics_routes"
+import { migration as serviceOrders } from "./021_service_orders"
+import { migration as gasStations } from "./022_gas_stations"
+import { migration as insurance } from "./023_insurance"
+import { migration as dealerships } from "./024_dealerships"
+import { migration as vehicleTitles } from "./025_vehicle_titles"
+
+export const migrations: Migration[] = [
+  initialSchema,
+  reconcileLegacyLayouts,
+  seedDefaultJobsAndFactions,
+  transactionKinds,
+  ledgerAccounts,
+  loansAndCredit,
+  taxPolicy,
+  inventory,
+  businessTypes,
+  injuries,
+  lawEnforcement,
+  jailSentences,
+  courts,
+  phones,
+  dispatchCalls,
+  dutySessions,
+  jobRanks,
+  jobApplicationReviews,
+  taxiFares,
+  logisticsRoutes,
+  serviceOrders,
+  gasStations,
+  insurance,
+  dealerships,
+  vehicleTitles,
+]
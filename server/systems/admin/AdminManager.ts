@@ -523,89 +523,6 @@ export class AdminManager {
     }
   }
 
-  // Command handling methods
-  public isAdminCommand(command: string): boolean {
-    const adminCommands = [
-      "akick",
-      "aban",
-      "aunban",
-      "amute",
-      "aunmute",
-      "awarn",
-      "goto",
-      "gethere",
-      "spec",
-      "aduty",
-      "setadmin",
-      "reports",
-      "acceptreport",
-      "closereport",
-    ]
-    return adminCommands.includes(command)
-  }
-
-  public async handleCommand(player: any, command: string, params: string[]): Promise<void> {
-    const adminLevel = this.getAdminLevel(player.id)
-
-    if (adminLevel === 0) {
-      player.outputChatBox("No tienes permisos de administrador.")
-      return
-    }
-
-    switch (command) {
-      case "akick":
-        if (params.length < 2) {
-          player.outputChatBox("Uso: /akick [id] [razón]")
-          return
-        }
-        const kickResult = await this.kickPlayer(Number.parseInt(params[0]), player.id, params.slice(1).join(" "))
-        player.outputChatBox(kickResult.message)
-        break
-
-      case "aban":
-        if (params.length < 2) {
-          player.outputChatBox("Uso: /aban [id] [razón] [horas (opcional)]")
-          return
-        }
-        const duration = params[2] ? Number.parseInt(params[2]) : 0
-        const banResult = await this.banPlayer(Number.parseInt(params[0]), player.id, params[1], duration)
-        player.outputChatBox(banResult.message)
-        break
-
-      case "setadmin":
-        if (params.length < 2) {
-          player.outputChatBox("Uso: /setadmin [id] [nivel]")
-          return
-        }
-        const level = Number.parseInt(params[1])
-        const defaultPermissions = this.getDefaultPermissions(level)
-        const setAdminResult = await this.setAdminLevel(
-          Number.parseInt(params[0]),
-          level,
-          defaultPermissions,
-          player.id,
-        )
-        player.outputChatBox(setAdminResult.message)
-        break
-
-      default:
-        player.outputChatBox("Comando de admin no reconocido.")
-    }
-  }
-
-  private getDefaultPermissions(level: number): string[] {
-    const permissions: string[] = []
-
-    if (level >= 1) permissions.push("kick", "warn", "handle_reports")
-    if (level >= 2) permissions.push("mute", "unmute")
-    if (level >= 3) permissions.push("ban", "unban")
-    if (level >= 4) permissions.push("teleport", "spectate")
-    if (level >= 5) permissions.push("set_admin_level")
-    if (level >= 10) permissions.push("*") // All permissions
-
-    return permissions
-  }
-
   // Event handlers remain the same but use instance methods
   private async handleKick(data: any): Promise<void> {
     const result = await this.kickPlayer(data.targetId, data.adminId, data.reason)
@@ -52,6 +52,13 @@ export class ChatManager {
       return
     }
 
+    // Players on an active call speak into the phone
+    const phoneManager = global.AmericanRP.getPhoneManager()
+    if (phoneManager.isInCall(player)) {
+      phoneManager.relayCallMessage(player, message)
+      return
+    }
+
     // Default to local chat
     this.handleLocalChat(player, message)
   }
@@ -348,6 +355,21 @@ export class ChatManager {
     })
   }
 
+  /**
+   * Posts a system message on the job channel of every on-duty player in the given jobs
+   */
+  public sendJobChannelMessage(jobNames: string[], message: string, color = "#00BFFF"): void {
+    global.AmericanRP.getJobManager()
+      .getOnDutyPlayers(jobNames)
+      .forEach((player) => {
+        player.call("client:receiveChat", {
+          type: "job",
+          message,
+          color,
+        })
+      })
+  }
+
   public sendErrorMessage(player: any, message: string): void {
     // Updated to use 'any' type
     this.sendMessage(player, `[ERROR] ${message}`, "#FF0000")
@@ -0,0 +1,679 @@
+/**
+ * Court Manager - Court cases over arrests and citations (filing, hearings, pleas, verdicts and sentencing) for the
+ * Judge, District Attorney, Public Defender and Lawyer jobs, and search warrants for locked properties
+ */
+
+import type { RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import { formatDuration } from "../../core/ArgumentParser"
+import { LAW_ENFORCEMENT_JOBS } from "../police/MdcManager"
+import type { CommandParams, CourtCase, CourtPlea, CourtVerdict, SearchWarrant } from "../../types"
+
+const JUDGE_JOBS = ["Judge"]
+const PROSECUTOR_JOBS = ["District Attorney"]
+const DEFENSE_JOBS = ["Public Defender", "Lawyer"]
+const COURT_JOBS = [...JUDGE_JOBS, ...PROSECUTOR_JOBS, ...DEFENSE_JOBS]
+
+const MAX_HEARING_DELAY_MINUTES = 14 * 24 * 60
+const MAX_SENTENCE_FINE = 10000
+const MAX_SENTENCE_MINUTES = 240
+const SEARCH_WARRANT_HOURS = 24
+const DOCKET_LIMIT = 15
+
+export class CourtManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private searchWarrants: Map<number, SearchWarrant[]> = new Map() // Active warrants keyed by property id
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("CourtManager")
+
+    this.loadSearchWarrants()
+  }
+
+  private async loadSearchWarrants(): Promise<void> {
+    try {
+      const warrants: SearchWarrant[] = await this.database.query(
+        "SELECT * FROM search_warrants WHERE status = 'active' AND expires_at > NOW()",
+      )
+      warrants.forEach((warrant) => this.cacheSearchWarrant(warrant))
+      this.logger.info(`Loaded ${warrants.length} active search warrants`)
+    } catch (error) {
+      this.logger.error("Error loading search warrants:", error)
+    }
+  }
+
+  private cacheSearchWarrant(warrant: SearchWarrant): void {
+    if (!this.searchWarrants.has(warrant.property_id)) {
+      this.searchWarrants.set(warrant.property_id, [])
+    }
+    this.searchWarrants.get(warrant.property_id)!.push(warrant)
+  }
+
+  public async getCase(caseId: number): Promise<CourtCase | undefined> {
+    const rows = await this.database.query("SELECT * FROM court_cases WHERE id = ?", [caseId])
+    return rows[0] ? this.mapCase(rows[0]) : undefined
+  }
+
+  /**
+   * Files a case over an arrest (criminal record entry) or a citation. The defendant and charges come from the
+   * record being contested.
+   */
+  public async fileCase(
+    source: "arrest" | "citation",
+    sourceId: number,
+    prosecutorId: number | null,
+  ): Promise<{ success: boolean; message: string; caseId?: number }> {
+    try {
+      const column = source === "arrest" ? "record_id" : "citation_id"
+      const open = await this.database.query(
+        `SELECT id FROM court_cases WHERE ${column} = ? AND status <> 'closed'`,
+        [sourceId],
+      )
+      if (open.length > 0) {
+        return { success: false, message: `Case #${open[0].id} is already open for that ${source}.` }
+      }
+
+      let defendantId: number
+      let charges: string
+      if (source === "arrest") {
+        const records = await this.database.query("SELECT character_id, offense FROM criminal_records WHERE id = ?", [
+          sourceId,
+        ])
+        if (records.length === 0) {
+          return { success: false, message: `No criminal record entry #${sourceId}.` }
+        }
+        defendantId = records[0].character_id
+        charges = records[0].offense
+      } else {
+        const citations = await this.database.query("SELECT character_id, offense, status FROM citations WHERE id = ?", [
+          sourceId,
+        ])
+        if (citations.length === 0) {
+          return { success: false, message: `No citation #${sourceId}.` }
+        }
+        if (citations[0].status === "paid" || citations[0].status === "dismissed") {
+          return { success: false, message: `Citation #${sourceId} is already ${citations[0].status}.` }
+        }
+        defendantId = citations[0].character_id
+        charges = citations[0].offense
+      }
+
+      const result = await this.database.query(
+        `INSERT INTO court_cases (defendant_id, ${column}, charges, prosecutor_id) VALUES (?, ?, ?, ?)`,
+        [defendantId, sourceId, charges, prosecutorId],
+      )
+
+      this.eventManager.emit("court:caseFiled", { caseId: result.insertId, defendantId, source, sourceId })
+      this.logger.info(`Case #${result.insertId} filed against character ${defendantId} over ${source} #${sourceId}`)
+      return { success: true, message: `Case #${result.insertId} filed: ${charges}.`, caseId: result.insertId }
+    } catch (error) {
+      this.logger.error("Error filing case:", error)
+      return { success: false, message: "An error occurred while filing the case." }
+    }
+  }
+
+  public async scheduleHearing(
+    caseId: number,
+    judgeId: number,
+    minutesFromNow: number,
+  ): Promise<{ success: boolean; message: string }> {
+    const courtCase = await this.getCase(caseId)
+    if (!courtCase || courtCase.status === "closed") {
+      return { success: false, message: "No open case with that ID." }
+    }
+
+    await this.database.query(
+      `UPDATE court_cases SET judge_id = ?, hearing_at = DATE_ADD(NOW(), INTERVAL ? MINUTE),
+       status = IF(status = 'filed', 'scheduled', status) WHERE id = ?`,
+      [judgeId, minutesFromNow, caseId],
+    )
+
+    this.notifyParties(courtCase, `A hearing for case #${caseId} is scheduled in ${formatDuration(minutesFromNow)}.`)
+    return { success: true, message: `Hearing for case #${caseId} scheduled in ${formatDuration(minutesFromNow)}.` }
+  }
+
+  public async assignDefender(caseId: number, defenderId: number): Promise<{ success: boolean; message: string }> {
+    const courtCase = await this.getCase(caseId)
+    if (!courtCase || courtCase.status === "closed") {
+      return { success: false, message: "No open case with that ID." }
+    }
+
+    if (courtCase.defendant_id === defenderId) {
+      return { success: false, message: "You can't represent yourself as counsel." }
+    }
+
+    await this.database.query("UPDATE court_cases SET defender_id = ? WHERE id = ?", [defenderId, caseId])
+    this.notifyParties({ ...courtCase, defender_id: defenderId }, `Counsel has been assigned to case #${caseId}.`)
+    return { success: true, message: `You now represent the defendant in case #${caseId}.` }
+  }
+
+  public async enterPlea(caseId: number, plea: CourtPlea): Promise<{ success: boolean; message: string }> {
+    const courtCase = await this.getCase(caseId)
+    if (!courtCase || courtCase.status === "closed" || courtCase.status === "awaiting_sentence") {
+      return { success: false, message: "Pleas can only be entered on open cases awaiting a verdict." }
+    }
+
+    await this.database.query("UPDATE court_cases SET plea = ? WHERE id = ?", [plea, caseId])
+    this.notifyParties(courtCase, `The defendant in case #${caseId} pleaded ${plea.replace("_", " ")}.`)
+    return { success: true, message: `Plea of ${plea.replace("_", " ")} entered for case #${caseId}.` }
+  }
+
+  /**
+   * Records the verdict. A guilty verdict goes on the criminal record and waits for sentencing; acquittals and
+   * dismissals close the case and throw out a contested citation.
+   */
+  public async recordVerdict(
+    caseId: number,
+    judgeId: number,
+    verdict: CourtVerdict,
+  ): Promise<{ success: boolean; message: string }> {
+    const courtCase = await this.getCase(caseId)
+    if (!courtCase || courtCase.status === "closed" || courtCase.status === "awaiting_sentence") {
+      return { success: false, message: "No case awaiting a verdict with that ID." }
+    }
+
+    if (courtCase.defendant_id === judgeId) {
+      return { success: false, message: "You cannot rule on your own case." }
+    }
+
+    if (verdict !== "dismissed" && !courtCase.plea) {
+      return { success: false, message: "The defendant has not entered a plea yet." }
+    }
+
+    try {
+      // Only the first of two verdicts entered at once applies
+      const status = verdict === "guilty" ? "awaiting_sentence" : "closed"
+      const result = await this.database.query(
+        `UPDATE court_cases SET verdict = ?, judge_id = ?, status = ?, closed_at = IF(? = 'closed', NOW(), NULL)
+         WHERE id = ? AND status NOT IN ('closed', 'awaiting_sentence')`,
+        [verdict, judgeId, status, status, caseId],
+      )
+      if (result.affectedRows === 0) {
+        return { success: false, message: "No case awaiting a verdict with that ID." }
+      }
+
+      if (verdict === "guilty") {
+        await global.AmericanRP.getMdcManager().addRecord(
+          courtCase.defendant_id,
+          `Convicted: ${courtCase.charges} (case #${caseId})`.substring(0, 150),
+          judgeId,
+        )
+      } else if (courtCase.citation_id) {
+        await global.AmericanRP.getMdcManager().dismissCitation(courtCase.citation_id)
+      }
+
+      const outcome = verdict === "not_guilty" ? "not guilty" : verdict
+      this.notifyParties(courtCase, `Verdict in case #${caseId}: ${outcome}.`)
+      this.eventManager.emit("court:verdict", { caseId, defendantId: courtCase.defendant_id, verdict })
+      return { success: true, message: `Verdict recorded for case #${caseId}: ${outcome}.` }
+    } catch (error) {
+      this.logger.error("Error recording verdict:", error)
+      return { success: false, message: "An error occurred while recording the verdict." }
+    }
+  }
+
+  /**
+   * Sentences a convicted defendant. Jail time goes through the detention system and fines are issued as
+   * citations so they are paid and chased like any other.
+   */
+  public async sentence(
+    caseId: number,
+    judgeId: number,
+    jailMinutes: number,
+    fine: number,
+  ): Promise<{ success: boolean; message: string }> {
+    const courtCase = await this.getCase(caseId)
+    if (!courtCase || courtCase.status !== "awaiting_sentence") {
+      return { success: false, message: "No case awaiting sentencing with that ID." }
+    }
+
+    if (courtCase.defendant_id === judgeId) {
+      return { success: false, message: "You cannot sentence your own case." }
+    }
+
+    if (jailMinutes <= 0 && fine <= 0) {
+      return { success: false, message: "A sentence needs jail time, a fine, or both." }
+    }
+
+    // The jail time, the fine and the closed case are written in one commit, so a sentence that fails halfway
+    // leaves nothing behind and can simply be passed again
+    const parts: string[] = []
+    let failure = ""
+    try {
+      await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT status FROM court_cases WHERE id = ? FOR UPDATE",
+          [caseId],
+        )
+        if (!rows.length || rows[0].status !== "awaiting_sentence") {
+          failure = "No case awaiting sentencing with that ID."
+          throw new Error("not_awaiting_sentence")
+        }
+
+        if (jailMinutes > 0) {
+          const jail = await global.AmericanRP.getDetentionManager().sentence(
+            courtCase.defendant_id,
+            jailMinutes,
+            `${courtCase.charges} (case #${caseId})`.substring(0, 255),
+            judgeId,
+            connection,
+          )
+          if (!jail.success) {
+            failure = jail.message
+            throw new Error("jail_failed")
+          }
+          parts.push(`${jailMinutes} minutes in jail`)
+        }
+
+        if (fine > 0) {
+          const citation = await global.AmericanRP.getMdcManager().issueCitation(
+            courtCase.defendant_id,
+            `Court fine, case #${caseId}`,
+            fine,
+            judgeId,
+            null,
+            connection,
+          )
+          if (!citation.success) {
+            failure = citation.message
+            throw new Error("fine_failed")
+          }
+          parts.push(`a $${fine.toLocaleString()} fine (citation #${citation.citationId})`)
+        }
+
+        await connection.execute(
+          "UPDATE court_cases SET jail_minutes = ?, fine = ?, status = 'closed', closed_at = NOW() WHERE id = ?",
+          [jailMinutes || null, fine || null, caseId],
+        )
+      })
+    } catch (error) {
+      if (failure) {
+        return { success: false, message: failure }
+      }
+      this.logger.error(`Error sentencing case #${caseId}:`, error)
+      return { success: false, message: "An error occurred while recording the sentence." }
+    }
+
+    const summary = parts.join(" and ")
+    this.notifyParties(courtCase, `Case #${caseId} sentenced to ${summary}.`)
+    this.eventManager.emit("court:sentenced", { caseId, defendantId: courtCase.defendant_id, jailMinutes, fine })
+    this.logger.info(`Case #${caseId} sentenced to ${summary}`)
+    return { success: true, message: `Case #${caseId} sentenced to ${summary}.` }
+  }
+
+  public async issueSearchWarrant(propertyId: number, reason: string, judgeId: number): Promise<number> {
+    const result = await this.database.query(
+      `INSERT INTO search_warrants (property_id, reason, issued_by, expires_at)
+       VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR))`,
+      [propertyId, reason, judgeId, SEARCH_WARRANT_HOURS],
+    )
+
+    const rows = await this.database.query("SELECT * FROM search_warrants WHERE id = ?", [result.insertId])
+    this.cacheSearchWarrant(rows[0])
+    return result.insertId
+  }
+
+  public async revokeSearchWarrant(warrantId: number): Promise<boolean> {
+    const result = await this.database.query(
+      "UPDATE search_warrants SET status = 'revoked' WHERE id = ? AND status = 'active'",
+      [warrantId],
+    )
+
+    this.searchWarrants.forEach((warrants, propertyId) => {
+      this.searchWarrants.set(
+        propertyId,
+        warrants.filter((warrant) => warrant.id !== warrantId),
+      )
+    })
+    return result.affectedRows > 0
+  }
+
+  public getActiveSearchWarrants(propertyId?: number): SearchWarrant[] {
+    const now = Date.now()
+    const warrants =
+      propertyId === undefined
+        ? Array.from(this.searchWarrants.values()).flat()
+        : (this.searchWarrants.get(propertyId) ?? [])
+    return warrants.filter((warrant) => new Date(warrant.expires_at).getTime() > now)
+  }
+
+  /**
+   * Whether the player may force entry into a locked property: an on-duty officer with an unexpired warrant for it
+   */
+  public canSearch(player: any, propertyId: number): boolean {
+    return (
+      global.AmericanRP.getJobManager().isOnDuty(player, LAW_ENFORCEMENT_JOBS) &&
+      this.getActiveSearchWarrants(propertyId).length > 0
+    )
+  }
+
+  private mapCase(row: any): CourtCase {
+    return {
+      ...row,
+      fine: row.fine === null ? null : Number(row.fine),
+    }
+  }
+
+  private notifyParties(courtCase: CourtCase, message: string): void {
+    const partyIds = [courtCase.defendant_id, courtCase.prosecutor_id, courtCase.defender_id, courtCase.judge_id]
+    global.AmericanRP.getPlayerManager()
+      .getConnectedPlayers()
+      .forEach((player) => {
+        if (player.characterData && partyIds.includes(player.characterData.id)) {
+          this.sendCourtMessage(player, message, "info")
+        }
+      })
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "docket",
+        description: "List open court cases (court staff and police), or your own cases",
+        usage: "/docket",
+        adminLevel: 0,
+        category: "Court",
+        execute: (player) => this.showDocket(player),
+      },
+      {
+        name: "case",
+        description: "View a court case, or take it on as defense counsel",
+        usage: "/case [view|represent] [case_id]",
+        params: [
+          { name: "action", type: "word", choices: ["view", "represent"] },
+          { name: "case_id", type: "integer", min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handleCase(player, params),
+      },
+      {
+        name: "filecase",
+        description: "File a case over an arrest record entry or a citation (on-duty District Attorney)",
+        usage: "/filecase [arrest|citation] [record_id|citation_id]",
+        params: [
+          { name: "source", type: "word", choices: ["arrest", "citation"] },
+          { name: "id", type: "integer", min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handleFileCase(player, params),
+      },
+      {
+        name: "hearing",
+        description: "Schedule the hearing for a case (on-duty Judge)",
+        usage: "/hearing [case_id] [in, e.g. 30m or 2h]",
+        params: [
+          { name: "case_id", type: "integer", min: 1 },
+          { name: "in", type: "duration", min: 1, max: MAX_HEARING_DELAY_MINUTES },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handleHearing(player, params),
+      },
+      {
+        name: "plea",
+        description: "Enter a plea as the defendant or their counsel",
+        params: [
+          { name: "case_id", type: "integer", min: 1 },
+          { name: "plea", type: "word", choices: ["guilty", "not_guilty", "no_contest"] },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handlePlea(player, params),
+      },
+      {
+        name: "verdict",
+        description: "Record the verdict for a case (on-duty Judge)",
+        params: [
+          { name: "case_id", type: "integer", min: 1 },
+          { name: "verdict", type: "word", choices: ["guilty", "not_guilty", "dismissed"] },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handleVerdict(player, params),
+      },
+      {
+        name: "sentence",
+        description: "Sentence a convicted defendant to jail time and/or a fine (on-duty Judge)",
+        usage: "/sentence [case_id] [jail minutes, 0 for none] [fine]",
+        params: [
+          { name: "case_id", type: "integer", min: 1 },
+          { name: "minutes", type: "integer", min: 0, max: MAX_SENTENCE_MINUTES },
+          { name: "fine", type: "money", optional: true, max: MAX_SENTENCE_FINE },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handleSentence(player, params),
+      },
+      {
+        name: "searchwarrant",
+        description: "Issue or revoke a property search warrant (on-duty Judge), or list active ones",
+        usage: "/searchwarrant issue [property_id] [reason] | /searchwarrant revoke [warrant_id] | /searchwarrant list",
+        params: [
+          { name: "action", type: "word", choices: ["issue", "revoke", "list"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+          { name: "reason", type: "text", optional: true, max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Court",
+        execute: (player, _args, params) => this.handleSearchWarrant(player, params),
+      },
+    ])
+  }
+
+  private requireJob(player: any, jobNames: string[], title: string): boolean {
+    if (!player.characterData || !global.AmericanRP.getJobManager().isOnDuty(player, jobNames)) {
+      this.sendCourtMessage(player, `Only an on-duty ${title} can do that.`, "error")
+      return false
+    }
+    return true
+  }
+
+  private async showDocket(player: any): Promise<void> {
+    if (!player.characterData) {
+      this.sendCourtMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const staff = global.AmericanRP.getJobManager().isOnDuty(player, [...COURT_JOBS, ...LAW_ENFORCEMENT_JOBS])
+
+    try {
+      const cases = await this.database.query(
+        `SELECT cc.*, c.first_name, c.last_name FROM court_cases cc JOIN characters c ON cc.defendant_id = c.id
+         WHERE cc.status <> 'closed' ${staff ? "" : "AND cc.defendant_id = ?"}
+         ORDER BY cc.hearing_at IS NULL, cc.hearing_at, cc.created_at LIMIT ${DOCKET_LIMIT}`,
+        staff ? [] : [player.characterData.id],
+      )
+
+      let message = staff ? "=== Court Docket ===\n" : "=== Your Court Cases ===\n"
+      if (cases.length === 0) message += "No open cases"
+      for (const row of cases) {
+        const hearing = row.hearing_at ? new Date(row.hearing_at).toLocaleString() : "not scheduled"
+        message += `#${row.id} ${row.first_name} ${row.last_name}: ${row.charges} | ${row.status.replace("_", " ")} | Hearing: ${hearing}\n`
+      }
+      this.sendCourtMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing docket:", error)
+      this.sendCourtMessage(player, "The court records are unavailable. Try again.", "error")
+    }
+  }
+
+  private async handleCase(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendCourtMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    if (params.action === "represent") {
+      if (!this.requireJob(player, DEFENSE_JOBS, "Public Defender or Lawyer")) return
+
+      const result = await this.assignDefender(params.case_id, player.characterData.id)
+      this.sendCourtMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    const rows: RowDataPacket[] = await this.database.query(
+      `SELECT cc.*, CONCAT(d.first_name, ' ', d.last_name) AS defendant_name,
+              CONCAT(p.first_name, ' ', p.last_name) AS prosecutor_name,
+              CONCAT(dc.first_name, ' ', dc.last_name) AS defender_name,
+              CONCAT(j.first_name, ' ', j.last_name) AS judge_name
+       FROM court_cases cc
+       JOIN characters d ON cc.defendant_id = d.id
+       LEFT JOIN characters p ON cc.prosecutor_id = p.id
+       LEFT JOIN characters dc ON cc.defender_id = dc.id
+       LEFT JOIN characters j ON cc.judge_id = j.id
+       WHERE cc.id = ?`,
+      [params.case_id],
+    )
+    const row = rows[0]
+    const staff = global.AmericanRP.getJobManager().isOnDuty(player, [...COURT_JOBS, ...LAW_ENFORCEMENT_JOBS])
+    if (!row || (!staff && row.defendant_id !== player.characterData.id)) {
+      this.sendCourtMessage(player, "Case not found.", "error")
+      return
+    }
+
+    const source = row.record_id ? `Arrest record #${row.record_id}` : `Citation #${row.citation_id}`
+    let message = `=== Case #${row.id}: ${row.defendant_name} ===\n`
+    message += `Charges: ${row.charges} (${source})\n`
+    message += `Status: ${row.status.replace("_", " ")} | Hearing: ${row.hearing_at ? new Date(row.hearing_at).toLocaleString() : "not scheduled"}\n`
+    message += `Judge: ${row.judge_name || "None"} | Prosecutor: ${row.prosecutor_name || "None"} | Counsel: ${row.defender_name || "None"}\n`
+    message += `Plea: ${row.plea ? row.plea.replace("_", " ") : "None"} | Verdict: ${row.verdict ? row.verdict.replace("_", " ") : "None"}\n`
+    if (row.status === "closed" && (row.jail_minutes || row.fine)) {
+      message += `Sentence: ${row.jail_minutes || 0} minutes, $${Number(row.fine || 0).toLocaleString()} fine\n`
+    }
+    this.sendCourtMessage(player, message, "info")
+  }
+
+  private async handleFileCase(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireJob(player, PROSECUTOR_JOBS, "District Attorney")) return
+
+    const result = await this.fileCase(params.source, params.id, player.characterData.id)
+    this.sendCourtMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleHearing(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireJob(player, JUDGE_JOBS, "Judge")) return
+
+    const result = await this.scheduleHearing(params.case_id, player.characterData.id, params.in)
+    this.sendCourtMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handlePlea(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendCourtMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const courtCase = await this.getCase(params.case_id)
+    const characterId = player.characterData.id
+    const isCounsel =
+      courtCase?.defender_id === characterId && global.AmericanRP.getJobManager().isOnDuty(player, DEFENSE_JOBS)
+    if (!courtCase || (courtCase.defendant_id !== characterId && !isCounsel)) {
+      this.sendCourtMessage(player, "Only the defendant or their counsel can enter a plea.", "error")
+      return
+    }
+
+    const result = await this.enterPlea(params.case_id, params.plea)
+    this.sendCourtMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleVerdict(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireJob(player, JUDGE_JOBS, "Judge")) return
+
+    const result = await this.recordVerdict(params.case_id, player.characterData.id, params.verdict)
+    this.sendCourtMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleSentence(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireJob(player, JUDGE_JOBS, "Judge")) return
+
+    const result = await this.sentence(params.case_id, player.characterData.id, params.minutes, params.fine ?? 0)
+    this.sendCourtMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleSearchWarrant(player: any, params: CommandParams): Promise<void> {
+    if (params.action === "list") {
+      if (!this.requireJob(player, [...JUDGE_JOBS, ...LAW_ENFORCEMENT_JOBS], "Judge or police officer")) return
+
+      const propertyManager = global.AmericanRP.getPropertyManager()
+      const warrants = this.getActiveSearchWarrants()
+      let message = "=== Active Search Warrants ===\n"
+      if (warrants.length === 0) message += "None"
+      for (const warrant of warrants) {
+        const property = propertyManager.getProperty(warrant.property_id)
+        message += `#${warrant.id} ${property ? property.name : "Property"} (#${warrant.property_id}): ${warrant.reason} | Expires ${new Date(warrant.expires_at).toLocaleString()}\n`
+      }
+      this.sendCourtMessage(player, message, "info")
+      return
+    }
+
+    if (!this.requireJob(player, JUDGE_JOBS, "Judge")) return
+
+    if (params.id === undefined) {
+      const usage = params.action === "issue" ? "issue [property_id] [reason]" : "revoke [warrant_id]"
+      this.sendCourtMessage(player, `Usage: /searchwarrant ${usage}`, "error")
+      return
+    }
+
+    if (params.action === "revoke") {
+      const revoked = await this.revokeSearchWarrant(params.id)
+      this.sendCourtMessage(
+        player,
+        revoked ? `Search warrant #${params.id} revoked.` : "No active search warrant with that ID.",
+        revoked ? "success" : "error",
+      )
+      return
+    }
+
+    const property = global.AmericanRP.getPropertyManager().getProperty(params.id)
+    if (!property) {
+      this.sendCourtMessage(player, `No property #${params.id}.`, "error")
+      return
+    }
+
+    if (!params.reason) {
+      this.sendCourtMessage(player, "A search warrant needs a reason.", "error")
+      return
+    }
+
+    try {
+      const warrantId = await this.issueSearchWarrant(property.id, params.reason, player.characterData.id)
+      this.sendCourtMessage(
+        player,
+        `Search warrant #${warrantId} issued for ${property.name}, valid for ${SEARCH_WARRANT_HOURS} hours.`,
+        "success",
+      )
+
+      global.AmericanRP.getJobManager()
+        .getOnDutyPlayers(LAW_ENFORCEMENT_JOBS)
+        .forEach((officer) => {
+          this.sendCourtMessage(
+            officer,
+            `Search warrant #${warrantId} issued for ${property.name} (#${property.id}).`,
+            "info",
+          )
+        })
+    } catch (error) {
+      this.logger.error("Error issuing search warrant:", error)
+      this.sendCourtMessage(player, "An error occurred while issuing the search warrant.", "error")
+    }
+  }
+
+  private sendCourtMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[COURT] ${message}`, colors[type])
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Dispatch Manager - The 911/311 call queue. On-duty police, sheriff, paramedic and firefighter units accept calls,
+ * mark themselves en route and close them with a report; each stage is timestamped for response-time statistics.
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import { LAW_ENFORCEMENT_JOBS } from "../police/MdcManager"
+import type { CommandParams, DispatchCall, DispatchLine } from "../../types"
+
+export const DISPATCH_JOBS = [...LAW_ENFORCEMENT_JOBS, "Paramedic", "Firefighter"]
+export const DISPATCH_LINES: Record<DispatchLine, string> = {
+  "911": "911 Emergency",
+  "311": "311 Non-Emergency",
+}
+
+const STALE_CALL_MINUTES = 60 // Pending calls nobody accepts are closed after this long
+const STALE_CHECK_INTERVAL = 5 * 60 * 1000
+const QUEUE_LIMIT = 15
+const STATS_DAYS = 7
+
+export class DispatchManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("DispatchManager")
+
+    this.startStaleCallTimer()
+  }
+
+  private startStaleCallTimer(): void {
+    setInterval(() => {
+      this.closeStaleCalls()
+    }, STALE_CHECK_INTERVAL)
+  }
+
+  public isResponder(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, DISPATCH_JOBS)
+  }
+
+  /**
+   * Queues a call at the caller's current position and alerts every on-duty unit on their job channel
+   */
+  public async fileCall(
+    caller: any,
+    line: DispatchLine,
+    description: string,
+  ): Promise<{ success: boolean; message: string; callId?: number }> {
+    try {
+      const position = { x: caller.position.x, y: caller.position.y, z: caller.position.z }
+      const result = await this.database.query(
+        "INSERT INTO dispatch_calls (line, caller_id, caller_number, description, position) VALUES (?, ?, ?, ?, ?)",
+        [
+          line,
+          caller.characterData.id,
+          caller.characterData.phone_number ?? null,
+          description,
+          JSON.stringify(position),
+        ],
+      )
+
+      const callId = result.insertId
+      const units = global.AmericanRP.getJobManager().getOnDutyPlayers(DISPATCH_JOBS).length
+      this.notifyUnits(`New ${DISPATCH_LINES[line]} call #${callId}: ${description} (/dispatch accept ${callId})`)
+      this.eventManager.emit("dispatch:callFiled", { callId, line, callerId: caller.characterData.id, description })
+      this.logger.info(`${DISPATCH_LINES[line]} call #${callId} filed: ${description}`)
+
+      return {
+        success: true,
+        message:
+          units > 0
+            ? `${DISPATCH_LINES[line]}: call #${callId} received. ${units} unit(s) on duty have been notified.`
+            : `${DISPATCH_LINES[line]}: call #${callId} received, but no units are on duty right now.`,
+        callId,
+      }
+    } catch (error) {
+      this.logger.error("Error filing dispatch call:", error)
+      return { success: false, message: "Dispatch could not take your call. Try again." }
+    }
+  }
+
+  public async getCall(callId: number): Promise<DispatchCall | undefined> {
+    const rows = await this.database.query("SELECT * FROM dispatch_calls WHERE id = ?", [callId])
+    return rows[0] ? this.mapCall(rows[0]) : undefined
+  }
+
+  public async getOpenCalls(): Promise<DispatchCall[]> {
+    const rows = await this.database.query(
+      `SELECT * FROM dispatch_calls WHERE status <> 'closed' ORDER BY line, created_at LIMIT ${QUEUE_LIMIT}`,
+    )
+    return rows.map((row: any) => this.mapCall(row))
+  }
+
+  public async acceptCall(unit: any, callId: number): Promise<{ success: boolean; message: string }> {
+    const unitId = unit.characterData.id
+    const active = await this.database.query(
+      "SELECT id FROM dispatch_calls WHERE unit_id = ? AND status IN ('accepted', 'en_route')",
+      [unitId],
+    )
+    if (active.length > 0) {
+      return { success: false, message: `Close call #${active[0].id} before taking another.` }
+    }
+
+    const pending = await this.getCall(callId)
+    if (pending && pending.caller_id === unitId) {
+      return { success: false, message: "You cannot respond to your own call." }
+    }
+
+    // The status guard makes sure only one unit wins a call
+    const result = await this.database.query(
+      `UPDATE dispatch_calls SET status = 'accepted', unit_id = ?, unit_job = ?, accepted_at = NOW()
+       WHERE id = ? AND status = 'pending'`,
+      [unitId, unit.jobData.name, callId],
+    )
+    if (result.affectedRows === 0) {
+      return { success: false, message: "That call is not waiting for a unit." }
+    }
+
+    const call = (await this.getCall(callId))!
+    unit.call("setWaypoint", [call.position.x, call.position.y])
+
+    const unitName = `${unit.characterData.first_name} ${unit.characterData.last_name}`
+    this.notifyUnits(`${unit.jobData.name} ${unitName} accepted call #${callId}.`)
+    this.notifyCaller(call, "A unit has been assigned to your call.")
+    this.eventManager.emit("dispatch:callAccepted", unit, call)
+
+    return { success: true, message: `You accepted call #${callId}: ${call.description}. A waypoint has been set.` }
+  }
+
+  public async markEnRoute(unit: any, callId: number): Promise<{ success: boolean; message: string }> {
+    const result = await this.database.query(
+      `UPDATE dispatch_calls SET status = 'en_route', en_route_at = NOW()
+       WHERE id = ? AND unit_id = ? AND status = 'accepted'`,
+      [callId, unit.characterData.id],
+    )
+    if (result.affectedRows === 0) {
+      return { success: false, message: "You have not accepted that call, or are already en route." }
+    }
+
+    const call = (await this.getCall(callId))!
+    this.notifyCaller(call, "Help is on the way.")
+    this.notifyUnits(`Unit en route to call #${callId}.`)
+    return { success: true, message: `You are en route to call #${callId}.` }
+  }
+
+  /**
+   * Closes a call with a report. Assigned calls can only be closed by their unit; any unit can clear a pending
+   * call (duplicates, hoaxes).
+   */
+  public async closeCall(unit: any, callId: number, report: string): Promise<{ success: boolean; message: string }> {
+    const call = await this.getCall(callId)
+    if (!call || call.status === "closed") {
+      return { success: false, message: "No open call with that ID." }
+    }
+
+    if (call.status !== "pending" && call.unit_id !== unit.characterData.id) {
+      return { success: false, message: "Only the assigned unit can close that call." }
+    }
+
+    // Re-checks the assignment so a call taken by another unit in the meantime stays theirs to close
+    const result = await this.database.query(
+      `UPDATE dispatch_calls SET status = 'closed', report = ?, closed_at = NOW()
+       WHERE id = ? AND (status = 'pending' OR (status <> 'closed' AND unit_id = ?))`,
+      [report, callId, unit.characterData.id],
+    )
+    if (result.affectedRows === 0) {
+      return { success: false, message: "That call was closed or taken by another unit." }
+    }
+
+    this.notifyUnits(`Call #${callId} closed: ${report}`)
+    if (call.unit_id === unit.characterData.id) {
+      await global.AmericanRP.getJobManager().recordTaskCompleted(unit)
+    }
+    this.eventManager.emit("dispatch:callClosed", unit, { ...call, status: "closed", report })
+    return { success: true, message: `Call #${callId} closed.` }
+  }
+
+  /**
+   * Average times from the call coming in to acceptance, to going en route and to closing, per responding job
+   */
+  public async getResponseStats(days = STATS_DAYS): Promise<
+    {
+      job: string
+      calls: number
+      avgAcceptSeconds: number
+      avgEnRouteSeconds: number | null
+      avgCloseSeconds: number | null
+    }[]
+  > {
+    const rows = await this.database.query(
+      `SELECT unit_job,
+              COUNT(*) AS calls,
+              AVG(TIMESTAMPDIFF(SECOND, created_at, accepted_at)) AS avg_accept,
+              AVG(TIMESTAMPDIFF(SECOND, created_at, en_route_at)) AS avg_en_route,
+              AVG(TIMESTAMPDIFF(SECOND, created_at, closed_at)) AS avg_close
+       FROM dispatch_calls
+       WHERE accepted_at IS NOT NULL AND created_at >= DATE_SUB(NOW(), INTERVAL ? DAY)
+       GROUP BY unit_job ORDER BY unit_job`,
+      [days],
+    )
+
+    return rows.map((row: any) => ({
+      job: row.unit_job,
+      calls: Number(row.calls),
+      avgAcceptSeconds: Number(row.avg_accept),
+      avgEnRouteSeconds: row.avg_en_route === null ? null : Number(row.avg_en_route),
+      avgCloseSeconds: row.avg_close === null ? null : Number(row.avg_close),
+    }))
+  }
+
+  private async closeStaleCalls(): Promise<void> {
+    try {
+      const result = await this.database.query(
+        `UPDATE dispatch_calls SET status = 'closed', report = 'No unit available', closed_at = NOW()
+         WHERE status = 'pending' AND created_at < DATE_SUB(NOW(), INTERVAL ? MINUTE)`,
+        [STALE_CALL_MINUTES],
+      )
+      if (result.affectedRows > 0) {
+        this.logger.info(`Closed ${result.affectedRows} unanswered dispatch calls`)
+      }
+    } catch (error) {
+      this.logger.error("Error closing stale dispatch calls:", error)
+    }
+  }
+
+  private notifyUnits(message: string): void {
+    global.AmericanRP.getChatManager().sendJobChannelMessage(DISPATCH_JOBS, `[DISPATCH] ${message}`, "#FF8C00")
+  }
+
+  private notifyCaller(call: DispatchCall, message: string): void {
+    if (!call.caller_id) return
+
+    const caller = Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player) => player.characterData?.id === call.caller_id,
+    )
+    if (caller) {
+      this.sendDispatchMessage(caller, `Call #${call.id}: ${message}`, "info")
+    }
+  }
+
+  private mapCall(row: any): DispatchCall {
+    return {
+      ...row,
+      position: typeof row.position === "string" ? JSON.parse(row.position) : row.position,
+    }
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "dispatch",
+        description: "Work the 911/311 call queue (on-duty police, sheriff, paramedics and firefighters)",
+        usage: "/dispatch list | accept [id] | enroute [id] | close [id] [report] | stats",
+        params: [
+          { name: "action", type: "word", choices: ["list", "accept", "enroute", "close", "stats"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+          { name: "report", type: "text", optional: true, max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Dispatch",
+        execute: (player, _args, params) => this.handleDispatchCommand(player, params),
+      },
+    ])
+  }
+
+  private async handleDispatchCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData || !this.isResponder(player)) {
+      this.sendDispatchMessage(
+        player,
+        "Only on-duty police, sheriff, paramedic and firefighter units can use dispatch.",
+        "error",
+      )
+      return
+    }
+
+    try {
+      if (params.action === "list") {
+        await this.showQueue(player)
+        return
+      }
+
+      if (params.action === "stats") {
+        await this.showStats(player)
+        return
+      }
+
+      if (params.id === undefined) {
+        const usage = params.action === "close" ? "close [id] [report]" : `${params.action} [id]`
+        this.sendDispatchMessage(player, `Usage: /dispatch ${usage}`, "error")
+        return
+      }
+
+      let result: { success: boolean; message: string }
+      if (params.action === "accept") {
+        result = await this.acceptCall(player, params.id)
+      } else if (params.action === "enroute") {
+        result = await this.markEnRoute(player, params.id)
+      } else {
+        if (!params.report) {
+          this.sendDispatchMessage(player, "Closing a call needs a short report.", "error")
+          return
+        }
+        result = await this.closeCall(player, params.id, params.report)
+      }
+
+      this.sendDispatchMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling dispatch command:", error)
+      this.sendDispatchMessage(player, "Dispatch is not responding. Try again.", "error")
+    }
+  }
+
+  private async showQueue(player: any): Promise<void> {
+    const calls = await this.getOpenCalls()
+
+    let message = "=== Dispatch Queue ===\n"
+    if (calls.length === 0) message += "No open calls"
+    for (const call of calls) {
+      const waiting = Math.round((Date.now() - new Date(call.created_at).getTime()) / 60000)
+      const distance = Math.round(this.getDistance(player.position, call.position))
+      message += `#${call.id} [${call.line}] ${call.status.replace("_", " ")} | ${waiting}m ago | ${distance}m away: ${call.description}\n`
+    }
+    this.sendDispatchMessage(player, message, "info")
+  }
+
+  private async showStats(player: any): Promise<void> {
+    const stats = await this.getResponseStats()
+
+    let message = `=== Response Times (last ${STATS_DAYS} days) ===\n`
+    if (stats.length === 0) message += "No answered calls"
+    for (const row of stats) {
+      message += `${row.job}: ${row.calls} calls | Accept ${this.formatSeconds(row.avgAcceptSeconds)}`
+      message += ` | En route ${this.formatSeconds(row.avgEnRouteSeconds)} | Closed ${this.formatSeconds(row.avgCloseSeconds)}\n`
+    }
+    this.sendDispatchMessage(player, message, "info")
+  }
+
+  private formatSeconds(seconds: number | null): string {
+    if (seconds === null) return "-"
+
+    const rounded = Math.round(seconds)
+    return `${Math.floor(rounded / 60)}m ${String(rounded % 60).padStart(2, "0")}s`
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendDispatchMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[DISPATCH] ${message}`, colors[type])
+  }
+}
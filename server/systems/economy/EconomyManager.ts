@@ -2,9 +2,33 @@
  * Economy Manager - Handles all economic transactions, banking, and financial systems
  */
 
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
 import type { Database } from "../../core/database"
 import type { EventManager } from "../../core/EventManager"
 import { Logger } from "../../utils/Logger"
+import type { LedgerAccountType, MoneyAccount, TransactionKind, TransferResult } from "../../types"
+
+type LedgerKey = { type: LedgerAccountType; ownerId: number }
+
+// Savings interest is paid daily on bank balances, up to the cap
+const SAVINGS_APR = 0.02
+const SAVINGS_INTEREST_CAP = 500000
+const SAVINGS_INTEREST_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+// Tables that own each account type, checked before an account is opened for them
+const OWNER_TABLES: Partial<Record<LedgerAccountType, string>> = {
+  cash: "characters",
+  bank: "characters",
+  faction: "factions",
+  property: "properties",
+}
+
+// Balance columns kept in step with the ledger so existing readers of characters and factions stay correct
+const MIRROR_COLUMNS: Partial<Record<LedgerAccountType, { table: string; column: string }>> = {
+  cash: { table: "characters", column: "money" },
+  bank: { table: "characters", column: "bank_money" },
+  faction: { table: "factions", column: "money" },
+}
 
 export class EconomyManager {
   private database: Database
@@ -21,6 +45,7 @@ export class EconomyManager {
     this.registerEvents()
     this.loadGovernmentFunds()
     this.initializeEconomyStats()
+    this.startInterestSystem()
   }
 
   private registerEvents(): void {
@@ -33,18 +58,8 @@ export class EconomyManager {
 
   private async loadGovernmentFunds(): Promise<void> {
     try {
-      // Create government funds table if it doesn't exist
-      await this.database.query(`
-        CREATE TABLE IF NOT EXISTS government_funds (
-          id INT AUTO_INCREMENT PRIMARY KEY,
-          amount DECIMAL(15,2) DEFAULT 0,
-          description TEXT,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )
-      `)
-
-      const result = await this.database.query("SELECT SUM(amount) as total FROM government_funds")
-      this.governmentFunds = result[0].total || 0
+      const result = await this.database.query("SELECT balance FROM accounts WHERE type = 'government'")
+      this.governmentFunds = result.length ? Number(result[0].balance) : 0
 
       this.logger.info(`Government funds loaded: $${this.governmentFunds.toLocaleString()}`)
     } catch (error) {
@@ -54,24 +69,9 @@ export class EconomyManager {
 
   private async initializeEconomyStats(): Promise<void> {
     try {
-      // Create transactions table if it doesn't exist
-      await this.database.query(`
-        CREATE TABLE IF NOT EXISTS transactions (
-          id INT AUTO_INCREMENT PRIMARY KEY,
-          from_character_id INT NULL,
-          to_character_id INT NULL,
-          amount DECIMAL(15,2) NOT NULL,
-          type ENUM('salary', 'purchase', 'transfer', 'fine', 'bonus', 'deposit', 'withdraw') NOT NULL,
-          description TEXT,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (from_character_id) REFERENCES characters(id) ON DELETE SET NULL,
-          FOREIGN KEY (to_character_id) REFERENCES characters(id) ON DELETE SET NULL
-        )
-      `)
-
       // Load basic economy statistics
-      const totalMoney = await this.database.query("SELECT SUM(money + bank_money) as total FROM characters")
-      this.economyStats.set("total_money", totalMoney[0].total || 0)
+      const moneySupply = await this.database.query("SELECT SUM(balance) as total FROM accounts WHERE type <> 'world'")
+      this.economyStats.set("money_supply", Number(moneySupply[0].total) || 0)
 
       this.logger.success("Economy statistics initialized")
     } catch (error) {
@@ -79,60 +79,263 @@ export class EconomyManager {
     }
   }
 
-  public async addMoney(
-    characterId: number,
-    amount: number,
-    type: "cash" | "bank",
-    description: string,
-  ): Promise<boolean> {
+  private startInterestSystem(): void {
+    setInterval(() => {
+      this.paySavingsInterest()
+    }, SAVINGS_INTEREST_INTERVAL_MS)
+
+    this.logger.info("Savings interest started (runs every day)")
+  }
+
+  private async paySavingsInterest(): Promise<void> {
     try {
-      if (amount <= 0) return false
+      const accounts = await this.database.query("SELECT owner_id, balance FROM accounts WHERE type = 'bank' AND balance > 0")
+      let totalPaid = 0
+
+      for (const account of accounts) {
+        const interest = Math.round(((Math.min(Number(account.balance), SAVINGS_INTEREST_CAP) * SAVINGS_APR) / 365) * 100) / 100
+        if (interest < 0.01) continue
+
+        const result = await this.transfer(
+          null,
+          { type: "bank", characterId: account.owner_id },
+          interest,
+          "interest",
+          "Savings interest",
+        )
+        if (result.success) totalPaid += interest
+      }
+
+      this.logger.info(`Paid $${totalPaid.toFixed(2)} savings interest to ${accounts.length} accounts`)
+    } catch (error) {
+      this.logger.error("Error paying savings interest:", error)
+    }
+  }
+
+  /**
+   * Moves money between two accounts. Both ledger accounts are locked with SELECT ... FOR UPDATE and the
+   * transactions row, its debit and credit entries and the mirrored balance columns are written in the same commit,
+   * so concurrent debits can never overdraw an account. Pass a connection to take part in a transaction the caller
+   * already owns.
+   */
+  public async transfer(
+    from: MoneyAccount,
+    to: MoneyAccount,
+    amount: number,
+    kind: TransactionKind,
+    description = "",
+    connection?: PoolConnection,
+  ): Promise<TransferResult> {
+    const cents = Math.round(amount * 100) / 100
+    if (!Number.isFinite(cents) || cents <= 0 || this.isSameAccount(from, to)) {
+      return { success: false, error: "invalid_amount" }
+    }
 
-      const field = type === "cash" ? "money" : "bank_money"
+    try {
+      const outcome = connection
+        ? await this.applyTransfer(connection, from, to, cents, kind, description)
+        : await this.database.transaction((conn) => this.applyTransfer(conn, from, to, cents, kind, description))
 
-      await this.database.query(`UPDATE characters SET ${field} = ${field} + ? WHERE id = ?`, [amount, characterId])
+      if (!outcome.result.success) {
+        return outcome.result
+      }
 
-      // Record transaction
-      await this.recordTransaction(null, characterId, amount, "bonus", description)
+      // A caller's transaction may still roll back, so its balances are only cached once it commits
+      if (connection) {
+        this.database.afterCommit(connection, () => this.syncCachedBalances(outcome.balances))
+      } else {
+        this.syncCachedBalances(outcome.balances)
+      }
 
-      this.logger.debug(`Added $${amount} ${type} to character ${characterId}: ${description}`)
-      return true
+      this.logger.debug(
+        `Transfer #${outcome.result.transactionId} (${kind}) $${cents}: ${this.describeAccount(from)} -> ${this.describeAccount(to)}`,
+      )
+      return outcome.result
     } catch (error) {
-      this.logger.error("Error adding money:", error)
-      return false
+      this.logger.error("Error transferring money:", error)
+      // Rethrow so a transaction owned by the caller rolls back instead of committing partial writes
+      if (connection) throw error
+      return { success: false, error: "failed" }
     }
   }
 
-  public async removeMoney(
-    characterId: number,
+  private async applyTransfer(
+    connection: PoolConnection,
+    from: MoneyAccount,
+    to: MoneyAccount,
     amount: number,
-    type: "cash" | "bank",
+    kind: TransactionKind,
     description: string,
-  ): Promise<boolean> {
-    try {
-      if (amount <= 0) return false
-
-      const field = type === "cash" ? "money" : "bank_money"
+  ): Promise<{ result: TransferResult; balances: { key: LedgerKey; balance: number }[] }> {
+    const fromKey = this.toLedgerKey(from)
+    const toKey = this.toLedgerKey(to)
 
-      // Check if character has enough money
-      const result = await this.database.query(`SELECT ${field} as balance FROM characters WHERE id = ?`, [characterId])
-      if (result.length === 0 || result[0].balance < amount) {
-        return false
+    for (const key of [fromKey, toKey]) {
+      if (!(await this.ownerExists(connection, key))) {
+        return { result: { success: false, error: "account_not_found" }, balances: [] }
       }
+    }
 
-      await this.database.query(`UPDATE characters SET ${field} = ${field} - ? WHERE id = ?`, [amount, characterId])
+    // Opening an account upserts its row, which already locks it. Both are opened in the same (type, owner) order
+    // whichever way the money flows, so two transfers between the same accounts cannot deadlock
+    const accountIds = new Map<LedgerKey, number>()
+    const ordered = [fromKey, toKey].sort((a, b) => a.type.localeCompare(b.type) || a.ownerId - b.ownerId)
+    for (const key of ordered) {
+      accountIds.set(key, await this.openAccount(connection, key))
+    }
+    const fromId = accountIds.get(fromKey)!
+    const toId = accountIds.get(toKey)!
+
+    const [rows] = await connection.query<RowDataPacket[]>(
+      "SELECT id, balance FROM accounts WHERE id IN (?) ORDER BY id FOR UPDATE",
+      [[fromId, toId]],
+    )
+    const locked = new Map<number, number>(rows.map((row) => [row.id, Number(row.balance)]))
+    const fromBalance = locked.get(fromId)!
+    const toBalance = locked.get(toId)!
+
+    // The world account is the source and sink of all money, so it is the only one allowed below zero
+    if (fromKey.type !== "world" && fromBalance < amount) {
+      return { result: { success: false, error: "insufficient_funds" }, balances: [] }
+    }
 
-      // Record transaction
-      await this.recordTransaction(characterId, null, amount, "fine", description)
+    await connection.execute("UPDATE accounts SET balance = balance - ? WHERE id = ?", [amount, fromId])
+    await connection.execute("UPDATE accounts SET balance = balance + ? WHERE id = ?", [amount, toId])
 
-      this.logger.debug(`Removed $${amount} ${type} from character ${characterId}: ${description}`)
-      return true
-    } catch (error) {
-      this.logger.error("Error removing money:", error)
-      return false
+    const [insert] = await connection.execute<ResultSetHeader>(
+      "INSERT INTO transactions (from_character_id, to_character_id, amount, type, description) VALUES (?, ?, ?, ?, ?)",
+      [
+        from?.type === "cash" || from?.type === "bank" ? from.characterId : null,
+        to?.type === "cash" || to?.type === "bank" ? to.characterId : null,
+        amount,
+        kind,
+        description,
+      ],
+    )
+    await connection.query("INSERT INTO ledger_entries (transaction_id, account_id, amount) VALUES ?", [
+      [
+        [insert.insertId, fromId, -amount],
+        [insert.insertId, toId, amount],
+      ],
+    ])
+
+    await this.updateMirror(connection, fromKey, -amount)
+    await this.updateMirror(connection, toKey, amount)
+
+    return {
+      result: { success: true, transactionId: insert.insertId },
+      balances: [
+        { key: fromKey, balance: fromBalance - amount },
+        { key: toKey, balance: toBalance + amount },
+      ],
     }
   }
 
+  private toLedgerKey(account: MoneyAccount): LedgerKey {
+    if (!account) return { type: "world", ownerId: 0 }
+
+    switch (account.type) {
+      case "cash":
+      case "bank":
+        return { type: account.type, ownerId: account.characterId }
+      case "faction":
+        return { type: "faction", ownerId: account.factionId }
+      case "property":
+        return { type: "property", ownerId: account.propertyId }
+      case "government":
+        return { type: "government", ownerId: 0 }
+    }
+  }
+
+  private async ownerExists(connection: PoolConnection, key: LedgerKey): Promise<boolean> {
+    const table = OWNER_TABLES[key.type]
+    if (!table) return true
+
+    const [rows] = await connection.query<RowDataPacket[]>(`SELECT id FROM ${table} WHERE id = ?`, [key.ownerId])
+    return rows.length > 0
+  }
+
+  // Accounts are opened on first use; returns the id of the existing or newly created row
+  private async openAccount(connection: PoolConnection, key: LedgerKey): Promise<number> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      "INSERT INTO accounts (type, owner_id) VALUES (?, ?) ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)",
+      [key.type, key.ownerId],
+    )
+    return result.insertId
+  }
+
+  private async updateMirror(connection: PoolConnection, key: LedgerKey, delta: number): Promise<void> {
+    const mirror = MIRROR_COLUMNS[key.type]
+    if (!mirror) return
+
+    await connection.execute(`UPDATE ${mirror.table} SET ${mirror.column} = ${mirror.column} + ? WHERE id = ?`, [
+      delta,
+      key.ownerId,
+    ])
+  }
+
+  // Keeps cached balances (online characters, their factions and the treasury) in step with the committed ledger
+  private syncCachedBalances(balances: { key: LedgerKey; balance: number }[]): void {
+    for (const { key, balance } of balances) {
+      if (key.type === "government") {
+        this.governmentFunds = balance
+        continue
+      }
+
+      for (const player of global.AmericanRP.getPlayerManager().getConnectedPlayers().values()) {
+        if (key.type === "cash" && player.characterData?.id === key.ownerId) {
+          player.characterData.money = balance
+        } else if (key.type === "bank" && player.characterData?.id === key.ownerId) {
+          player.characterData.bank_money = balance
+        } else if (key.type === "faction" && player.factionData?.id === key.ownerId) {
+          player.factionData.money = balance
+        }
+      }
+    }
+  }
+
+  private isSameAccount(from: MoneyAccount, to: MoneyAccount): boolean {
+    const fromKey = this.toLedgerKey(from)
+    const toKey = this.toLedgerKey(to)
+    return fromKey.type === toKey.type && fromKey.ownerId === toKey.ownerId
+  }
+
+  private describeAccount(account: MoneyAccount): string {
+    const key = this.toLedgerKey(account)
+    return key.ownerId ? `${key.type} #${key.ownerId}` : key.type
+  }
+
+  public async getAccountBalance(account: MoneyAccount): Promise<number> {
+    const key = this.toLedgerKey(account)
+    const result = await this.database.query("SELECT balance FROM accounts WHERE type = ? AND owner_id = ?", [
+      key.type,
+      key.ownerId,
+    ])
+    return result.length ? Number(result[0].balance) : 0
+  }
+
+  public async addMoney(
+    characterId: number,
+    amount: number,
+    type: "cash" | "bank",
+    description: string,
+    kind: TransactionKind = "bonus",
+  ): Promise<boolean> {
+    const result = await this.transfer(null, { type, characterId }, amount, kind, description)
+    return result.success
+  }
+
+  public async removeMoney(
+    characterId: number,
+    amount: number,
+    type: "cash" | "bank",
+    description: string,
+    kind: TransactionKind = "fee",
+  ): Promise<boolean> {
+    const result = await this.transfer({ type, characterId }, null, amount, kind, description)
+    return result.success
+  }
+
   private async handleMoneyTransfer(fromPlayer: any, toPlayerName: string, amount: number): Promise<void> {
     try {
       if (!fromPlayer.characterData) {
@@ -163,28 +366,19 @@ export class EconomyManager {
         return
       }
 
-      // Perform transfer
-      await this.database.query("UPDATE characters SET money = money - ? WHERE id = ?", [
-        amount,
-        fromPlayer.characterData.id,
-      ])
-      await this.database.query("UPDATE characters SET money = money + ? WHERE id = ?", [
-        amount,
-        toPlayer.characterData.id,
-      ])
-
-      // Update local data
-      fromPlayer.characterData.money -= amount
-      toPlayer.characterData.money += amount
-
-      // Record transaction
-      await this.recordTransaction(
-        fromPlayer.characterData.id,
-        toPlayer.characterData.id,
+      const result = await this.transfer(
+        { type: "cash", characterId: fromPlayer.characterData.id },
+        { type: "cash", characterId: toPlayer.characterData.id },
         amount,
         "transfer",
         `Cash transfer from ${fromPlayer.characterData.first_name} to ${toPlayer.characterData.first_name}`,
       )
+      if (!result.success) {
+        const message =
+          result.error === "insufficient_funds" ? "You don't have enough cash." : "An error occurred during the transfer."
+        this.sendEconomyMessage(fromPlayer, message, "error")
+        return
+      }
 
       this.sendEconomyMessage(
         fromPlayer,
@@ -218,16 +412,17 @@ export class EconomyManager {
         return
       }
 
-      await this.database.query("UPDATE characters SET money = money - ?, bank_money = bank_money + ? WHERE id = ?", [
+      const result = await this.transfer(
+        { type: "cash", characterId: player.characterData.id },
+        { type: "bank", characterId: player.characterData.id },
         amount,
-        amount,
-        player.characterData.id,
-      ])
-
-      player.characterData.money -= amount
-      player.characterData.bank_money += amount
-
-      await this.recordTransaction(player.characterData.id, player.characterData.id, amount, "deposit", "Bank deposit")
+        "deposit",
+        "Bank deposit",
+      )
+      if (!result.success) {
+        this.sendEconomyMessage(player, "Invalid deposit amount.", "error")
+        return
+      }
 
       this.sendEconomyMessage(player, `You deposited $${amount.toLocaleString()} into your bank account.`, "success")
     } catch (error) {
@@ -248,22 +443,17 @@ export class EconomyManager {
         return
       }
 
-      await this.database.query("UPDATE characters SET money = money + ?, bank_money = bank_money - ? WHERE id = ?", [
-        amount,
-        amount,
-        player.characterData.id,
-      ])
-
-      player.characterData.money += amount
-      player.characterData.bank_money -= amount
-
-      await this.recordTransaction(
-        player.characterData.id,
-        player.characterData.id,
+      const result = await this.transfer(
+        { type: "bank", characterId: player.characterData.id },
+        { type: "cash", characterId: player.characterData.id },
         amount,
         "withdraw",
         "Bank withdrawal",
       )
+      if (!result.success) {
+        this.sendEconomyMessage(player, "Invalid withdrawal amount.", "error")
+        return
+      }
 
       this.sendEconomyMessage(player, `You withdrew $${amount.toLocaleString()} from your bank account.`, "success")
     } catch (error) {
@@ -272,6 +462,7 @@ export class EconomyManager {
     }
   }
 
+  // Fines are written as citations so they carry a due date and late penalty instead of being taken on the spot
   private async handleFine(adminPlayer: any, targetName: string, amount: number, reason: string): Promise<void> {
     try {
       const targetPlayer = global.AmericanRP.getPlayerManager().getPlayerByName(targetName)
@@ -280,25 +471,27 @@ export class EconomyManager {
         return
       }
 
-      const success = await this.removeMoney(targetPlayer.characterData.id, amount, "bank", `Fine: ${reason}`)
-      if (!success) {
-        this.sendEconomyMessage(adminPlayer, "Player doesn't have enough money to pay the fine.", "error")
-        return
-      }
-
-      await this.addGovernmentFunds(
+      const result = await global.AmericanRP.getMdcManager().issueCitation(
+        targetPlayer.characterData.id,
+        reason,
         amount,
-        `Fine from ${targetPlayer.characterData.first_name} ${targetPlayer.characterData.last_name}: ${reason}`,
+        adminPlayer.characterData?.id ?? null,
       )
-
-      targetPlayer.characterData.bank_money -= amount
+      if (!result.success) {
+        this.sendEconomyMessage(adminPlayer, result.message, "error")
+        return
+      }
 
       this.sendEconomyMessage(
         adminPlayer,
         `You fined ${targetPlayer.characterData.first_name} ${targetPlayer.characterData.last_name} $${amount.toLocaleString()}.`,
         "success",
       )
-      this.sendEconomyMessage(targetPlayer, `You were fined $${amount.toLocaleString()} for: ${reason}`, "error")
+      this.sendEconomyMessage(
+        targetPlayer,
+        `You were fined $${amount.toLocaleString()} for: ${reason}. Pay it with /citations pay ${result.citationId}.`,
+        "error",
+      )
 
       this.logger.info(`Fine issued: ${targetPlayer.characterData.first_name} fined $${amount} for ${reason}`)
     } catch (error) {
@@ -307,35 +500,14 @@ export class EconomyManager {
     }
   }
 
-  public async addGovernmentFunds(amount: number, description: string): Promise<void> {
-    try {
-      await this.database.query("INSERT INTO government_funds (amount, description) VALUES (?, ?)", [
-        amount,
-        description,
-      ])
-      this.governmentFunds += amount
-
-      this.logger.debug(`Added $${amount} to government funds: ${description}`)
-    } catch (error) {
-      this.logger.error("Error adding government funds:", error)
-    }
-  }
-
-  private async recordTransaction(
-    fromId: number | null,
-    toId: number | null,
+  public async addGovernmentFunds(
     amount: number,
-    type: string,
     description: string,
-  ): Promise<void> {
-    try {
-      await this.database.query(
-        "INSERT INTO transactions (from_character_id, to_character_id, amount, type, description) VALUES (?, ?, ?, ?, ?)",
-        [fromId, toId, amount, type, description],
-      )
-    } catch (error) {
-      this.logger.error("Error recording transaction:", error)
-    }
+    kind: TransactionKind = "tax",
+    connection?: PoolConnection,
+  ): Promise<boolean> {
+    const result = await this.transfer(null, { type: "government" }, amount, kind, description, connection)
+    return result.success
   }
 
   private getDistance(pos1: any, pos2: any): number {
@@ -364,17 +536,45 @@ export class EconomyManager {
     }
   }
 
+  /**
+   * Reports the money supply (everything held outside the world account) by account type, and the money that
+   * entered (inflows) and left (sinks) the player economy over the last day by transaction kind.
+   */
   public async getEconomyStats(): Promise<any> {
     try {
-      const totalMoney = await this.database.query("SELECT SUM(money + bank_money) as total FROM characters")
+      const balances = await this.database.query("SELECT type, SUM(balance) as total FROM accounts GROUP BY type")
+      const flows = await this.database.query(`
+        SELECT t.type AS kind, SUM(CASE WHEN e.amount < 0 THEN -e.amount ELSE 0 END) AS inflow,
+          SUM(CASE WHEN e.amount > 0 THEN e.amount ELSE 0 END) AS sink
+        FROM ledger_entries e
+        JOIN accounts a ON a.id = e.account_id AND a.type = 'world'
+        JOIN transactions t ON t.id = e.transaction_id
+        WHERE e.created_at >= NOW() - INTERVAL 1 DAY
+        GROUP BY t.type
+      `)
       const totalTransactions = await this.database.query("SELECT COUNT(*) as count FROM transactions")
       const dailyTransactions = await this.database.query(
         "SELECT COUNT(*) as count FROM transactions WHERE DATE(created_at) = CURDATE()",
       )
 
+      const supplyByType: { [type: string]: number } = {}
+      for (const row of balances) {
+        if (row.type !== "world") supplyByType[row.type] = Number(row.total)
+      }
+
+      const inflows: { [kind: string]: number } = {}
+      const sinks: { [kind: string]: number } = {}
+      for (const row of flows) {
+        if (Number(row.inflow) > 0) inflows[row.kind] = Number(row.inflow)
+        if (Number(row.sink) > 0) sinks[row.kind] = Number(row.sink)
+      }
+
       return {
-        totalMoney: totalMoney[0].total || 0,
+        moneySupply: Object.values(supplyByType).reduce((total, amount) => total + amount, 0),
+        supplyByType,
         governmentFunds: this.governmentFunds,
+        dailyInflows: inflows,
+        dailySinks: sinks,
         totalTransactions: totalTransactions[0].count || 0,
         dailyTransactions: dailyTransactions[0].count || 0,
       }
@@ -0,0 +1,817 @@
+/**
+ * Loan Manager - Handles bank loans, installment collection, credit scores and collateral repossession
+ */
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import type { CommandParams, Loan, LoanCollateralType, LoanEventType, MoneyAccount } from "../../types"
+
+// One installment falls due every real day and collection checks run hourly
+const INSTALLMENT_INTERVAL_MS = 24 * 60 * 60 * 1000
+const COLLECTION_INTERVAL_MS = 60 * 60 * 1000
+
+const MIN_INSTALLMENTS = 3
+const MAX_INSTALLMENTS = 30
+const MAX_MISSED_PAYMENTS = 3
+const LATE_PENALTY_RATE = 0.05 // Of the installment amount
+const UNSECURED_LIMIT = 10000 // Larger loans need a vehicle or property as collateral
+const COLLATERAL_APR_DISCOUNT = 0.02
+
+const CREDIT_SCORE_MIN = 300
+const CREDIT_SCORE_MAX = 850
+const CREDIT_CHANGES = { onTime: 5, missed: -25, paidOff: 20, defaulted: -100 }
+
+// Ordered best first: the first tier whose minimum score is met sets the APR and the loan limit
+const CREDIT_TIERS = [
+  { minScore: 740, apr: 0.05, limit: 250000 },
+  { minScore: 670, apr: 0.09, limit: 100000 },
+  { minScore: 580, apr: 0.15, limit: 40000 },
+  { minScore: 500, apr: 0.24, limit: 10000 },
+]
+
+type DueOutcome = { loan: Loan; paid: number; missed: boolean; closed: boolean }
+
+export class LoanManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private activeLoans: Map<number, Loan> = new Map()
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("LoanManager")
+
+    this.registerEvents()
+    this.loadActiveLoans()
+    this.startCollectionSystem()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("loan:defaulted", this.handleLoanDefault.bind(this))
+  }
+
+  private async loadActiveLoans(): Promise<void> {
+    try {
+      const loans = await this.database.query("SELECT * FROM loans WHERE status = 'active'")
+
+      for (const row of loans) {
+        this.activeLoans.set(row.id, this.toLoan(row))
+      }
+
+      this.logger.success(`Loaded ${this.activeLoans.size} active loans`)
+    } catch (error) {
+      this.logger.error("Error loading loans:", error)
+    }
+  }
+
+  private startCollectionSystem(): void {
+    setInterval(() => {
+      this.collectDueInstallments()
+    }, COLLECTION_INTERVAL_MS)
+
+    this.logger.info("Loan collection started (runs every hour)")
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "loan",
+        description: "Apply for a bank loan, make a payment or check your loan",
+        usage: "/loan [apply|pay|status] [amount] [installments] [vehicle|property] [ID]",
+        params: [
+          { name: "action", type: "word", choices: ["apply", "pay", "status"] },
+          { name: "amount", type: "money", optional: true },
+          { name: "installments", type: "integer", optional: true, min: MIN_INSTALLMENTS, max: MAX_INSTALLMENTS },
+          { name: "collateral", type: "word", optional: true, choices: ["vehicle", "property"] },
+          { name: "collateral_id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Economy",
+        execute: (player, _args, params) => this.handleLoanCommand(player, params),
+      },
+      {
+        name: "aloans",
+        description: "Audit bank loans, or the loans and credit of one character",
+        params: [{ name: "character_id", type: "integer", optional: true, min: 1 }],
+        adminLevel: 2,
+        category: "Admin",
+        execute: (player, _args, params) => this.showLoanAudit(player, params.character_id),
+      },
+    ])
+  }
+
+  public getCreditTerms(creditScore: number): { apr: number; limit: number } | null {
+    const tier = CREDIT_TIERS.find((candidate) => creditScore >= candidate.minScore)
+    return tier ? { apr: tier.apr, limit: tier.limit } : null
+  }
+
+  public async getCreditScore(characterId: number): Promise<number | null> {
+    const result = await this.database.query("SELECT credit_score FROM characters WHERE id = ?", [characterId])
+    return result.length ? result[0].credit_score : null
+  }
+
+  public getActiveLoan(characterId: number): Loan | undefined {
+    return Array.from(this.activeLoans.values()).find((loan) => loan.character_id === characterId)
+  }
+
+  public isCollateralPledged(type: LoanCollateralType, id: number): boolean {
+    return Array.from(this.activeLoans.values()).some(
+      (loan) => loan.collateral_type === type && loan.collateral_id === id,
+    )
+  }
+
+  public async applyForLoan(
+    characterId: number,
+    amount: number,
+    installments: number,
+    collateral: { type: LoanCollateralType; id: number | null } = { type: "none", id: null },
+  ): Promise<{ success: boolean; message: string; loan?: Loan }> {
+    try {
+      const credit = await this.checkCredit(characterId, amount, collateral.type !== "none")
+      if (credit.apr === undefined) {
+        return { success: false, message: credit.message! }
+      }
+
+      if (collateral.type !== "none") {
+        const collateralError = this.checkCollateral(characterId, collateral.type, collateral.id)
+        if (collateralError) {
+          return { success: false, message: collateralError }
+        }
+      }
+
+      const apr = credit.apr
+      const installmentAmount = this.calculateInstallment(amount, apr, installments)
+      const nextDueAt = new Date(Date.now() + INSTALLMENT_INTERVAL_MS)
+
+      // Open the loan and pay it out in one commit
+      const loanId = await this.database.transaction(async (connection) => {
+        await this.lockBorrower(connection, characterId)
+
+        const [insert] = await connection.execute<ResultSetHeader>(
+          `INSERT INTO loans (character_id, principal, apr, installments, installment_amount, balance, collateral_type, collateral_id, next_due_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [characterId, amount, apr, installments, installmentAmount, amount, collateral.type, collateral.id, nextDueAt],
+        )
+
+        const payout = await global.AmericanRP.getEconomyManager().transfer(
+          null,
+          { type: "bank", characterId },
+          amount,
+          "loan_disbursement",
+          `Loan #${insert.insertId} disbursement`,
+          connection,
+        )
+        if (!payout.success) {
+          throw new Error(`Loan disbursement failed: ${payout.error}`)
+        }
+
+        await this.recordEvent(connection, insert.insertId, "disbursed", amount, payout.transactionId)
+        return insert.insertId
+      })
+
+      const loan = this.newLoan(loanId, characterId, amount, apr, installments, collateral, nextDueAt)
+      this.activeLoans.set(loanId, loan)
+
+      this.logger.info(`Loan #${loanId} of $${amount} approved for character ${characterId} at ${apr * 100}% APR`)
+      const schedule = `${installments} daily installments of $${installmentAmount.toLocaleString()}`
+      const rate = `${(apr * 100).toFixed(1)}% APR`
+      return { success: true, message: `Loan approved: $${amount.toLocaleString()} at ${rate}, ${schedule}.`, loan }
+    } catch (error) {
+      if (error instanceof Error && error.message === "active_loan") {
+        return { success: false, message: "You already have an active loan. Pay it off first." }
+      }
+      this.logger.error("Error applying for loan:", error)
+      return { success: false, message: "An error occurred while processing your loan." }
+    }
+  }
+
+  /**
+   * Prices a loan that would finance a vehicle purchase, which is secured by the vehicle itself
+   */
+  public async quoteVehicleFinancing(
+    characterId: number,
+    amount: number,
+    installments: number,
+  ): Promise<{ success: boolean; message: string; apr?: number; installmentAmount?: number }> {
+    if (installments < MIN_INSTALLMENTS || installments > MAX_INSTALLMENTS) {
+      return { success: false, message: `Financing runs ${MIN_INSTALLMENTS} to ${MAX_INSTALLMENTS} installments.` }
+    }
+
+    const credit = await this.checkCredit(characterId, amount, true)
+    if (credit.apr === undefined) {
+      return { success: false, message: credit.message! }
+    }
+
+    const installmentAmount = this.calculateInstallment(amount, credit.apr, installments)
+    return {
+      success: true,
+      message: `${installments} daily installments of $${installmentAmount.toLocaleString()}`,
+      apr: credit.apr,
+      installmentAmount,
+    }
+  }
+
+  /**
+   * Opens a financing loan inside the caller's purchase transaction. The principal is paid to the seller instead of
+   * the borrower, and the vehicle stays pledged, so it can be repossessed, until the loan is paid off. Once the
+   * transaction commits, trackLoan starts collecting it.
+   */
+  public async openVehicleFinancing(
+    connection: PoolConnection,
+    characterId: number,
+    vehicleId: number,
+    amount: number,
+    installments: number,
+    seller: MoneyAccount,
+  ): Promise<Loan> {
+    const quote = await this.quoteVehicleFinancing(characterId, amount, installments)
+    if (!quote.success) {
+      throw new Error(quote.message)
+    }
+
+    await this.lockBorrower(connection, characterId)
+
+    const collateral = { type: "vehicle" as const, id: vehicleId }
+    const nextDueAt = new Date(Date.now() + INSTALLMENT_INTERVAL_MS)
+    const [insert] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO loans
+         (character_id, principal, apr, installments, installment_amount, balance, collateral_type, collateral_id,
+          next_due_at)
+       VALUES (?, ?, ?, ?, ?, ?, 'vehicle', ?, ?)`,
+      [characterId, amount, quote.apr, installments, quote.installmentAmount, amount, vehicleId, nextDueAt],
+    )
+
+    let transactionId: number | undefined
+    if (seller) {
+      const payout = await global.AmericanRP.getEconomyManager().transfer(
+        null,
+        seller,
+        amount,
+        "loan_disbursement",
+        `Loan #${insert.insertId} vehicle financing`,
+        connection,
+      )
+      if (!payout.success) {
+        throw new Error(`Loan disbursement failed: ${payout.error}`)
+      }
+      transactionId = payout.transactionId
+    }
+
+    await this.recordEvent(connection, insert.insertId, "disbursed", amount, transactionId)
+    return this.newLoan(insert.insertId, characterId, amount, quote.apr!, installments, collateral, nextDueAt)
+  }
+
+  public trackLoan(loan: Loan): void {
+    this.applyLoanState(loan)
+  }
+
+  /**
+   * Pays toward the active loan from the bank account. Without an amount, pays what is left of the current
+   * installment; anything beyond the installment reduces the balance early.
+   */
+  public async makePayment(characterId: number, amount?: number): Promise<{ success: boolean; message: string }> {
+    try {
+      const loan = this.getActiveLoan(characterId)
+      if (!loan) {
+        return { success: false, message: "You don't have an active loan." }
+      }
+
+      const payment = Math.min(amount ?? this.getAmountDue(loan), loan.balance)
+      if (payment <= 0) {
+        return { success: false, message: "Your current installment is already paid. Pass an amount to pay early." }
+      }
+
+      const outcome = await this.database.transaction(async (connection) => {
+        const current = await this.lockLoan(connection, loan.id)
+        if (!current || current.status !== "active") {
+          return null
+        }
+
+        const charge = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "bank", characterId },
+          null,
+          payment,
+          "loan_payment",
+          `Loan #${loan.id} payment`,
+          connection,
+        )
+        if (!charge.success) {
+          return { charge, closed: false }
+        }
+
+        current.balance = this.roundCents(current.balance - payment)
+        current.period_paid = this.roundCents(current.period_paid + payment)
+        await this.recordEvent(connection, loan.id, "payment", payment, charge.transactionId)
+
+        const closed = current.balance <= 0
+        if (closed) {
+          await this.closeLoan(connection, current)
+        }
+        await this.saveLoan(connection, current)
+
+        return { charge, closed, current }
+      })
+
+      if (!outcome) {
+        return { success: false, message: "You don't have an active loan." }
+      }
+
+      if (!outcome.charge.success) {
+        const message =
+          outcome.charge.error === "insufficient_funds"
+            ? "You don't have enough money in your bank account."
+            : "An error occurred while processing your payment."
+        return { success: false, message }
+      }
+
+      this.applyLoanState(outcome.current!)
+      if (outcome.closed) {
+        await this.refreshCreditScore(characterId)
+        return { success: true, message: `You paid $${payment.toLocaleString()} and your loan is now paid off!` }
+      }
+
+      return {
+        success: true,
+        message: `You paid $${payment.toLocaleString()}. Remaining balance: $${outcome.current!.balance.toLocaleString()}.`,
+      }
+    } catch (error) {
+      this.logger.error("Error making loan payment:", error)
+      return { success: false, message: "An error occurred while processing your payment." }
+    }
+  }
+
+  private async collectDueInstallments(): Promise<void> {
+    const now = Date.now()
+    const dueLoans = Array.from(this.activeLoans.values()).filter((loan) => loan.next_due_at.getTime() <= now)
+
+    for (const loan of dueLoans) {
+      try {
+        const outcome = await this.database.transaction((connection) => this.processDueInstallment(connection, loan.id))
+        if (outcome) {
+          this.afterInstallment(outcome)
+        }
+      } catch (error) {
+        // Nothing was committed, so the installment is retried on the next run
+        this.logger.error(`Error collecting installment for loan #${loan.id}:`, error)
+      }
+    }
+  }
+
+  private async processDueInstallment(connection: PoolConnection, loanId: number): Promise<DueOutcome | null> {
+    const loan = await this.lockLoan(connection, loanId)
+    if (!loan || loan.status !== "active" || loan.next_due_at.getTime() > Date.now()) {
+      return null
+    }
+
+    const interest = this.roundCents(loan.balance * this.getPeriodRate(loan.apr))
+    if (interest > 0) {
+      loan.balance = this.roundCents(loan.balance + interest)
+      await this.recordEvent(connection, loan.id, "interest", interest)
+    }
+
+    const due = this.getAmountDue(loan)
+    let paid = 0
+    let missed = false
+
+    if (due > 0) {
+      const charge = await global.AmericanRP.getEconomyManager().transfer(
+        { type: "bank", characterId: loan.character_id },
+        null,
+        due,
+        "loan_payment",
+        `Loan #${loan.id} installment ${loan.installments_paid + 1}`,
+        connection,
+      )
+
+      if (charge.success) {
+        paid = due
+        loan.balance = this.roundCents(loan.balance - due)
+        await this.recordEvent(connection, loan.id, "payment", due, charge.transactionId)
+      } else if (charge.error === "insufficient_funds") {
+        missed = true
+      } else {
+        throw new Error(`Installment charge failed: ${charge.error}`)
+      }
+    }
+
+    if (missed) {
+      const penalty = this.roundCents(loan.installment_amount * LATE_PENALTY_RATE)
+      loan.missed_payments++
+      loan.balance = this.roundCents(loan.balance + penalty)
+      await this.recordEvent(connection, loan.id, "missed", due)
+      await this.recordEvent(connection, loan.id, "penalty", penalty)
+      await this.adjustCreditScore(connection, loan.character_id, CREDIT_CHANGES.missed)
+    } else {
+      loan.installments_paid++
+      await this.adjustCreditScore(connection, loan.character_id, CREDIT_CHANGES.onTime)
+    }
+
+    let closed = false
+    if (loan.missed_payments >= MAX_MISSED_PAYMENTS) {
+      loan.status = "defaulted"
+      loan.closed_at = new Date()
+      await this.recordEvent(connection, loan.id, "defaulted", loan.balance)
+      await this.adjustCreditScore(connection, loan.character_id, CREDIT_CHANGES.defaulted)
+      closed = true
+    } else if (loan.balance <= 0) {
+      await this.closeLoan(connection, loan)
+      closed = true
+    }
+
+    loan.period_paid = 0
+    loan.next_due_at = new Date(loan.next_due_at.getTime() + INSTALLMENT_INTERVAL_MS)
+    await this.saveLoan(connection, loan)
+
+    return { loan, paid, missed, closed }
+  }
+
+  private afterInstallment(outcome: DueOutcome): void {
+    const { loan, paid, missed } = outcome
+    this.applyLoanState(loan)
+    this.refreshCreditScore(loan.character_id)
+
+    const player = this.getOnlinePlayer(loan.character_id)
+    if (loan.status === "defaulted") {
+      this.logger.warn(`Loan #${loan.id} defaulted with $${loan.balance} outstanding`)
+      if (player) {
+        this.sendLoanMessage(player, `Your loan #${loan.id} defaulted after ${loan.missed_payments} missed payments.`, "error")
+      }
+      this.eventManager.emit("loan:defaulted", loan)
+    } else if (missed) {
+      if (player) {
+        this.sendLoanMessage(
+          player,
+          `You missed a loan payment (${loan.missed_payments}/${MAX_MISSED_PAYMENTS}). A late fee was added to your balance.`,
+          "error",
+        )
+      }
+    } else if (player && paid > 0) {
+      const message =
+        loan.status === "paid"
+          ? `Your final loan installment of $${paid.toLocaleString()} was paid. The loan is paid off!`
+          : `Loan installment of $${paid.toLocaleString()} paid. Remaining balance: $${loan.balance.toLocaleString()}.`
+      this.sendLoanMessage(player, message, "info")
+    }
+  }
+
+  // Default repossession: other systems can listen to loan:defaulted for their own consequences
+  private async handleLoanDefault(loan: Loan): Promise<void> {
+    if (loan.collateral_type === "none" || !loan.collateral_id) return
+
+    try {
+      const reason = `Repossessed: loan #${loan.id} defaulted`
+      const result =
+        loan.collateral_type === "vehicle"
+          ? await global.AmericanRP.getVehicleManager().repossessVehicle(loan.collateral_id, reason)
+          : await global.AmericanRP.getPropertyManager().repossessProperty(loan.collateral_id, reason)
+
+      if (!result.success) {
+        const collateral = `${loan.collateral_type} ${loan.collateral_id}`
+        this.logger.warn(`Could not repossess ${collateral} for loan #${loan.id}: ${result.message}`)
+        return
+      }
+
+      await this.database.query("INSERT INTO loan_events (loan_id, type, description) VALUES (?, 'repossessed', ?)", [
+        loan.id,
+        `${loan.collateral_type} #${loan.collateral_id}`,
+      ])
+      this.logger.info(`Repossessed ${loan.collateral_type} ${loan.collateral_id} for defaulted loan #${loan.id}`)
+    } catch (error) {
+      this.logger.error(`Error repossessing collateral for loan #${loan.id}:`, error)
+    }
+  }
+
+  // One loan at a time, within the credit limit, and only small loans without collateral
+  private async checkCredit(
+    characterId: number,
+    amount: number,
+    secured: boolean,
+  ): Promise<{ apr?: number; message?: string }> {
+    if (this.getActiveLoan(characterId)) {
+      return { message: "You already have an active loan. Pay it off first." }
+    }
+
+    const creditScore = await this.getCreditScore(characterId)
+    const terms = creditScore === null ? null : this.getCreditTerms(creditScore)
+    if (!terms) {
+      return { message: `Your credit score (${creditScore}) is too low for a loan.` }
+    }
+
+    if (amount > terms.limit) {
+      return { message: `Your credit allows loans up to $${terms.limit.toLocaleString()}.` }
+    }
+
+    if (!secured && amount > UNSECURED_LIMIT) {
+      return { message: `Loans over $${UNSECURED_LIMIT.toLocaleString()} need a vehicle or property as collateral.` }
+    }
+
+    return { apr: secured ? Math.max(terms.apr - COLLATERAL_APR_DISCOUNT, 0) : terms.apr }
+  }
+
+  /**
+   * Repeats the one-active-loan check inside the disbursing transaction. Locking the borrower's character row makes
+   * a second application, or a financed purchase, wait for this one to commit and then see its loan.
+   */
+  private async lockBorrower(connection: PoolConnection, characterId: number): Promise<void> {
+    await connection.query("SELECT id FROM characters WHERE id = ? FOR UPDATE", [characterId])
+    const [loans] = await connection.query<RowDataPacket[]>(
+      "SELECT id FROM loans WHERE character_id = ? AND status = 'active' LIMIT 1",
+      [characterId],
+    )
+    if (loans.length > 0) throw new Error("active_loan")
+  }
+
+  private checkCollateral(characterId: number, type: LoanCollateralType, id: number | null): string | null {
+    if (!id) {
+      return "Specify the ID of the vehicle or property you are pledging."
+    }
+
+    if (this.isCollateralPledged(type, id)) {
+      return `That ${type} is already pledged for another loan.`
+    }
+
+    if (type === "vehicle") {
+      const vehicle = global.AmericanRP.getVehicleManager().getVehicle(id)
+      if (!vehicle || vehicle.owner_id !== characterId || vehicle.impounded) {
+        return "You can only pledge a vehicle you own that is not impounded."
+      }
+    } else {
+      const property = global.AmericanRP.getPropertyManager().getProperty(id)
+      if (!property || property.owner_id !== characterId) {
+        return "You can only pledge a property you own."
+      }
+    }
+
+    return null
+  }
+
+  private async lockLoan(connection: PoolConnection, loanId: number): Promise<Loan | null> {
+    const [rows] = await connection.query<RowDataPacket[]>("SELECT * FROM loans WHERE id = ? FOR UPDATE", [loanId])
+    return rows.length ? this.toLoan(rows[0]) : null
+  }
+
+  private async saveLoan(connection: PoolConnection, loan: Loan): Promise<void> {
+    await connection.execute(
+      `UPDATE loans SET balance = ?, period_paid = ?, installments_paid = ?, missed_payments = ?, status = ?,
+       next_due_at = ?, closed_at = ? WHERE id = ?`,
+      [
+        loan.balance,
+        loan.period_paid,
+        loan.installments_paid,
+        loan.missed_payments,
+        loan.status,
+        loan.next_due_at,
+        loan.closed_at,
+        loan.id,
+      ],
+    )
+  }
+
+  private async closeLoan(connection: PoolConnection, loan: Loan): Promise<void> {
+    loan.balance = 0
+    loan.status = "paid"
+    loan.closed_at = new Date()
+    await this.recordEvent(connection, loan.id, "paid_off", 0)
+    await this.adjustCreditScore(connection, loan.character_id, CREDIT_CHANGES.paidOff)
+  }
+
+  private async recordEvent(
+    connection: PoolConnection,
+    loanId: number,
+    type: LoanEventType,
+    amount: number,
+    transactionId?: number,
+  ): Promise<void> {
+    await connection.execute("INSERT INTO loan_events (loan_id, type, amount, transaction_id) VALUES (?, ?, ?, ?)", [
+      loanId,
+      type,
+      amount,
+      transactionId ?? null,
+    ])
+  }
+
+  private async adjustCreditScore(connection: PoolConnection, characterId: number, change: number): Promise<void> {
+    await connection.execute("UPDATE characters SET credit_score = LEAST(?, GREATEST(?, credit_score + ?)) WHERE id = ?", [
+      CREDIT_SCORE_MAX,
+      CREDIT_SCORE_MIN,
+      change,
+      characterId,
+    ])
+  }
+
+  private async refreshCreditScore(characterId: number): Promise<void> {
+    const player = this.getOnlinePlayer(characterId)
+    if (!player) return
+
+    try {
+      const creditScore = await this.getCreditScore(characterId)
+      if (creditScore !== null) {
+        player.characterData.credit_score = creditScore
+      }
+    } catch (error) {
+      this.logger.error("Error refreshing credit score:", error)
+    }
+  }
+
+  // Keeps the active loan cache in step with a committed loan row
+  private applyLoanState(loan: Loan): void {
+    if (loan.status === "active") {
+      this.activeLoans.set(loan.id, loan)
+    } else {
+      this.activeLoans.delete(loan.id)
+    }
+  }
+
+  private getAmountDue(loan: Loan): number {
+    return Math.max(this.roundCents(Math.min(loan.installment_amount, loan.balance) - loan.period_paid), 0)
+  }
+
+  private getPeriodRate(apr: number): number {
+    return (apr * INSTALLMENT_INTERVAL_MS) / (365 * 24 * 60 * 60 * 1000)
+  }
+
+  // Standard amortized installment, rounded up so the last payment never leaves a fraction of a cent behind
+  private calculateInstallment(principal: number, apr: number, installments: number): number {
+    const rate = this.getPeriodRate(apr)
+    const installment =
+      rate === 0 ? principal / installments : (principal * rate) / (1 - Math.pow(1 + rate, -installments))
+    return Math.ceil(installment * 100) / 100
+  }
+
+  private roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100
+  }
+
+  private newLoan(
+    id: number,
+    characterId: number,
+    amount: number,
+    apr: number,
+    installments: number,
+    collateral: { type: LoanCollateralType; id: number | null },
+    nextDueAt: Date,
+  ): Loan {
+    return {
+      id,
+      character_id: characterId,
+      principal: amount,
+      apr,
+      installments,
+      installment_amount: this.calculateInstallment(amount, apr, installments),
+      balance: amount,
+      period_paid: 0,
+      installments_paid: 0,
+      missed_payments: 0,
+      collateral_type: collateral.type,
+      collateral_id: collateral.id,
+      status: "active",
+      next_due_at: nextDueAt,
+      created_at: new Date(),
+      closed_at: null,
+    }
+  }
+
+  private toLoan(row: any): Loan {
+    return {
+      ...row,
+      principal: Number(row.principal),
+      apr: Number(row.apr),
+      installment_amount: Number(row.installment_amount),
+      balance: Number(row.balance),
+      period_paid: Number(row.period_paid),
+      next_due_at: new Date(row.next_due_at),
+    }
+  }
+
+  private getOnlinePlayer(characterId: number): any {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player: any) => player.characterData?.id === characterId,
+    )
+  }
+
+  private async handleLoanCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendLoanMessage(player, "You must have a character to use the bank.", "error")
+      return
+    }
+
+    const characterId = player.characterData.id
+
+    if (params.action === "apply") {
+      if (params.amount === undefined || params.installments === undefined) {
+        this.sendLoanMessage(player, "Usage: /loan apply [amount] [installments] [vehicle|property] [ID]", "error")
+        return
+      }
+
+      const collateral = params.collateral
+        ? { type: params.collateral as LoanCollateralType, id: params.collateral_id ?? null }
+        : undefined
+      const result = await this.applyForLoan(characterId, params.amount, params.installments, collateral)
+      this.sendLoanMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    if (params.action === "pay") {
+      const result = await this.makePayment(characterId, params.amount)
+      this.sendLoanMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    await this.showLoanStatus(player, characterId)
+  }
+
+  private async showLoanStatus(player: any, characterId: number): Promise<void> {
+    const creditScore = await this.getCreditScore(characterId)
+    const terms = creditScore === null ? null : this.getCreditTerms(creditScore)
+    const loan = this.getActiveLoan(characterId)
+
+    let message = "=== Bank Loan ===\n"
+    message += `Credit Score: ${creditScore}\n`
+    message += terms
+      ? `Available: up to $${terms.limit.toLocaleString()} at ${(terms.apr * 100).toFixed(1)}% APR\n`
+      : "Available: not eligible for loans\n"
+
+    if (loan) {
+      message += `Loan #${loan.id}: $${loan.balance.toLocaleString()} of $${loan.principal.toLocaleString()} remaining\n`
+      message += `Installment: $${loan.installment_amount.toLocaleString()} (${loan.installments_paid}/${loan.installments} paid)\n`
+      message += `Due now: $${this.getAmountDue(loan).toLocaleString()} by ${loan.next_due_at.toLocaleString()}\n`
+      message += `Missed payments: ${loan.missed_payments}/${MAX_MISSED_PAYMENTS}\n`
+      if (loan.collateral_type !== "none") {
+        message += `Collateral: ${loan.collateral_type} #${loan.collateral_id}\n`
+      }
+    } else {
+      message += "You don't have an active loan."
+    }
+
+    this.sendLoanMessage(player, message, "info")
+  }
+
+  private async showLoanAudit(player: any, characterId?: number): Promise<void> {
+    try {
+      if (characterId === undefined) {
+        const loans = await this.database.query(
+          `SELECT l.*, c.first_name, c.last_name FROM loans l JOIN characters c ON c.id = l.character_id
+           WHERE l.status <> 'paid' ORDER BY l.status DESC, l.next_due_at LIMIT 20`,
+        )
+
+        let message = `=== Open Loans (${loans.length}) ===\n`
+        for (const loan of loans) {
+          message += `#${loan.id} ${loan.first_name} ${loan.last_name} (${loan.character_id}) | ${loan.status} | `
+          message += `$${Number(loan.balance).toLocaleString()} left | missed ${loan.missed_payments}\n`
+        }
+        this.sendLoanMessage(player, message, "info")
+        return
+      }
+
+      const creditScore = await this.getCreditScore(characterId)
+      if (creditScore === null) {
+        this.sendLoanMessage(player, `Character ${characterId} not found.`, "error")
+        return
+      }
+
+      const loans = await this.database.query(
+        "SELECT * FROM loans WHERE character_id = ? ORDER BY created_at DESC LIMIT 5",
+        [characterId],
+      )
+      const events = await this.database.query(
+        `SELECT e.* FROM loan_events e JOIN loans l ON l.id = e.loan_id
+         WHERE l.character_id = ? ORDER BY e.created_at DESC, e.id DESC LIMIT 10`,
+        [characterId],
+      )
+
+      let message = `=== Loans of character ${characterId} | Credit Score: ${creditScore} ===\n`
+      for (const loan of loans) {
+        const apr = (Number(loan.apr) * 100).toFixed(1)
+        message += `#${loan.id} | ${loan.status} | $${Number(loan.principal).toLocaleString()} at ${apr}% | `
+        message += `$${Number(loan.balance).toLocaleString()} left | ${loan.installments_paid}/${loan.installments} paid | `
+        message += `missed ${loan.missed_payments}\n`
+      }
+
+      message += "--- Recent activity ---\n"
+      for (const event of events) {
+        const amount = Number(event.amount) ? ` $${Number(event.amount).toLocaleString()}` : ""
+        message += `${new Date(event.created_at).toLocaleString()} | #${event.loan_id} ${event.type}${amount}`
+        message += event.description ? ` (${event.description})\n` : "\n"
+      }
+
+      this.sendLoanMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing loan audit:", error)
+      this.sendLoanMessage(player, "An error occurred while loading loans.", "error")
+    }
+  }
+
+  private sendLoanMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[BANK] ${message}`, colors[type])
+  }
+}
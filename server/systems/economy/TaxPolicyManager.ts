@@ -0,0 +1,321 @@
+/**
+ * Tax Policy Manager - Holds the progressive income tax policy applied by payroll and lets the mayor adjust it
+ * within the limits set by admins
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import type { CommandParams, TaxBracket, TaxPolicy } from "../../types"
+
+export interface IncomeTaxResult {
+  allowance: number // Part of the allowance used by this income
+  taxableIncome: number
+  tax: number
+}
+
+// Used until the stored policy loads, so payroll never runs untaxed
+const FALLBACK_POLICY: TaxPolicy = {
+  allowance: 0,
+  brackets: [{ threshold: 0, rate: 0.15 }],
+  min_rate: 0,
+  max_rate: 0.5,
+  max_allowance: 250,
+  updated_by: null,
+  updated_at: new Date(0),
+}
+
+export class TaxPolicyManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private policy: TaxPolicy = FALLBACK_POLICY
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("TaxPolicyManager")
+
+    this.loadPolicy()
+  }
+
+  private async loadPolicy(): Promise<void> {
+    try {
+      const result = await this.database.query("SELECT * FROM tax_policy WHERE id = 1")
+      if (result.length === 0) {
+        this.logger.warn("No tax policy found, using the fallback flat tax")
+        return
+      }
+
+      const row = result[0]
+      const brackets = typeof row.brackets === "string" ? JSON.parse(row.brackets) : row.brackets
+      this.policy = {
+        allowance: Number(row.allowance),
+        brackets: brackets.map((bracket: any) => ({ threshold: Number(bracket.threshold), rate: Number(bracket.rate) })),
+        min_rate: Number(row.min_rate),
+        max_rate: Number(row.max_rate),
+        max_allowance: Number(row.max_allowance),
+        updated_by: row.updated_by,
+        updated_at: row.updated_at,
+      }
+
+      this.logger.success(`Tax policy loaded: ${this.policy.brackets.length} brackets`)
+    } catch (error) {
+      this.logger.error("Error loading tax policy:", error)
+    }
+  }
+
+  public getPolicy(): TaxPolicy {
+    return this.policy
+  }
+
+  /**
+   * Taxes one payroll run of income. Salaries from government jobs are exempt; faction bonuses are always taxed.
+   */
+  public calculateIncomeTax(salary: number, factionBonus: number, salaryExempt: boolean): IncomeTaxResult {
+    const income = (salaryExempt ? 0 : salary) + factionBonus
+    const allowance = Math.min(this.policy.allowance, income)
+    const taxableIncome = income - allowance
+
+    let tax = 0
+    this.policy.brackets.forEach((bracket, index) => {
+      const next = this.policy.brackets[index + 1]
+      const upper = next ? Math.min(taxableIncome, next.threshold) : taxableIncome
+      if (upper > bracket.threshold) {
+        tax += (upper - bracket.threshold) * bracket.rate
+      }
+    })
+
+    return { allowance, taxableIncome, tax: Math.round(tax * 100) / 100 }
+  }
+
+  public async setBracketRate(
+    bracketIndex: number,
+    rate: number,
+    characterId: number,
+  ): Promise<{ success: boolean; message: string }> {
+    const brackets = this.policy.brackets.map((bracket) => ({ ...bracket }))
+    const bracket = brackets[bracketIndex]
+    if (!bracket) {
+      return { success: false, message: `There is no bracket ${bracketIndex + 1}. Use /taxes to list them.` }
+    }
+
+    if (rate < this.policy.min_rate || rate > this.policy.max_rate) {
+      return {
+        success: false,
+        message: `Rates must be between ${this.formatRate(this.policy.min_rate)} and ${this.formatRate(this.policy.max_rate)}.`,
+      }
+    }
+
+    bracket.rate = rate
+    if (!this.isProgressive(brackets)) {
+      return { success: false, message: "Each bracket's rate must be at least the rate of the bracket below it." }
+    }
+
+    const saved = await this.savePolicy({ ...this.policy, brackets }, characterId)
+    if (!saved) {
+      return { success: false, message: "An error occurred while saving the tax policy." }
+    }
+
+    return {
+      success: true,
+      message: `Bracket ${bracketIndex + 1} (over $${bracket.threshold.toLocaleString()}) is now taxed at ${this.formatRate(rate)}.`,
+    }
+  }
+
+  public async setAllowance(allowance: number, characterId: number): Promise<{ success: boolean; message: string }> {
+    if (allowance < 0 || allowance > this.policy.max_allowance) {
+      return {
+        success: false,
+        message: `The allowance must be between $0 and $${this.policy.max_allowance.toLocaleString()}.`,
+      }
+    }
+
+    const saved = await this.savePolicy({ ...this.policy, allowance }, characterId)
+    if (!saved) {
+      return { success: false, message: "An error occurred while saving the tax policy." }
+    }
+
+    return { success: true, message: `The tax-free allowance is now $${allowance.toLocaleString()} per payday.` }
+  }
+
+  /**
+   * Sets the limits the mayor works within. Current rates and the allowance are clamped into the new limits.
+   */
+  public async setLimits(
+    minRate: number,
+    maxRate: number,
+    maxAllowance: number,
+    characterId: number | null,
+  ): Promise<{ success: boolean; message: string }> {
+    if (minRate < 0 || maxRate > 1 || minRate > maxRate || maxAllowance < 0) {
+      return { success: false, message: "Invalid limits: 0 <= min rate <= max rate <= 100% and allowance >= 0." }
+    }
+
+    const brackets = this.policy.brackets.map((bracket) => ({
+      threshold: bracket.threshold,
+      rate: Math.min(Math.max(bracket.rate, minRate), maxRate),
+    }))
+
+    const saved = await this.savePolicy(
+      {
+        ...this.policy,
+        brackets,
+        allowance: Math.min(this.policy.allowance, maxAllowance),
+        min_rate: minRate,
+        max_rate: maxRate,
+        max_allowance: maxAllowance,
+      },
+      characterId,
+    )
+    if (!saved) {
+      return { success: false, message: "An error occurred while saving the tax limits." }
+    }
+
+    return {
+      success: true,
+      message: `Tax limits set: rates ${this.formatRate(minRate)}-${this.formatRate(maxRate)}, allowance up to $${maxAllowance.toLocaleString()}.`,
+    }
+  }
+
+  private async savePolicy(policy: TaxPolicy, characterId: number | null): Promise<boolean> {
+    try {
+      await this.database.query(
+        `UPDATE tax_policy SET allowance = ?, brackets = ?, min_rate = ?, max_rate = ?, max_allowance = ?, updated_by = ?
+         WHERE id = 1`,
+        [
+          policy.allowance,
+          JSON.stringify(policy.brackets),
+          policy.min_rate,
+          policy.max_rate,
+          policy.max_allowance,
+          characterId,
+        ],
+      )
+
+      this.policy = { ...policy, updated_by: characterId, updated_at: new Date() }
+      this.eventManager.emit("tax:policyChanged", this.policy)
+      this.logger.info(`Tax policy updated by character ${characterId ?? "system"}`)
+      return true
+    } catch (error) {
+      this.logger.error("Error saving tax policy:", error)
+      return false
+    }
+  }
+
+  private isProgressive(brackets: TaxBracket[]): boolean {
+    return brackets.every((bracket, index) => index === 0 || bracket.rate >= brackets[index - 1].rate)
+  }
+
+  private formatRate(rate: number): string {
+    return `${Math.round(rate * 10000) / 100}%`
+  }
+
+  // The elected mayor is whoever currently holds the Mayor job
+  private isMayor(player: any): boolean {
+    return player.jobData?.name === "Mayor"
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "taxes",
+        description: "Show the current income tax brackets and allowance",
+        usage: "/taxes",
+        adminLevel: 0,
+        category: "Economy",
+        execute: (player) => this.showPolicy(player),
+      },
+      {
+        name: "settaxrate",
+        description: "Set the rate of an income tax bracket (mayor only)",
+        params: [
+          { name: "bracket", type: "integer", min: 1 },
+          { name: "rate_percent", type: "number", min: 0, max: 100 },
+        ],
+        adminLevel: 0,
+        category: "Economy",
+        execute: (player, _args, params) => this.handleSetRate(player, params.bracket, params.rate_percent),
+      },
+      {
+        name: "settaxallowance",
+        description: "Set the tax-free allowance per payday (mayor only)",
+        params: [{ name: "amount", type: "number", min: 0 }],
+        adminLevel: 0,
+        category: "Economy",
+        execute: (player, _args, params) => this.handleSetAllowance(player, params.amount),
+      },
+      {
+        name: "ataxlimits",
+        description: "Set the limits within which the mayor may adjust taxes",
+        params: [
+          { name: "min_rate_percent", type: "number", min: 0, max: 100 },
+          { name: "max_rate_percent", type: "number", min: 0, max: 100 },
+          { name: "max_allowance", type: "number", min: 0 },
+        ],
+        adminLevel: 3,
+        category: "Admin",
+        execute: (player, _args, params) => this.handleSetLimits(player, params),
+      },
+    ])
+  }
+
+  private showPolicy(player: any): void {
+    const policy = this.policy
+    let message = "=== Income Tax ===\n"
+    message += `Tax-free allowance: $${policy.allowance.toLocaleString()} per payday\n`
+
+    policy.brackets.forEach((bracket, index) => {
+      const next = policy.brackets[index + 1]
+      const range = next
+        ? `$${bracket.threshold.toLocaleString()} - $${next.threshold.toLocaleString()}`
+        : `over $${bracket.threshold.toLocaleString()}`
+      message += `Bracket ${index + 1}: ${range} taxed at ${this.formatRate(bracket.rate)}\n`
+    })
+
+    message += "Government salaries are exempt; faction bonuses are taxed as income.\n"
+    message += `Mayor limits: ${this.formatRate(policy.min_rate)}-${this.formatRate(policy.max_rate)}, allowance up to $${policy.max_allowance.toLocaleString()}`
+    this.sendTaxMessage(player, message, "info")
+  }
+
+  private async handleSetRate(player: any, bracket: number, ratePercent: number): Promise<void> {
+    if (!player.characterData || !this.isMayor(player)) {
+      this.sendTaxMessage(player, "Only the mayor can change tax rates.", "error")
+      return
+    }
+
+    const result = await this.setBracketRate(bracket - 1, ratePercent / 100, player.characterData.id)
+    this.sendTaxMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleSetAllowance(player: any, amount: number): Promise<void> {
+    if (!player.characterData || !this.isMayor(player)) {
+      this.sendTaxMessage(player, "Only the mayor can change the tax-free allowance.", "error")
+      return
+    }
+
+    const result = await this.setAllowance(amount, player.characterData.id)
+    this.sendTaxMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleSetLimits(player: any, params: CommandParams): Promise<void> {
+    const result = await this.setLimits(
+      params.min_rate_percent / 100,
+      params.max_rate_percent / 100,
+      params.max_allowance,
+      player.characterData?.id ?? null,
+    )
+    this.sendTaxMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private sendTaxMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[TAX] ${message}`, colors[type])
+  }
+}
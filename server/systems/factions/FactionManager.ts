@@ -4,6 +4,7 @@
 
 import type { Database } from "../../core/database"
 import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
 import { Logger } from "../../utils/Logger"
 import type { Faction } from "../../types"
 
@@ -82,20 +83,6 @@ export class FactionManager {
 
   private async loadFactionRanks(): Promise<void> {
     try {
-      // Create faction ranks table if it doesn't exist
-      await this.database.query(`
-        CREATE TABLE IF NOT EXISTS faction_ranks (
-          id INT AUTO_INCREMENT PRIMARY KEY,
-          faction_id INT NOT NULL,
-          name VARCHAR(50) NOT NULL,
-          level INT NOT NULL,
-          permissions JSON,
-          salary_bonus DECIMAL(10,2) DEFAULT 0,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (faction_id) REFERENCES factions(id) ON DELETE CASCADE
-        )
-      `)
-
       const ranks = await this.database.query("SELECT * FROM faction_ranks ORDER BY faction_id, level")
 
       for (const rank of ranks) {
@@ -115,23 +102,6 @@ export class FactionManager {
 
   private async loadActiveWars(): Promise<void> {
     try {
-      // Create faction wars table if it doesn't exist
-      await this.database.query(`
-        CREATE TABLE IF NOT EXISTS faction_wars (
-          id INT AUTO_INCREMENT PRIMARY KEY,
-          faction1_id INT NOT NULL,
-          faction2_id INT NOT NULL,
-          started_by INT NOT NULL,
-          start_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          end_date TIMESTAMP NULL,
-          status ENUM('active', 'ended') DEFAULT 'active',
-          reason TEXT,
-          FOREIGN KEY (faction1_id) REFERENCES factions(id) ON DELETE CASCADE,
-          FOREIGN KEY (faction2_id) REFERENCES factions(id) ON DELETE CASCADE,
-          FOREIGN KEY (started_by) REFERENCES characters(id) ON DELETE CASCADE
-        )
-      `)
-
       const wars = await this.database.query("SELECT * FROM faction_wars WHERE status = 'active'")
 
       for (const war of wars) {
@@ -301,14 +271,16 @@ export class FactionManager {
     return baseRanks
   }
 
-  private async handleFactionInvite(player: any, targetName: string): Promise<void> {
+  private async handleFactionInvite(player: any, target: any): Promise<void> {
+    // Target is either a resolved player (from the command) or a player name (from the faction:invite event)
     try {
       if (!player.factionData || !this.hasPermission(player, "invite")) {
         this.sendFactionMessage(player, "You don't have permission to invite members.", "error")
         return
       }
 
-      const targetPlayer = global.AmericanRP.getPlayerManager().getPlayerByName(targetName)
+      const targetPlayer =
+        typeof target === "string" ? global.AmericanRP.getPlayerManager().getPlayerByName(target) : target
       if (!targetPlayer || !targetPlayer.characterData) {
         this.sendFactionMessage(player, "Player not found or not logged in.", "error")
         return
@@ -423,14 +395,16 @@ export class FactionManager {
     }
   }
 
-  private async handleFactionKick(player: any, targetName: string): Promise<void> {
+  private async handleFactionKick(player: any, target: any): Promise<void> {
+    // Target is either a resolved player (from the command) or a player name (from the faction:kick event)
     try {
       if (!player.factionData || !this.hasPermission(player, "kick")) {
         this.sendFactionMessage(player, "You don't have permission to kick members.", "error")
         return
       }
 
-      const targetPlayer = global.AmericanRP.getPlayerManager().getPlayerByName(targetName)
+      const targetPlayer =
+        typeof target === "string" ? global.AmericanRP.getPlayerManager().getPlayerByName(target) : target
       if (!targetPlayer || !targetPlayer.characterData) {
         this.sendFactionMessage(player, "Player not found or not logged in.", "error")
         return
@@ -612,68 +586,79 @@ export class FactionManager {
       })
   }
 
-  public isFactionCommand(command: string): boolean {
-    const factionCommands = [
-      "faction",
-      "f",
-      "invite",
-      "accept",
-      "kick",
-      "promote",
-      "demote",
-      "leave",
-      "members",
-      "ranks",
-      "war",
-      "endwar",
-      "factioninfo",
-    ]
-    return factionCommands.includes(command)
+  public getFaction(factionId: number): Faction | undefined {
+    return this.factions.get(factionId)
   }
 
-  public async handleCommand(player: any, command: string, args: string[]): Promise<void> {
-    switch (command) {
-      case "faction":
-      case "f":
-        if (args.length === 0) {
-          await this.showFactionInfo(player)
-        } else {
-          await this.handleFactionSubCommand(player, args[0], args.slice(1))
-        }
-        break
-      case "invite":
-        if (args.length < 1) {
-          this.sendFactionMessage(player, "Usage: /invite [player_name]", "error")
-          return
-        }
-        await this.handleFactionInvite(player, args[0])
-        break
-      case "accept":
-        await this.handleFactionAccept(player)
-        break
-      case "kick":
-        if (args.length < 1) {
-          this.sendFactionMessage(player, "Usage: /kick [player_name]", "error")
-          return
-        }
-        await this.handleFactionKick(player, args[0])
-        break
-      case "leave":
-        await this.handleFactionLeave(player)
-        break
-      case "members":
-        await this.showFactionMembers(player)
-        break
-      case "war":
-        if (args.length < 2) {
-          this.sendFactionMessage(player, "Usage: /war [faction_name] [reason]", "error")
-          return
-        }
-        await this.handleFactionWar(player, args[0], args.slice(1).join(" "))
-        break
-      default:
-        this.sendFactionMessage(player, "Unknown faction command.", "error")
-    }
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "faction",
+        aliases: ["f", "factioninfo"],
+        description: "Show your faction or run a faction subcommand",
+        usage: "/faction [create|info] [args]",
+        adminLevel: 0,
+        category: "Factions",
+        execute: async (player, args) => {
+          if (args.length === 0) {
+            await this.showFactionInfo(player)
+          } else {
+            await this.handleFactionSubCommand(player, args[0], args.slice(1))
+          }
+        },
+      },
+      {
+        name: "invite",
+        description: "Invite a player to your faction",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Factions",
+        execute: (player, _args, params) => this.handleFactionInvite(player, params.player),
+      },
+      {
+        name: "accept",
+        description: "Accept your latest faction invitation",
+        usage: "/accept",
+        adminLevel: 0,
+        category: "Factions",
+        execute: (player) => this.handleFactionAccept(player),
+      },
+      {
+        name: "kick",
+        description: "Kick a member from your faction",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Factions",
+        execute: (player, _args, params) => this.handleFactionKick(player, params.player),
+      },
+      {
+        name: "leave",
+        description: "Leave your faction",
+        usage: "/leave",
+        adminLevel: 0,
+        category: "Factions",
+        execute: (player) => this.handleFactionLeave(player),
+      },
+      {
+        name: "members",
+        description: "List the members of your faction",
+        usage: "/members",
+        adminLevel: 0,
+        category: "Factions",
+        execute: (player) => this.showFactionMembers(player),
+      },
+      {
+        name: "war",
+        description: "Declare war on another faction",
+        params: [
+          { name: "faction_name", type: "word" },
+          { name: "reason", type: "text" },
+        ],
+        adminLevel: 0,
+        category: "Factions",
+        execute: (player, _args, params) => this.handleFactionWar(player, params.faction_name, params.reason),
+      },
+    ])
   }
 
   private async handleFactionSubCommand(player: any, subCommand: string, args: string[]): Promise<void> {
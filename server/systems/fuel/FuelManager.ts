@@ -0,0 +1,367 @@
+/**
+ * Fuel Manager - Burns fuel in every registered vehicle with its engine running, by distance driven and by engine
+ * runtime at the model's rates, and stalls vehicles that run dry. Also holds the gas stations, each with its own fuel
+ * price and optionally run as a business property whose owner collects the sales and sets the price.
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import type { CommandParams, FuelProfile, GasStation, Position } from "../../types"
+
+declare const mp: any
+
+interface EngineTrack {
+  position: Position
+  at: number
+}
+
+const CONSUMPTION_TICK_INTERVAL = 5 * 1000
+const SAVE_INTERVAL = 60 * 1000
+const MAX_TICK_DISTANCE = 300 // Larger jumps are teleports, not driving
+const LOW_FUEL_SHARE = 0.1
+const MIN_FUEL_PRICE = 0.5
+const MAX_FUEL_PRICE = 10
+
+// Models without a profile are treated as an average sedan
+const DEFAULT_FUEL_PROFILE: Omit<FuelProfile, "model"> = {
+  tank_liters: 55,
+  liters_per_100km: 50,
+  idle_liters_per_hour: 2.5,
+}
+
+export class FuelManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private stations: Map<number, GasStation> = new Map()
+  private profiles: Map<string, FuelProfile> = new Map()
+  private tracks: Map<number, EngineTrack> = new Map() // Keyed by vehicle id
+  private unsaved: Set<number> = new Set()
+  private warned: Set<number> = new Set()
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("FuelManager")
+
+    this.loadStations()
+    this.loadProfiles()
+    this.startTimers()
+  }
+
+  private startTimers(): void {
+    setInterval(() => {
+      this.processConsumption()
+    }, CONSUMPTION_TICK_INTERVAL)
+
+    setInterval(() => {
+      this.saveFuel()
+    }, SAVE_INTERVAL)
+  }
+
+  private async loadStations(): Promise<void> {
+    try {
+      const rows = await this.database.query("SELECT * FROM gas_stations ORDER BY id")
+      this.stations.clear()
+      for (const row of rows) {
+        this.stations.set(row.id, {
+          id: row.id,
+          name: row.name,
+          position: typeof row.position === "string" ? JSON.parse(row.position) : row.position,
+          radius: Number(row.radius),
+          fuel_price: Number(row.fuel_price),
+          property_id: row.property_id,
+        })
+      }
+      this.logger.success(`Loaded ${this.stations.size} gas stations`)
+    } catch (error) {
+      this.logger.error("Error loading gas stations:", error)
+    }
+  }
+
+  private async loadProfiles(): Promise<void> {
+    try {
+      const rows = await this.database.query("SELECT * FROM vehicle_fuel_profiles")
+      this.profiles.clear()
+      for (const row of rows) {
+        this.profiles.set(row.model, {
+          model: row.model,
+          tank_liters: Number(row.tank_liters),
+          liters_per_100km: Number(row.liters_per_100km),
+          idle_liters_per_hour: Number(row.idle_liters_per_hour),
+        })
+      }
+    } catch (error) {
+      this.logger.error("Error loading fuel profiles:", error)
+    }
+  }
+
+  public getProfile(model: string): FuelProfile {
+    return this.profiles.get(model.toLowerCase()) ?? { model, ...DEFAULT_FUEL_PROFILE }
+  }
+
+  public getStation(stationId: number): GasStation | undefined {
+    return this.stations.get(stationId)
+  }
+
+  /**
+   * The station whose forecourt contains the position, if any
+   */
+  public getStationAt(position: Position): GasStation | undefined {
+    return Array.from(this.stations.values()).find(
+      (station) => this.getDistance(position, station.position) <= station.radius,
+    )
+  }
+
+  public getNearestStation(position: Position): GasStation | undefined {
+    let nearest: GasStation | undefined
+    for (const station of this.stations.values()) {
+      if (!nearest || this.getDistance(position, station.position) < this.getDistance(position, nearest.position)) {
+        nearest = station
+      }
+    }
+    return nearest
+  }
+
+  /**
+   * Station owners price their own fuel; unowned stations are priced by senior admins
+   */
+  public async setFuelPrice(
+    player: any,
+    station: GasStation,
+    price: number,
+  ): Promise<{ success: boolean; message: string }> {
+    if (!this.canManageStation(player, station)) {
+      return { success: false, message: "Only the owner of this station can set its price." }
+    }
+    if (price < MIN_FUEL_PRICE || price > MAX_FUEL_PRICE) {
+      return {
+        success: false,
+        message: `The price must be between $${MIN_FUEL_PRICE} and $${MAX_FUEL_PRICE} per liter.`,
+      }
+    }
+
+    try {
+      await this.database.query("UPDATE gas_stations SET fuel_price = ? WHERE id = ?", [price, station.id])
+      station.fuel_price = price
+      return { success: true, message: `${station.name} now sells fuel at $${price.toFixed(2)}/L.` }
+    } catch (error) {
+      this.logger.error("Error setting fuel price:", error)
+      return { success: false, message: "The price could not be changed." }
+    }
+  }
+
+  /**
+   * Runs a station as a business property, or detaches it with a null property id
+   */
+  public async linkStation(
+    stationId: number,
+    propertyId: number | null,
+  ): Promise<{ success: boolean; message: string }> {
+    const station = this.stations.get(stationId)
+    if (!station) {
+      return { success: false, message: "Gas station not found." }
+    }
+
+    const property = propertyId ? global.AmericanRP.getPropertyManager().getProperty(propertyId) : undefined
+    if (propertyId && property?.business_type !== "gas_station") {
+      return { success: false, message: "The property must be a business of type gas_station (/asetbusiness)." }
+    }
+
+    try {
+      await this.database.query("UPDATE gas_stations SET property_id = ? WHERE id = ?", [propertyId, stationId])
+      station.property_id = propertyId
+      if (!property) {
+        return { success: true, message: `${station.name} is no longer a business.` }
+      }
+      return { success: true, message: `${station.name} is now run by ${property.name}.` }
+    } catch (error) {
+      this.logger.error("Error linking gas station:", error)
+      return { success: false, message: "The station could not be updated." }
+    }
+  }
+
+  private canManageStation(player: any, station: GasStation): boolean {
+    if (player.adminLevel >= 3) return true
+    if (!station.property_id || !player.characterData) return false
+
+    const property = global.AmericanRP.getPropertyManager().getProperty(station.property_id)
+    return property?.owner_id === player.characterData.id
+  }
+
+  // Burns fuel for the distance driven and the engine time since the last tick, and stalls empty vehicles
+  private processConsumption(): void {
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    const now = Date.now()
+
+    mp.vehicles.forEach((entity: any) => {
+      const vehicleId = entity.getVariable("vehicleId")
+      const vehicle = vehicleId ? vehicleManager.getVehicle(vehicleId) : undefined
+      if (!vehicle) return
+
+      if (!entity.engine) {
+        this.tracks.delete(vehicle.id)
+        return
+      }
+
+      const position = { x: entity.position.x, y: entity.position.y, z: entity.position.z }
+      const track = this.tracks.get(vehicle.id)
+      this.tracks.set(vehicle.id, { position, at: now })
+      if (!track) return
+
+      if (vehicle.fuel <= 0) {
+        this.stall(entity)
+        return
+      }
+
+      const profile = this.getProfile(vehicle.model)
+      const distance = this.getDistance(track.position, position)
+      const kilometers = distance <= MAX_TICK_DISTANCE ? distance / 1000 : 0
+      const hours = (now - track.at) / (60 * 60 * 1000)
+      const burned = (kilometers * profile.liters_per_100km) / 100 + hours * profile.idle_liters_per_hour
+
+      vehicle.fuel = Math.max(0, Math.round((Math.min(vehicle.fuel, profile.tank_liters) - burned) * 100) / 100)
+      this.unsaved.add(vehicle.id)
+      entity.setVariable("fuel", vehicle.fuel)
+
+      if (vehicle.fuel <= 0) {
+        this.stall(entity)
+      } else if (vehicle.fuel <= profile.tank_liters * LOW_FUEL_SHARE && !this.warned.has(vehicle.id)) {
+        this.warned.add(vehicle.id)
+        this.notifyDriver(entity, `Low fuel: ${vehicle.fuel.toFixed(1)} L left. Use /fuel to find a gas station.`)
+      } else if (vehicle.fuel > profile.tank_liters * LOW_FUEL_SHARE) {
+        this.warned.delete(vehicle.id)
+      }
+    })
+  }
+
+  private stall(entity: any): void {
+    entity.engine = false
+    this.tracks.delete(entity.getVariable("vehicleId"))
+    this.notifyDriver(entity, "The engine sputters and dies. The tank is empty.")
+    this.eventManager.emit("fuel:stalled", entity)
+  }
+
+  private async saveFuel(): Promise<void> {
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    const vehicleIds = Array.from(this.unsaved)
+    this.unsaved.clear()
+
+    for (const vehicleId of vehicleIds) {
+      const vehicle = vehicleManager.getVehicle(vehicleId)
+      if (!vehicle) continue
+
+      try {
+        await this.database.query("UPDATE vehicles SET fuel = ? WHERE id = ?", [vehicle.fuel, vehicleId])
+      } catch (error) {
+        this.unsaved.add(vehicleId)
+        this.logger.error("Error saving vehicle fuel:", error)
+      }
+    }
+  }
+
+  private notifyDriver(entity: any, message: string): void {
+    const driver = entity.getOccupant(0)
+    if (driver) {
+      this.sendFuelMessage(driver, message, "info")
+    }
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "fuel",
+        description: "Show your vehicle's fuel and set a waypoint to the nearest gas station",
+        usage: "/fuel",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleFuelCommand(player),
+      },
+      {
+        name: "fuelprice",
+        description: "Set the fuel price of the gas station you are at (station owners)",
+        usage: "/fuelprice [price per liter]",
+        params: [{ name: "price", type: "number", min: MIN_FUEL_PRICE, max: MAX_FUEL_PRICE }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleFuelPriceCommand(player, params),
+      },
+      {
+        name: "alinkstation",
+        description: "Run a gas station as a business property, or 0 to detach it",
+        usage: "/alinkstation [station ID] [property ID|0]",
+        params: [
+          { name: "stationId", type: "integer", min: 1 },
+          { name: "propertyId", type: "integer", min: 0 },
+        ],
+        adminLevel: 3,
+        category: "Admin",
+        execute: async (player, _args, params) => {
+          const result = await this.linkStation(params.stationId, params.propertyId || null)
+          this.sendFuelMessage(player, result.message, result.success ? "success" : "error")
+        },
+      },
+    ])
+  }
+
+  private handleFuelCommand(player: any): void {
+    let message = ""
+    const vehicle = player.vehicle
+      ? global.AmericanRP.getVehicleManager().getVehicle(player.vehicle.getVariable("vehicleId"))
+      : undefined
+    if (vehicle) {
+      const profile = this.getProfile(vehicle.model)
+      message += `Fuel: ${vehicle.fuel.toFixed(1)}/${profile.tank_liters} L`
+      message += ` | ${profile.liters_per_100km} L/100 km\n`
+    }
+
+    const here = this.getStationAt(player.position)
+    const station = here ?? this.getNearestStation(player.position)
+    if (!station) {
+      this.sendFuelMessage(player, `${message}No gas stations are open.`, "info")
+      return
+    }
+
+    if (here) {
+      message += `You are at ${station.name}: $${station.fuel_price.toFixed(2)}/L. Use /vrefuel to fill up.`
+    } else {
+      const distance = Math.round(this.getDistance(player.position, station.position))
+      message += `Nearest station: ${station.name} (${distance}m, $${station.fuel_price.toFixed(2)}/L). Waypoint set.`
+      player.call("setWaypoint", [station.position.x, station.position.y])
+    }
+    this.sendFuelMessage(player, message, "info")
+  }
+
+  private async handleFuelPriceCommand(player: any, params: CommandParams): Promise<void> {
+    const station = this.getStationAt(player.position)
+    if (!station) {
+      this.sendFuelMessage(player, "You must be at a gas station.", "error")
+      return
+    }
+
+    const result = await this.setFuelPrice(player, station, Math.round(params.price * 100) / 100)
+    this.sendFuelMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendFuelMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#87CEEB",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[FUEL] ${message}`, colors[type])
+  }
+}
@@ -0,0 +1,1014 @@
+/**
+ * Insurance Manager - Vehicle insurance sold by on-duty insurance agents. Policies come in three tiers, are billed
+ * every 30 days to the owner's bank and lapse when a premium cannot be paid. Owners of a destroyed or stolen vehicle
+ * file a claim, which an agent settles with a payout or a replacement vehicle, or denies. Agents earn a commission on
+ * every policy they sell or renew and every claim they decide.
+ */
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { envNumber } from "../../core/env"
+import { Logger } from "../../utils/Logger"
+import type { CommandParams, InsuranceClaim, InsurancePolicy, InsuranceTier, Position, Vehicle } from "../../types"
+
+declare const mp: any
+
+export interface InsuranceConfig {
+  commission: number // Fraction of each premium an agent sells or renews
+  claimCommission: number // Flat amount per claim decided
+}
+
+interface TierTerms {
+  label: string
+  rate: number // Monthly premium as a fraction of the coverage value
+  minPremium: number
+  covers: InsuranceClaim["type"][]
+  payoutShare: number // Fraction of the coverage value paid out for a total loss
+  deductibleRate: number // Fraction of the coverage value the owner pays on every claim
+}
+
+interface PolicyOffer {
+  agentId: number // Character id
+  vehicleId: number
+  tier: InsuranceTier
+  coverage: number
+  premium: number
+  deductible: number
+  renewPolicyId: number | null
+  expiresAt: number
+}
+
+export const INSURANCE_JOBS = ["Insurance Agent"]
+const COMPANY_NAME = "Los Santos Insurance"
+const BILLING_PERIOD_DAYS = 30
+const BILLING_CHECK_INTERVAL = 60 * 60 * 1000 // Every hour
+const OFFER_EXPIRY = 5 * 60 * 1000
+const CLAIM_COOLDOWN_DAYS = 7
+const DESTRUCTION_WINDOW = 24 * 60 * 60 * 1000 // A vehicle death this recent verifies a claim
+const SALES_RANGE = 5
+const DEFAULT_COVERAGE = 15000 // Vehicles no dealership sells
+
+const TIERS: Record<InsuranceTier, TierTerms> = {
+  liability: { label: "Liability", rate: 0.005, minPremium: 50, covers: [], payoutShare: 0, deductibleRate: 0 },
+  collision: {
+    label: "Collision",
+    rate: 0.015,
+    minPremium: 100,
+    covers: ["destroyed"],
+    payoutShare: 0.6,
+    deductibleRate: 0.1,
+  },
+  comprehensive: {
+    label: "Comprehensive",
+    rate: 0.025,
+    minPremium: 150,
+    covers: ["destroyed", "stolen"],
+    payoutShare: 0.8,
+    deductibleRate: 0.05,
+  },
+}
+
+const REPLACEMENT_LOT: Position = { x: -1380.0, y: -478.0, z: 31.6 }
+
+function loadInsuranceConfig(): InsuranceConfig {
+  return {
+    commission: Math.min(envNumber("INSURANCE_COMMISSION", 0.15), 1),
+    claimCommission: envNumber("INSURANCE_CLAIM_COMMISSION", 100),
+  }
+}
+
+export class InsuranceManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private config: InsuranceConfig
+  private offers: Map<number, PolicyOffer> = new Map() // Keyed by customer player id
+  private destroyedVehicles: Map<number, number> = new Map() // Vehicle id -> time of death
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("InsuranceManager")
+    this.config = loadInsuranceConfig()
+
+    this.registerEvents()
+    this.startBillingTimer()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("player:disconnected", (player: any) => this.offers.delete(player.id))
+  }
+
+  private startBillingTimer(): void {
+    setInterval(() => {
+      this.billPolicies()
+    }, BILLING_CHECK_INTERVAL)
+  }
+
+  public isAgent(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, INSURANCE_JOBS)
+  }
+
+  /**
+   * Remembers when an owned vehicle was wrecked so a claim for it can be marked as verified
+   */
+  public onVehicleDeath(entity: any): void {
+    const vehicleId: number | undefined = entity?.getVariable("vehicleId")
+    if (vehicleId) {
+      this.destroyedVehicles.set(vehicleId, Date.now())
+    }
+  }
+
+  // Policies
+
+  public async getPolicy(policyId: number): Promise<InsurancePolicy | null> {
+    const rows = await this.database.query("SELECT * FROM insurance_policies WHERE id = ?", [policyId])
+    return rows.length > 0 ? this.mapPolicy(rows[0]) : null
+  }
+
+  public async getActivePolicy(vehicleId: number): Promise<InsurancePolicy | null> {
+    const rows = await this.database.query(
+      "SELECT * FROM insurance_policies WHERE vehicle_id = ? AND status = 'active'",
+      [vehicleId],
+    )
+    return rows.length > 0 ? this.mapPolicy(rows[0]) : null
+  }
+
+  public async getOwnerPolicies(characterId: number): Promise<InsurancePolicy[]> {
+    const rows = await this.database.query(
+      `SELECT p.* FROM insurance_policies p
+       JOIN vehicles v ON v.id = p.vehicle_id
+       WHERE p.owner_id = ? AND v.deleted_at IS NULL AND p.status IN ('active', 'lapsed')
+       ORDER BY p.started_at DESC`,
+      [characterId],
+    )
+    return rows.map((row: any) => this.mapPolicy(row))
+  }
+
+  /**
+   * Prices a tier for a vehicle from its dealership price
+   */
+  public getQuote(vehicle: Vehicle, tier: InsuranceTier): { coverage: number; premium: number; deductible: number } {
+    const terms = TIERS[tier]
+    const coverage = global.AmericanRP.getVehicleManager().getCatalogPrice(vehicle.model) ?? DEFAULT_COVERAGE
+    return {
+      coverage,
+      premium: Math.max(terms.minPremium, Math.round(coverage * terms.rate)),
+      deductible: Math.round(coverage * terms.deductibleRate),
+    }
+  }
+
+  /**
+   * Offers a policy for one of the customer's vehicles. A lapsed policy on the vehicle is renewed on acceptance
+   * instead of opening a new one.
+   */
+  public async offerPolicy(
+    agent: any,
+    customer: any,
+    vehicleId: number,
+    tier: InsuranceTier,
+  ): Promise<{ success: boolean; message: string }> {
+    if (customer.characterData.id === agent.characterData.id) {
+      return { success: false, message: "You cannot sell a policy to yourself." }
+    }
+
+    if (this.getDistance(agent.position, customer.position) > SALES_RANGE) {
+      return { success: false, message: "The customer must be next to you." }
+    }
+
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(vehicleId)
+    if (!vehicle || vehicle.owner_id !== customer.characterData.id) {
+      return { success: false, message: "The customer does not own that vehicle." }
+    }
+
+    if (await this.getActivePolicy(vehicleId)) {
+      return { success: false, message: `${vehicle.plate} is already insured.` }
+    }
+
+    const lapsed = await this.database.query(
+      `SELECT id FROM insurance_policies WHERE vehicle_id = ? AND owner_id = ? AND status = 'lapsed'
+       ORDER BY id DESC LIMIT 1`,
+      [vehicleId, customer.characterData.id],
+    )
+    const quote = this.getQuote(vehicle, tier)
+    this.offers.set(customer.id, {
+      agentId: agent.characterData.id,
+      vehicleId,
+      tier,
+      ...quote,
+      renewPolicyId: lapsed[0]?.id ?? null,
+      expiresAt: Date.now() + OFFER_EXPIRY,
+    })
+
+    const terms = TIERS[tier]
+    const covers = terms.covers.length > 0 ? `covers ${terms.covers.join(" and ")} vehicles` : "no claims"
+    this.sendInsuranceMessage(
+      customer,
+      `${this.getAgentName(agent)} offers ${terms.label} insurance for ${vehicle.plate}: ` +
+        `$${quote.premium.toLocaleString()} every ${BILLING_PERIOD_DAYS} days, ${covers}` +
+        `${quote.deductible > 0 ? `, $${quote.deductible.toLocaleString()} deductible` : ""}.`,
+      "info",
+    )
+    this.sendInsuranceMessage(customer, "Use /policy accept or /policy decline within 5 minutes.", "info")
+
+    return {
+      success: true,
+      message: `Offered ${terms.label} insurance for ${vehicle.plate} at $${quote.premium.toLocaleString()}.`,
+    }
+  }
+
+  /**
+   * Charges the first premium from the customer's bank, pays the agent's commission and starts (or renews) the
+   * policy, all in one commit
+   */
+  public async acceptOffer(customer: any): Promise<{ success: boolean; message: string }> {
+    const offer = this.offers.get(customer.id)
+    this.offers.delete(customer.id)
+    if (!offer || offer.expiresAt < Date.now()) {
+      return { success: false, message: "You have no pending policy offer." }
+    }
+
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    const vehicle = vehicleManager.getVehicle(offer.vehicleId)
+    const characterId = customer.characterData.id
+    if (!vehicle || vehicle.owner_id !== characterId) {
+      return { success: false, message: "You no longer own that vehicle." }
+    }
+
+    const economyManager = global.AmericanRP.getEconomyManager()
+    const commission = Math.round(offer.premium * this.config.commission * 100) / 100
+    const paidUntil = new Date(Date.now() + BILLING_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+
+    try {
+      await this.database.transaction(async (connection) => {
+        const [existing] = await connection.query<RowDataPacket[]>(
+          "SELECT id FROM insurance_policies WHERE vehicle_id = ? AND status = 'active' FOR UPDATE",
+          [offer.vehicleId],
+        )
+        if (existing.length > 0) throw new Error("already_insured")
+
+        const premium = await economyManager.transfer(
+          { type: "bank", characterId },
+          null,
+          offer.premium,
+          "fee",
+          `${TIERS[offer.tier].label} insurance premium for ${vehicle.plate}`,
+          connection,
+        )
+        if (!premium.success) throw new Error(premium.error)
+
+        if (commission > 0) {
+          const toAgent = await economyManager.transfer(
+            null,
+            { type: "bank", characterId: offer.agentId },
+            commission,
+            "bonus",
+            `Insurance commission for ${vehicle.plate}`,
+            connection,
+          )
+          if (!toAgent.success) throw new Error(toAgent.error)
+        }
+
+        if (offer.renewPolicyId) {
+          await connection.execute(
+            `UPDATE insurance_policies SET agent_id = ?, tier = ?, coverage_value = ?, premium = ?, deductible = ?,
+             status = 'active', started_at = NOW(), paid_until = ?, ended_at = NULL WHERE id = ?`,
+            [
+              offer.agentId,
+              offer.tier,
+              offer.coverage,
+              offer.premium,
+              offer.deductible,
+              paidUntil,
+              offer.renewPolicyId,
+            ],
+          )
+        } else {
+          await connection.execute(
+            `INSERT INTO insurance_policies
+               (vehicle_id, owner_id, agent_id, tier, coverage_value, premium, deductible, started_at, paid_until)
+             VALUES (?, ?, ?, ?, ?, ?, ?, NOW(), ?)`,
+            [
+              offer.vehicleId,
+              characterId,
+              offer.agentId,
+              offer.tier,
+              offer.coverage,
+              offer.premium,
+              offer.deductible,
+              paidUntil,
+            ],
+          )
+        }
+
+        await connection.execute("UPDATE vehicles SET insurance_expires = ? WHERE id = ?", [
+          paidUntil,
+          offer.vehicleId,
+        ])
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : ""
+      if (reason === "insufficient_funds") {
+        return { success: false, message: "You do not have enough money in the bank for the premium." }
+      }
+      if (reason === "already_insured") {
+        return { success: false, message: `${vehicle.plate} is already insured.` }
+      }
+      throw error
+    }
+
+    vehicle.insurance_expires = paidUntil
+
+    await this.notifyCharacter(
+      offer.agentId,
+      `${vehicle.plate} is now insured. You earned a $${commission.toLocaleString()} commission.`,
+    )
+    return {
+      success: true,
+      message:
+        `${vehicle.plate} is insured with ${TIERS[offer.tier].label} coverage. ` +
+        `$${offer.premium.toLocaleString()} will be charged to your bank every ${BILLING_PERIOD_DAYS} days.`,
+    }
+  }
+
+  public declineOffer(customer: any): { success: boolean; message: string } {
+    const offer = this.offers.get(customer.id)
+    if (!offer) {
+      return { success: false, message: "You have no pending policy offer." }
+    }
+
+    this.offers.delete(customer.id)
+    const agent = this.findOnlineCharacter(offer.agentId)
+    if (agent) {
+      this.sendInsuranceMessage(agent, "The customer declined your policy offer.", "info")
+    }
+    return { success: true, message: "You declined the policy offer." }
+  }
+
+  // Cancelling stops billing right away; the rest of the paid period is not refunded
+  public async cancelPolicy(owner: any, policyId: number): Promise<{ success: boolean; message: string }> {
+    const policy = await this.getPolicy(policyId)
+    if (!policy || policy.owner_id !== owner.characterData.id || policy.status !== "active") {
+      return { success: false, message: "You have no active policy with that number." }
+    }
+
+    await this.endPolicy(policy, "cancelled")
+    return { success: true, message: `Policy #${policyId} has been cancelled. No further premiums will be charged.` }
+  }
+
+  private async endPolicy(policy: InsurancePolicy, status: "lapsed" | "cancelled"): Promise<void> {
+    await this.database.query("UPDATE insurance_policies SET status = ?, ended_at = NOW() WHERE id = ?", [
+      status,
+      policy.id,
+    ])
+    await this.database.query("UPDATE vehicles SET insurance_expires = NULL WHERE id = ?", [policy.vehicle_id])
+
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(policy.vehicle_id)
+    if (vehicle) {
+      vehicle.insurance_expires = null
+    }
+  }
+
+  /**
+   * Cancels the vehicle's active policy inside the caller's title transfer, as the cover belongs to the previous owner.
+   * The caller clears insurance_expires in memory once the transfer commits.
+   */
+  public async cancelVehicleCoverage(connection: PoolConnection, vehicleId: number): Promise<void> {
+    await connection.execute(
+      "UPDATE insurance_policies SET status = 'cancelled', ended_at = NOW() WHERE vehicle_id = ? AND status = 'active'",
+      [vehicleId],
+    )
+    await connection.execute("UPDATE vehicles SET insurance_expires = NULL WHERE id = ?", [vehicleId])
+  }
+
+  /**
+   * Charges every policy whose paid period has run out for another period. Policies whose owner cannot pay lapse,
+   * and policies on vehicles that were sold or written off are cancelled.
+   */
+  private async billPolicies(): Promise<void> {
+    try {
+      const rows = await this.database.query(
+        `SELECT p.*, v.owner_id AS vehicle_owner_id, v.deleted_at AS vehicle_deleted_at, v.plate
+         FROM insurance_policies p
+         JOIN vehicles v ON v.id = p.vehicle_id
+         WHERE p.status = 'active' AND p.paid_until <= NOW()`,
+      )
+
+      for (const row of rows) {
+        const policy = this.mapPolicy(row)
+        if (row.vehicle_deleted_at || row.vehicle_owner_id !== policy.owner_id) {
+          await this.endPolicy(policy, "cancelled")
+          continue
+        }
+
+        await this.billPolicy(policy, row.plate)
+      }
+    } catch (error) {
+      this.logger.error("Error billing insurance policies:", error)
+    }
+  }
+
+  private async billPolicy(policy: InsurancePolicy, plate: string): Promise<void> {
+    const paid = await this.database.transaction(async (connection) => {
+      const payment = await global.AmericanRP.getEconomyManager().transfer(
+        { type: "bank", characterId: policy.owner_id },
+        null,
+        policy.premium,
+        "fee",
+        `${TIERS[policy.tier].label} insurance premium for ${plate}`,
+        connection,
+      )
+      if (!payment.success) return null
+
+      // Billing restarts from now when the server was down past the due date, so missed periods are not back-charged
+      await connection.execute(
+        `UPDATE insurance_policies
+         SET paid_until = DATE_ADD(GREATEST(paid_until, NOW()), INTERVAL ${BILLING_PERIOD_DAYS} DAY) WHERE id = ?`,
+        [policy.id],
+      )
+      await connection.execute(
+        `UPDATE vehicles v JOIN insurance_policies p ON p.vehicle_id = v.id
+         SET v.insurance_expires = p.paid_until WHERE p.id = ?`,
+        [policy.id],
+      )
+      const [rows] = await connection.query<RowDataPacket[]>(
+        "SELECT paid_until FROM insurance_policies WHERE id = ?",
+        [policy.id],
+      )
+      return new Date(rows[0].paid_until)
+    })
+
+    if (!paid) {
+      await this.endPolicy(policy, "lapsed")
+      await this.notifyCharacter(
+        policy.owner_id,
+        `Your insurance on ${plate} has lapsed: the $${policy.premium.toLocaleString()} premium could not be ` +
+          "charged to your bank. An insurance agent can renew it.",
+      )
+      return
+    }
+
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(policy.vehicle_id)
+    if (vehicle) {
+      vehicle.insurance_expires = paid
+    }
+
+    await this.notifyCharacter(
+      policy.owner_id,
+      `$${policy.premium.toLocaleString()} was charged to your bank for the insurance on ${plate}.`,
+    )
+  }
+
+  // Claims
+
+  public async getClaim(claimId: number): Promise<InsuranceClaim | null> {
+    const rows = await this.database.query("SELECT * FROM insurance_claims WHERE id = ?", [claimId])
+    return rows.length > 0 ? this.mapClaim(rows[0]) : null
+  }
+
+  /**
+   * Files a claim against the vehicle's active policy and alerts every on-duty agent. Claims for a vehicle that was
+   * seen wrecked in the last day are marked as verified.
+   */
+  public async fileClaim(
+    claimant: any,
+    vehicleId: number,
+    type: InsuranceClaim["type"],
+    description: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const characterId = claimant.characterData.id
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(vehicleId)
+    if (!vehicle || vehicle.owner_id !== characterId) {
+      return { success: false, message: "You can only file a claim for a vehicle you own." }
+    }
+
+    if (vehicle.impounded) {
+      return { success: false, message: "Impounded vehicles cannot be claimed. Recover it from the impound lot." }
+    }
+
+    const policy = await this.getActivePolicy(vehicleId)
+    if (!policy) {
+      return { success: false, message: `${vehicle.plate} has no active insurance policy.` }
+    }
+
+    if (!TIERS[policy.tier].covers.includes(type)) {
+      return { success: false, message: `${TIERS[policy.tier].label} insurance does not cover ${type} vehicles.` }
+    }
+
+    const recent = await this.database.query(
+      `SELECT status FROM insurance_claims
+       WHERE policy_id = ? AND (status = 'pending' OR (status = 'approved' AND decided_at > NOW() - INTERVAL ? DAY))`,
+      [policy.id, CLAIM_COOLDOWN_DAYS],
+    )
+    if (recent.some((claim: any) => claim.status === "pending")) {
+      return { success: false, message: "This policy already has a claim waiting for an agent." }
+    }
+    if (recent.length > 0) {
+      return { success: false, message: `Only one claim per policy is settled every ${CLAIM_COOLDOWN_DAYS} days.` }
+    }
+
+    const destroyedAt = this.destroyedVehicles.get(vehicleId)
+    const verified = type === "destroyed" && destroyedAt !== undefined && Date.now() - destroyedAt <= DESTRUCTION_WINDOW
+
+    const result = await this.database.query(
+      `INSERT INTO insurance_claims (policy_id, claimant_id, type, description, verified)
+       VALUES (?, ?, ?, ?, ?)`,
+      [policy.id, characterId, type, description, verified],
+    )
+
+    global.AmericanRP.getChatManager().sendJobChannelMessage(
+      INSURANCE_JOBS,
+      `[INSURANCE] Claim #${result.insertId}: ${vehicle.plate} ${type}${verified ? " (verified)" : ""} - ` +
+        `/processclaim ${result.insertId}`,
+      "#4FC3F7",
+    )
+
+    const agents = global.AmericanRP.getJobManager().getOnDutyPlayers(INSURANCE_JOBS).length
+    return {
+      success: true,
+      message: `Claim #${result.insertId} filed. ${agents} insurance agent(s) on duty have been notified.`,
+    }
+  }
+
+  /**
+   * Settles or denies a pending claim. A payout writes the vehicle off and pays the claimant its insured value less
+   * the deductible; a replacement charges the deductible and delivers a restored vehicle to the insurance lot.
+   */
+  public async processClaim(
+    agent: any,
+    claimId: number,
+    decision: "payout" | "replacement" | "deny",
+    reason?: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const claim = await this.getClaim(claimId)
+    if (!claim || claim.status !== "pending") {
+      return { success: false, message: "That claim is not pending." }
+    }
+
+    const agentId = agent.characterData.id
+    if (claim.claimant_id === agentId) {
+      return { success: false, message: "You cannot process your own claim." }
+    }
+
+    if (decision === "deny" && !reason) {
+      return { success: false, message: "A denied claim needs a reason." }
+    }
+
+    const policy = await this.getPolicy(claim.policy_id)
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    const vehicle = policy ? vehicleManager.getVehicle(policy.vehicle_id) : undefined
+    if (decision !== "deny" && (!policy || policy.status !== "active" || !vehicle)) {
+      return { success: false, message: "The policy or vehicle is no longer valid. Deny the claim instead." }
+    }
+
+    if (decision === "payout" && global.AmericanRP.getLoanManager().isCollateralPledged("vehicle", vehicle!.id)) {
+      return { success: false, message: "The vehicle secures a bank loan. Settle the claim with a replacement." }
+    }
+
+    if (decision === "replacement" && vehicle!.impounded) {
+      return { success: false, message: "The vehicle is impounded. It must be recovered before it can be replaced." }
+    }
+
+    const amount =
+      decision === "payout"
+        ? Math.max(0, Math.round(policy!.coverage_value * TIERS[policy!.tier].payoutShare - policy!.deductible))
+        : decision === "replacement"
+          ? policy!.deductible
+          : 0
+    // Only settlements earn a commission, so denying a claim that can be filed again straight away pays nothing
+    const commission = decision === "deny" ? 0 : this.config.claimCommission
+    const economyManager = global.AmericanRP.getEconomyManager()
+
+    try {
+      await this.database.transaction(async (connection) => {
+        const [claimed] = await connection.execute<ResultSetHeader>(
+          `UPDATE insurance_claims SET status = ?, settlement = ?, amount = ?, agent_id = ?, agent_commission = ?,
+           decision_reason = ?, decided_at = NOW() WHERE id = ? AND status = 'pending'`,
+          [
+            decision === "deny" ? "denied" : "approved",
+            decision === "deny" ? null : decision,
+            amount,
+            agentId,
+            commission,
+            reason ?? null,
+            claimId,
+          ],
+        )
+        if (claimed.affectedRows === 0) throw new Error("claim_taken")
+
+        if (decision === "payout" && amount > 0) {
+          const payout = await economyManager.transfer(
+            null,
+            { type: "bank", characterId: claim.claimant_id },
+            amount,
+            "grant",
+            `Insurance claim #${claimId} payout for ${vehicle!.plate}`,
+            connection,
+          )
+          if (!payout.success) throw new Error(payout.error)
+        }
+
+        if (decision === "replacement" && amount > 0) {
+          const deductible = await economyManager.transfer(
+            { type: "bank", characterId: claim.claimant_id },
+            null,
+            amount,
+            "fee",
+            `Insurance claim #${claimId} deductible for ${vehicle!.plate}`,
+            connection,
+          )
+          if (!deductible.success) throw new Error(deductible.error)
+        }
+
+        if (commission > 0) {
+          const toAgent = await economyManager.transfer(
+            null,
+            { type: "bank", characterId: agentId },
+            commission,
+            "bonus",
+            `Insurance claim #${claimId} commission`,
+            connection,
+          )
+          if (!toAgent.success) throw new Error(toAgent.error)
+        }
+
+        if (decision === "payout") {
+          await connection.execute(
+            "UPDATE insurance_policies SET status = 'cancelled', ended_at = NOW() WHERE id = ?",
+            [policy!.id],
+          )
+          await vehicleManager.writeOffVehicle(vehicle!.id, connection)
+        }
+      })
+    } catch (error) {
+      const failure = error instanceof Error ? error.message : ""
+      if (failure === "claim_taken") {
+        return { success: false, message: "That claim has already been decided." }
+      }
+      if (failure === "insufficient_funds") {
+        return { success: false, message: "The claimant cannot pay the deductible. Try again later or pay out." }
+      }
+      throw error
+    }
+
+    if (decision === "payout") {
+      this.findVehicleEntity(vehicle!.id)?.destroy()
+      vehicleManager.forgetVehicle(vehicle!.id)
+    } else if (decision === "replacement") {
+      await this.deliverReplacement(vehicle!)
+    }
+    this.destroyedVehicles.delete(policy?.vehicle_id ?? 0)
+
+    await this.notifyCharacter(claim.claimant_id, this.describeDecision(claim, decision, amount, reason))
+    if (decision === "deny") {
+      return { success: true, message: `Claim #${claimId} denied.` }
+    }
+
+    await global.AmericanRP.getJobManager().recordTaskCompleted(agent)
+    return {
+      success: true,
+      message: `Claim #${claimId} approved. You earned a $${commission.toLocaleString()} commission.`,
+    }
+  }
+
+  // The wreck, or whatever is left of a recovered stolen vehicle, is swapped for a restored one at the lot
+  private async deliverReplacement(vehicle: Vehicle): Promise<void> {
+    await global.AmericanRP.getVehicleManager().restoreVehicleHealth(vehicle.id)
+    this.findVehicleEntity(vehicle.id)?.destroy()
+
+    const replacement = mp.vehicles.new(mp.joaat(vehicle.model), REPLACEMENT_LOT)
+    replacement.setVariable("vehicleId", vehicle.id)
+    replacement.numberPlate = vehicle.plate
+  }
+
+  private describeDecision(
+    claim: InsuranceClaim,
+    decision: "payout" | "replacement" | "deny",
+    amount: number,
+    reason?: string,
+  ): string {
+    if (decision === "payout") {
+      return `Claim #${claim.id} was approved. $${amount.toLocaleString()} has been paid to your bank account.`
+    }
+    if (decision === "replacement") {
+      const deductible = amount > 0 ? ` after a $${amount.toLocaleString()} deductible` : ""
+      return `Claim #${claim.id} was approved${deductible}. Your replacement vehicle is at the insurance office lot.`
+    }
+    return `Claim #${claim.id} was denied: ${reason}`
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "sellpolicy",
+        description: "Offer a nearby player insurance for one of their vehicles (on-duty insurance agents)",
+        usage: "/sellpolicy [player] [vehicle id] [liability|collision|comprehensive]",
+        params: [
+          { name: "target", type: "player" },
+          { name: "vehicleId", type: "integer", min: 1 },
+          { name: "tier", type: "word", choices: ["liability", "collision", "comprehensive"] },
+        ],
+        adminLevel: 0,
+        category: "Insurance",
+        execute: (player, _args, params) => this.handleSellPolicyCommand(player, params),
+      },
+      {
+        name: "policy",
+        description: "Answer a policy offer, list your policies or cancel one",
+        usage: "/policy accept | decline | list | cancel [id]",
+        params: [
+          { name: "action", type: "word", choices: ["accept", "decline", "list", "cancel"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Insurance",
+        execute: (player, _args, params) => this.handlePolicyCommand(player, params),
+      },
+      {
+        name: "claim",
+        description: "File an insurance claim for a destroyed or stolen vehicle",
+        usage: "/claim [vehicle id] [destroyed|stolen] [description]",
+        params: [
+          { name: "vehicleId", type: "integer", min: 1 },
+          { name: "type", type: "word", choices: ["destroyed", "stolen"] },
+          { name: "description", type: "text", max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Insurance",
+        execute: (player, _args, params) => this.handleClaimCommand(player, params),
+      },
+      {
+        name: "claims",
+        description: "List pending claims (on-duty insurance agents) or your own claims",
+        usage: "/claims",
+        adminLevel: 0,
+        category: "Insurance",
+        execute: (player) => this.showClaims(player),
+      },
+      {
+        name: "processclaim",
+        description: "Review a claim, then settle it with a payout or replacement, or deny it (on-duty agents)",
+        usage: "/processclaim [id] [payout|replacement|deny] [reason]",
+        params: [
+          { name: "id", type: "integer", min: 1 },
+          { name: "decision", type: "word", optional: true, choices: ["payout", "replacement", "deny"] },
+          { name: "reason", type: "text", optional: true, max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Insurance",
+        execute: (player, _args, params) => this.handleProcessClaimCommand(player, params),
+      },
+    ])
+  }
+
+  private async handleSellPolicyCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData || !this.isAgent(player)) {
+      this.sendInsuranceMessage(player, "Only on-duty insurance agents can sell policies.", "error")
+      return
+    }
+
+    if (!params.target.characterData) {
+      this.sendInsuranceMessage(player, "That player is not logged in.", "error")
+      return
+    }
+
+    try {
+      const result = await this.offerPolicy(player, params.target, params.vehicleId, params.tier)
+      this.sendInsuranceMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error offering policy:", error)
+      this.sendInsuranceMessage(player, "An error occurred while preparing the offer.", "error")
+    }
+  }
+
+  private async handlePolicyCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      if (params.action === "list") {
+        await this.showPolicies(player)
+        return
+      }
+
+      let result: { success: boolean; message: string }
+      if (params.action === "accept") {
+        result = await this.acceptOffer(player)
+      } else if (params.action === "decline") {
+        result = this.declineOffer(player)
+      } else if (params.id === undefined) {
+        result = { success: false, message: "Usage: /policy cancel [id]" }
+      } else {
+        result = await this.cancelPolicy(player, params.id)
+      }
+      this.sendInsuranceMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling policy command:", error)
+      this.sendInsuranceMessage(player, "An error occurred with your policy.", "error")
+    }
+  }
+
+  private async handleClaimCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      const result = await this.fileClaim(player, params.vehicleId, params.type, params.description)
+      this.sendInsuranceMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error filing claim:", error)
+      this.sendInsuranceMessage(player, "An error occurred while filing the claim.", "error")
+    }
+  }
+
+  private async handleProcessClaimCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData || !this.isAgent(player)) {
+      this.sendInsuranceMessage(player, "Only on-duty insurance agents can process claims.", "error")
+      return
+    }
+
+    try {
+      if (!params.decision) {
+        await this.showClaimDetails(player, params.id)
+        return
+      }
+
+      const result = await this.processClaim(player, params.id, params.decision, params.reason)
+      this.sendInsuranceMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error processing claim:", error)
+      this.sendInsuranceMessage(player, "An error occurred while processing the claim.", "error")
+    }
+  }
+
+  private async showPolicies(player: any): Promise<void> {
+    const policies = await this.getOwnerPolicies(player.characterData.id)
+    if (policies.length === 0) {
+      this.sendInsuranceMessage(player, "You have no insurance policies.", "info")
+      return
+    }
+
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    this.sendInsuranceMessage(player, "Your policies:", "info")
+    for (const policy of policies) {
+      const plate = vehicleManager.getVehicle(policy.vehicle_id)?.plate ?? `vehicle ${policy.vehicle_id}`
+      const status =
+        policy.status === "active" ? `paid until ${policy.paid_until.toLocaleDateString()}` : "LAPSED - see an agent"
+      player.outputChatBox(
+        `#${policy.id} ${plate} - ${TIERS[policy.tier].label}, $${policy.premium.toLocaleString()} ` +
+          `every ${BILLING_PERIOD_DAYS} days, ${status}`,
+      )
+    }
+  }
+
+  private async showClaims(player: any): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      const agent = this.isAgent(player)
+      const rows = agent
+        ? await this.database.query(
+            `SELECT c.*, v.plate, p.tier FROM insurance_claims c
+             JOIN insurance_policies p ON p.id = c.policy_id
+             JOIN vehicles v ON v.id = p.vehicle_id
+             WHERE c.status = 'pending' ORDER BY c.created_at`,
+          )
+        : await this.database.query(
+            `SELECT c.*, v.plate, p.tier FROM insurance_claims c
+             JOIN insurance_policies p ON p.id = c.policy_id
+             JOIN vehicles v ON v.id = p.vehicle_id
+             WHERE c.claimant_id = ? ORDER BY c.created_at DESC LIMIT 10`,
+            [player.characterData.id],
+          )
+
+      if (rows.length === 0) {
+        this.sendInsuranceMessage(player, agent ? "No claims are pending." : "You have not filed any claims.", "info")
+        return
+      }
+
+      this.sendInsuranceMessage(player, agent ? "Pending claims:" : "Your claims:", "info")
+      for (const row of rows) {
+        const claim = this.mapClaim(row)
+        const settlement = claim.settlement ? ` (${claim.settlement})` : ""
+        player.outputChatBox(
+          `#${claim.id} ${row.plate} ${claim.type}${claim.verified ? " (verified)" : ""} - ` +
+            `${TIERS[row.tier as InsuranceTier].label}, ${claim.status}${settlement}`,
+        )
+      }
+    } catch (error) {
+      this.logger.error("Error listing claims:", error)
+      this.sendInsuranceMessage(player, "An error occurred while loading the claims.", "error")
+    }
+  }
+
+  private async showClaimDetails(agent: any, claimId: number): Promise<void> {
+    const claim = await this.getClaim(claimId)
+    const policy = claim ? await this.getPolicy(claim.policy_id) : null
+    if (!claim || !policy) {
+      this.sendInsuranceMessage(agent, "Claim not found.", "error")
+      return
+    }
+
+    const terms = TIERS[policy.tier]
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(policy.vehicle_id)
+    const payout = Math.max(0, Math.round(policy.coverage_value * terms.payoutShare - policy.deductible))
+
+    this.sendInsuranceMessage(agent, `Claim #${claim.id} - ${claim.status}`, "info")
+    agent.outputChatBox(
+      `Vehicle: ${vehicle?.plate ?? "written off"} (${vehicle?.model ?? "-"}), ${terms.label} policy #${policy.id}`,
+    )
+    agent.outputChatBox(
+      `Type: ${claim.type}, ${claim.verified ? "verified wreck" : "not verified"}, filed ` +
+        `${new Date(claim.created_at).toLocaleString()}`,
+    )
+    agent.outputChatBox(`Statement: ${claim.description}`)
+    agent.outputChatBox(
+      `Payout: $${payout.toLocaleString()} | Replacement deductible: $${policy.deductible.toLocaleString()}`,
+    )
+  }
+
+  private getAgentName(agent: any): string {
+    return `Agent ${agent.characterData.first_name} ${agent.characterData.last_name}`
+  }
+
+  // Online characters get a chat message; offline ones find a text from the insurer in their phone inbox
+  private async notifyCharacter(characterId: number, message: string): Promise<void> {
+    const player = this.findOnlineCharacter(characterId)
+    if (player) {
+      this.sendInsuranceMessage(player, message, "info")
+      return
+    }
+
+    await global.AmericanRP.getPhoneManager().sendServiceMessage(characterId, COMPANY_NAME, message)
+  }
+
+  private findOnlineCharacter(characterId: number): any | undefined {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player: any) => player.isLoggedIn && player.characterData?.id === characterId,
+    )
+  }
+
+  private findVehicleEntity(vehicleId: number): any | null {
+    let found = null
+    mp.vehicles.forEach((vehicle: any) => {
+      if (vehicle.getVariable("vehicleId") === vehicleId) found = vehicle
+    })
+    return found
+  }
+
+  private mapPolicy(row: any): InsurancePolicy {
+    return {
+      id: row.id,
+      vehicle_id: row.vehicle_id,
+      owner_id: row.owner_id,
+      agent_id: row.agent_id,
+      tier: row.tier,
+      coverage_value: Number(row.coverage_value),
+      premium: Number(row.premium),
+      deductible: Number(row.deductible),
+      status: row.status,
+      started_at: new Date(row.started_at),
+      paid_until: new Date(row.paid_until),
+      ended_at: row.ended_at ? new Date(row.ended_at) : null,
+    }
+  }
+
+  private mapClaim(row: any): InsuranceClaim {
+    return {
+      id: row.id,
+      policy_id: row.policy_id,
+      claimant_id: row.claimant_id,
+      type: row.type,
+      description: row.description,
+      verified: Boolean(row.verified),
+      status: row.status,
+      settlement: row.settlement,
+      amount: Number(row.amount),
+      agent_id: row.agent_id,
+      agent_commission: Number(row.agent_commission),
+      decision_reason: row.decision_reason,
+      created_at: row.created_at,
+      decided_at: row.decided_at,
+    }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendInsuranceMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#4FC3F7",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[INSURANCE] ${message}`, colors[type])
+  }
+}
@@ -0,0 +1,704 @@
+/**
+ * Inventory Manager - Handles item containers (characters, vehicle trunks, property storage, faction lockers and
+ * the ground), stacking, weight and slot limits, and moving items between containers
+ */
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import { ItemRegistry } from "./ItemRegistry"
+import type { CommandParams, ContainerRef, ContainerType, InventoryItem, ItemDefinition, Position } from "../../types"
+
+type InventoryResult = { success: boolean; message: string }
+
+// Stacks to top up and new stacks to create when adding items to a container
+type AddPlan = { merges: { item: InventoryItem; quantity: number }[]; newStacks: number[] }
+
+const CONTAINER_LIMITS: Record<ContainerType, { slots: number; maxWeight: number }> = {
+  character: { slots: 20, maxWeight: 30 },
+  vehicle: { slots: 30, maxWeight: 150 },
+  property: { slots: 60, maxWeight: 600 },
+  faction: { slots: 100, maxWeight: 1500 },
+  ground: { slots: Number.POSITIVE_INFINITY, maxWeight: Number.POSITIVE_INFINITY },
+}
+
+const GIVE_RANGE = 5
+const PICKUP_RANGE = 3
+const STORAGE_RANGE = 10
+const LOCKER_RANGE = 15
+const GROUND_ITEM_MINUTES = 30 // Drops nobody picks up are cleared after this long
+const GROUND_CLEANUP_INTERVAL = 5 * 60 * 1000
+
+// Drops share one ground container; each row carries its own position and dimension
+const GROUND: ContainerRef = { type: "ground", id: 0 }
+
+export class InventoryManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private itemRegistry: ItemRegistry
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("InventoryManager")
+    this.itemRegistry = new ItemRegistry()
+
+    this.logger.info(`Item registry loaded with ${this.itemRegistry.getAll().length} items`)
+
+    this.startGroundCleanupTimer()
+  }
+
+  private startGroundCleanupTimer(): void {
+    setInterval(() => {
+      this.clearExpiredDrops()
+    }, GROUND_CLEANUP_INTERVAL)
+  }
+
+  public getItemRegistry(): ItemRegistry {
+    return this.itemRegistry
+  }
+
+  public async getItems(container: ContainerRef): Promise<InventoryItem[]> {
+    const rows = await this.database.query(
+      "SELECT * FROM inventory_items WHERE container_type = ? AND container_id = ? ORDER BY id",
+      [container.type, container.id],
+    )
+    return rows.map((row: any) => this.toItem(row))
+  }
+
+  public async countItem(container: ContainerRef, itemKey: string): Promise<number> {
+    const result = await this.database.query(
+      "SELECT COALESCE(SUM(quantity), 0) as total FROM inventory_items WHERE container_type = ? AND container_id = ? AND item_key = ?",
+      [container.type, container.id, itemKey],
+    )
+    return Number(result[0].total)
+  }
+
+  /**
+   * Creates items in a container, topping up existing stacks first. Pass a connection to take part in a
+   * transaction the caller already owns.
+   */
+  public async addItem(
+    container: ContainerRef,
+    itemKey: string,
+    quantity: number,
+    options: { metadata?: Record<string, any> | null; actorId?: number | null; reason?: string } = {},
+    connection?: PoolConnection,
+  ): Promise<InventoryResult> {
+    const definition = this.itemRegistry.get(itemKey)
+    if (!definition || !Number.isInteger(quantity) || quantity <= 0) {
+      return { success: false, message: "Invalid item." }
+    }
+
+    const apply = async (conn: PoolConnection): Promise<InventoryResult> => {
+      const items = await this.lockContainer(conn, container)
+      const plan = this.planAdd(container, items, definition, quantity, options.metadata ?? null)
+      if (typeof plan === "string") {
+        return { success: false, message: plan }
+      }
+
+      await this.applyPlan(conn, container, definition, plan, options.metadata ?? null)
+      await this.logTransfer(conn, itemKey, quantity, null, container, options.actorId ?? null, options.reason)
+      return { success: true, message: `${quantity}x ${definition.name} added.` }
+    }
+
+    try {
+      return connection ? await apply(connection) : await this.database.transaction(apply)
+    } catch (error) {
+      this.logger.error("Error adding item:", error)
+      if (connection) throw error
+      return { success: false, message: "An error occurred while updating the inventory." }
+    }
+  }
+
+  /**
+   * Destroys items from a container, oldest stacks first. Fails without changes when there are not enough.
+   */
+  public async removeItem(
+    container: ContainerRef,
+    itemKey: string,
+    quantity: number,
+    options: { actorId?: number | null; reason?: string } = {},
+    connection?: PoolConnection,
+  ): Promise<InventoryResult> {
+    const definition = this.itemRegistry.get(itemKey)
+    if (!definition || !Number.isInteger(quantity) || quantity <= 0) {
+      return { success: false, message: "Invalid item." }
+    }
+
+    const apply = async (conn: PoolConnection): Promise<InventoryResult> => {
+      const stacks = (await this.lockContainer(conn, container)).filter((item) => item.item_key === itemKey)
+      const available = stacks.reduce((total, item) => total + item.quantity, 0)
+      if (available < quantity) {
+        return { success: false, message: `You don't have ${quantity}x ${definition.name}.` }
+      }
+
+      let remaining = quantity
+      for (const stack of stacks) {
+        if (remaining === 0) break
+        const taken = Math.min(stack.quantity, remaining)
+        await this.decreaseStack(conn, stack, taken)
+        remaining -= taken
+      }
+
+      await this.logTransfer(conn, itemKey, quantity, container, null, options.actorId ?? null, options.reason)
+      return { success: true, message: `${quantity}x ${definition.name} removed.` }
+    }
+
+    try {
+      return connection ? await apply(connection) : await this.database.transaction(apply)
+    } catch (error) {
+      this.logger.error("Error removing item:", error)
+      if (connection) throw error
+      return { success: false, message: "An error occurred while updating the inventory." }
+    }
+  }
+
+  /**
+   * Moves part or all of one stack to another container. Ground drops need the position to drop at.
+   */
+  public async moveItem(
+    itemId: number,
+    from: ContainerRef,
+    to: ContainerRef,
+    quantity: number | undefined,
+    actorId: number | null,
+    reason: string,
+    drop?: { position: Position; dimension: number },
+  ): Promise<InventoryResult> {
+    try {
+      return await this.database.transaction(async (connection) => {
+        // Lock both containers in a fixed order so opposite moves between them cannot deadlock
+        const [first, second] = [from, to].sort((a, b) => `${a.type}:${a.id}`.localeCompare(`${b.type}:${b.id}`))
+        const lockedId = (container: ContainerRef) => (this.isSameContainer(container, from) ? itemId : undefined)
+        const firstItems = await this.lockContainer(connection, first, lockedId(first))
+        const secondItems = this.isSameContainer(first, second)
+          ? firstItems
+          : await this.lockContainer(connection, second, lockedId(second))
+        const sourceItems = this.isSameContainer(first, from) ? firstItems : secondItems
+        const targetItems = this.isSameContainer(first, to) ? firstItems : secondItems
+
+        const item = sourceItems.find((candidate) => candidate.id === itemId)
+        if (!item) {
+          return { success: false, message: "That item is no longer there." }
+        }
+
+        const definition = this.itemRegistry.get(item.item_key)
+        if (!definition) {
+          return { success: false, message: "Unknown item." }
+        }
+
+        const moved = quantity ?? item.quantity
+        if (!Number.isInteger(moved) || moved <= 0 || moved > item.quantity) {
+          return { success: false, message: `You only have ${item.quantity}x ${definition.name} in that slot.` }
+        }
+
+        if (this.isSameContainer(from, to)) {
+          return { success: false, message: "The item is already there." }
+        }
+
+        const plan = this.planAdd(to, targetItems, definition, moved, item.metadata)
+        if (typeof plan === "string") {
+          return { success: false, message: plan }
+        }
+
+        await this.decreaseStack(connection, item, moved)
+        await this.applyPlan(connection, to, definition, plan, item.metadata, drop)
+        await this.logTransfer(connection, item.item_key, moved, from, to, actorId, reason)
+
+        return { success: true, message: `${moved}x ${definition.name}` }
+      })
+    } catch (error) {
+      this.logger.error("Error moving item:", error)
+      return { success: false, message: "An error occurred while moving the item." }
+    }
+  }
+
+  /**
+   * Locks and returns a container's items. Every ground drop stands on its own, so for the ground only the drop
+   * being taken is locked; nothing is needed to drop something new since the ground has no limits and never merges.
+   */
+  private async lockContainer(
+    connection: PoolConnection,
+    container: ContainerRef,
+    itemId?: number,
+  ): Promise<InventoryItem[]> {
+    if (container.type === "ground") {
+      if (itemId === undefined) return []
+      const [rows] = await connection.query<RowDataPacket[]>(
+        "SELECT * FROM inventory_items WHERE id = ? AND container_type = 'ground' FOR UPDATE",
+        [itemId],
+      )
+      return rows.map((row) => this.toItem(row))
+    }
+
+    const [rows] = await connection.query<RowDataPacket[]>(
+      "SELECT * FROM inventory_items WHERE container_type = ? AND container_id = ? ORDER BY id FOR UPDATE",
+      [container.type, container.id],
+    )
+    return rows.map((row) => this.toItem(row))
+  }
+
+  // Works out where new items go, or returns why they do not fit
+  private planAdd(
+    container: ContainerRef,
+    items: InventoryItem[],
+    definition: ItemDefinition,
+    quantity: number,
+    metadata: Record<string, any> | null,
+  ): AddPlan | string {
+    const limits = CONTAINER_LIMITS[container.type]
+
+    const weight = this.getWeight(items) + definition.weight * quantity
+    if (weight > limits.maxWeight) {
+      return `Not enough space: that would weigh ${weight.toFixed(1)}kg of the ${limits.maxWeight}kg allowed.`
+    }
+
+    const plan: AddPlan = { merges: [], newStacks: [] }
+    let remaining = quantity
+
+    // Only plain stackable items merge; items with metadata (serials, key targets) stay unique.
+    // Ground drops never merge so each drop can be picked up on its own.
+    if (definition.stackable && !metadata && container.type !== "ground") {
+      for (const item of items) {
+        if (remaining === 0) break
+        if (item.item_key !== definition.key || item.metadata) continue
+
+        const room = definition.maxStack - item.quantity
+        if (room > 0) {
+          const added = Math.min(room, remaining)
+          plan.merges.push({ item, quantity: added })
+          remaining -= added
+        }
+      }
+    }
+
+    const stackSize = container.type === "ground" ? remaining : definition.stackable ? definition.maxStack : 1
+    while (remaining > 0) {
+      const size = Math.min(stackSize, remaining)
+      plan.newStacks.push(size)
+      remaining -= size
+    }
+
+    if (items.length + plan.newStacks.length > limits.slots) {
+      return `Not enough space: that needs ${plan.newStacks.length} free slot(s).`
+    }
+
+    return plan
+  }
+
+  private async applyPlan(
+    connection: PoolConnection,
+    container: ContainerRef,
+    definition: ItemDefinition,
+    plan: AddPlan,
+    metadata: Record<string, any> | null,
+    drop?: { position: Position; dimension: number },
+  ): Promise<void> {
+    for (const merge of plan.merges) {
+      await connection.execute("UPDATE inventory_items SET quantity = quantity + ? WHERE id = ?", [
+        merge.quantity,
+        merge.item.id,
+      ])
+    }
+
+    for (const size of plan.newStacks) {
+      await connection.execute<ResultSetHeader>(
+        `INSERT INTO inventory_items (container_type, container_id, item_key, quantity, metadata, position, dimension)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          container.type,
+          container.id,
+          definition.key,
+          size,
+          metadata ? JSON.stringify(metadata) : null,
+          drop ? JSON.stringify(drop.position) : null,
+          drop ? drop.dimension : null,
+        ],
+      )
+    }
+  }
+
+  private async decreaseStack(connection: PoolConnection, item: InventoryItem, quantity: number): Promise<void> {
+    if (quantity >= item.quantity) {
+      await connection.execute("DELETE FROM inventory_items WHERE id = ?", [item.id])
+    } else {
+      await connection.execute("UPDATE inventory_items SET quantity = quantity - ? WHERE id = ?", [quantity, item.id])
+    }
+    item.quantity -= quantity
+  }
+
+  private async logTransfer(
+    connection: PoolConnection,
+    itemKey: string,
+    quantity: number,
+    from: ContainerRef | null,
+    to: ContainerRef | null,
+    actorId: number | null,
+    reason?: string,
+  ): Promise<void> {
+    await connection.execute(
+      `INSERT INTO item_transfers (item_key, quantity, from_type, from_id, to_type, to_id, actor_id, reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [itemKey, quantity, from?.type ?? null, from?.id ?? null, to?.type ?? null, to?.id ?? null, actorId, reason ?? null],
+    )
+  }
+
+  private async clearExpiredDrops(): Promise<void> {
+    try {
+      const cleared = await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          `SELECT * FROM inventory_items
+           WHERE container_type = 'ground' AND created_at < DATE_SUB(NOW(), INTERVAL ? MINUTE) FOR UPDATE`,
+          [GROUND_ITEM_MINUTES],
+        )
+
+        for (const item of rows.map((row) => this.toItem(row))) {
+          await connection.execute("DELETE FROM inventory_items WHERE id = ?", [item.id])
+          await this.logTransfer(connection, item.item_key, item.quantity, GROUND, null, null, "expired")
+        }
+        return rows.length
+      })
+
+      if (cleared > 0) {
+        this.logger.info(`Cleared ${cleared} items left on the ground`)
+      }
+    } catch (error) {
+      this.logger.error("Error clearing ground items:", error)
+    }
+  }
+
+  private getWeight(items: InventoryItem[]): number {
+    return items.reduce((total, item) => total + (this.itemRegistry.get(item.item_key)?.weight ?? 0) * item.quantity, 0)
+  }
+
+  private isSameContainer(a: ContainerRef, b: ContainerRef): boolean {
+    return a.type === b.type && a.id === b.id
+  }
+
+  private toItem(row: any): InventoryItem {
+    return {
+      id: row.id,
+      container_type: row.container_type,
+      container_id: row.container_id,
+      item_key: row.item_key,
+      quantity: row.quantity,
+      metadata: this.parseJsonColumn(row.metadata),
+      position: this.parseJsonColumn(row.position),
+      dimension: row.dimension,
+      created_at: row.created_at,
+    }
+  }
+
+  // JSON columns arrive decoded or as strings depending on the driver's type casting
+  private parseJsonColumn(value: any): any {
+    return typeof value === "string" ? JSON.parse(value) : value
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "inv",
+        aliases: ["inventory"],
+        description: "Show your inventory, or a trunk, storage or locker, and move items in and out",
+        usage: "/inv [trunk|storage|locker] | /inv [put|take] [trunk|storage|locker] [slot] [amount]",
+        params: [
+          { name: "action", type: "word", optional: true, choices: ["trunk", "storage", "locker", "put", "take"] },
+          { name: "container", type: "word", optional: true, choices: ["trunk", "storage", "locker"] },
+          { name: "slot", type: "integer", optional: true, min: 1 },
+          { name: "amount", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player, _args, params) => this.handleInventoryCommand(player, params),
+      },
+      {
+        name: "give",
+        description: "Give an item from your inventory to a nearby player",
+        params: [
+          { name: "player", type: "player" },
+          { name: "slot", type: "integer", min: 1 },
+          { name: "amount", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player, _args, params) => this.handleGive(player, params),
+      },
+      {
+        name: "drop",
+        description: "Drop an item from your inventory on the ground",
+        params: [
+          { name: "slot", type: "integer", min: 1 },
+          { name: "amount", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player, _args, params) => this.handleDrop(player, params),
+      },
+      {
+        name: "pickup",
+        description: "Pick up an item from the ground nearby, or answer a ringing phone",
+        params: [{ name: "item_id", type: "integer", optional: true, min: 1 }],
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player, _args, params) => this.handlePickup(player, params.item_id),
+      },
+    ])
+  }
+
+  private async handleInventoryCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendInventoryMessage(player, "You must have a character to use the inventory.", "error")
+      return
+    }
+
+    const own: ContainerRef = { type: "character", id: player.characterData.id }
+
+    if (!params.action) {
+      await this.showContainer(player, own, "Inventory")
+      return
+    }
+
+    if (params.action !== "put" && params.action !== "take") {
+      const target = this.resolveContainer(player, params.action)
+      if ("error" in target) {
+        this.sendInventoryMessage(player, target.error, "error")
+        return
+      }
+      await this.showContainer(player, target.container, target.label)
+      return
+    }
+
+    if (!params.container || params.slot === undefined) {
+      this.sendInventoryMessage(player, `Usage: /inv ${params.action} [trunk|storage|locker] [slot] [amount]`, "error")
+      return
+    }
+
+    const target = this.resolveContainer(player, params.container)
+    if ("error" in target) {
+      this.sendInventoryMessage(player, target.error, "error")
+      return
+    }
+
+    const [from, to] = params.action === "put" ? [own, target.container] : [target.container, own]
+    const item = (await this.getItems(from))[params.slot - 1]
+    if (!item) {
+      this.sendInventoryMessage(player, `There is nothing in slot ${params.slot}.`, "error")
+      return
+    }
+
+    const result = await this.moveItem(item.id, from, to, params.amount, player.characterData.id, `inv ${params.action}`)
+    if (!result.success) {
+      this.sendInventoryMessage(player, result.message, "error")
+      return
+    }
+
+    const direction = params.action === "put" ? `into the ${target.label}` : `from the ${target.label}`
+    this.sendInventoryMessage(player, `You moved ${result.message} ${direction}.`, "success")
+  }
+
+  private async handleGive(player: any, params: CommandParams): Promise<void> {
+    const target = params.player
+    if (!player.characterData || !target.characterData) {
+      this.sendInventoryMessage(player, "Both players must have a character.", "error")
+      return
+    }
+
+    if (target === player) {
+      this.sendInventoryMessage(player, "You can't give items to yourself.", "error")
+      return
+    }
+
+    if (this.getDistance(player.position, target.position) > GIVE_RANGE) {
+      this.sendInventoryMessage(player, "You must be closer to the player to give them an item.", "error")
+      return
+    }
+
+    const from: ContainerRef = { type: "character", id: player.characterData.id }
+    const item = (await this.getItems(from))[params.slot - 1]
+    if (!item) {
+      this.sendInventoryMessage(player, `There is nothing in slot ${params.slot}.`, "error")
+      return
+    }
+
+    const to: ContainerRef = { type: "character", id: target.characterData.id }
+    const result = await this.moveItem(item.id, from, to, params.amount, player.characterData.id, "give")
+    if (!result.success) {
+      this.sendInventoryMessage(player, result.message, "error")
+      return
+    }
+
+    const giverName = `${player.characterData.first_name} ${player.characterData.last_name}`
+    const targetName = `${target.characterData.first_name} ${target.characterData.last_name}`
+    this.sendInventoryMessage(player, `You gave ${result.message} to ${targetName}.`, "success")
+    this.sendInventoryMessage(target, `${giverName} gave you ${result.message}.`, "success")
+  }
+
+  private async handleDrop(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendInventoryMessage(player, "You must have a character to use the inventory.", "error")
+      return
+    }
+
+    const from: ContainerRef = { type: "character", id: player.characterData.id }
+    const item = (await this.getItems(from))[params.slot - 1]
+    if (!item) {
+      this.sendInventoryMessage(player, `There is nothing in slot ${params.slot}.`, "error")
+      return
+    }
+
+    const drop = {
+      position: { x: player.position.x, y: player.position.y, z: player.position.z },
+      dimension: player.dimension || 0,
+    }
+    const result = await this.moveItem(item.id, from, GROUND, params.amount, player.characterData.id, "drop", drop)
+    if (!result.success) {
+      this.sendInventoryMessage(player, result.message, "error")
+      return
+    }
+
+    this.sendInventoryMessage(player, `You dropped ${result.message} on the ground.`, "success")
+  }
+
+  private async handlePickup(player: any, itemId?: number): Promise<void> {
+    if (!player.characterData) {
+      this.sendInventoryMessage(player, "You must have a character to use the inventory.", "error")
+      return
+    }
+
+    // A ringing phone takes priority over items on the ground
+    if (itemId === undefined && global.AmericanRP.getPhoneManager().answerCall(player)) {
+      return
+    }
+
+    const nearby = (await this.getItems(GROUND))
+      .filter((item) => item.position && (item.dimension ?? 0) === (player.dimension || 0))
+      .map((item) => ({ item, distance: this.getDistance(player.position, item.position) }))
+      .filter(({ distance }) => distance <= PICKUP_RANGE)
+      .sort((a, b) => a.distance - b.distance)
+
+    if (nearby.length === 0) {
+      this.sendInventoryMessage(player, "There is nothing on the ground nearby.", "error")
+      return
+    }
+
+    let target = itemId === undefined ? undefined : nearby.find(({ item }) => item.id === itemId)?.item
+    if (itemId === undefined && nearby.length === 1) {
+      target = nearby[0].item
+    }
+
+    if (!target) {
+      let message = "Items on the ground nearby:\n"
+      for (const { item } of nearby) {
+        message += `ID ${item.id}: ${this.describeItem(item)}\n`
+      }
+      message += "Use /pickup [item_id] to pick one up."
+      this.sendInventoryMessage(player, message, "info")
+      return
+    }
+
+    const to: ContainerRef = { type: "character", id: player.characterData.id }
+    const result = await this.moveItem(target.id, GROUND, to, undefined, player.characterData.id, "pickup")
+    if (!result.success) {
+      this.sendInventoryMessage(player, result.message, "error")
+      return
+    }
+
+    this.sendInventoryMessage(player, `You picked up ${result.message}.`, "success")
+  }
+
+  // Maps a container keyword to the container the player can reach from where they are
+  private resolveContainer(
+    player: any,
+    kind: string,
+  ): { container: ContainerRef; label: string } | { error: string } {
+    const characterId = player.characterData.id
+
+    if (kind === "trunk") {
+      const vehicleId = player.vehicle?.getVariable("vehicleId")
+      if (!vehicleId || !global.AmericanRP.getVehicleManager().hasVehicleKey(vehicleId, characterId)) {
+        return { error: "You must be in a vehicle you have the keys for." }
+      }
+      return { container: { type: "vehicle", id: vehicleId }, label: "trunk" }
+    }
+
+    if (kind === "storage") {
+      const propertyManager = global.AmericanRP.getPropertyManager()
+      const property = propertyManager.getNearestProperty(player.position, STORAGE_RANGE)
+      if (!property || !propertyManager.hasPropertyKey(property.id, characterId)) {
+        return { error: "You must be at a property you have the keys for." }
+      }
+      return { container: { type: "property", id: property.id }, label: `storage of ${property.name}` }
+    }
+
+    const factionId = player.characterData.faction_id
+    const faction = factionId ? global.AmericanRP.getFactionManager().getFaction(factionId) : undefined
+    if (!faction) {
+      return { error: "You must be in a faction to use its locker." }
+    }
+
+    const headquarters = { x: faction.spawn_x, y: faction.spawn_y, z: faction.spawn_z }
+    const hasHeadquarters = headquarters.x !== 0 || headquarters.y !== 0 || headquarters.z !== 0
+    if (hasHeadquarters && this.getDistance(player.position, headquarters) > LOCKER_RANGE) {
+      return { error: `The ${faction.name} locker is at your faction headquarters.` }
+    }
+
+    return { container: { type: "faction", id: faction.id }, label: `${faction.tag} locker` }
+  }
+
+  private async showContainer(player: any, container: ContainerRef, label: string): Promise<void> {
+    try {
+      const items = await this.getItems(container)
+      const limits = CONTAINER_LIMITS[container.type]
+
+      let message = `=== ${label} (${items.length}/${limits.slots} slots, ${this.getWeight(items).toFixed(1)}/${limits.maxWeight}kg) ===\n`
+      if (items.length === 0) {
+        message += "Empty"
+      }
+      items.forEach((item, index) => {
+        message += `${index + 1}. ${this.describeItem(item)}\n`
+      })
+
+      this.sendInventoryMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing inventory:", error)
+      this.sendInventoryMessage(player, "An error occurred while loading the inventory.", "error")
+    }
+  }
+
+  private describeItem(item: InventoryItem): string {
+    const definition = this.itemRegistry.get(item.item_key)
+    const name = definition?.name ?? item.item_key
+    const weight = ((definition?.weight ?? 0) * item.quantity).toFixed(1)
+    const details = item.metadata
+      ? ` [${Object.entries(item.metadata)
+          .map(([key, value]) => `${key}: ${value}`)
+          .join(", ")}]`
+      : ""
+
+    return `${name} x${item.quantity} (${weight}kg)${details}`
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendInventoryMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[INVENTORY] ${message}`, colors[type])
+  }
+}
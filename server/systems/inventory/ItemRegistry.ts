@@ -0,0 +1,63 @@
+/**
+ * Item Registry - Definitions of every item that can exist in an inventory, keyed by item key
+ */
+
+import type { ItemDefinition } from "../../types"
+
+const DEFAULT_ITEMS: ItemDefinition[] = [
+  // Food and drink
+  { key: "water", name: "Water Bottle", description: "Quenches thirst", category: "drink", weight: 0.5, stackable: true, maxStack: 10, thirst: 40 },
+  { key: "coffee", name: "Coffee", description: "Hot and bitter", category: "drink", weight: 0.3, stackable: true, maxStack: 10, thirst: 15 },
+  { key: "soda", name: "eCola", description: "Sugary soda", category: "drink", weight: 0.4, stackable: true, maxStack: 10, thirst: 25 },
+  { key: "sandwich", name: "Sandwich", description: "A simple meal", category: "food", weight: 0.3, stackable: true, maxStack: 10, hunger: 35 },
+  { key: "burger", name: "Burger", description: "A filling meal", category: "food", weight: 0.4, stackable: true, maxStack: 10, hunger: 50 },
+  { key: "donut", name: "Donut", description: "A sweet snack", category: "food", weight: 0.1, stackable: true, maxStack: 20, hunger: 15 },
+
+  // Medical
+  { key: "bandage", name: "Bandage", description: "Stops light bleeding", category: "medical", weight: 0.1, stackable: true, maxStack: 20 },
+  { key: "medkit", name: "Medical Kit", description: "Treats serious injuries", category: "medical", weight: 1.5, stackable: true, maxStack: 5 },
+
+  // Tools
+  { key: "repair_kit", name: "Repair Kit", description: "Fixes vehicle damage", category: "tool", weight: 3, stackable: true, maxStack: 3 },
+  { key: "fuel_can", name: "Jerry Can", description: "Holds 20L of fuel", category: "tool", weight: 5, stackable: false, maxStack: 1 },
+  { key: "lockpick", name: "Lockpick", description: "Opens locks, sometimes", category: "tool", weight: 0.1, stackable: true, maxStack: 10 },
+  { key: "handcuffs", name: "Handcuffs", description: "Restrains a suspect", category: "tool", weight: 0.5, stackable: true, maxStack: 2 },
+  { key: "fishing_rod", name: "Fishing Rod", description: "For commercial fishing", category: "tool", weight: 2, stackable: false, maxStack: 1 },
+  { key: "fish", name: "Fish", description: "Fresh catch", category: "misc", weight: 1, stackable: true, maxStack: 20 },
+
+  // Electronics
+  { key: "phone", name: "Phone", description: "A mobile phone", category: "electronics", weight: 0.2, stackable: false, maxStack: 1 },
+  { key: "radio", name: "Radio", description: "Two-way radio", category: "electronics", weight: 0.4, stackable: false, maxStack: 1 },
+
+  // Keys carry the vehicle or property they open in their metadata
+  { key: "vehicle_key", name: "Vehicle Key", description: "Opens a vehicle", category: "key", weight: 0.05, stackable: false, maxStack: 1 },
+  { key: "property_key", name: "Property Key", description: "Opens a property", category: "key", weight: 0.05, stackable: false, maxStack: 1 },
+
+  // Weapons carry their serial number in their metadata
+  { key: "nightstick", name: "Nightstick", description: "Police baton", category: "weapon", weight: 0.8, stackable: false, maxStack: 1 },
+  { key: "pistol", name: "Pistol", description: "Semi-automatic handgun", category: "weapon", weight: 1.2, stackable: false, maxStack: 1 },
+  { key: "pistol_ammo", name: "Pistol Ammo", description: "9mm rounds", category: "ammo", weight: 0.01, stackable: true, maxStack: 250 },
+]
+
+export class ItemRegistry {
+  private items: Map<string, ItemDefinition> = new Map()
+
+  constructor() {
+    DEFAULT_ITEMS.forEach((item) => this.register(item))
+  }
+
+  public register(item: ItemDefinition): void {
+    if (this.items.has(item.key)) {
+      throw new Error(`Duplicate item definition "${item.key}"`)
+    }
+    this.items.set(item.key, item)
+  }
+
+  public get(key: string): ItemDefinition | undefined {
+    return this.items.get(key)
+  }
+
+  public getAll(): ItemDefinition[] {
+    return Array.from(this.items.values())
+  }
+}
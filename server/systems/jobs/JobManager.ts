@@ -1,37 +1,86 @@
 /**
- * Job Manager - Handles all job-related functionality including hiring, firing, and job progression
+ * Job Manager - Handles all job-related functionality including hiring, firing, and job progression through ranks
  */
 
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
 import type { Database } from "../../core/database"
 import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
 import { Logger } from "../../utils/Logger"
-import type { Job } from "../../types"
-import { EconomyManager } from "../economy/EconomyManager"
-
-export interface JobApplication {
-  characterId: number
-  jobId: number
-  applicationDate: Date
-  status: "pending" | "approved" | "rejected"
+import { formatDuration } from "../../core/ArgumentParser"
+import { envNumber } from "../../core/env"
+import type { CommandParams, Job, JobApplication, JobRank, MoneyAccount, Payslip, Position } from "../../types"
+
+export interface DutyConfig {
+  afkMinutes: number // Standing still this long stops duty time from counting
+}
+
+interface ActiveDuty {
+  sessionId: number
+  position: Position
+  lastActive: number
+  afk: boolean
+}
+
+const DUTY_TICK_INTERVAL = 60 * 1000
+const DUTY_LOG_DEFAULT_DAYS = 7
+const RANK_HISTORY_LIMIT = 5
+const APPLICANT_HISTORY_LIMIT = 5
+const MAX_INTERVIEW_DELAY_MINUTES = 7 * 24 * 60
+
+function loadDutyConfig(): DutyConfig {
+  return { afkMinutes: Math.max(envNumber("DUTY_AFK_MINUTES", 10), 1) }
+}
+
+// Items handed out when a character is hired into a job
+const JOB_EQUIPMENT: Record<string, { itemKey: string; quantity: number }[]> = {
+  "Police Officer": [
+    { itemKey: "handcuffs", quantity: 1 },
+    { itemKey: "nightstick", quantity: 1 },
+    { itemKey: "radio", quantity: 1 },
+  ],
+  "Sheriff Deputy": [
+    { itemKey: "handcuffs", quantity: 1 },
+    { itemKey: "nightstick", quantity: 1 },
+    { itemKey: "radio", quantity: 1 },
+  ],
+  Paramedic: [
+    { itemKey: "medkit", quantity: 2 },
+    { itemKey: "bandage", quantity: 10 },
+    { itemKey: "radio", quantity: 1 },
+  ],
+  Firefighter: [
+    { itemKey: "medkit", quantity: 1 },
+    { itemKey: "radio", quantity: 1 },
+  ],
+  Mechanic: [{ itemKey: "repair_kit", quantity: 2 }],
+  "Security Guard": [
+    { itemKey: "nightstick", quantity: 1 },
+    { itemKey: "radio", quantity: 1 },
+  ],
+  Fisherman: [{ itemKey: "fishing_rod", quantity: 1 }],
 }
 
 export class JobManager {
   private database: Database
   private eventManager: EventManager
-  private economyManager: EconomyManager
   private logger: Logger
   private availableJobs: Map<number, Job> = new Map()
-  private jobApplications: Map<number, JobApplication> = new Map()
+  private jobRanks: Map<number, JobRank[]> = new Map() // Keyed by job id, ordered by level
+  private config: DutyConfig
+  private activeDuty: Map<number, ActiveDuty> = new Map() // Keyed by player id
 
   constructor(database: Database, eventManager: EventManager) {
     this.database = database
     this.eventManager = eventManager
-    this.economyManager = new EconomyManager(database, eventManager)
     this.logger = new Logger("JobManager")
+    this.config = loadDutyConfig()
 
     this.registerEvents()
     this.loadJobs()
+    this.closeStaleDutySessions()
     this.startPayrollSystem()
+    this.startDutyTimer()
   }
 
   private registerEvents(): void {
@@ -40,6 +89,9 @@ export class JobManager {
     this.eventManager.on("job:fire", this.handleJobFire.bind(this))
     this.eventManager.on("job:promote", this.handleJobPromotion.bind(this))
     this.eventManager.on("job:demote", this.handleJobDemotion.bind(this))
+    this.eventManager.on("command:executed", (player: any) => this.markActive(player))
+    this.eventManager.on("player:disconnected", (player: any) => this.endDutySession(player, "disconnect"))
+    this.eventManager.on("character:spawned", this.handleCharacterSpawned.bind(this))
   }
 
   private async loadJobs(): Promise<void> {
@@ -50,7 +102,18 @@ export class JobManager {
         this.availableJobs.set(job.id, job)
       }
 
-      this.logger.success(`Loaded ${jobs.length} jobs`)
+      const ranks = await this.database.query("SELECT * FROM job_ranks ORDER BY job_id, level")
+      for (const rank of ranks) {
+        const ladder = this.jobRanks.get(rank.job_id) ?? []
+        ladder.push({
+          ...rank,
+          salary_multiplier: Number(rank.salary_multiplier),
+          can_manage: Boolean(rank.can_manage),
+        })
+        this.jobRanks.set(rank.job_id, ladder)
+      }
+
+      this.logger.success(`Loaded ${jobs.length} jobs with ${ranks.length} ranks`)
     } catch (error) {
       this.logger.error("Error loading jobs:", error)
     }
@@ -65,6 +128,23 @@ export class JobManager {
     this.logger.info("Payroll system started (runs every hour)")
   }
 
+  private startDutyTimer(): void {
+    setInterval(() => {
+      this.processDutyTime()
+    }, DUTY_TICK_INTERVAL)
+  }
+
+  // Sessions still open at startup were cut short by a restart; their counted time is kept for payroll
+  private async closeStaleDutySessions(): Promise<void> {
+    try {
+      await this.database.query(
+        "UPDATE duty_sessions SET ended_at = NOW(), end_reason = 'server_restart' WHERE ended_at IS NULL",
+      )
+    } catch (error) {
+      this.logger.error("Error closing stale duty sessions:", error)
+    }
+  }
+
   public async handleJobApplication(player: any, jobId: number): Promise<void> {
     try {
       if (!player.characterData) {
@@ -99,11 +179,27 @@ export class JobManager {
 
       // Government jobs require approval
       if (job.is_government) {
-        await this.createJobApplication(player.characterData.id, jobId)
-        this.sendJobMessage(player, "Your application has been submitted for review.", "success")
+        const existing = await this.database.query(
+          `SELECT id FROM job_applications
+           WHERE character_id = ? AND job_id = ? AND status IN ('pending', 'interview')`,
+          [player.characterData.id, jobId],
+        )
+        if (existing.length > 0) {
+          const message = `Your application #${existing[0].id} for ${job.name} is still under review.`
+          this.sendJobMessage(player, message, "error")
+          return
+        }
+
+        const applicationId = await this.createJobApplication(player.characterData.id, jobId)
+        if (!applicationId) {
+          this.sendJobMessage(player, "An error occurred while processing your application.", "error")
+          return
+        }
+        this.sendJobMessage(player, `Your application #${applicationId} has been submitted for review.`, "success")
         this.notifyJobSupervisors(
           jobId,
-          `${player.characterData.first_name} ${player.characterData.last_name} applied for ${job.name}`,
+          `${player.characterData.first_name} ${player.characterData.last_name} applied for ${job.name}. ` +
+            `Use /application view ${applicationId} to review it.`,
         )
       } else {
         // Civilian jobs are auto-approved
@@ -123,10 +219,13 @@ export class JobManager {
       }
 
       const job = this.availableJobs.get(player.characterData.job_id)
-      await this.database.query("UPDATE characters SET job_id = NULL WHERE id = ?", [player.characterData.id])
+      await this.database.query("UPDATE characters SET job_id = NULL, job_rank = 1, job_tasks = 0 WHERE id = ?", [
+        player.characterData.id,
+      ])
 
-      player.characterData.job_id = null
-      player.jobData = null
+      await this.endDutySession(player, "quit")
+      await this.endEmployment(player, "quit")
+      this.clearJob(player)
 
       this.sendJobMessage(player, `You have quit your job as ${job?.name || "Unknown"}.`, "success")
       this.logger.info(`${player.characterData.first_name} ${player.characterData.last_name} quit job: ${job?.name}`)
@@ -138,14 +237,16 @@ export class JobManager {
     }
   }
 
-  private async handleJobFire(supervisor: any, targetName: string): Promise<void> {
+  private async handleJobFire(supervisor: any, target: any): Promise<void> {
+    // Target is either a resolved player (from /fire) or a player name (from the job:fire event)
     try {
       if (!supervisor.jobData || !this.canManageEmployees(supervisor)) {
         this.sendJobMessage(supervisor, "You don't have permission to fire employees.", "error")
         return
       }
 
-      const targetPlayer = global.AmericanRP.getPlayerManager().getPlayerByName(targetName)
+      const targetPlayer =
+        typeof target === "string" ? global.AmericanRP.getPlayerManager().getPlayerByName(target) : target
       if (!targetPlayer || !targetPlayer.characterData) {
         this.sendJobMessage(supervisor, "Player not found or not logged in.", "error")
         return
@@ -156,10 +257,13 @@ export class JobManager {
         return
       }
 
-      await this.database.query("UPDATE characters SET job_id = NULL WHERE id = ?", [targetPlayer.characterData.id])
+      await this.database.query("UPDATE characters SET job_id = NULL, job_rank = 1, job_tasks = 0 WHERE id = ?", [
+        targetPlayer.characterData.id,
+      ])
 
-      targetPlayer.characterData.job_id = null
-      targetPlayer.jobData = null
+      await this.endDutySession(targetPlayer, "fired")
+      await this.endEmployment(targetPlayer, "fired")
+      this.clearJob(targetPlayer)
 
       this.sendJobMessage(
         supervisor,
@@ -181,14 +285,25 @@ export class JobManager {
     }
   }
 
-  private async hirePlayer(player: any, jobId: number): Promise<void> {
+  private async hirePlayer(player: any, jobId: number): Promise<boolean> {
     try {
       const job = this.availableJobs.get(jobId)
-      if (!job) return
+      if (!job) return false
 
-      await this.database.query("UPDATE characters SET job_id = ? WHERE id = ?", [jobId, player.characterData.id])
+      await this.database.transaction(async (connection) => {
+        await connection.execute("UPDATE characters SET job_id = ?, job_rank = 1, job_tasks = 0 WHERE id = ?", [
+          jobId,
+          player.characterData.id,
+        ])
+        await connection.execute(
+          "INSERT INTO employment_history (character_id, job_id, started_at) VALUES (?, ?, NOW())",
+          [player.characterData.id, jobId],
+        )
+      })
 
       player.characterData.job_id = jobId
+      player.characterData.job_rank = 1
+      player.characterData.job_tasks = 0
       player.jobData = job
 
       this.sendJobMessage(player, `Congratulations! You have been hired as ${job.name}.`, "success")
@@ -198,16 +313,213 @@ export class JobManager {
       await this.giveJobEquipment(player, job)
 
       this.eventManager.emit("job:player_hired", player, job)
+      return true
     } catch (error) {
       this.logger.error("Error hiring player:", error)
+      return false
+    }
+  }
+
+  private async endEmployment(player: any, reason: "quit" | "fired"): Promise<void> {
+    try {
+      await this.database.query(
+        `UPDATE employment_history SET ended_at = NOW(), end_reason = ?, final_rank = ?
+         WHERE character_id = ? AND ended_at IS NULL`,
+        [reason, player.characterData.job_rank ?? 1, player.characterData.id],
+      )
+    } catch (error) {
+      this.logger.error("Error recording end of employment:", error)
+    }
+  }
+
+  private clearJob(player: any): void {
+    player.characterData.job_id = null
+    player.characterData.job_rank = 1
+    player.characterData.job_tasks = 0
+    player.jobData = null
+  }
+
+  private async handleJobPromotion(supervisor: any, target: any, reason?: string): Promise<void> {
+    await this.changeRank(supervisor, target, 1, reason)
+  }
+
+  private async handleJobDemotion(supervisor: any, target: any, reason?: string): Promise<void> {
+    await this.changeRank(supervisor, target, -1, reason)
+  }
+
+  /**
+   * Moves an employee one rank up or down their job's ladder and records the change. Supervisors can only act on
+   * employees below their own rank and cannot promote anyone to it; promotions also require the next rank's duty
+   * hours and completed tasks. Senior admins skip these checks.
+   */
+  private async changeRank(supervisor: any, target: any, step: 1 | -1, reason?: string): Promise<void> {
+    // Target is either a resolved player (from /promote and /demote) or a player name (from the job events)
+    const action = step > 0 ? "promote" : "demote"
+    try {
+      if (!this.canManageEmployees(supervisor)) {
+        this.sendJobMessage(supervisor, `You don't have permission to ${action} employees.`, "error")
+        return
+      }
+
+      const targetPlayer =
+        typeof target === "string" ? global.AmericanRP.getPlayerManager().getPlayerByName(target) : target
+      if (!targetPlayer || !targetPlayer.characterData) {
+        this.sendJobMessage(supervisor, "Player not found or not logged in.", "error")
+        return
+      }
+
+      if (targetPlayer === supervisor) {
+        this.sendJobMessage(supervisor, "You cannot change your own rank.", "error")
+        return
+      }
+
+      const isAdmin = supervisor.adminLevel >= 3
+      const job = this.availableJobs.get(targetPlayer.characterData.job_id)
+      if (!job || (!isAdmin && targetPlayer.characterData.job_id !== supervisor.characterData.job_id)) {
+        this.sendJobMessage(supervisor, "This player is not in your department.", "error")
+        return
+      }
+
+      const targetName = `${targetPlayer.characterData.first_name} ${targetPlayer.characterData.last_name}`
+      const currentLevel = targetPlayer.characterData.job_rank ?? 1
+      const newRank = this.getRank(job.id, currentLevel + step)
+      if (!newRank) {
+        this.sendJobMessage(
+          supervisor,
+          `${targetName} already holds the ${step > 0 ? "highest" : "lowest"} rank of ${job.name}.`,
+          "error",
+        )
+        return
+      }
+
+      if (!isAdmin) {
+        if (Math.max(currentLevel, newRank.level) >= supervisor.characterData.job_rank) {
+          this.sendJobMessage(supervisor, `You can only ${action} employees to ranks below your own.`, "error")
+          return
+        }
+
+        if (step > 0) {
+          const missing = await this.getMissingRequirements(targetPlayer, newRank)
+          if (missing.length > 0) {
+            this.sendJobMessage(
+              supervisor,
+              `${targetName} does not meet the requirements for ${newRank.name}: ${missing.join(", ")}.`,
+              "error",
+            )
+            return
+          }
+        }
+      }
+
+      await this.database.transaction(async (connection) => {
+        await connection.execute("UPDATE characters SET job_rank = ? WHERE id = ?", [
+          newRank.level,
+          targetPlayer.characterData.id,
+        ])
+        await connection.execute(
+          `INSERT INTO job_rank_history (character_id, job_id, from_level, to_level, changed_by, reason)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            targetPlayer.characterData.id,
+            job.id,
+            currentLevel,
+            newRank.level,
+            supervisor.characterData?.id ?? null,
+            reason ?? null,
+          ],
+        )
+      })
+      targetPlayer.characterData.job_rank = newRank.level
+
+      const supervisorName = supervisor.characterData
+        ? `${supervisor.characterData.first_name} ${supervisor.characterData.last_name}`
+        : supervisor.name
+      const verb = step > 0 ? "promoted" : "demoted"
+      this.sendJobMessage(supervisor, `You ${verb} ${targetName} to ${newRank.name}.`, "success")
+      this.sendJobMessage(
+        targetPlayer,
+        `You were ${verb} to ${newRank.name} by ${supervisorName}${reason ? `: ${reason}` : "."}`,
+        step > 0 ? "success" : "error",
+      )
+
+      this.logger.info(`${supervisorName} ${verb} ${targetName} to ${newRank.name} (${job.name})`)
+      this.eventManager.emit("job:rank_changed", targetPlayer, job, newRank)
+    } catch (error) {
+      this.logger.error(`Error handling job ${action}:`, error)
+      this.sendJobMessage(supervisor, `An error occurred while trying to ${action} the employee.`, "error")
+    }
+  }
+
+  // Duty hours count every shift the character has worked in the job; tasks reset whenever they change jobs
+  private async getRankProgress(player: any): Promise<{ dutyHours: number; tasks: number }> {
+    const result = await this.database.query(
+      "SELECT COALESCE(SUM(active_seconds), 0) AS seconds FROM duty_sessions WHERE character_id = ? AND job_id = ?",
+      [player.characterData.id, player.characterData.job_id],
+    )
+    return { dutyHours: Number(result[0].seconds) / 3600, tasks: player.characterData.job_tasks ?? 0 }
+  }
+
+  private async getMissingRequirements(player: any, rank: JobRank): Promise<string[]> {
+    const progress = await this.getRankProgress(player)
+    const missing: string[] = []
+    if (progress.dutyHours < rank.required_duty_hours) {
+      missing.push(`${Math.floor(progress.dutyHours)}/${rank.required_duty_hours} duty hours`)
+    }
+    if (progress.tasks < rank.required_tasks) {
+      missing.push(`${progress.tasks}/${rank.required_tasks} completed tasks`)
+    }
+    return missing
+  }
+
+  public getRank(jobId: number, level: number): JobRank | undefined {
+    return this.jobRanks.get(jobId)?.find((rank) => rank.level === level)
+  }
+
+  public getPlayerRank(player: any): JobRank | undefined {
+    if (!player.characterData?.job_id) return undefined
+    return this.getRank(player.characterData.job_id, player.characterData.job_rank ?? 1)
+  }
+
+  /**
+   * Counts a finished piece of work (a closed call, an arrest, a revive...) toward the player's next promotion
+   */
+  public async recordTaskCompleted(player: any): Promise<void> {
+    if (!player.characterData?.job_id) return
+
+    try {
+      await this.database.query("UPDATE characters SET job_tasks = job_tasks + 1 WHERE id = ?", [
+        player.characterData.id,
+      ])
+      player.characterData.job_tasks = (player.characterData.job_tasks ?? 0) + 1
+    } catch (error) {
+      this.logger.error("Error recording completed job task:", error)
     }
   }
 
   private async giveJobEquipment(player: any, job: Job): Promise<void> {
-    // This would give job-specific equipment
-    // For now, just give some starting money as a signing bonus
+    const inventoryManager = global.AmericanRP.getInventoryManager()
+    for (const equipment of JOB_EQUIPMENT[job.name] ?? []) {
+      const result = await inventoryManager.addItem(
+        { type: "character", id: player.characterData.id },
+        equipment.itemKey,
+        equipment.quantity,
+        { reason: `Equipment for ${job.name}` },
+      )
+      const itemName = inventoryManager.getItemRegistry().get(equipment.itemKey)?.name ?? equipment.itemKey
+      if (result.success) {
+        this.sendJobMessage(player, `You were issued ${equipment.quantity}x ${itemName}.`, "info")
+      } else {
+        this.sendJobMessage(player, `You could not carry your ${itemName}: ${result.message}`, "error")
+      }
+    }
+
     const bonus = Math.floor(job.salary_per_hour * 2)
-    await this.economyManager.addMoney(player.characterData.id, bonus, "cash", `Signing bonus for ${job.name}`)
+    await global.AmericanRP.getEconomyManager().addMoney(
+      player.characterData.id,
+      bonus,
+      "cash",
+      `Signing bonus for ${job.name}`,
+    )
 
     this.sendJobMessage(player, `You received a signing bonus of $${bonus.toLocaleString()}.`, "success")
   }
@@ -216,37 +528,38 @@ export class JobManager {
     try {
       this.logger.info("Processing hourly payroll...")
 
+      // Everyone with unpaid duty time is on the payroll; faction rank bonuses are paid for that same time
       const employees = await this.database.query(`
-        SELECT c.*, j.salary_per_hour, j.name as job_name 
-        FROM characters c 
-        JOIN jobs j ON c.job_id = j.id 
-        WHERE c.job_id IS NOT NULL
+        SELECT c.id, c.first_name, c.last_name, c.job_id, c.faction_id,
+          j.name as job_name, j.is_government,
+          COALESCE(fr.salary_bonus, 0) as salary_bonus
+        FROM characters c
+        LEFT JOIN jobs j ON c.job_id = j.id
+        LEFT JOIN faction_ranks fr ON fr.faction_id = c.faction_id AND fr.level = c.faction_rank
+        WHERE EXISTS (
+          SELECT 1 FROM duty_sessions ds WHERE ds.character_id = c.id AND ds.active_seconds > ds.paid_seconds
+        )
       `)
 
       let totalPaid = 0
       let employeesPaid = 0
 
       for (const employee of employees) {
-        const salary = employee.salary_per_hour
-        const tax = Math.floor(salary * 0.15) // 15% tax
-        const netPay = salary - tax
-
-        // Add money to character
-        await this.economyManager.addMoney(employee.id, netPay, "bank", `Hourly salary - ${employee.job_name}`)
-
-        // Add tax to government funds
-        await this.economyManager.addGovernmentFunds(
-          tax,
-          `Income tax from ${employee.first_name} ${employee.last_name}`,
-        )
-
-        totalPaid += salary
+        const payslip = await this.database
+          .transaction((connection) => this.payEmployee(connection, employee))
+          .catch((error) => {
+            this.logger.error(`Error paying salary to character ${employee.id}:`, error)
+            return null
+          })
+        if (!payslip) continue
+
+        totalPaid += payslip.salary + payslip.faction_bonus
         employeesPaid++
 
         // Notify online players
-        const onlinePlayer = global.AmericanRP.getPlayerManager().getConnectedPlayers().get(employee.user_id)
-        if (onlinePlayer && onlinePlayer.isLoggedIn) {
-          this.sendJobMessage(onlinePlayer, `Salary received: $${netPay.toLocaleString()} (after tax)`, "success")
+        const onlinePlayer = this.findOnlineCharacter(employee.id)
+        if (onlinePlayer) {
+          this.sendPayslip(onlinePlayer, payslip)
         }
       }
 
@@ -256,6 +569,130 @@ export class JobManager {
     }
   }
 
+  /**
+   * Pays the duty time worked since the last payroll at each session's job rate and rank multiplier, plus the hourly
+   * faction bonus for the same time, withholds income tax and writes the payslip in one commit. The sessions stay
+   * locked so the duty timer can't add time that would then be marked paid.
+   */
+  private async payEmployee(connection: PoolConnection, employee: any): Promise<Payslip | null> {
+    const economyManager = global.AmericanRP.getEconomyManager()
+    const bankAccount: MoneyAccount = { type: "bank", characterId: employee.id }
+
+    const [sessions] = await connection.query<RowDataPacket[]>(
+      `SELECT ds.id, ds.active_seconds - ds.paid_seconds AS unpaid_seconds,
+              j.salary_per_hour * COALESCE(jr.salary_multiplier, 1) AS salary_per_hour
+       FROM duty_sessions ds
+       JOIN jobs j ON ds.job_id = j.id
+       LEFT JOIN job_ranks jr ON jr.job_id = ds.job_id AND jr.level = ds.job_rank
+       WHERE ds.character_id = ? AND ds.active_seconds > ds.paid_seconds
+       FOR UPDATE`,
+      [employee.id],
+    )
+    const dutySeconds = sessions.reduce((total, session) => total + Number(session.unpaid_seconds), 0)
+    const earned = sessions.reduce(
+      (total, session) => total + (Number(session.unpaid_seconds) / 3600) * Number(session.salary_per_hour),
+      0,
+    )
+    const salary = Math.round(earned * 100) / 100
+    let factionBonus = Math.round((Number(employee.salary_bonus) || 0) * (dutySeconds / 3600) * 100) / 100
+
+    if (salary > 0) {
+      const salaryResult = await economyManager.transfer(
+        null,
+        bankAccount,
+        salary,
+        "salary",
+        `Salary for ${Math.floor(dutySeconds / 60)} minutes on duty`,
+        connection,
+      )
+      if (!salaryResult.success) return null
+    }
+
+    for (const session of sessions) {
+      await connection.execute("UPDATE duty_sessions SET paid_seconds = paid_seconds + ? WHERE id = ?", [
+        Number(session.unpaid_seconds),
+        session.id,
+      ])
+    }
+
+    // Factions pay their own bonuses and skip them when their account cannot cover them
+    if (factionBonus > 0) {
+      const bonusResult = await economyManager.transfer(
+        { type: "faction", factionId: employee.faction_id },
+        bankAccount,
+        factionBonus,
+        "salary",
+        `Faction rank bonus for ${employee.first_name} ${employee.last_name}`,
+        connection,
+      )
+      if (!bonusResult.success) factionBonus = 0
+    }
+
+    if (salary === 0 && factionBonus === 0) return null
+
+    const salaryExempt = Boolean(employee.is_government)
+    const incomeTax = global.AmericanRP.getTaxPolicyManager().calculateIncomeTax(salary, factionBonus, salaryExempt)
+
+    if (incomeTax.tax > 0) {
+      const taxResult = await economyManager.transfer(
+        bankAccount,
+        { type: "government" },
+        incomeTax.tax,
+        "tax",
+        `Income tax from ${employee.first_name} ${employee.last_name}`,
+        connection,
+      )
+      if (!taxResult.success) {
+        throw new Error(`Failed to withhold income tax for character ${employee.id}`)
+      }
+    }
+
+    const netPay = Math.round((salary + factionBonus - incomeTax.tax) * 100) / 100
+    const dutyMinutes = Math.floor(dutySeconds / 60)
+    const [insert] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO payslips (character_id, job_id, duty_minutes, salary, faction_bonus, tax_exempt_salary, allowance, taxable_income, income_tax, net_pay)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        employee.id,
+        employee.job_id,
+        dutyMinutes,
+        salary,
+        factionBonus,
+        salaryExempt,
+        incomeTax.allowance,
+        incomeTax.taxableIncome,
+        incomeTax.tax,
+        netPay,
+      ],
+    )
+
+    return {
+      id: insert.insertId,
+      character_id: employee.id,
+      job_id: employee.job_id,
+      duty_minutes: dutyMinutes,
+      salary,
+      faction_bonus: factionBonus,
+      tax_exempt_salary: salaryExempt,
+      allowance: incomeTax.allowance,
+      taxable_income: incomeTax.taxableIncome,
+      income_tax: incomeTax.tax,
+      net_pay: netPay,
+      created_at: new Date(),
+    }
+  }
+
+  private sendPayslip(player: any, payslip: Payslip): void {
+    let message = `Payday: $${payslip.net_pay.toLocaleString()} deposited to your bank`
+    const parts = [`salary $${payslip.salary.toLocaleString()} for ${payslip.duty_minutes} min on duty`]
+    if (payslip.faction_bonus > 0) parts.push(`faction bonus $${payslip.faction_bonus.toLocaleString()}`)
+    parts.push(payslip.tax_exempt_salary ? "salary tax-exempt" : `allowance $${payslip.allowance.toLocaleString()}`)
+    parts.push(`income tax $${payslip.income_tax.toLocaleString()}`)
+    message += ` (${parts.join(", ")})`
+
+    this.sendJobMessage(player, message, "success")
+  }
+
   private async getJobEmployeeCount(jobId: number): Promise<number> {
     try {
       const result = await this.database.query("SELECT COUNT(*) as count FROM characters WHERE job_id = ?", [jobId])
@@ -283,26 +720,189 @@ export class JobManager {
     }
   }
 
-  private async createJobApplication(characterId: number, jobId: number): Promise<void> {
+  private async createJobApplication(characterId: number, jobId: number): Promise<number | null> {
     try {
-      await this.database.query(
+      const result = await this.database.query(
         `
         INSERT INTO job_applications (character_id, job_id, application_date, status) 
         VALUES (?, ?, NOW(), 'pending')
       `,
         [characterId, jobId],
       )
+      return result.insertId
     } catch (error) {
       this.logger.error("Error creating job application:", error)
+      return null
     }
   }
 
-  private canManageEmployees(player: any): boolean {
-    if (!player.jobData) return false
+  public async getApplication(applicationId: number): Promise<JobApplication | null> {
+    const rows = await this.database.query("SELECT * FROM job_applications WHERE id = ?", [applicationId])
+    return rows[0] ?? null
+  }
 
-    // Government jobs with management permissions
-    const managementJobs = ["Police Chief", "Sheriff", "Fire Chief", "EMS Chief", "Mayor", "Judge"]
-    return managementJobs.includes(player.jobData.name) || player.adminLevel >= 3
+  public async getOpenApplications(jobId: number): Promise<JobApplication[]> {
+    return this.database.query(
+      `SELECT * FROM job_applications
+       WHERE job_id = ? AND status IN ('pending', 'interview') ORDER BY application_date`,
+      [jobId],
+    )
+  }
+
+  public async scheduleInterview(
+    applicationId: number,
+    interviewerId: number,
+    minutesFromNow: number,
+  ): Promise<{ success: boolean; message: string }> {
+    const application = await this.getApplication(applicationId)
+    if (!application || (application.status !== "pending" && application.status !== "interview")) {
+      return { success: false, message: "No open application with that ID." }
+    }
+
+    await this.database.query(
+      `UPDATE job_applications SET status = 'interview', interviewer_id = ?,
+       interview_at = DATE_ADD(NOW(), INTERVAL ? MINUTE) WHERE id = ?`,
+      [interviewerId, minutesFromNow, applicationId],
+    )
+
+    const job = this.availableJobs.get(application.job_id)
+    await this.notifyApplicant(
+      application,
+      `You are invited to an interview for ${job?.name} in ${formatDuration(minutesFromNow)}. ` +
+        "Report to the job's headquarters.",
+    )
+    return {
+      success: true,
+      message: `Interview for application #${applicationId} scheduled in ${formatDuration(minutesFromNow)}.`,
+    }
+  }
+
+  /**
+   * Approves or rejects an open application. Approved applicants are hired right away when online, otherwise the
+   * next time they spawn.
+   */
+  public async reviewApplication(
+    applicationId: number,
+    reviewerId: number,
+    approved: boolean,
+    reason?: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const application = await this.getApplication(applicationId)
+    if (!application || (application.status !== "pending" && application.status !== "interview")) {
+      return { success: false, message: "No open application with that ID." }
+    }
+
+    const job = this.availableJobs.get(application.job_id)
+    if (!job) {
+      return { success: false, message: "That job no longer exists." }
+    }
+
+    if (approved) {
+      const applicant = await this.database.query("SELECT job_id FROM characters WHERE id = ?", [
+        application.character_id,
+      ])
+      if (applicant[0]?.job_id) {
+        return { success: false, message: "The applicant already has a job." }
+      }
+
+      const currentEmployees = await this.getJobEmployeeCount(job.id)
+      if (job.max_employees > 0 && currentEmployees >= job.max_employees) {
+        return { success: false, message: `${job.name} has no available positions.` }
+      }
+    }
+
+    await this.database.query(
+      "UPDATE job_applications SET status = ?, reviewed_by = ?, review_date = NOW(), review_notes = ? WHERE id = ?",
+      [approved ? "approved" : "rejected", reviewerId, reason ?? null, applicationId],
+    )
+
+    const outcome = approved ? "approved" : "rejected"
+    await this.notifyApplicant(
+      application,
+      `Your application for ${job.name} was ${outcome}${reason ? `: ${reason}` : "."}`,
+    )
+
+    const applicant = this.findOnlineCharacter(application.character_id)
+    if (approved && applicant) {
+      await this.completeHire(applicant, application)
+    }
+
+    return { success: true, message: `Application #${applicationId} ${outcome}.` }
+  }
+
+  /**
+   * Warnings, jail sentences and previous jobs of a character, most recent first
+   */
+  public async getApplicantHistory(characterId: number): Promise<{
+    warnings: { reason: string; created_at: Date }[]
+    arrests: { charges: string; minutes: number; created_at: Date }[]
+    jobs: { job_name: string; started_at: Date; ended_at: Date | null; end_reason: string | null }[]
+  }> {
+    const warnings = await this.database.query(
+      `SELECT reason, created_at FROM player_warnings WHERE player_id = ?
+       ORDER BY created_at DESC LIMIT ${APPLICANT_HISTORY_LIMIT}`,
+      [characterId],
+    )
+    const arrests = await this.database.query(
+      `SELECT charges, minutes, created_at FROM jail_sentences WHERE character_id = ?
+       ORDER BY created_at DESC LIMIT ${APPLICANT_HISTORY_LIMIT}`,
+      [characterId],
+    )
+    const jobs = await this.database.query(
+      `SELECT j.name AS job_name, eh.started_at, eh.ended_at, eh.end_reason
+       FROM employment_history eh JOIN jobs j ON eh.job_id = j.id
+       WHERE eh.character_id = ? ORDER BY eh.started_at DESC LIMIT ${APPLICANT_HISTORY_LIMIT}`,
+      [characterId],
+    )
+    return { warnings, arrests, jobs }
+  }
+
+  private async completeHire(player: any, application: JobApplication): Promise<void> {
+    if (player.characterData.job_id) return
+
+    if (await this.hirePlayer(player, application.job_id)) {
+      await this.database.query("UPDATE job_applications SET hired_at = NOW() WHERE id = ?", [application.id])
+    }
+  }
+
+  // Applicants approved while they were offline start their new job when they spawn
+  private async handleCharacterSpawned(player: any, character: any): Promise<void> {
+    try {
+      const applications = await this.database.query(
+        `SELECT * FROM job_applications WHERE character_id = ? AND status = 'approved' AND hired_at IS NULL
+         ORDER BY review_date DESC LIMIT 1`,
+        [character.id],
+      )
+      if (applications.length > 0) {
+        await this.completeHire(player, applications[0])
+      }
+    } catch (error) {
+      this.logger.error("Error hiring approved applicant:", error)
+    }
+  }
+
+  // Online applicants get a job message; offline ones find a text from the employer in their phone inbox
+  private async notifyApplicant(application: JobApplication, message: string): Promise<void> {
+    const applicant = this.findOnlineCharacter(application.character_id)
+    if (applicant) {
+      this.sendJobMessage(applicant, message, "info")
+      return
+    }
+
+    const job = this.availableJobs.get(application.job_id)
+    await global.AmericanRP.getPhoneManager().sendServiceMessage(application.character_id, job?.name ?? "Jobs", message)
+  }
+
+  private findOnlineCharacter(characterId: number): any | undefined {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player: any) => player.isLoggedIn && player.characterData?.id === characterId,
+    )
+  }
+
+  // Supervisors are the employees whose rank can manage their job; senior admins can manage any job
+  public canManageEmployees(player: any): boolean {
+    if (player.adminLevel >= 3) return true
+    return Boolean(this.getPlayerRank(player)?.can_manage)
   }
 
   private notifyJobSupervisors(jobId: number, message: string): void {
@@ -315,6 +915,135 @@ export class JobManager {
       })
   }
 
+  /**
+   * Whether the player is on duty, optionally only for one of the given job names
+   */
+  public isOnDuty(player: any, jobNames?: string[]): boolean {
+    if (!player.onDuty || !player.jobData) return false
+    return !jobNames || jobNames.includes(player.jobData.name)
+  }
+
+  public getOnDutyPlayers(jobNames: string[]): any[] {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).filter(
+      (player) => player.isLoggedIn && this.isOnDuty(player, jobNames),
+    )
+  }
+
+  private async toggleDuty(player: any): Promise<void> {
+    if (!player.characterData || !player.jobData) {
+      this.sendJobMessage(player, "You need a job to go on duty.", "error")
+      return
+    }
+
+    if (player.onDuty) {
+      const session = await this.endDutySession(player, "off_duty")
+      const counted = session ? Math.floor(session.active_seconds / 60) : 0
+      this.sendJobMessage(
+        player,
+        `You are now off duty. ${counted} minute(s) of this shift counted toward pay.`,
+        "success",
+      )
+      return
+    }
+
+    try {
+      const result = await this.database.query(
+        "INSERT INTO duty_sessions (character_id, job_id, job_rank, started_at) VALUES (?, ?, ?, NOW())",
+        [player.characterData.id, player.jobData.id, player.characterData.job_rank ?? 1],
+      )
+      const position = { x: player.position.x, y: player.position.y, z: player.position.z }
+      this.activeDuty.set(player.id, { sessionId: result.insertId, position, lastActive: Date.now(), afk: false })
+    } catch (error) {
+      this.logger.error("Error starting duty session:", error)
+      this.sendJobMessage(player, "An error occurred while going on duty.", "error")
+      return
+    }
+
+    player.onDuty = true
+    this.eventManager.emit("job:duty_on", player, player.jobData)
+    this.sendJobMessage(player, `You are now on duty as ${player.jobData.name}.`, "success")
+  }
+
+  /**
+   * Takes the player off duty and closes their session. Time already counted stays unpaid until the next payroll.
+   */
+  public async endDutySession(
+    player: any,
+    reason: "off_duty" | "disconnect" | "quit" | "fired",
+  ): Promise<{ active_seconds: number } | null> {
+    const duty = this.activeDuty.get(player.id)
+    const wasOnDuty = player.onDuty
+    this.activeDuty.delete(player.id)
+    player.onDuty = false
+
+    if (wasOnDuty) {
+      this.eventManager.emit("job:duty_off", player, player.jobData)
+    }
+    if (!duty) return null
+
+    try {
+      await this.database.query("UPDATE duty_sessions SET ended_at = NOW(), end_reason = ? WHERE id = ?", [
+        reason,
+        duty.sessionId,
+      ])
+      const rows = await this.database.query("SELECT active_seconds FROM duty_sessions WHERE id = ?", [duty.sessionId])
+      return rows[0] ?? null
+    } catch (error) {
+      this.logger.error("Error ending duty session:", error)
+      return null
+    }
+  }
+
+  // Adds a tick of duty time for every on-duty player who is not AFK
+  private async processDutyTime(): Promise<void> {
+    const now = Date.now()
+    const seconds = DUTY_TICK_INTERVAL / 1000
+
+    for (const [playerId, duty] of this.activeDuty) {
+      const player = global.AmericanRP.getPlayerManager().getPlayerById(playerId)
+      if (!player) {
+        this.activeDuty.delete(playerId)
+        continue
+      }
+
+      this.trackActivity(player, duty, now)
+      const afk = now - duty.lastActive >= this.config.afkMinutes * 60 * 1000
+      if (afk !== duty.afk) {
+        duty.afk = afk
+        this.sendJobMessage(
+          player,
+          afk ? "You are AFK. Your duty time has stopped counting." : "Welcome back. Your duty time is counting again.",
+          "info",
+        )
+      }
+      if (afk) continue
+
+      try {
+        await this.database.query("UPDATE duty_sessions SET active_seconds = active_seconds + ? WHERE id = ?", [
+          seconds,
+          duty.sessionId,
+        ])
+      } catch (error) {
+        this.logger.error(`Error recording duty time for session ${duty.sessionId}:`, error)
+      }
+    }
+  }
+
+  private trackActivity(player: any, duty: ActiveDuty, now: number): void {
+    const position = { x: player.position.x, y: player.position.y, z: player.position.z }
+    if (this.getDistance(duty.position, position) > 1) {
+      duty.position = position
+      duty.lastActive = now
+    }
+  }
+
+  private markActive(player: any): void {
+    const duty = this.activeDuty.get(player.id)
+    if (duty) {
+      duty.lastActive = Date.now()
+    }
+  }
+
   public async getAvailableJobs(): Promise<Job[]> {
     return Array.from(this.availableJobs.values())
   }
@@ -323,39 +1052,135 @@ export class JobManager {
     return this.availableJobs.get(jobId) || null
   }
 
-  public isJobCommand(command: string): boolean {
-    const jobCommands = ["job", "jobs", "apply", "quit", "fire", "hire", "salary", "employees"]
-    return jobCommands.includes(command)
+  public getJobByName(name: string): Job | undefined {
+    return Array.from(this.availableJobs.values()).find((job) => job.name === name)
   }
 
-  public async handleCommand(player: any, command: string, args: string[]): Promise<void> {
-    switch (command) {
-      case "jobs":
-        await this.showAvailableJobs(player)
-        break
-      case "apply":
-        if (args.length < 1) {
-          this.sendJobMessage(player, "Usage: /apply [job_id]", "error")
-          return
-        }
-        await this.handleJobApplication(player, Number.parseInt(args[0]))
-        break
-      case "quit":
-        await this.handleJobQuit(player)
-        break
-      case "fire":
-        if (args.length < 1) {
-          this.sendJobMessage(player, "Usage: /fire [player_name]", "error")
-          return
-        }
-        await this.handleJobFire(player, args[0])
-        break
-      case "employees":
-        await this.showJobEmployees(player)
-        break
-      default:
-        this.sendJobMessage(player, "Unknown job command.", "error")
-    }
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "jobs",
+        description: "List every job and its open positions",
+        usage: "/jobs",
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player) => this.showAvailableJobs(player),
+      },
+      {
+        name: "apply",
+        description: "Apply for a job",
+        params: [{ name: "job_id", type: "integer", min: 1 }],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleJobApplication(player, params.job_id),
+      },
+      {
+        name: "quit",
+        aliases: ["quitjob"],
+        description: "Quit your current job",
+        usage: "/quit",
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player) => this.handleJobQuit(player),
+      },
+      {
+        name: "fire",
+        description: "Fire an employee from your department",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleJobFire(player, params.player),
+      },
+      {
+        name: "applications",
+        description: "List the open applications for your department (supervisors)",
+        usage: "/applications",
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player) => this.showApplications(player),
+      },
+      {
+        name: "application",
+        description: "Review an application: view the applicant's history, approve or reject it (supervisors)",
+        usage: "/application view [id] | /application approve [id] [reason] | /application reject [id] [reason]",
+        params: [
+          { name: "action", type: "word", choices: ["view", "approve", "reject"] },
+          { name: "id", type: "integer", min: 1 },
+          { name: "reason", type: "text", optional: true, max: 200 },
+        ],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleApplicationReview(player, params),
+      },
+      {
+        name: "interview",
+        description: "Invite an applicant to an interview (supervisors)",
+        usage: "/interview [application_id] [in, e.g. 30m or 2h]",
+        params: [
+          { name: "application_id", type: "integer", min: 1 },
+          { name: "in", type: "duration", min: 1, max: MAX_INTERVIEW_DELAY_MINUTES },
+        ],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleInterview(player, params),
+      },
+      {
+        name: "promote",
+        description: "Promote an employee of your department to the next rank",
+        params: [
+          { name: "player", type: "player" },
+          { name: "reason", type: "text", optional: true, max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleJobPromotion(player, params.player, params.reason),
+      },
+      {
+        name: "demote",
+        description: "Demote an employee of your department to the previous rank",
+        params: [
+          { name: "player", type: "player" },
+          { name: "reason", type: "text", max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleJobDemotion(player, params.player, params.reason),
+      },
+      {
+        name: "rank",
+        description: "Show your job rank, promotion progress and rank history",
+        usage: "/rank [player]",
+        params: [{ name: "player", type: "player", optional: true }],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.showRank(player, params.player ?? player),
+      },
+      {
+        name: "duty",
+        description: "Go on or off duty for your job",
+        usage: "/duty",
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player) => this.toggleDuty(player),
+      },
+      {
+        name: "dutylog",
+        description: "Show who in your department worked and for how long",
+        usage: "/dutylog [days]",
+        params: [{ name: "days", type: "integer", optional: true, min: 1, max: 30 }],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.showDutyLog(player, params),
+      },
+      {
+        name: "employees",
+        description: "List the employees of your department",
+        usage: "/employees",
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player) => this.showJobEmployees(player),
+      },
+    ])
   }
 
   private async showAvailableJobs(player: any): Promise<void> {
@@ -385,10 +1210,10 @@ export class JobManager {
 
     const employees = await this.database.query(
       `
-      SELECT first_name, last_name, created_at 
+      SELECT first_name, last_name, job_rank, created_at 
       FROM characters 
       WHERE job_id = ? 
-      ORDER BY created_at ASC
+      ORDER BY job_rank DESC, created_at ASC
     `,
       [player.jobData.id],
     )
@@ -397,12 +1222,236 @@ export class JobManager {
 
     for (const employee of employees) {
       const hireDate = new Date(employee.created_at).toLocaleDateString()
-      message += `${employee.first_name} ${employee.last_name} (Hired: ${hireDate})\n`
+      const rankName = this.getRank(player.jobData.id, employee.job_rank)?.name ?? `Rank ${employee.job_rank}`
+      message += `${employee.first_name} ${employee.last_name} - ${rankName} (Hired: ${hireDate})\n`
     }
 
     this.sendJobMessage(player, message, "info")
   }
 
+  private async showApplications(player: any): Promise<void> {
+    if (!player.jobData || !this.canManageEmployees(player)) {
+      this.sendJobMessage(player, "You don't have permission to review applications.", "error")
+      return
+    }
+
+    try {
+      const applications = await this.database.query(
+        `SELECT a.id, a.status, a.application_date, a.interview_at, c.first_name, c.last_name
+         FROM job_applications a JOIN characters c ON a.character_id = c.id
+         WHERE a.job_id = ? AND a.status IN ('pending', 'interview')
+         ORDER BY a.application_date`,
+        [player.jobData.id],
+      )
+
+      let message = `=== ${player.jobData.name} Applications ===\n`
+      if (applications.length === 0) message += "No open applications"
+      for (const application of applications) {
+        const status =
+          application.status === "interview"
+            ? `Interview ${new Date(application.interview_at).toLocaleString()}`
+            : "Pending"
+        message += `#${application.id} ${application.first_name} ${application.last_name}`
+        message += ` | Applied ${new Date(application.application_date).toLocaleDateString()} | ${status}\n`
+      }
+      this.sendJobMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error listing job applications:", error)
+      this.sendJobMessage(player, "An error occurred while loading the applications.", "error")
+    }
+  }
+
+  // Supervisors review applications for their own job; senior admins can review any
+  private async getReviewableApplication(player: any, applicationId: number): Promise<JobApplication | null> {
+    if (!this.canManageEmployees(player)) {
+      this.sendJobMessage(player, "You don't have permission to review applications.", "error")
+      return null
+    }
+
+    const application = await this.getApplication(applicationId)
+    if (!application || (application.job_id !== player.jobData?.id && player.adminLevel < 3)) {
+      this.sendJobMessage(player, "No application with that ID for your department.", "error")
+      return null
+    }
+    return application
+  }
+
+  private async handleApplicationReview(player: any, params: CommandParams): Promise<void> {
+    try {
+      const application = await this.getReviewableApplication(player, params.id)
+      if (!application) return
+
+      if (params.action === "view") {
+        await this.showApplication(player, application)
+        return
+      }
+
+      if (params.action === "reject" && !params.reason) {
+        this.sendJobMessage(player, "Give the applicant a reason for the rejection.", "error")
+        return
+      }
+
+      const result = await this.reviewApplication(
+        application.id,
+        player.characterData.id,
+        params.action === "approve",
+        params.reason,
+      )
+      this.sendJobMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error reviewing job application:", error)
+      this.sendJobMessage(player, "An error occurred while reviewing the application.", "error")
+    }
+  }
+
+  private async handleInterview(player: any, params: CommandParams): Promise<void> {
+    try {
+      const application = await this.getReviewableApplication(player, params.application_id)
+      if (!application) return
+
+      const result = await this.scheduleInterview(application.id, player.characterData.id, params.in)
+      this.sendJobMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error scheduling interview:", error)
+      this.sendJobMessage(player, "An error occurred while scheduling the interview.", "error")
+    }
+  }
+
+  private async showApplication(player: any, application: JobApplication): Promise<void> {
+    const rows = await this.database.query("SELECT first_name, last_name, age FROM characters WHERE id = ?", [
+      application.character_id,
+    ])
+    const applicant = rows[0]
+    const history = await this.getApplicantHistory(application.character_id)
+    const job = this.availableJobs.get(application.job_id)
+
+    let message = `=== Application #${application.id}: ${job?.name} ===\n`
+    message += `Applicant: ${applicant?.first_name} ${applicant?.last_name} (age ${applicant?.age})\n`
+    message += `Applied: ${new Date(application.application_date).toLocaleDateString()} | Status: ${application.status}`
+    if (application.interview_at) message += ` | Interview: ${new Date(application.interview_at).toLocaleString()}`
+    if (application.review_notes) message += ` | Notes: ${application.review_notes}`
+
+    message += "\nWarnings:"
+    if (history.warnings.length === 0) message += " none"
+    for (const warning of history.warnings) {
+      message += `\n  ${new Date(warning.created_at).toLocaleDateString()}: ${warning.reason}`
+    }
+
+    message += "\nArrests:"
+    if (history.arrests.length === 0) message += " none"
+    for (const arrest of history.arrests) {
+      message += `\n  ${new Date(arrest.created_at).toLocaleDateString()}: ${arrest.charges} (${arrest.minutes} min)`
+    }
+
+    message += "\nPrevious jobs:"
+    if (history.jobs.length === 0) message += " none"
+    for (const record of history.jobs) {
+      const ended = record.ended_at
+        ? `${new Date(record.ended_at).toLocaleDateString()} (${record.end_reason})`
+        : "present"
+      message += `\n  ${record.job_name}: ${new Date(record.started_at).toLocaleDateString()} - ${ended}`
+    }
+
+    this.sendJobMessage(player, message, "info")
+  }
+
+  private async showRank(player: any, target: any): Promise<void> {
+    if (!target.characterData?.job_id) {
+      const message = target === player ? "You don't have a job." : "That player doesn't have a job."
+      this.sendJobMessage(player, message, "error")
+      return
+    }
+
+    const sameDepartment = target.characterData.job_id === player.characterData?.job_id
+    if (target !== player && !(this.canManageEmployees(player) && (sameDepartment || player.adminLevel >= 3))) {
+      this.sendJobMessage(player, "You can only view the ranks of employees in your department.", "error")
+      return
+    }
+
+    try {
+      const job = this.availableJobs.get(target.characterData.job_id)
+      const ladder = this.jobRanks.get(target.characterData.job_id) ?? []
+      const rank = this.getPlayerRank(target)
+      const nextRank = this.getRank(target.characterData.job_id, (target.characterData.job_rank ?? 1) + 1)
+
+      let message = `=== ${target.characterData.first_name} ${target.characterData.last_name} - ${job?.name} ===\n`
+      message += `Rank: ${rank?.name ?? "Unranked"} (${rank?.level ?? 1}/${ladder.length})`
+      message += ` | Pay: x${(rank?.salary_multiplier ?? 1).toFixed(2)}\n`
+
+      if (nextRank) {
+        const progress = await this.getRankProgress(target)
+        message += `Next: ${nextRank.name} - `
+        message += `${Math.floor(progress.dutyHours)}/${nextRank.required_duty_hours} duty hours, `
+        message += `${progress.tasks}/${nextRank.required_tasks} completed tasks\n`
+      } else {
+        message += "Highest rank reached\n"
+      }
+
+      const history = await this.database.query(
+        `SELECT h.from_level, h.to_level, h.reason, h.created_at, c.first_name, c.last_name
+         FROM job_rank_history h LEFT JOIN characters c ON h.changed_by = c.id
+         WHERE h.character_id = ? AND h.job_id = ?
+         ORDER BY h.created_at DESC, h.id DESC LIMIT ${RANK_HISTORY_LIMIT}`,
+        [target.characterData.id, target.characterData.job_id],
+      )
+      for (const change of history) {
+        const rankName = this.getRank(target.characterData.job_id, change.to_level)?.name ?? `Rank ${change.to_level}`
+        const by = change.first_name ? `${change.first_name} ${change.last_name}` : "unknown"
+        message += `${new Date(change.created_at).toLocaleDateString()}: `
+        message += `${change.to_level > change.from_level ? "Promoted" : "Demoted"} to ${rankName} by ${by}`
+        message += change.reason ? ` (${change.reason})\n` : "\n"
+      }
+
+      this.sendJobMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing job rank:", error)
+      this.sendJobMessage(player, "An error occurred while loading the rank.", "error")
+    }
+  }
+
+  private async showDutyLog(player: any, params: CommandParams): Promise<void> {
+    if (!player.jobData || !this.canManageEmployees(player)) {
+      this.sendJobMessage(player, "You don't have permission to view the duty log.", "error")
+      return
+    }
+
+    const days = params.days ?? DUTY_LOG_DEFAULT_DAYS
+    try {
+      const rows = await this.database.query(
+        `SELECT c.first_name, c.last_name, COUNT(*) AS shifts, SUM(ds.active_seconds) AS active_seconds,
+                MAX(ds.started_at) AS last_shift, SUM(ds.ended_at IS NULL) AS on_duty
+         FROM duty_sessions ds JOIN characters c ON ds.character_id = c.id
+         WHERE ds.job_id = ? AND ds.started_at >= DATE_SUB(NOW(), INTERVAL ? DAY)
+         GROUP BY ds.character_id, c.first_name, c.last_name
+         ORDER BY active_seconds DESC`,
+        [player.jobData.id, days],
+      )
+
+      let message = `=== ${player.jobData.name} Duty Log (last ${days} days) ===\n`
+      if (rows.length === 0) message += "Nobody has been on duty"
+      for (const row of rows) {
+        const minutes = Math.floor(Number(row.active_seconds) / 60)
+        const hours = `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+        const status = Number(row.on_duty) > 0 ? "ON DUTY" : `last ${new Date(row.last_shift).toLocaleDateString()}`
+        message += `${row.first_name} ${row.last_name}: ${hours} over ${row.shifts} shift(s) | ${status}\n`
+      }
+      this.sendJobMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing duty log:", error)
+      this.sendJobMessage(player, "An error occurred while loading the duty log.", "error")
+    }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
   private sendJobMessage(player: any, message: string, type: "success" | "error" | "info"): void {
     const colors = {
       success: "#00FF00",
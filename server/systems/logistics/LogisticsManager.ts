@@ -0,0 +1,449 @@
+/**
+ * Logistics Manager - Route missions shared by the trucker, delivery and garbage collector jobs. A run spawns the
+ * route's vehicle at the job's spawn point, loads the cargo at the depot and pays on arrival at the destination by
+ * distance, cargo weight, the vehicle's body health and lateness. Routes live in the database.
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import type { CommandParams, LogisticsRoute, Position } from "../../types"
+
+declare const mp: any
+
+interface ActiveRun {
+  deliveryId: number
+  route: LogisticsRoute
+  vehicle: any
+  stage: "to_depot" | "to_destination"
+  deadline: number | null // Set once the cargo is loaded
+}
+
+export const LOGISTICS_JOBS = ["Trucker", "Delivery Driver", "Garbage Collector"]
+
+const RUN_TICK_INTERVAL = 3 * 1000
+const CHECKPOINT_RANGE = 15
+const MAX_BODY_HEALTH = 1000
+const WEIGHT_BONUS_PER_TONNE = 0.02 // Heavier cargo pays 2% more per tonne
+const CARGO_LIABILITY = 0.25 // Share of the damaged cargo's value taken off the pay
+const LATE_PENALTY_PER_MINUTE = 0.05
+const MIN_LATE_FACTOR = 0.25
+const STATS_DAYS = 7
+
+export class LogisticsManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private routes: Map<number, LogisticsRoute> = new Map()
+  private runs: Map<number, ActiveRun> = new Map() // Keyed by player id
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("LogisticsManager")
+
+    this.registerEvents()
+    this.loadRoutes()
+    this.closeStaleRuns()
+    this.startRunTimer()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("player:disconnected", (player: any) => this.endRun(player, "abandoned"))
+    this.eventManager.on("job:duty_off", (player: any) => this.endRun(player, "abandoned"))
+  }
+
+  private startRunTimer(): void {
+    setInterval(() => {
+      this.processRuns()
+    }, RUN_TICK_INTERVAL)
+  }
+
+  /**
+   * Reads the active routes with their depot and destination. Call again after editing routes in the database.
+   */
+  public async loadRoutes(): Promise<number> {
+    try {
+      const rows = await this.database.query(`
+        SELECT r.*, d.name AS depot_name, d.position AS depot_position,
+               t.name AS destination_name, t.position AS destination_position
+        FROM logistics_routes r
+        JOIN logistics_locations d ON r.depot_id = d.id
+        JOIN logistics_locations t ON r.destination_id = t.id
+        WHERE r.active = TRUE
+        ORDER BY r.job_id, r.id
+      `)
+
+      this.routes.clear()
+      for (const row of rows) {
+        this.routes.set(row.id, {
+          id: row.id,
+          job_id: row.job_id,
+          name: row.name,
+          depot: {
+            id: row.depot_id,
+            name: row.depot_name,
+            type: "depot",
+            position: this.parsePosition(row.depot_position),
+          },
+          destination: {
+            id: row.destination_id,
+            name: row.destination_name,
+            type: "destination",
+            position: this.parsePosition(row.destination_position),
+          },
+          cargo_name: row.cargo_name,
+          cargo_weight_kg: row.cargo_weight_kg,
+          cargo_value: Number(row.cargo_value),
+          vehicle_model: row.vehicle_model,
+          base_pay: Number(row.base_pay),
+          pay_per_km: Number(row.pay_per_km),
+          time_limit_minutes: row.time_limit_minutes,
+          active: Boolean(row.active),
+        })
+      }
+
+      this.logger.success(`Loaded ${this.routes.size} logistics routes`)
+      return this.routes.size
+    } catch (error) {
+      this.logger.error("Error loading logistics routes:", error)
+      return 0
+    }
+  }
+
+  // Runs still open at startup lost their vehicle with the restart
+  private async closeStaleRuns(): Promise<void> {
+    try {
+      await this.database.query(
+        "UPDATE logistics_deliveries SET status = 'abandoned', finished_at = NOW() WHERE status = 'in_progress'",
+      )
+    } catch (error) {
+      this.logger.error("Error closing stale logistics runs:", error)
+    }
+  }
+
+  public getRoutesForJob(jobId: number): LogisticsRoute[] {
+    return Array.from(this.routes.values()).filter((route) => route.job_id === jobId)
+  }
+
+  public isLogisticsWorker(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, LOGISTICS_JOBS)
+  }
+
+  public hasRun(player: any): boolean {
+    return this.runs.has(player.id)
+  }
+
+  /**
+   * Pay for a delivery: the route's base pay plus its rate per kilometer between depot and destination, raised by
+   * the cargo weight, reduced the later the cargo arrives, minus liability for cargo damaged along the way
+   */
+  public calculatePayout(
+    route: LogisticsRoute,
+    condition: number,
+    lateSeconds: number,
+  ): { payout: number; distancePay: number; damage: number; lateFactor: number } {
+    const kilometers = this.getDistance(route.depot.position, route.destination.position) / 1000
+    const weightFactor = 1 + (route.cargo_weight_kg / 1000) * WEIGHT_BONUS_PER_TONNE
+    const distancePay = (route.base_pay + kilometers * route.pay_per_km) * weightFactor
+    const lateFactor = Math.max(MIN_LATE_FACTOR, 1 - Math.ceil(lateSeconds / 60) * LATE_PENALTY_PER_MINUTE)
+    const damage = route.cargo_value * (1 - condition) * CARGO_LIABILITY
+    const payout = Math.max(0, distancePay * lateFactor - damage)
+
+    return {
+      payout: Math.round(payout * 100) / 100,
+      distancePay: Math.round(distancePay * 100) / 100,
+      damage: Math.round(damage * 100) / 100,
+      lateFactor,
+    }
+  }
+
+  public async startRun(player: any, routeId?: number): Promise<{ success: boolean; message: string }> {
+    if (this.runs.has(player.id)) {
+      return { success: false, message: "Finish or cancel your current run first." }
+    }
+
+    const routes = this.getRoutesForJob(player.jobData.id)
+    const route =
+      routeId !== undefined ? this.routes.get(routeId) : routes[Math.floor(Math.random() * routes.length)]
+    if (!route || route.job_id !== player.jobData.id) {
+      return { success: false, message: "No route with that ID for your job. Use /route list." }
+    }
+
+    const result = await this.database.query(
+      "INSERT INTO logistics_deliveries (route_id, character_id, started_at) VALUES (?, ?, NOW())",
+      [route.id, player.characterData.id],
+    )
+
+    const spawn: Position = { x: player.jobData.spawn_x, y: player.jobData.spawn_y, z: player.jobData.spawn_z }
+    const vehicle = mp.vehicles.new(mp.joaat(route.vehicle_model), spawn)
+    vehicle.numberPlate = `CARGO${result.insertId % 1000}`
+    vehicle.setVariable("logisticsRun", result.insertId)
+
+    this.runs.set(player.id, { deliveryId: result.insertId, route, vehicle, stage: "to_depot", deadline: null })
+    player.call("setWaypoint", [route.depot.position.x, route.depot.position.y])
+
+    this.logger.info(`${player.characterData.first_name} ${player.characterData.last_name} started route ${route.name}`)
+    return {
+      success: true,
+      message:
+        `Route ${route.name}: your ${route.vehicle_model} is waiting at the ${player.jobData.name} lot. ` +
+        `Pick up ${route.cargo_name} at ${route.depot.name}.`,
+    }
+  }
+
+  /**
+   * Ends the player's run without pay and removes its vehicle
+   */
+  public async endRun(player: any, status: "abandoned" | "failed"): Promise<boolean> {
+    const run = this.runs.get(player.id)
+    if (!run) return false
+    this.runs.delete(player.id)
+
+    this.destroyVehicle(run.vehicle)
+    try {
+      await this.database.query("UPDATE logistics_deliveries SET status = ?, finished_at = NOW() WHERE id = ?", [
+        status,
+        run.deliveryId,
+      ])
+    } catch (error) {
+      this.logger.error("Error ending logistics run:", error)
+    }
+    return true
+  }
+
+  private async completeRun(player: any, run: ActiveRun): Promise<void> {
+    this.runs.delete(player.id)
+
+    const bodyHealth = Number(run.vehicle.bodyHealth ?? MAX_BODY_HEALTH)
+    const condition = Math.min(1, Math.max(0, bodyHealth / MAX_BODY_HEALTH))
+    const lateSeconds = run.deadline ? Math.max(0, Math.floor((Date.now() - run.deadline) / 1000)) : 0
+    const pay = this.calculatePayout(run.route, condition, lateSeconds)
+    const distance = Math.round(this.getDistance(run.route.depot.position, run.route.destination.position))
+    this.destroyVehicle(run.vehicle)
+
+    let payout = pay.payout
+    if (payout > 0) {
+      const result = await global.AmericanRP.getEconomyManager().transfer(
+        null,
+        { type: "bank", characterId: player.characterData.id },
+        payout,
+        "salary",
+        `Delivery: ${run.route.name}`,
+      )
+      if (!result.success) payout = 0
+    }
+
+    try {
+      await this.database.query(
+        `UPDATE logistics_deliveries SET status = 'delivered', finished_at = NOW(), distance_meters = ?,
+         condition_percent = ?, late_seconds = ?, payout = ? WHERE id = ?`,
+        [distance, Math.round(condition * 100), lateSeconds, payout, run.deliveryId],
+      )
+    } catch (error) {
+      this.logger.error("Error recording delivery:", error)
+    }
+
+    await global.AmericanRP.getJobManager().recordTaskCompleted(player)
+    this.eventManager.emit("logistics:delivered", player, run.route, payout)
+
+    let message = `Delivered ${run.route.cargo_name} to ${run.route.destination.name}. `
+    message += `Paid $${payout.toLocaleString()} to your bank (route $${pay.distancePay.toLocaleString()}`
+    if (pay.damage > 0) message += `, cargo ${Math.round(condition * 100)}% intact: -$${pay.damage.toLocaleString()}`
+    if (lateSeconds > 0) message += `, ${Math.ceil(lateSeconds / 60)} min late: x${pay.lateFactor.toFixed(2)}`
+    this.sendLogisticsMessage(player, `${message}).`, payout > 0 ? "success" : "info")
+  }
+
+  // Loads cargo at the depot, delivers it at the destination and fails runs whose vehicle was destroyed
+  private async processRuns(): Promise<void> {
+    for (const [playerId, run] of this.runs) {
+      const player = global.AmericanRP.getPlayerManager().getPlayerById(playerId)
+      if (!player) {
+        this.runs.delete(playerId)
+        this.destroyVehicle(run.vehicle)
+        continue
+      }
+
+      if (!mp.vehicles.exists(run.vehicle) || run.vehicle.dead) {
+        await this.endRun(player, "failed")
+        this.sendLogisticsMessage(player, "Your vehicle was destroyed and the cargo lost. The run has failed.", "error")
+        continue
+      }
+
+      if (player.vehicle !== run.vehicle) continue
+
+      if (run.stage === "to_depot") {
+        if (this.getDistance(player.position, run.route.depot.position) > CHECKPOINT_RANGE) continue
+
+        run.stage = "to_destination"
+        run.deadline = Date.now() + run.route.time_limit_minutes * 60 * 1000
+        await this.database
+          .query("UPDATE logistics_deliveries SET loaded_at = NOW() WHERE id = ?", [run.deliveryId])
+          .catch((error) => this.logger.error("Error recording cargo loading:", error))
+
+        player.call("setWaypoint", [run.route.destination.position.x, run.route.destination.position.y])
+        this.sendLogisticsMessage(
+          player,
+          `Loaded ${run.route.cargo_weight_kg.toLocaleString()} kg of ${run.route.cargo_name}. ` +
+            `Deliver it to ${run.route.destination.name} within ${run.route.time_limit_minutes} minutes.`,
+          "info",
+        )
+      } else if (this.getDistance(player.position, run.route.destination.position) <= CHECKPOINT_RANGE) {
+        await this.completeRun(player, run)
+      }
+    }
+  }
+
+  private destroyVehicle(vehicle: any): void {
+    if (vehicle && mp.vehicles.exists(vehicle)) {
+      vehicle.destroy()
+    }
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "route",
+        description: "Run cargo routes for your job (on-duty truckers, delivery drivers and garbage collectors)",
+        usage: "/route list | start [route_id] | status | cancel | stats | reload",
+        params: [
+          { name: "action", type: "word", choices: ["list", "start", "status", "cancel", "stats", "reload"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Logistics",
+        execute: (player, _args, params) => this.handleRouteCommand(player, params),
+      },
+    ])
+  }
+
+  private async handleRouteCommand(player: any, params: CommandParams): Promise<void> {
+    try {
+      if (params.action === "reload") {
+        if (player.adminLevel < 3) {
+          this.sendLogisticsMessage(player, "You don't have permission to reload routes.", "error")
+          return
+        }
+        const count = await this.loadRoutes()
+        this.sendLogisticsMessage(player, `Reloaded ${count} routes.`, "success")
+        return
+      }
+
+      if (params.action === "stats") {
+        await this.showStats(player)
+        return
+      }
+
+      if (!player.characterData || !this.isLogisticsWorker(player)) {
+        this.sendLogisticsMessage(
+          player,
+          "Only on-duty truckers, delivery drivers and garbage collectors can run routes.",
+          "error",
+        )
+        return
+      }
+
+      if (params.action === "list") {
+        this.showRoutes(player)
+        return
+      }
+
+      if (params.action === "status") {
+        this.showStatus(player)
+        return
+      }
+
+      let result: { success: boolean; message: string }
+      if (params.action === "start") {
+        result = await this.startRun(player, params.id)
+      } else {
+        const cancelled = await this.endRun(player, "abandoned")
+        result = { success: cancelled, message: cancelled ? "Run cancelled without pay." : "You have no active run." }
+      }
+      this.sendLogisticsMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling route command:", error)
+      this.sendLogisticsMessage(player, "An error occurred with your route.", "error")
+    }
+  }
+
+  private showRoutes(player: any): void {
+    const routes = this.getRoutesForJob(player.jobData.id)
+
+    let message = `=== ${player.jobData.name} Routes ===\n`
+    if (routes.length === 0) message += "No routes available"
+    for (const route of routes) {
+      const kilometers = this.getDistance(route.depot.position, route.destination.position) / 1000
+      const pay = this.calculatePayout(route, 1, 0)
+      message += `#${route.id} ${route.name}: ${route.cargo_name} (${route.cargo_weight_kg.toLocaleString()} kg)`
+      message += ` | ${kilometers.toFixed(1)} km in ${route.time_limit_minutes} min`
+      message += ` | ~$${pay.payout.toLocaleString()}\n`
+    }
+    message += "Use /route start [route_id], or /route start for a random route."
+    this.sendLogisticsMessage(player, message, "info")
+  }
+
+  private showStatus(player: any): void {
+    const run = this.runs.get(player.id)
+    if (!run) {
+      this.sendLogisticsMessage(player, "You have no active run.", "error")
+      return
+    }
+
+    const target = run.stage === "to_depot" ? run.route.depot : run.route.destination
+    const distance = Math.round(this.getDistance(player.position, target.position))
+    let message = `Route ${run.route.name}: ${run.stage === "to_depot" ? "pick up" : "deliver"} ${run.route.cargo_name}`
+    message += ` at ${target.name} (${distance}m away)`
+    if (run.deadline) {
+      const remaining = Math.ceil((run.deadline - Date.now()) / 60000)
+      message += remaining > 0 ? ` | ${remaining} min left` : ` | ${-remaining} min late`
+    }
+    this.sendLogisticsMessage(player, message, "info")
+  }
+
+  private async showStats(player: any): Promise<void> {
+    if (!player.characterData) return
+
+    const rows = await this.database.query(
+      `SELECT COUNT(*) AS runs, SUM(status = 'delivered') AS delivered, COALESCE(SUM(payout), 0) AS earnings,
+              COALESCE(SUM(distance_meters), 0) AS meters, AVG(condition_percent) AS avg_condition,
+              SUM(late_seconds > 0) AS late
+       FROM logistics_deliveries WHERE character_id = ? AND started_at >= DATE_SUB(NOW(), INTERVAL ? DAY)`,
+      [player.characterData.id, STATS_DAYS],
+    )
+    const row = rows[0]
+
+    let message = `=== Your Deliveries (last ${STATS_DAYS} days) ===\n`
+    message += `Delivered: ${Number(row.delivered ?? 0)} of ${row.runs} runs (${Number(row.late ?? 0)} late)\n`
+    message += `Distance: ${(Number(row.meters) / 1000).toFixed(1)} km`
+    message += ` | Earnings: $${Number(row.earnings).toLocaleString()}`
+    if (row.avg_condition !== null) message += ` | Avg. condition: ${Math.round(Number(row.avg_condition))}%`
+    this.sendLogisticsMessage(player, message, "info")
+  }
+
+  // JSON columns arrive decoded or as strings depending on the driver's type casting
+  private parsePosition(value: any): Position {
+    return typeof value === "string" ? JSON.parse(value) : value
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendLogisticsMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#FFA500",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[LOGISTICS] ${message}`, colors[type])
+  }
+}
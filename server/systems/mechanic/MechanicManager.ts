@@ -0,0 +1,1143 @@
+/**
+ * Mechanic Manager - Service orders for repairs and modifications: the owner requests the work, an on-duty mechanic
+ * inspects the vehicle and quotes parts plus labor, and once the owner accepts, the mechanic is paid and works on the
+ * vehicle over time. Parts and part of the labor go to the shop. Tow drivers take tow requests and bring vehicles to a
+ * shop or the impound lot.
+ */
+
+import type { ResultSetHeader } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { envNumber } from "../../core/env"
+import { Logger } from "../../utils/Logger"
+import { LAW_ENFORCEMENT_JOBS } from "../police/MdcManager"
+import type { CommandParams, Position, ServiceOrder, TowRequest } from "../../types"
+
+declare const mp: any
+
+export interface MechanicConfig {
+  shopShare: number // Fraction of the labor kept by the shop; parts always go to the shop
+  towFee: number
+}
+
+interface ActiveWork {
+  orderId: number
+  lastTick: number
+  paused: boolean
+}
+
+export const MECHANIC_JOBS = ["Mechanic"]
+const TOW_JOBS = ["Tow Truck Driver"]
+const SHOP_TAG = "LSC"
+const SHOP_NAME = "Los Santos Customs"
+const WORK_TICK_INTERVAL = 5 * 1000
+const VEHICLE_RANGE = 5
+const WORK_RANGE = 8
+const DELIVERY_RANGE = 25
+const PARTS_PER_DAMAGE_POINT = 0.5 // Same rate as a self-service repair
+const REPAIR_SECONDS_PER_DAMAGE_POINT = 0.3
+const MIN_REPAIR_SECONDS = 60
+const MAX_REPAIR_SECONDS = 10 * 60
+const MODIFICATION_SECONDS = 2 * 60
+const MAX_QUOTE = 100000
+const OPEN_ORDER_STATUSES = ["requested", "quoted", "accepted", "in_progress"]
+const STATS_DAYS = 7
+
+const MECHANIC_SHOPS: { name: string; position: Position; radius: number }[] = [
+  { name: "LS Customs Burton", position: { x: -356.0, y: -134.0, z: 39.0 }, radius: 15 },
+  { name: "LS Customs La Mesa", position: { x: 731.0, y: -1088.0, z: 22.0 }, radius: 15 },
+  { name: "LS Customs Airport", position: { x: -1155.0, y: -2007.0, z: 13.0 }, radius: 15 },
+]
+
+const IMPOUND_LOT: Position = { x: 409.0, y: -1623.0, z: 29.3 }
+
+function loadMechanicConfig(): MechanicConfig {
+  return {
+    shopShare: Math.min(envNumber("MECHANIC_SHOP_SHARE", 0.3), 1),
+    towFee: envNumber("TOW_FEE", 250),
+  }
+}
+
+export class MechanicManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private config: MechanicConfig
+  private work: Map<number, ActiveWork> = new Map() // Keyed by mechanic player id
+  private shopFactionId: number | null | undefined
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("MechanicManager")
+    this.config = loadMechanicConfig()
+
+    this.registerEvents()
+    this.closeStaleTows()
+    this.startWorkTimer()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("player:disconnected", (player: any) => this.stopWork(player))
+    this.eventManager.on("job:duty_off", (player: any) => this.stopWork(player))
+  }
+
+  private startWorkTimer(): void {
+    setInterval(() => {
+      this.processWork()
+    }, WORK_TICK_INTERVAL)
+  }
+
+  // Towed vehicles are despawned by a restart, so open tows cannot be finished
+  private async closeStaleTows(): Promise<void> {
+    try {
+      await this.database.query(
+        "UPDATE tow_requests SET status = 'cancelled' WHERE status IN ('requested', 'accepted')",
+      )
+    } catch (error) {
+      this.logger.error("Error closing stale tow requests:", error)
+    }
+  }
+
+  public isMechanic(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, MECHANIC_JOBS)
+  }
+
+  public isTowDriver(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, TOW_JOBS)
+  }
+
+  // Service orders
+
+  public async getOrder(orderId: number): Promise<ServiceOrder | null> {
+    const rows = await this.database.query("SELECT * FROM service_orders WHERE id = ?", [orderId])
+    return rows.length > 0 ? this.mapOrder(rows[0]) : null
+  }
+
+  public async getOpenOrders(): Promise<ServiceOrder[]> {
+    const rows = await this.database.query(
+      `SELECT * FROM service_orders WHERE status IN (${OPEN_ORDER_STATUSES.map(() => "?").join(", ")})
+       ORDER BY created_at`,
+      OPEN_ORDER_STATUSES,
+    )
+    return rows.map((row: any) => this.mapOrder(row))
+  }
+
+  public async getCustomerOrders(characterId: number): Promise<ServiceOrder[]> {
+    const rows = await this.database.query(
+      "SELECT * FROM service_orders WHERE customer_id = ? ORDER BY created_at DESC LIMIT 10",
+      [characterId],
+    )
+    return rows.map((row: any) => this.mapOrder(row))
+  }
+
+  /**
+   * Opens a repair or modification order for a vehicle the customer owns or holds a key to, and alerts every
+   * on-duty mechanic
+   */
+  public async requestService(
+    customer: any,
+    vehicleId: number,
+    type: ServiceOrder["type"],
+    details: { component?: number; value?: number; note?: string },
+  ): Promise<{ success: boolean; message: string }> {
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(vehicleId)
+    if (!vehicle || !this.hasAccess(customer, vehicleId)) {
+      return { success: false, message: "You can only order work on a vehicle you own or hold a key to." }
+    }
+
+    const open = await this.database.query(
+      `SELECT id FROM service_orders
+       WHERE vehicle_id = ? AND status IN (${OPEN_ORDER_STATUSES.map(() => "?").join(", ")})`,
+      [vehicleId, ...OPEN_ORDER_STATUSES],
+    )
+    if (open.length > 0) {
+      return { success: false, message: `This vehicle already has open order #${open[0].id}.` }
+    }
+
+    const result = await this.database.query(
+      `INSERT INTO service_orders (vehicle_id, customer_id, type, mod_component, mod_value, note)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        vehicleId,
+        customer.characterData.id,
+        type,
+        details.component ?? null,
+        details.value ?? null,
+        details.note ?? null,
+      ],
+    )
+
+    const work = type === "repair" ? "repair" : `modification ${details.component}:${details.value}`
+    global.AmericanRP.getChatManager().sendJobChannelMessage(
+      MECHANIC_JOBS,
+      `[MECHANIC] Order #${result.insertId}: ${work} for ${vehicle.plate}` +
+        `${details.note ? ` (${details.note})` : ""} - /mechanic inspect ${result.insertId}`,
+      "#FF8C00",
+    )
+
+    const mechanics = global.AmericanRP.getJobManager().getOnDutyPlayers(MECHANIC_JOBS).length
+    return {
+      success: true,
+      message: `Order #${result.insertId} opened. ${mechanics} mechanic(s) on duty have been notified.`,
+    }
+  }
+
+  /**
+   * Describes the vehicle's condition and the parts a repair would take, for the mechanic to base a quote on
+   */
+  public async inspectOrder(mechanic: any, orderId: number): Promise<{ success: boolean; message: string }> {
+    const order = await this.getOrder(orderId)
+    if (!order || !["requested", "quoted"].includes(order.status)) {
+      return { success: false, message: "That order is not waiting for a quote." }
+    }
+
+    const entity = this.findVehicleEntity(order.vehicle_id)
+    if (!entity || this.getDistance(mechanic.position, entity.position) > WORK_RANGE) {
+      return { success: false, message: "You must be next to the vehicle to inspect it." }
+    }
+
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(order.vehicle_id)
+    const health = this.getHealth(entity, order.vehicle_id)
+    let message = `Order #${order.id} - ${vehicle?.model ?? "vehicle"} ${vehicle?.plate ?? ""}\n`
+    message += `Engine: ${Math.round(health.engine / 10)}% | Body: ${Math.round(health.body / 10)}%\n`
+    if (order.type === "repair") {
+      message += `Suggested parts: $${this.getSuggestedParts(health).toLocaleString()}`
+      message += ` | Work time: ${Math.ceil(this.getWorkSeconds(order, health) / 60)} min`
+    } else {
+      message += `Modification: component ${order.mod_component}, value ${order.mod_value}`
+      message += ` | Work time: ${Math.ceil(MODIFICATION_SECONDS / 60)} min`
+    }
+    if (order.note) message += `\nCustomer note: ${order.note}`
+    message += `\nUse /mechanic quote ${order.id} [parts] [labor]`
+    return { success: true, message }
+  }
+
+  public async quoteOrder(
+    mechanic: any,
+    orderId: number,
+    partsCost: number,
+    laborCost: number,
+  ): Promise<{ success: boolean; message: string }> {
+    const order = await this.getOrder(orderId)
+    if (!order || !["requested", "quoted"].includes(order.status)) {
+      return { success: false, message: "That order is not waiting for a quote." }
+    }
+    const mechanicId = mechanic.characterData.id
+    if (order.status === "quoted" && order.mechanic_id !== mechanicId) {
+      return { success: false, message: "Another mechanic has already quoted that order." }
+    }
+    if (partsCost + laborCost <= 0 || partsCost + laborCost > MAX_QUOTE) {
+      return { success: false, message: `A quote must be between $1 and $${MAX_QUOTE.toLocaleString()}.` }
+    }
+
+    const entity = this.findVehicleEntity(order.vehicle_id)
+    if (!entity || this.getDistance(mechanic.position, entity.position) > WORK_RANGE) {
+      return { success: false, message: "You must inspect the vehicle before quoting." }
+    }
+
+    const workSeconds = this.getWorkSeconds(order, this.getHealth(entity, order.vehicle_id))
+    // Only the mechanic who quoted an order can revise the quote, and only until the customer answers it
+    const result = await this.database.query(
+      `UPDATE service_orders SET status = 'quoted', mechanic_id = ?, parts_cost = ?, labor_cost = ?, work_seconds = ?,
+       quoted_at = NOW() WHERE id = ? AND (status = 'requested' OR (status = 'quoted' AND mechanic_id = ?))`,
+      [mechanicId, partsCost, laborCost, workSeconds, orderId, mechanicId],
+    )
+    if (result.affectedRows === 0) {
+      return { success: false, message: "That order is not waiting for a quote." }
+    }
+
+    const mechanicName = `${mechanic.characterData.first_name} ${mechanic.characterData.last_name}`
+    const total = partsCost + laborCost
+    await this.notifyCharacter(
+      order.customer_id,
+      `${mechanicName} quoted order #${orderId}: parts $${partsCost.toLocaleString()} + labor ` +
+        `$${laborCost.toLocaleString()} = $${total.toLocaleString()}. Reply with /service accept ${orderId} ` +
+        `or /service reject ${orderId}.`,
+    )
+    return { success: true, message: `Quote of $${total.toLocaleString()} sent for order #${orderId}.` }
+  }
+
+  public async respondToQuote(
+    customer: any,
+    orderId: number,
+    accept: boolean,
+  ): Promise<{ success: boolean; message: string }> {
+    const order = await this.getOrder(orderId)
+    if (!order || order.customer_id !== customer.characterData.id || order.status !== "quoted") {
+      return { success: false, message: "You have no quote with that order number." }
+    }
+
+    // The answer only applies to the quote the customer was shown, not one revised in the meantime
+    const result = await this.database.query(
+      "UPDATE service_orders SET status = ? WHERE id = ? AND status = 'quoted' AND parts_cost = ? AND labor_cost = ?",
+      [accept ? "accepted" : "rejected", orderId, order.parts_cost, order.labor_cost],
+    )
+    if (result.affectedRows === 0) {
+      return { success: false, message: `The quote for order #${orderId} just changed. Check it with /service list.` }
+    }
+
+    if (order.mechanic_id) {
+      await this.notifyCharacter(
+        order.mechanic_id,
+        accept
+          ? `Order #${orderId} was accepted. Start with /mechanic work ${orderId} at a shop.`
+          : `Order #${orderId} was rejected by the customer.`,
+      )
+    }
+
+    const total = order.parts_cost + order.labor_cost
+    return {
+      success: true,
+      message: accept
+        ? `Quote accepted. $${total.toLocaleString()} will be charged to your bank account when work begins.`
+        : `Quote for order #${orderId} rejected.`,
+    }
+  }
+
+  public async cancelOrder(customer: any, orderId: number): Promise<{ success: boolean; message: string }> {
+    const order = await this.getOrder(orderId)
+    if (!order || order.customer_id !== customer.characterData.id) {
+      return { success: false, message: "You have no order with that number." }
+    }
+    if (!["requested", "quoted", "accepted"].includes(order.status)) {
+      return { success: false, message: "Work on that order has already begun or it is closed." }
+    }
+
+    await this.database.query("UPDATE service_orders SET status = 'cancelled' WHERE id = ?", [orderId])
+    if (order.mechanic_id) {
+      await this.notifyCharacter(order.mechanic_id, `Order #${orderId} was cancelled by the customer.`)
+    }
+    return { success: true, message: `Order #${orderId} cancelled.` }
+  }
+
+  /**
+   * Starts or resumes work on an accepted order with the vehicle at a shop. The customer's bank account is charged
+   * when work first begins: the mechanic gets their share of the labor and the shop the parts and the rest.
+   */
+  public async startWork(mechanic: any, orderId: number): Promise<{ success: boolean; message: string }> {
+    if (this.work.has(mechanic.id)) {
+      return { success: false, message: "You are already working on an order." }
+    }
+
+    const order = await this.getOrder(orderId)
+    const resuming = order?.status === "in_progress" && order.mechanic_id === mechanic.characterData.id
+    if (!order || (order.status !== "accepted" && !resuming)) {
+      return { success: false, message: "That order has no accepted quote." }
+    }
+    if (Array.from(this.work.values()).some((work) => work.orderId === orderId)) {
+      return { success: false, message: "Someone is already working on that order." }
+    }
+
+    const entity = this.findVehicleEntity(order.vehicle_id)
+    if (!entity || this.getDistance(mechanic.position, entity.position) > WORK_RANGE) {
+      return { success: false, message: "You must be next to the vehicle to work on it." }
+    }
+    if (!MECHANIC_SHOPS.some((shop) => this.getDistance(entity.position, shop.position) <= shop.radius)) {
+      return { success: false, message: "The vehicle must be at a shop. Call a tow truck with /calltow shop." }
+    }
+
+    if (!resuming) {
+      const paid = await this.chargeOrder(mechanic, order)
+      if (!paid) {
+        await this.notifyCharacter(order.customer_id, `Your bank account could not cover order #${orderId}.`)
+        return { success: false, message: "The customer cannot pay for this order right now." }
+      }
+    }
+
+    this.work.set(mechanic.id, { orderId, lastTick: Date.now(), paused: false })
+    const remaining = Math.ceil((order.work_seconds - order.progress_seconds) / 60)
+    const verb = resuming ? "Resumed" : "Started"
+    return { success: true, message: `${verb} work on order #${orderId}. Stay with the vehicle for ${remaining} min.` }
+  }
+
+  /**
+   * Claims the order and moves both shares in one commit, so a customer who cannot pay leaves it accepted. Without a
+   * shop faction the parts and shop labor still leave the customer's account, paid to the world.
+   */
+  private async chargeOrder(mechanic: any, order: ServiceOrder): Promise<boolean> {
+    const total = order.parts_cost + order.labor_cost
+    const shopLabor = Math.round(order.labor_cost * this.config.shopShare * 100) / 100
+    const mechanicShare = Math.round((order.labor_cost - shopLabor) * 100) / 100
+    const shopFactionId = await this.getShopFactionId()
+    const shopShare = Math.round((total - mechanicShare) * 100) / 100
+    const economyManager = global.AmericanRP.getEconomyManager()
+
+    try {
+      await this.database.transaction(async (connection) => {
+        const [claim] = await connection.execute<ResultSetHeader>(
+          `UPDATE service_orders SET status = 'in_progress', mechanic_id = ?, mechanic_share = ?, shop_share = ?,
+           paid_at = NOW() WHERE id = ? AND status = 'accepted'`,
+          [mechanic.characterData.id, mechanicShare, shopShare, order.id],
+        )
+        if (claim.affectedRows === 0) throw new Error("order_taken")
+
+        const customer = { type: "bank" as const, characterId: order.customer_id }
+        if (mechanicShare > 0) {
+          const toMechanic = await economyManager.transfer(
+            customer,
+            { type: "bank", characterId: mechanic.characterData.id },
+            mechanicShare,
+            "purchase",
+            `Service order #${order.id}`,
+            connection,
+          )
+          if (!toMechanic.success) throw new Error(toMechanic.error)
+        }
+
+        if (shopShare > 0) {
+          const toShop = await economyManager.transfer(
+            customer,
+            shopFactionId ? { type: "faction", factionId: shopFactionId } : null,
+            shopShare,
+            "purchase",
+            `Service order #${order.id} parts and shop labor`,
+            connection,
+          )
+          if (!toShop.success) throw new Error(toShop.error)
+        }
+      })
+    } catch {
+      return false
+    }
+
+    await this.notifyCharacter(
+      order.customer_id,
+      `Work on order #${order.id} has begun. $${total.toLocaleString()} was charged to your bank account.`,
+    )
+    return true
+  }
+
+  public stopWork(player: any): boolean {
+    return this.work.delete(player.id)
+  }
+
+  // Work only progresses while the mechanic stays on duty next to the vehicle
+  private async processWork(): Promise<void> {
+    const now = Date.now()
+    for (const [playerId, work] of this.work) {
+      const mechanic = global.AmericanRP.getPlayerManager().getPlayerById(playerId)
+      if (!mechanic || !this.isMechanic(mechanic)) {
+        this.work.delete(playerId)
+        continue
+      }
+
+      const elapsed = Math.round((now - work.lastTick) / 1000)
+      work.lastTick = now
+
+      try {
+        const order = await this.getOrder(work.orderId)
+        if (!order || order.status !== "in_progress") {
+          this.work.delete(playerId)
+          continue
+        }
+
+        const entity = this.findVehicleEntity(order.vehicle_id)
+        if (!entity || this.getDistance(mechanic.position, entity.position) > WORK_RANGE) {
+          if (!work.paused) {
+            work.paused = true
+            this.sendMechanicMessage(mechanic, `Work on order #${order.id} paused. Return to the vehicle.`, "info")
+          }
+          continue
+        }
+        work.paused = false
+
+        const progress = Math.min(order.work_seconds, order.progress_seconds + elapsed)
+        await this.database.query("UPDATE service_orders SET progress_seconds = ? WHERE id = ?", [progress, order.id])
+        if (progress >= order.work_seconds) {
+          this.work.delete(playerId)
+          await this.completeOrder(mechanic, order, entity)
+        }
+      } catch (error) {
+        this.logger.error("Error processing mechanic work:", error)
+      }
+    }
+  }
+
+  private async completeOrder(mechanic: any, order: ServiceOrder, entity: any): Promise<void> {
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    const result =
+      order.type === "repair"
+        ? await vehicleManager.restoreVehicleHealth(order.vehicle_id)
+        : await vehicleManager.modifyVehicle(order.vehicle_id, order.mod_component ?? 0, order.mod_value ?? 0)
+    if (!result.success) {
+      this.sendMechanicMessage(mechanic, `Order #${order.id} could not be completed: ${result.message}`, "error")
+      return
+    }
+
+    if (order.type === "repair") {
+      entity.repair()
+    } else {
+      entity.setMod(order.mod_component, order.mod_value)
+    }
+
+    await this.database.query("UPDATE service_orders SET status = 'completed', completed_at = NOW() WHERE id = ?", [
+      order.id,
+    ])
+    await global.AmericanRP.getJobManager().recordTaskCompleted(mechanic)
+    this.eventManager.emit("mechanic:orderCompleted", mechanic, order)
+
+    const vehicle = vehicleManager.getVehicle(order.vehicle_id)
+    await this.notifyCharacter(
+      order.customer_id,
+      `Order #${order.id} is done. Your ${vehicle?.plate ?? "vehicle"} is ready.`,
+    )
+    this.sendMechanicMessage(
+      mechanic,
+      `Order #${order.id} completed. You earned $${order.mechanic_share.toLocaleString()}.`,
+      "success",
+    )
+  }
+
+  // Tow requests
+
+  public async getOpenTows(): Promise<TowRequest[]> {
+    const rows = await this.database.query(
+      "SELECT * FROM tow_requests WHERE status IN ('requested', 'accepted') ORDER BY created_at",
+    )
+    return rows.map((row: any) => this.mapTow(row))
+  }
+
+  /**
+   * Asks for the vehicle next to the requester to be towed. Owners send their vehicles to a shop and pay the fee on
+   * delivery; on-duty law enforcement sends vehicles to the impound lot at the government's expense.
+   */
+  public async requestTow(
+    requester: any,
+    destination: TowRequest["destination"],
+    reason: string | null,
+  ): Promise<{ success: boolean; message: string }> {
+    const entity = requester.vehicle ?? this.getNearestVehicle(requester)
+    const vehicleId: number | undefined = entity?.getVariable("vehicleId")
+    if (!vehicleId) {
+      return { success: false, message: "There is no registered vehicle next to you." }
+    }
+
+    if (destination === "impound") {
+      if (!global.AmericanRP.getJobManager().isOnDuty(requester, LAW_ENFORCEMENT_JOBS)) {
+        return { success: false, message: "Only on-duty law enforcement can send vehicles to the impound lot." }
+      }
+      if (!reason) {
+        return { success: false, message: "Give a reason for the impound." }
+      }
+    } else if (!this.hasAccess(requester, vehicleId)) {
+      return { success: false, message: "You can only call a tow for a vehicle you own or hold a key to." }
+    }
+
+    const open = await this.database.query(
+      "SELECT id FROM tow_requests WHERE vehicle_id = ? AND status IN ('requested', 'accepted')",
+      [vehicleId],
+    )
+    if (open.length > 0) {
+      return { success: false, message: `A tow truck was already called for this vehicle (#${open[0].id}).` }
+    }
+
+    const result = await this.database.query(
+      "INSERT INTO tow_requests (vehicle_id, requested_by, destination, reason) VALUES (?, ?, ?, ?)",
+      [vehicleId, requester.characterData.id, destination, reason],
+    )
+
+    const plate = global.AmericanRP.getVehicleManager().getVehicle(vehicleId)?.plate ?? "unknown"
+    global.AmericanRP.getChatManager().sendJobChannelMessage(
+      TOW_JOBS,
+      `[TOW] Request #${result.insertId}: ${plate} to the ${destination === "shop" ? "shop" : "impound lot"}` +
+        ` - /tow accept ${result.insertId}`,
+      "#FF8C00",
+    )
+
+    const drivers = global.AmericanRP.getJobManager().getOnDutyPlayers(TOW_JOBS).length
+    return { success: true, message: `Tow request #${result.insertId} sent to ${drivers} tow driver(s) on duty.` }
+  }
+
+  public async acceptTow(driver: any, towId: number): Promise<{ success: boolean; message: string }> {
+    if (await this.getDriverTow(driver)) {
+      return { success: false, message: "Deliver your current tow first." }
+    }
+
+    const rows = await this.database.query("SELECT * FROM tow_requests WHERE id = ? AND status = 'requested'", [
+      towId,
+    ])
+    if (rows.length === 0) {
+      return { success: false, message: "That tow request is not waiting for a driver." }
+    }
+
+    const tow = this.mapTow(rows[0])
+    const entity = this.findVehicleEntity(tow.vehicle_id)
+    if (!entity) {
+      await this.database.query("UPDATE tow_requests SET status = 'cancelled' WHERE id = ?", [towId])
+      return { success: false, message: "The vehicle is no longer there. The request was cancelled." }
+    }
+
+    const result = await this.database.query(
+      `UPDATE tow_requests SET status = 'accepted', driver_id = ?, accepted_at = NOW()
+       WHERE id = ? AND status = 'requested'`,
+      [driver.characterData.id, towId],
+    )
+    if (result.affectedRows === 0) {
+      return { success: false, message: "That tow request is not waiting for a driver." }
+    }
+
+    driver.call("setWaypoint", [entity.position.x, entity.position.y])
+    await this.notifyCharacter(tow.requested_by, `A tow truck is on the way for request #${towId}.`)
+    return { success: true, message: `You accepted tow #${towId}. A waypoint to the vehicle has been set.` }
+  }
+
+  /**
+   * Completes the driver's tow once the vehicle is at its destination. Impounded vehicles are removed from the
+   * street; shop tows are left at the shop for a service order.
+   */
+  public async deliverTow(driver: any): Promise<{ success: boolean; message: string }> {
+    const tow = await this.getDriverTow(driver)
+    if (!tow) {
+      return { success: false, message: "You have no tow in progress." }
+    }
+
+    const entity = this.findVehicleEntity(tow.vehicle_id)
+    if (!entity) {
+      await this.database.query("UPDATE tow_requests SET status = 'cancelled' WHERE id = ?", [tow.id])
+      return { success: false, message: "The vehicle is gone. The tow was cancelled." }
+    }
+
+    const atDestination =
+      tow.destination === "impound"
+        ? this.getDistance(entity.position, IMPOUND_LOT) <= DELIVERY_RANGE
+        : MECHANIC_SHOPS.some((shop) => this.getDistance(entity.position, shop.position) <= DELIVERY_RANGE)
+    if (!atDestination) {
+      driver.call("setWaypoint", this.getTowWaypoint(tow, entity.position))
+      return { success: false, message: "The vehicle is not at its destination yet. A waypoint has been set." }
+    }
+
+    if (tow.destination === "impound") {
+      const impound = await global.AmericanRP.getVehicleManager().impoundVehicle(
+        tow.vehicle_id,
+        tow.reason ?? "Towed",
+        tow.requested_by,
+      )
+      if (!impound.success) {
+        return { success: false, message: impound.message }
+      }
+      entity.destroy()
+    }
+
+    const from =
+      tow.destination === "impound"
+        ? { type: "government" as const }
+        : { type: "bank" as const, characterId: tow.requested_by }
+
+    // Closing the tow and paying the fee share one commit, so delivering twice cannot pay twice
+    let fee: number
+    try {
+      fee = await this.database.transaction(async (connection) => {
+        const [delivered] = await connection.execute<ResultSetHeader>(
+          "UPDATE tow_requests SET status = 'delivered', delivered_at = NOW() WHERE id = ? AND status = 'accepted'",
+          [tow.id],
+        )
+        if (delivered.affectedRows === 0) throw new Error("tow_closed")
+
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          from,
+          { type: "bank", characterId: driver.characterData.id },
+          this.config.towFee,
+          tow.destination === "impound" ? "salary" : "purchase",
+          `Tow #${tow.id}`,
+          connection,
+        )
+        if (!payment.success) return 0
+
+        await connection.execute("UPDATE tow_requests SET fee = ? WHERE id = ?", [this.config.towFee, tow.id])
+        return this.config.towFee
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === "tow_closed") {
+        return { success: false, message: "That tow has already been delivered or cancelled." }
+      }
+      throw error
+    }
+    await global.AmericanRP.getJobManager().recordTaskCompleted(driver)
+    await this.notifyCharacter(
+      tow.requested_by,
+      tow.destination === "impound"
+        ? `Tow #${tow.id} delivered the vehicle to the impound lot.`
+        : `Tow #${tow.id} delivered your vehicle to the shop${fee > 0 ? ` for $${fee.toLocaleString()}` : ""}.`,
+    )
+
+    return {
+      success: true,
+      message:
+        fee > 0
+          ? `Tow #${tow.id} delivered. You earned $${fee.toLocaleString()}.`
+          : `Tow #${tow.id} delivered, but the fee could not be collected.`,
+    }
+  }
+
+  public async cancelTow(player: any, towId?: number): Promise<{ success: boolean; message: string }> {
+    const characterId = player.characterData.id
+
+    // Drivers hand their tow back to the queue; requesters withdraw it
+    const driverTow = await this.getDriverTow(player)
+    if (driverTow && (towId === undefined || towId === driverTow.id)) {
+      await this.database.query(
+        "UPDATE tow_requests SET status = 'requested', driver_id = NULL, accepted_at = NULL WHERE id = ?",
+        [driverTow.id],
+      )
+      await this.notifyCharacter(driverTow.requested_by, `The tow driver dropped request #${driverTow.id}.`)
+      return { success: true, message: `Tow #${driverTow.id} is back in the queue.` }
+    }
+
+    const result = await this.database.query(
+      `UPDATE tow_requests SET status = 'cancelled'
+       WHERE requested_by = ? AND status IN ('requested', 'accepted')${towId !== undefined ? " AND id = ?" : ""}`,
+      towId !== undefined ? [characterId, towId] : [characterId],
+    )
+    return result.affectedRows > 0
+      ? { success: true, message: "Tow request cancelled." }
+      : { success: false, message: "You have no open tow request." }
+  }
+
+  private async getDriverTow(driver: any): Promise<TowRequest | null> {
+    const rows = await this.database.query(
+      "SELECT * FROM tow_requests WHERE driver_id = ? AND status = 'accepted' LIMIT 1",
+      [driver.characterData.id],
+    )
+    return rows.length > 0 ? this.mapTow(rows[0]) : null
+  }
+
+  private getTowWaypoint(tow: TowRequest, from: Position): [number, number] {
+    if (tow.destination === "impound") return [IMPOUND_LOT.x, IMPOUND_LOT.y]
+
+    const shop = MECHANIC_SHOPS.reduce((nearest, candidate) =>
+      this.getDistance(from, candidate.position) < this.getDistance(from, nearest.position) ? candidate : nearest,
+    )
+    return [shop.position.x, shop.position.y]
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "requestrepair",
+        description: "Order a repair for the vehicle you are in or next to",
+        usage: "/requestrepair [note]",
+        params: [{ name: "note", type: "text", optional: true, max: 200 }],
+        adminLevel: 0,
+        category: "Mechanic",
+        execute: (player, _args, params) => this.handleRequestCommand(player, "repair", params),
+      },
+      {
+        name: "requestmod",
+        description: "Order a modification for the vehicle you are in or next to",
+        usage: "/requestmod [component] [value]",
+        params: [
+          { name: "component", type: "integer", min: 0, max: 48 },
+          { name: "value", type: "integer", min: -1, max: 100 },
+        ],
+        adminLevel: 0,
+        category: "Mechanic",
+        execute: (player, _args, params) => this.handleRequestCommand(player, "modification", params),
+      },
+      {
+        name: "service",
+        description: "Review your service orders and answer quotes",
+        usage: "/service list | accept [id] | reject [id] | cancel [id]",
+        params: [
+          { name: "action", type: "word", choices: ["list", "accept", "reject", "cancel"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Mechanic",
+        execute: (player, _args, params) => this.handleServiceCommand(player, params),
+      },
+      {
+        name: "mechanic",
+        description: "Work service orders (on-duty mechanics)",
+        usage: "/mechanic orders | inspect [id] | quote [id] [parts] [labor] | work [id] | stop | stats",
+        params: [
+          { name: "action", type: "word", choices: ["orders", "inspect", "quote", "work", "stop", "stats"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+          { name: "parts", type: "money", optional: true },
+          { name: "labor", type: "money", optional: true },
+        ],
+        adminLevel: 0,
+        category: "Mechanic",
+        execute: (player, _args, params) => this.handleMechanicCommand(player, params),
+      },
+      {
+        name: "calltow",
+        description: "Call a tow truck for the vehicle next to you, to a shop or (law enforcement) the impound lot",
+        usage: "/calltow [shop|impound] [reason]",
+        params: [
+          { name: "destination", type: "word", choices: ["shop", "impound"] },
+          { name: "reason", type: "text", optional: true, max: 200 },
+        ],
+        adminLevel: 0,
+        category: "Mechanic",
+        execute: (player, _args, params) => this.handleCallTowCommand(player, params),
+      },
+      {
+        name: "tow",
+        description: "Take and deliver tow requests (on-duty tow drivers); cancel your own request",
+        usage: "/tow list | accept [id] | deliver | cancel [id]",
+        params: [
+          { name: "action", type: "word", choices: ["list", "accept", "deliver", "cancel"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Mechanic",
+        execute: (player, _args, params) => this.handleTowCommand(player, params),
+      },
+    ])
+  }
+
+  private async handleRequestCommand(
+    player: any,
+    type: ServiceOrder["type"],
+    params: CommandParams,
+  ): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      const entity = player.vehicle ?? this.getNearestVehicle(player)
+      const vehicleId: number | undefined = entity?.getVariable("vehicleId")
+      if (!vehicleId) {
+        this.sendMechanicMessage(player, "You must be in or next to your vehicle.", "error")
+        return
+      }
+
+      const result = await this.requestService(player, vehicleId, type, {
+        component: params.component,
+        value: params.value,
+        note: params.note,
+      })
+      this.sendMechanicMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error requesting service:", error)
+      this.sendMechanicMessage(player, "An error occurred while opening the order.", "error")
+    }
+  }
+
+  private async handleServiceCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      if (params.action === "list") {
+        await this.showCustomerOrders(player)
+        return
+      }
+
+      if (params.id === undefined) {
+        this.sendMechanicMessage(player, `Usage: /service ${params.action} [id]`, "error")
+        return
+      }
+
+      const result =
+        params.action === "cancel"
+          ? await this.cancelOrder(player, params.id)
+          : await this.respondToQuote(player, params.id, params.action === "accept")
+      this.sendMechanicMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling service command:", error)
+      this.sendMechanicMessage(player, "An error occurred with your order.", "error")
+    }
+  }
+
+  private async handleMechanicCommand(player: any, params: CommandParams): Promise<void> {
+    if (params.action === "stats") {
+      await this.showMechanicStats(player)
+      return
+    }
+
+    if (!player.characterData || !this.isMechanic(player)) {
+      this.sendMechanicMessage(player, "Only on-duty mechanics can do that.", "error")
+      return
+    }
+
+    try {
+      if (params.action === "orders") {
+        await this.showOpenOrders(player)
+        return
+      }
+
+      if (params.action === "stop") {
+        const stopped = this.stopWork(player)
+        this.sendMechanicMessage(
+          player,
+          stopped ? "Work paused. Resume with /mechanic work [id]." : "You are not working on an order.",
+          stopped ? "info" : "error",
+        )
+        return
+      }
+
+      if (params.id === undefined) {
+        this.sendMechanicMessage(player, `Usage: /mechanic ${params.action} [id]`, "error")
+        return
+      }
+
+      let result: { success: boolean; message: string }
+      if (params.action === "inspect") {
+        result = await this.inspectOrder(player, params.id)
+        if (result.success) {
+          this.sendMechanicMessage(player, result.message, "info")
+          return
+        }
+      } else if (params.action === "quote") {
+        if (params.parts === undefined || params.labor === undefined) {
+          this.sendMechanicMessage(player, "Usage: /mechanic quote [id] [parts] [labor]", "error")
+          return
+        }
+        result = await this.quoteOrder(player, params.id, params.parts, params.labor)
+      } else {
+        result = await this.startWork(player, params.id)
+      }
+      this.sendMechanicMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling mechanic command:", error)
+      this.sendMechanicMessage(player, "An error occurred with the order.", "error")
+    }
+  }
+
+  private async handleCallTowCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      const result = await this.requestTow(player, params.destination, params.reason ?? null)
+      this.sendMechanicMessage(player, result.message, result.success ? "success" : "error", "TOW")
+    } catch (error) {
+      this.logger.error("Error requesting tow:", error)
+      this.sendMechanicMessage(player, "An error occurred while calling a tow truck.", "error", "TOW")
+    }
+  }
+
+  private async handleTowCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      // Requesters can withdraw their own request without being a tow driver
+      if (params.action === "cancel") {
+        const result = await this.cancelTow(player, params.id)
+        this.sendMechanicMessage(player, result.message, result.success ? "success" : "error", "TOW")
+        return
+      }
+
+      if (!this.isTowDriver(player)) {
+        this.sendMechanicMessage(player, "Only on-duty tow drivers can do that.", "error", "TOW")
+        return
+      }
+
+      let result: { success: boolean; message: string }
+      if (params.action === "list") {
+        await this.showOpenTows(player)
+        return
+      } else if (params.action === "accept") {
+        if (params.id === undefined) {
+          this.sendMechanicMessage(player, "Usage: /tow accept [id]", "error", "TOW")
+          return
+        }
+        result = await this.acceptTow(player, params.id)
+      } else {
+        result = await this.deliverTow(player)
+      }
+      this.sendMechanicMessage(player, result.message, result.success ? "success" : "error", "TOW")
+    } catch (error) {
+      this.logger.error("Error handling tow command:", error)
+      this.sendMechanicMessage(player, "An error occurred with the tow.", "error", "TOW")
+    }
+  }
+
+  private async showCustomerOrders(player: any): Promise<void> {
+    const orders = await this.getCustomerOrders(player.characterData.id)
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+
+    let message = "=== Your Service Orders ===\n"
+    if (orders.length === 0) message += "No orders. Use /requestrepair or /requestmod."
+    for (const order of orders) {
+      const plate = vehicleManager.getVehicle(order.vehicle_id)?.plate ?? "unknown"
+      message += `#${order.id} ${order.type} | ${plate} | ${order.status.replace("_", " ")}`
+      if (order.status !== "requested") {
+        message += ` | $${(order.parts_cost + order.labor_cost).toLocaleString()}`
+      }
+      if (order.status === "in_progress" && order.work_seconds > 0) {
+        message += ` | ${Math.floor((order.progress_seconds / order.work_seconds) * 100)}% done`
+      }
+      message += "\n"
+    }
+    this.sendMechanicMessage(player, message, "info")
+  }
+
+  private async showOpenOrders(player: any): Promise<void> {
+    const orders = await this.getOpenOrders()
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+
+    let message = "=== Open Service Orders ===\n"
+    if (orders.length === 0) message += "No open orders"
+    for (const order of orders) {
+      const vehicle = vehicleManager.getVehicle(order.vehicle_id)
+      const entity = this.findVehicleEntity(order.vehicle_id)
+      const distance = entity ? `${Math.round(this.getDistance(player.position, entity.position))}m away` : "not out"
+      const work = order.type === "repair" ? "repair" : `mod ${order.mod_component}:${order.mod_value}`
+      message += `#${order.id} ${work} | ${vehicle?.plate ?? "unknown"} | ${order.status.replace("_", " ")}`
+      message += ` | ${distance}${order.note ? `: ${order.note}` : ""}\n`
+    }
+    this.sendMechanicMessage(player, message, "info")
+  }
+
+  private async showOpenTows(player: any): Promise<void> {
+    const tows = await this.getOpenTows()
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+
+    let message = "=== Tow Requests ===\n"
+    if (tows.length === 0) message += "No open tow requests"
+    for (const tow of tows) {
+      const entity = this.findVehicleEntity(tow.vehicle_id)
+      const distance = entity ? `${Math.round(this.getDistance(player.position, entity.position))}m away` : "gone"
+      message += `#${tow.id} ${vehicleManager.getVehicle(tow.vehicle_id)?.plate ?? "unknown"} to ${tow.destination}`
+      message += ` | ${tow.status} | ${distance}${tow.reason ? `: ${tow.reason}` : ""}\n`
+    }
+    this.sendMechanicMessage(player, message, "info", "TOW")
+  }
+
+  private async showMechanicStats(player: any): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      const rows = await this.database.query(
+        `SELECT COUNT(*) AS orders, SUM(type = 'repair') AS repairs, COALESCE(SUM(mechanic_share), 0) AS earnings,
+                COALESCE(SUM(shop_share), 0) AS shop
+         FROM service_orders
+         WHERE mechanic_id = ? AND status = 'completed' AND completed_at >= DATE_SUB(NOW(), INTERVAL ? DAY)`,
+        [player.characterData.id, STATS_DAYS],
+      )
+      const row = rows[0]
+
+      let message = `=== Your Service Orders (last ${STATS_DAYS} days) ===\n`
+      message += `Completed: ${row.orders} (${Number(row.repairs ?? 0)} repairs)\n`
+      message += `Earnings: $${Number(row.earnings).toLocaleString()} | Shop: $${Number(row.shop).toLocaleString()}`
+      this.sendMechanicMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing mechanic stats:", error)
+      this.sendMechanicMessage(player, "An error occurred while loading the statistics.", "error")
+    }
+  }
+
+  private hasAccess(player: any, vehicleId: number): boolean {
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+    const characterId = player.characterData.id
+    return (
+      vehicleManager.getVehicle(vehicleId)?.owner_id === characterId ||
+      vehicleManager.hasVehicleKey(vehicleId, characterId)
+    )
+  }
+
+  // Spawned vehicles report their live health; parked ones fall back to the saved values
+  private getHealth(entity: any, vehicleId: number): { engine: number; body: number } {
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicle(vehicleId)
+    return {
+      engine: Number(entity?.engineHealth ?? vehicle?.engine_health ?? 1000),
+      body: Number(entity?.bodyHealth ?? vehicle?.body_health ?? 1000),
+    }
+  }
+
+  private getSuggestedParts(health: { engine: number; body: number }): number {
+    const damage = Math.max(0, 1000 - health.engine) + Math.max(0, 1000 - health.body)
+    return Math.floor(damage * PARTS_PER_DAMAGE_POINT)
+  }
+
+  private getWorkSeconds(order: ServiceOrder, health: { engine: number; body: number }): number {
+    if (order.type === "modification") return MODIFICATION_SECONDS
+
+    const damage = Math.max(0, 1000 - health.engine) + Math.max(0, 1000 - health.body)
+    const seconds = Math.round(damage * REPAIR_SECONDS_PER_DAMAGE_POINT)
+    return Math.min(MAX_REPAIR_SECONDS, Math.max(MIN_REPAIR_SECONDS, seconds))
+  }
+
+  private async getShopFactionId(): Promise<number | null> {
+    if (this.shopFactionId !== undefined) return this.shopFactionId
+
+    try {
+      const rows = await this.database.query("SELECT id FROM factions WHERE tag = ?", [SHOP_TAG])
+      this.shopFactionId = rows[0]?.id ?? null
+    } catch (error) {
+      this.logger.error("Error loading the mechanic shop:", error)
+      return null
+    }
+    return this.shopFactionId ?? null
+  }
+
+  // Online characters get a chat message; offline ones find a text from the shop in their phone inbox
+  private async notifyCharacter(characterId: number, message: string): Promise<void> {
+    const player = this.findOnlineCharacter(characterId)
+    if (player) {
+      this.sendMechanicMessage(player, message, "info")
+      return
+    }
+
+    await global.AmericanRP.getPhoneManager().sendServiceMessage(characterId, SHOP_NAME, message)
+  }
+
+  private findOnlineCharacter(characterId: number): any | undefined {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player: any) => player.isLoggedIn && player.characterData?.id === characterId,
+    )
+  }
+
+  private findVehicleEntity(vehicleId: number): any | null {
+    let found = null
+    mp.vehicles.forEach((vehicle: any) => {
+      if (vehicle.getVariable("vehicleId") === vehicleId) found = vehicle
+    })
+    return found
+  }
+
+  private getNearestVehicle(player: any): any {
+    let nearestVehicle = null
+    let nearestDistance = VEHICLE_RANGE
+
+    mp.vehicles.forEach((vehicle: any) => {
+      const distance = this.getDistance(player.position, vehicle.position)
+      if (distance < nearestDistance) {
+        nearestDistance = distance
+        nearestVehicle = vehicle
+      }
+    })
+
+    return nearestVehicle
+  }
+
+  private mapOrder(row: any): ServiceOrder {
+    return {
+      ...row,
+      parts_cost: Number(row.parts_cost),
+      labor_cost: Number(row.labor_cost),
+      mechanic_share: Number(row.mechanic_share),
+      shop_share: Number(row.shop_share),
+    }
+  }
+
+  private mapTow(row: any): TowRequest {
+    return { ...row, fee: Number(row.fee) }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendMechanicMessage(
+    player: any,
+    message: string,
+    type: "success" | "error" | "info",
+    prefix = "MECHANIC",
+  ): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#FF8C00",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[${prefix}] ${message}`, colors[type])
+  }
+}
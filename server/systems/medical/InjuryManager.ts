@@ -0,0 +1,426 @@
+/**
+ * Injury Manager - Puts characters into a downed state when they die, lets on-duty paramedics revive them, and
+ * respawns them at hospital with a bill once they bleed out
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { envNumber } from "../../core/env"
+import { Logger } from "../../utils/Logger"
+import type { Injury, InjuryCause, MoneyAccount, Position } from "../../types"
+
+export interface InjuryConfig {
+  bleedOutSeconds: number
+  hospitalBill: number
+  newLifeRule: boolean // Respawned characters forget the events that led to their death
+  newLifeRuleMinutes: number // How long they must stay away from where they went down
+}
+
+interface DownedState {
+  injuryId: number
+  characterId: number
+  position: Position
+  bleedOutAt: number
+}
+
+const BLEED_CHECK_INTERVAL = 5 * 1000
+const DOWNED_HEALTH = 10
+const REVIVED_HEALTH = 50
+const REVIVE_RANGE = 3
+const MEDICAL_JOBS = ["Paramedic"]
+
+const HOSPITALS: { name: string; position: Position }[] = [
+  { name: "Pillbox Hill Medical Center", position: { x: 298.6, y: -584.5, z: 43.3 } },
+  { name: "Sandy Shores Medical Center", position: { x: 1839.6, y: 3672.9, z: 34.3 } },
+  { name: "Paleto Bay Medical Center", position: { x: -247.8, y: 6331.2, z: 32.4 } },
+]
+
+function loadInjuryConfig(): InjuryConfig {
+  return {
+    bleedOutSeconds: envNumber("INJURY_BLEED_OUT_SECONDS", 300),
+    hospitalBill: envNumber("INJURY_HOSPITAL_BILL", 750),
+    newLifeRule: process.env.INJURY_NEW_LIFE_RULE !== "false",
+    newLifeRuleMinutes: envNumber("INJURY_NEW_LIFE_RULE_MINUTES", 15),
+  }
+}
+
+export class InjuryManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private config: InjuryConfig
+  private downed: Map<number, DownedState> = new Map()
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("InjuryManager")
+    this.config = loadInjuryConfig()
+
+    this.registerEvents()
+    this.startBleedOutTimer()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("character:spawned", this.handleCharacterSpawned.bind(this))
+    this.eventManager.on("player:disconnected", (player: any) => this.downed.delete(player.id))
+  }
+
+  private startBleedOutTimer(): void {
+    setInterval(() => {
+      const now = Date.now()
+      this.downed.forEach((state, playerId) => {
+        const player = global.AmericanRP.getPlayerManager().getPlayerById(playerId)
+        if (player && now >= state.bleedOutAt) {
+          this.respawnAtHospital(player)
+        }
+      })
+    }, BLEED_CHECK_INTERVAL)
+  }
+
+  public isDowned(player: any): boolean {
+    return this.downed.has(player.id)
+  }
+
+  // Freezing happens on the client, so a downed character who still gets into a vehicle is pulled back out
+  public onPlayerEnterVehicle(player: any): void {
+    if (this.downed.has(player.id)) {
+      player.removeFromVehicle()
+    }
+  }
+
+  public async onPlayerDeath(player: any, reason: number, killer?: any): Promise<void> {
+    if (!player.isLoggedIn || !player.characterData) return
+
+    // Dying again while down keeps the original injury and bleed-out timer
+    const state = this.downed.get(player.id)
+    if (state) {
+      player.spawn(state.position)
+      player.health = DOWNED_HEALTH
+      player.call("client:setDowned", [true, Math.max(0, Math.ceil((state.bleedOutAt - Date.now()) / 1000))])
+      return
+    }
+
+    const attacker = killer && killer !== player ? killer.characterData : null
+    await this.downPlayer(player, attacker ? "assault" : "accident", {
+      weaponHash: reason,
+      attackerId: attacker?.id ?? null,
+    })
+  }
+
+  /**
+   * Puts a character into the downed state where they fell and logs the injury. Downed characters are pulled out of
+   * any vehicle and frozen in place by the client, and the command manager only lets them use medical commands.
+   */
+  public async downPlayer(
+    player: any,
+    cause: InjuryCause,
+    details: { weaponHash?: number | null; attackerId?: number | null } = {},
+  ): Promise<void> {
+    if (this.downed.has(player.id)) return
+
+    const characterId = player.characterData.id
+    const position = { x: player.position.x, y: player.position.y, z: player.position.z }
+
+    try {
+      const result = await this.database.query(
+        `INSERT INTO character_injuries (character_id, cause, weapon_hash, attacker_id, position)
+         VALUES (?, ?, ?, ?, ?)`,
+        [characterId, cause, details.weaponHash ?? null, details.attackerId ?? null, JSON.stringify(position)],
+      )
+
+      this.downed.set(player.id, {
+        injuryId: result.insertId,
+        characterId,
+        position,
+        bleedOutAt: Date.now() + this.config.bleedOutSeconds * 1000,
+      })
+
+      if (player.vehicle) player.removeFromVehicle()
+      player.spawn(position)
+      player.health = DOWNED_HEALTH
+      player.setVariable("downed", true)
+      player.call("client:setDowned", [true, this.config.bleedOutSeconds])
+
+      const minutes = Math.ceil(this.config.bleedOutSeconds / 60)
+      this.sendInjuryMessage(
+        player,
+        `You are down. You will bleed out in ${minutes} minute(s) unless a paramedic revives you.`,
+        "error",
+      )
+      this.eventManager.emit("injury:downed", player, cause)
+      this.logger.info(`${player.characterData.first_name} ${player.characterData.last_name} went down (${cause})`)
+    } catch (error) {
+      this.logger.error("Error downing player:", error)
+    }
+  }
+
+  public async revive(medic: any, target: any): Promise<{ success: boolean; message: string }> {
+    const state = this.downed.get(target.id)
+    if (!state) {
+      return { success: false, message: "That person doesn't need reviving." }
+    }
+
+    if (this.getDistance(medic.position, target.position) > REVIVE_RANGE) {
+      return { success: false, message: "You must be next to the patient to revive them." }
+    }
+
+    try {
+      await this.database.query(
+        "UPDATE character_injuries SET status = 'revived', treated_by = ?, resolved_at = NOW() WHERE id = ?",
+        [medic.characterData.id, state.injuryId],
+      )
+    } catch (error) {
+      this.logger.error("Error reviving player:", error)
+      return { success: false, message: "An error occurred while reviving the patient." }
+    }
+
+    this.clearDowned(target)
+    target.health = REVIVED_HEALTH
+
+    const medicName = `${medic.characterData.first_name} ${medic.characterData.last_name}`
+    this.sendInjuryMessage(target, `You were revived by ${medicName}.`, "success")
+    this.eventManager.emit("injury:resolved", target, "revived")
+    await global.AmericanRP.getJobManager().recordTaskCompleted(medic)
+
+    const patientName = `${target.characterData.first_name} ${target.characterData.last_name}`
+    return { success: true, message: `You revived ${patientName}.` }
+  }
+
+  private async respawnAtHospital(player: any): Promise<void> {
+    const state = this.downed.get(player.id)
+    if (!state) return
+    this.clearDowned(player)
+
+    const hospital = HOSPITALS.reduce((nearest, candidate) =>
+      this.getDistance(state.position, candidate.position) < this.getDistance(state.position, nearest.position)
+        ? candidate
+        : nearest,
+    )
+
+    player.spawn(hospital.position)
+    player.dimension = 0
+    player.health = 100
+
+    const bill = await this.chargeHospitalBill(state.characterId)
+    const charged = bill.transactionId ? this.config.hospitalBill : 0
+    try {
+      await this.database.query(
+        `UPDATE character_injuries SET status = 'respawned', hospital_bill = ?, transaction_id = ?, resolved_at = NOW()
+         WHERE id = ?`,
+        [charged, bill.transactionId, state.injuryId],
+      )
+    } catch (error) {
+      this.logger.error("Error recording hospital respawn:", error)
+    }
+
+    let message = `You were treated at ${hospital.name}.`
+    if (this.config.hospitalBill > 0) {
+      message += bill.transactionId
+        ? ` You were billed $${charged.toLocaleString()}.`
+        : " You couldn't pay the bill, so it was written off."
+    }
+    this.sendInjuryMessage(player, message, "info")
+
+    if (this.config.newLifeRule) {
+      this.sendInjuryMessage(
+        player,
+        `New life rule: you remember nothing of what led to your injury. Stay away from where you went down for ${this.config.newLifeRuleMinutes} minutes.`,
+        "info",
+      )
+    }
+
+    this.eventManager.emit("injury:resolved", player, "respawned")
+  }
+
+  // Bills the bank account first and falls back to cash; an unpayable bill is written off
+  private async chargeHospitalBill(characterId: number): Promise<{ transactionId: number | null }> {
+    if (this.config.hospitalBill <= 0) {
+      return { transactionId: null }
+    }
+
+    const economyManager = global.AmericanRP.getEconomyManager()
+    const sources: MoneyAccount[] = [
+      { type: "bank", characterId },
+      { type: "cash", characterId },
+    ]
+
+    for (const source of sources) {
+      const payment = await economyManager.transfer(
+        source,
+        { type: "government" },
+        this.config.hospitalBill,
+        "fee",
+        "Hospital bill",
+      )
+      if (payment.success) {
+        return { transactionId: payment.transactionId ?? null }
+      }
+    }
+
+    return { transactionId: null }
+  }
+
+  private clearDowned(player: any): void {
+    this.downed.delete(player.id)
+    player.setVariable("downed", false)
+    player.call("client:setDowned", [false, 0])
+  }
+
+  // Leaving while down does not dodge the hospital: the character wakes up there on their next spawn
+  private async handleCharacterSpawned(player: any, character: any): Promise<void> {
+    try {
+      const injuries = await this.database.query(
+        "SELECT * FROM character_injuries WHERE character_id = ? AND status = 'downed' ORDER BY id DESC",
+        [character.id],
+      )
+      if (injuries.length === 0) return
+
+      if (injuries.length > 1) {
+        await this.database.query(
+          "UPDATE character_injuries SET status = 'respawned', resolved_at = NOW() WHERE character_id = ? AND status = 'downed' AND id <> ?",
+          [character.id, injuries[0].id],
+        )
+      }
+
+      const injury = this.toInjury(injuries[0])
+      this.downed.set(player.id, {
+        injuryId: injury.id,
+        characterId: character.id,
+        position: injury.position,
+        bleedOutAt: Date.now(),
+      })
+      await this.respawnAtHospital(player)
+    } catch (error) {
+      this.logger.error("Error resolving injury on spawn:", error)
+    }
+  }
+
+  public async getInjuries(characterId: number, limit = 10): Promise<Injury[]> {
+    const rows = await this.database.query(
+      `SELECT * FROM character_injuries WHERE character_id = ? ORDER BY created_at DESC LIMIT ${Math.floor(limit)}`,
+      [characterId],
+    )
+    return rows.map((row: any) => this.toInjury(row))
+  }
+
+  private toInjury(row: any): Injury {
+    return {
+      id: row.id,
+      character_id: row.character_id,
+      cause: row.cause,
+      weapon_hash: row.weapon_hash,
+      attacker_id: row.attacker_id,
+      position: typeof row.position === "string" ? JSON.parse(row.position) : row.position,
+      status: row.status,
+      treated_by: row.treated_by,
+      hospital_bill: Number(row.hospital_bill),
+      transaction_id: row.transaction_id,
+      created_at: row.created_at,
+      resolved_at: row.resolved_at,
+    }
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "revive",
+        description: "Revive a downed patient (on-duty paramedics only)",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Jobs",
+        execute: (player, _args, params) => this.handleRevive(player, params.player),
+      },
+      {
+        name: "injuries",
+        description: "Show your injury history, or a patient's if you are an on-duty paramedic",
+        params: [{ name: "player", type: "player", optional: true }],
+        adminLevel: 0,
+        category: "Jobs",
+        allowWhileDowned: true,
+        execute: (player, _args, params) => this.showInjuries(player, params.player),
+      },
+    ])
+  }
+
+  private async handleRevive(player: any, target: any): Promise<void> {
+    if (!player.characterData || !global.AmericanRP.getJobManager().isOnDuty(player, MEDICAL_JOBS)) {
+      this.sendInjuryMessage(player, "Only on-duty paramedics can revive patients.", "error")
+      return
+    }
+
+    if (target === player) {
+      this.sendInjuryMessage(player, "You can't revive yourself.", "error")
+      return
+    }
+
+    if (!target.characterData) {
+      this.sendInjuryMessage(player, "That player is not logged in.", "error")
+      return
+    }
+
+    const result = await this.revive(player, target)
+    this.sendInjuryMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async showInjuries(player: any, target?: any): Promise<void> {
+    if (!player.characterData) {
+      this.sendInjuryMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const patient = target ?? player
+    const canViewOthers =
+      global.AmericanRP.getJobManager().isOnDuty(player, MEDICAL_JOBS) || (player.adminLevel || 0) >= 2
+    if (patient !== player && !canViewOthers) {
+      this.sendInjuryMessage(player, "Only on-duty paramedics can view a patient's injury history.", "error")
+      return
+    }
+
+    if (!patient.characterData) {
+      this.sendInjuryMessage(player, "That player is not logged in.", "error")
+      return
+    }
+
+    try {
+      const injuries = await this.getInjuries(patient.characterData.id)
+      const name = `${patient.characterData.first_name} ${patient.characterData.last_name}`
+      if (injuries.length === 0) {
+        this.sendInjuryMessage(player, `${name} has no recorded injuries.`, "info")
+        return
+      }
+
+      let message = `=== Injury History: ${name} ===\n`
+      for (const injury of injuries) {
+        const date = new Date(injury.created_at).toLocaleString()
+        const bill = injury.hospital_bill > 0 ? ` | Bill: $${injury.hospital_bill.toLocaleString()}` : ""
+        message += `${date} | ${injury.cause} | ${injury.status}${bill}\n`
+      }
+      this.sendInjuryMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing injuries:", error)
+      this.sendInjuryMessage(player, "An error occurred while loading the injury history.", "error")
+    }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendInjuryMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[EMS] ${message}`, colors[type])
+  }
+}
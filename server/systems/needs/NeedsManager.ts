@@ -0,0 +1,397 @@
+/**
+ * Needs Manager - Decays hunger and thirst over online time, applies their health penalties, and handles eating,
+ * drinking and buying food at stores and restaurants
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { envNumber } from "../../core/env"
+import { Logger } from "../../utils/Logger"
+import type { BusinessType, CommandParams, ContainerRef, Position, Property } from "../../types"
+
+export interface NeedsConfig {
+  enabled: boolean
+  hungerDecayPerHour: number
+  thirstDecayPerHour: number
+  lowThreshold: number // Below this, each tick costs health
+  healthPenalty: number // Health lost per tick while hungry or thirsty
+  afkMinutes: number // Standing still this long pauses decay
+}
+
+const TICK_INTERVAL = 60 * 1000
+const MAX_NEED = 100
+const RECOVERY_LEVEL = 15 // Hunger and thirst a character is left with after being treated for collapsing
+const SHOP_RANGE = 10
+
+// Food and drink sold by business type, in dollars per unit
+const FOOD_MENU: Partial<Record<BusinessType, { itemKey: string; price: number }[]>> = {
+  store: [
+    { itemKey: "water", price: 5 },
+    { itemKey: "soda", price: 4 },
+    { itemKey: "coffee", price: 4 },
+    { itemKey: "sandwich", price: 10 },
+    { itemKey: "donut", price: 3 },
+  ],
+  restaurant: [
+    { itemKey: "burger", price: 15 },
+    { itemKey: "sandwich", price: 12 },
+    { itemKey: "soda", price: 5 },
+    { itemKey: "coffee", price: 5 },
+  ],
+  gas_station: [
+    { itemKey: "water", price: 6 },
+    { itemKey: "soda", price: 5 },
+    { itemKey: "donut", price: 4 },
+  ],
+}
+
+function loadNeedsConfig(): NeedsConfig {
+  return {
+    enabled: process.env.NEEDS_ENABLED !== "false",
+    hungerDecayPerHour: envNumber("NEEDS_HUNGER_DECAY_PER_HOUR", 20),
+    thirstDecayPerHour: envNumber("NEEDS_THIRST_DECAY_PER_HOUR", 30),
+    lowThreshold: envNumber("NEEDS_LOW_THRESHOLD", 20),
+    healthPenalty: envNumber("NEEDS_HEALTH_PENALTY", 2),
+    afkMinutes: envNumber("NEEDS_AFK_MINUTES", 5),
+  }
+}
+
+export class NeedsManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private config: NeedsConfig
+  private activity: Map<number, { position: Position; lastActive: number }> = new Map()
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("NeedsManager")
+    this.config = loadNeedsConfig()
+
+    this.registerEvents()
+
+    if (this.config.enabled) {
+      this.startNeedsTimer()
+    } else {
+      this.logger.info("Hunger and thirst are disabled on this server")
+    }
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("command:executed", (player: any) => this.markActive(player))
+    this.eventManager.on("player:disconnected", (player: any) => this.activity.delete(player.id))
+    this.eventManager.on("injury:resolved", (player: any) => this.recover(player))
+  }
+
+  private startNeedsTimer(): void {
+    setInterval(() => {
+      this.processNeeds()
+    }, TICK_INTERVAL)
+  }
+
+  public getConfig(): NeedsConfig {
+    return this.config
+  }
+
+  private processNeeds(): void {
+    const now = Date.now()
+
+    global.AmericanRP.getPlayerManager()
+      .getConnectedPlayers()
+      .forEach((player) => {
+        if (!player.isLoggedIn || !player.characterData) return
+
+        try {
+          this.trackActivity(player, now)
+          if (this.isPaused(player, now)) return
+          this.decayNeeds(player)
+        } catch (error) {
+          this.logger.error(`Error processing needs for player ${player.name}:`, error)
+        }
+      })
+  }
+
+  // Admin-frozen, downed and AFK players keep their needs where they are
+  private isPaused(player: any, now: number): boolean {
+    if (player.getVariable("frozen") || global.AmericanRP.getInjuryManager().isDowned(player)) return true
+
+    const activity = this.activity.get(player.id)
+    return !!activity && now - activity.lastActive >= this.config.afkMinutes * 60 * 1000
+  }
+
+  private trackActivity(player: any, now: number): void {
+    const position = { x: player.position.x, y: player.position.y, z: player.position.z }
+    const activity = this.activity.get(player.id)
+
+    if (!activity || this.getDistance(activity.position, position) > 1) {
+      this.activity.set(player.id, { position, lastActive: now })
+    }
+  }
+
+  private markActive(player: any): void {
+    const activity = this.activity.get(player.id)
+    if (activity) {
+      activity.lastActive = Date.now()
+    }
+  }
+
+  private decayNeeds(player: any): void {
+    const character = player.characterData
+    const wasLow = this.isLow(character)
+    const minutes = TICK_INTERVAL / 60000
+
+    character.hunger = Math.max(0, character.hunger - (this.config.hungerDecayPerHour / 60) * minutes)
+    character.thirst = Math.max(0, character.thirst - (this.config.thirstDecayPerHour / 60) * minutes)
+    this.syncNeeds(player)
+
+    if (character.hunger <= 0 || character.thirst <= 0) {
+      this.collapse(player, character.hunger <= 0 ? "hunger" : "thirst")
+      return
+    }
+
+    if (this.isLow(character)) {
+      player.health = Math.max(1, player.health - this.config.healthPenalty)
+      if (!wasLow) {
+        const need = character.hunger < character.thirst ? "hungry" : "thirsty"
+        this.sendNeedsMessage(player, `You are very ${need}. Eat or drink something before you pass out.`, "error")
+      }
+    }
+  }
+
+  // Collapsing puts the character down like any other injury, to be revived by a paramedic or taken to hospital
+  private collapse(player: any, cause: "hunger" | "thirst"): void {
+    const reason = cause === "hunger" ? "hunger" : "dehydration"
+    this.sendNeedsMessage(player, `You collapsed from ${reason}.`, "error")
+    this.eventManager.emit("needs:collapsed", player, cause)
+    this.logger.info(`${player.characterData.first_name} ${player.characterData.last_name} collapsed from ${reason}`)
+
+    global.AmericanRP.getInjuryManager().downPlayer(player, cause === "hunger" ? "starvation" : "dehydration")
+  }
+
+  private recover(player: any): void {
+    const character = player.characterData
+    if (!character || (character.hunger >= RECOVERY_LEVEL && character.thirst >= RECOVERY_LEVEL)) return
+
+    character.hunger = Math.max(character.hunger, RECOVERY_LEVEL)
+    character.thirst = Math.max(character.thirst, RECOVERY_LEVEL)
+    this.syncNeeds(player)
+    this.sendNeedsMessage(player, "You are weak. Find something to eat and drink.", "info")
+  }
+
+  /**
+   * Eats or drinks one unit of an item from the character's inventory
+   */
+  public async consume(player: any, slot: number): Promise<{ success: boolean; message: string }> {
+    if (global.AmericanRP.getInjuryManager().isDowned(player)) {
+      return { success: false, message: "You can't do that while you are down." }
+    }
+
+    const inventoryManager = global.AmericanRP.getInventoryManager()
+    const container: ContainerRef = { type: "character", id: player.characterData.id }
+    const item = (await inventoryManager.getItems(container))[slot - 1]
+    const definition = item ? inventoryManager.getItemRegistry().get(item.item_key) : undefined
+    if (!item || !definition) {
+      return { success: false, message: `There is nothing in slot ${slot}.` }
+    }
+
+    if (!definition.hunger && !definition.thirst) {
+      return { success: false, message: `You can't eat or drink ${definition.name}.` }
+    }
+
+    const removed = await inventoryManager.removeItem(container, item.item_key, 1, {
+      actorId: player.characterData.id,
+      reason: "consumed",
+    })
+    if (!removed.success) {
+      return removed
+    }
+
+    const character = player.characterData
+    character.hunger = Math.min(MAX_NEED, character.hunger + (definition.hunger ?? 0))
+    character.thirst = Math.min(MAX_NEED, character.thirst + (definition.thirst ?? 0))
+    this.syncNeeds(player)
+
+    const verb = definition.category === "drink" ? "drank" : "ate"
+    return { success: true, message: `You ${verb} a ${definition.name}.` }
+  }
+
+  /**
+   * Buys food or drink at a business, paying the business and putting the items in the buyer's inventory
+   */
+  public async buyFood(player: any, itemKey: string, quantity: number): Promise<{ success: boolean; message: string }> {
+    const business = this.getNearbyFoodBusiness(player)
+    if (!business) {
+      return { success: false, message: "You must be at a store or restaurant." }
+    }
+
+    const entry = FOOD_MENU[business.business_type!]!.find((candidate) => candidate.itemKey === itemKey)
+    if (!entry) {
+      return { success: false, message: `${business.name} doesn't sell that. Use /shop to see the menu.` }
+    }
+
+    const characterId = player.characterData.id
+    const total = entry.price * quantity
+    if (player.characterData.money < total) {
+      return { success: false, message: `You need $${total.toLocaleString()} in cash.` }
+    }
+
+    const inventoryManager = global.AmericanRP.getInventoryManager()
+    const itemName = inventoryManager.getItemRegistry().get(itemKey)?.name ?? itemKey
+
+    try {
+      return await this.database.transaction(async (connection) => {
+        const added = await inventoryManager.addItem(
+          { type: "character", id: characterId },
+          itemKey,
+          quantity,
+          { actorId: characterId, reason: `Bought at ${business.name}` },
+          connection,
+        )
+        if (!added.success) {
+          return added
+        }
+
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "cash", characterId },
+          { type: "property", propertyId: business.id },
+          total,
+          "purchase",
+          `${quantity}x ${itemName} at ${business.name}`,
+          connection,
+        )
+        if (!payment.success) {
+          // Throwing rolls back the items added above
+          throw new Error(`Food payment failed: ${payment.error}`)
+        }
+
+        return { success: true, message: `You bought ${quantity}x ${itemName} for $${total.toLocaleString()}.` }
+      })
+    } catch (error) {
+      this.logger.error("Error buying food:", error)
+      return { success: false, message: "The purchase could not be completed." }
+    }
+  }
+
+  private getNearbyFoodBusiness(player: any): Property | undefined {
+    const property = global.AmericanRP.getPropertyManager().getNearestProperty(player.position, SHOP_RANGE)
+    return property?.business_type && FOOD_MENU[property.business_type] ? property : undefined
+  }
+
+  private isLow(character: any): boolean {
+    return character.hunger < this.config.lowThreshold || character.thirst < this.config.lowThreshold
+  }
+
+  private syncNeeds(player: any): void {
+    player.call("client:updateNeeds", [
+      { hunger: Math.round(player.characterData.hunger), thirst: Math.round(player.characterData.thirst) },
+    ])
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "needs",
+        description: "Show how hungry and thirsty your character is",
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player) => this.showNeeds(player),
+      },
+      {
+        name: "consume",
+        aliases: ["eat", "drink"],
+        description: "Eat or drink an item from your inventory",
+        params: [{ name: "slot", type: "integer", min: 1 }],
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player, _args, params) => this.handleConsume(player, params.slot),
+      },
+      {
+        name: "shop",
+        description: "Show the food and drink sold at the store or restaurant you are at",
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player) => this.showMenu(player),
+      },
+      {
+        name: "buy",
+        description: "Buy food or drink at a store or restaurant",
+        params: [
+          { name: "item", type: "word" },
+          { name: "amount", type: "integer", optional: true, min: 1, max: 10 },
+        ],
+        adminLevel: 0,
+        category: "Inventory",
+        execute: (player, _args, params) => this.handleBuy(player, params),
+      },
+    ])
+  }
+
+  private showNeeds(player: any): void {
+    if (!player.characterData) {
+      this.sendNeedsMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const hunger = Math.round(player.characterData.hunger)
+    const thirst = Math.round(player.characterData.thirst)
+    this.sendNeedsMessage(player, `Hunger: ${hunger}/${MAX_NEED} | Thirst: ${thirst}/${MAX_NEED}`, "info")
+  }
+
+  private async handleConsume(player: any, slot: number): Promise<void> {
+    if (!player.characterData) {
+      this.sendNeedsMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const result = await this.consume(player, slot)
+    this.sendNeedsMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private showMenu(player: any): void {
+    const business = this.getNearbyFoodBusiness(player)
+    if (!business) {
+      this.sendNeedsMessage(player, "You must be at a store or restaurant.", "error")
+      return
+    }
+
+    const registry = global.AmericanRP.getInventoryManager().getItemRegistry()
+    let message = `=== ${business.name} ===\n`
+    for (const entry of FOOD_MENU[business.business_type!]!) {
+      message += `${entry.itemKey} - ${registry.get(entry.itemKey)?.name ?? entry.itemKey}: $${entry.price}\n`
+    }
+    message += "Use /buy [item] [amount] to buy."
+    this.sendNeedsMessage(player, message, "info")
+  }
+
+  private async handleBuy(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendNeedsMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const result = await this.buyFood(player, params.item.toLowerCase(), params.amount ?? 1)
+    this.sendNeedsMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendNeedsMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[NEEDS] ${message}`, colors[type])
+  }
+}
@@ -0,0 +1,526 @@
+/**
+ * Phone Manager - Phone numbers, a persistent SMS inbox and contact list, player-to-player calls with private
+ * in-call chat, and the 911/311 service lines into the dispatch queue
+ */
+
+import type { PoolConnection, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import { DISPATCH_LINES } from "../dispatch/DispatchManager"
+import type { CommandParams, DispatchLine, PhoneContact, PhoneMessage } from "../../types"
+
+interface PhoneCall {
+  caller: any
+  callee: any
+  state: "ringing" | "active"
+  ringTimer?: NodeJS.Timeout
+}
+
+const NUMBER_PREFIX = "555-"
+const NUMBER_ALLOCATION_ATTEMPTS = 20
+const RING_TIMEOUT = 30 * 1000
+const INBOX_LIMIT = 10
+const MAX_CONTACTS = 50
+
+export class PhoneManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private calls: Map<number, PhoneCall> = new Map() // Keyed by the player id of both parties
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("PhoneManager")
+
+    this.registerEvents()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("player:disconnected", (player: any) => this.hangUp(player))
+    this.eventManager.on("character:spawned", this.handleCharacterSpawned.bind(this))
+  }
+
+  /**
+   * Picks an unused 555 number. Pass the character creation transaction's connection so the check and the insert
+   * see the same data; the UNIQUE index on characters.phone_number is the final guard.
+   */
+  public async allocateNumber(connection?: PoolConnection): Promise<string> {
+    for (let attempt = 0; attempt < NUMBER_ALLOCATION_ATTEMPTS; attempt++) {
+      const number = `${NUMBER_PREFIX}${String(100 + Math.floor(Math.random() * 9900)).padStart(4, "0")}`
+      const rows = connection
+        ? (await connection.query<RowDataPacket[]>("SELECT id FROM characters WHERE phone_number = ?", [number]))[0]
+        : await this.database.query("SELECT id FROM characters WHERE phone_number = ?", [number])
+
+      if (rows.length === 0) {
+        return number
+      }
+    }
+
+    throw new Error("No free phone number found")
+  }
+
+  public isInCall(player: any): boolean {
+    return this.calls.get(player.id)?.state === "active"
+  }
+
+  public isRinging(player: any): boolean {
+    const call = this.calls.get(player.id)
+    return call?.state === "ringing" && call.callee === player
+  }
+
+  public async sendSms(sender: any, number: string, body: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const recipients = await this.database.query("SELECT id FROM characters WHERE phone_number = ?", [number])
+      if (recipients.length === 0) {
+        return { success: false, message: `The number ${number} is not in service.` }
+      }
+
+      const recipientId = recipients[0].id
+      await this.database.query(
+        "INSERT INTO phone_messages (sender_id, sender_number, recipient_id, body) VALUES (?, ?, ?, ?)",
+        [sender.characterData.id, sender.characterData.phone_number, recipientId, body],
+      )
+
+      const recipient = this.findOnlineCharacter(recipientId)
+      if (recipient) {
+        const from = await this.describeNumber(recipientId, sender.characterData.phone_number)
+        this.sendPhoneMessage(recipient, `SMS from ${from}: ${body}`, "info")
+      }
+
+      this.eventManager.emit("phone:sms", { senderId: sender.characterData.id, recipientId, body })
+      return { success: true, message: `Message sent to ${number}.` }
+    } catch (error) {
+      this.logger.error("Error sending SMS:", error)
+      return { success: false, message: "Your message could not be sent." }
+    }
+  }
+
+  /**
+   * Delivers a text from a service such as an employer rather than a character, so it reaches offline players through
+   * their inbox
+   */
+  public async sendServiceMessage(recipientId: number, from: string, body: string): Promise<boolean> {
+    try {
+      await this.database.query(
+        "INSERT INTO phone_messages (sender_id, sender_number, recipient_id, body) VALUES (NULL, ?, ?, ?)",
+        [from.slice(0, 20), recipientId, body.slice(0, 255)],
+      )
+
+      const recipient = this.findOnlineCharacter(recipientId)
+      if (recipient) {
+        this.sendPhoneMessage(recipient, `SMS from ${from}: ${body}`, "info")
+      }
+      return true
+    } catch (error) {
+      this.logger.error("Error sending service message:", error)
+      return false
+    }
+  }
+
+  public async getInbox(characterId: number): Promise<PhoneMessage[]> {
+    return this.database.query(
+      `SELECT * FROM phone_messages WHERE recipient_id = ? ORDER BY created_at DESC LIMIT ${INBOX_LIMIT}`,
+      [characterId],
+    )
+  }
+
+  public async getContacts(characterId: number): Promise<PhoneContact[]> {
+    return this.database.query("SELECT * FROM phone_contacts WHERE character_id = ? ORDER BY name", [characterId])
+  }
+
+  public async saveContact(
+    characterId: number,
+    name: string,
+    number: string,
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const contacts = await this.getContacts(characterId)
+      const existing = contacts.find((contact) => contact.name.toLowerCase() === name.toLowerCase())
+      if (!existing && contacts.length >= MAX_CONTACTS) {
+        return { success: false, message: `Your contact list is full (${MAX_CONTACTS}).` }
+      }
+
+      if (existing) {
+        await this.database.query("UPDATE phone_contacts SET number = ? WHERE id = ?", [number, existing.id])
+      } else {
+        await this.database.query("INSERT INTO phone_contacts (character_id, name, number) VALUES (?, ?, ?)", [
+          characterId,
+          name,
+          number,
+        ])
+      }
+
+      return { success: true, message: `Saved ${name} (${number}).` }
+    } catch (error) {
+      this.logger.error("Error saving contact:", error)
+      return { success: false, message: "The contact could not be saved." }
+    }
+  }
+
+  public async removeContact(characterId: number, name: string): Promise<boolean> {
+    const result = await this.database.query("DELETE FROM phone_contacts WHERE character_id = ? AND name = ?", [
+      characterId,
+      name,
+    ])
+    return result.affectedRows > 0
+  }
+
+  /**
+   * Rings the player who owns the number. Calls ring out after RING_TIMEOUT if nobody picks up.
+   */
+  public async startCall(caller: any, number: string): Promise<{ success: boolean; message: string }> {
+    if (this.calls.has(caller.id)) {
+      return { success: false, message: "You are already on a call. Use /hangup first." }
+    }
+
+    if (number === caller.characterData.phone_number) {
+      return { success: false, message: "You can't call your own number." }
+    }
+
+    const callee = Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player) => player.characterData?.phone_number === number,
+    )
+    if (!callee) {
+      return { success: false, message: `The number ${number} is not reachable right now.` }
+    }
+
+    if (this.calls.has(callee.id)) {
+      return { success: false, message: "The line is busy." }
+    }
+
+    const call: PhoneCall = { caller, callee, state: "ringing" }
+    call.ringTimer = setTimeout(() => {
+      if (this.calls.get(caller.id) === call && call.state === "ringing") {
+        this.endCall(call)
+        this.sendPhoneMessage(caller, "No answer.", "info")
+      }
+    }, RING_TIMEOUT)
+    this.calls.set(caller.id, call)
+    this.calls.set(callee.id, call)
+
+    const from = await this.describeNumber(callee.characterData.id, caller.characterData.phone_number)
+    this.sendPhoneMessage(callee, `Incoming call from ${from}. Use /pickup to answer or /hangup to decline.`, "info")
+    return { success: true, message: `Calling ${number}...` }
+  }
+
+  /**
+   * Answers the player's ringing phone. Returns false when nothing is ringing so /pickup can fall back to items.
+   */
+  public answerCall(player: any): boolean {
+    const call = this.calls.get(player.id)
+    if (!call || call.state !== "ringing" || call.callee !== player) {
+      return false
+    }
+
+    clearTimeout(call.ringTimer)
+    call.state = "active"
+    this.sendPhoneMessage(call.caller, "The call was answered. Anything you say now goes through the phone.", "success")
+    this.sendPhoneMessage(player, "Call connected. Anything you say now goes through the phone.", "success")
+    this.eventManager.emit("phone:callStarted", call.caller, call.callee)
+    return true
+  }
+
+  public hangUp(player: any): boolean {
+    const call = this.calls.get(player.id)
+    if (!call) return false
+
+    this.endCall(call)
+    const other = call.caller === player ? call.callee : call.caller
+    this.sendPhoneMessage(other, call.state === "active" ? "The other party hung up." : "The call was declined.", "info")
+    return true
+  }
+
+  private endCall(call: PhoneCall): void {
+    clearTimeout(call.ringTimer)
+    this.calls.delete(call.caller.id)
+    this.calls.delete(call.callee.id)
+
+    if (call.state === "active") {
+      this.eventManager.emit("phone:callEnded", call.caller, call.callee)
+    }
+  }
+
+  /**
+   * Delivers in-call speech to the other party only
+   */
+  public relayCallMessage(player: any, message: string): void {
+    const call = this.calls.get(player.id)
+    if (!call || call.state !== "active") return
+
+    const other = call.caller === player ? call.callee : call.caller
+    const name = `${player.characterData.first_name} ${player.characterData.last_name}`
+    global.AmericanRP.getChatManager().sendMessage(player, `(Phone) You say: ${message}`, "#F0E68C")
+    global.AmericanRP.getChatManager().sendMessage(other, `(Phone) ${name} says: ${message}`, "#F0E68C")
+  }
+
+  /**
+   * Calls a service line: the caller's description and location go into the dispatch queue
+   */
+  public async placeServiceCall(
+    player: any,
+    line: DispatchLine,
+    message: string,
+  ): Promise<{ success: boolean; message: string }> {
+    return global.AmericanRP.getDispatchManager().fileCall(player, line, message)
+  }
+
+  private async handleCharacterSpawned(player: any, character: any): Promise<void> {
+    try {
+      const unread = await this.database.query(
+        "SELECT COUNT(*) AS count FROM phone_messages WHERE recipient_id = ? AND read_at IS NULL",
+        [character.id],
+      )
+      if (unread[0].count > 0) {
+        this.sendPhoneMessage(player, `You have ${unread[0].count} unread message(s). Use /inbox to read them.`, "info")
+      }
+    } catch (error) {
+      this.logger.error("Error checking unread messages:", error)
+    }
+  }
+
+  // Shows a saved contact name for the number if the character has one
+  private async describeNumber(characterId: number, number: string): Promise<string> {
+    const contacts = await this.database.query("SELECT name FROM phone_contacts WHERE character_id = ? AND number = ?", [
+      characterId,
+      number,
+    ])
+    return contacts.length > 0 ? `${contacts[0].name} (${number})` : number
+  }
+
+  // Accepts a number (5551234 or 555-1234) or the name of a saved contact
+  private async resolveNumber(characterId: number, input: string): Promise<string | null> {
+    const digits = input.replace(/-/g, "")
+    if (/^\d{7}$/.test(digits)) {
+      return `${digits.slice(0, 3)}-${digits.slice(3)}`
+    }
+
+    const contacts = await this.database.query("SELECT number FROM phone_contacts WHERE character_id = ? AND name = ?", [
+      characterId,
+      input,
+    ])
+    return contacts.length > 0 ? contacts[0].number : null
+  }
+
+  private findOnlineCharacter(characterId: number): any | undefined {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player) => player.characterData?.id === characterId,
+    )
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "phone",
+        description: "Show your phone number",
+        usage: "/phone",
+        adminLevel: 0,
+        category: "Phone",
+        execute: (player) => this.showPhone(player),
+      },
+      {
+        name: "call",
+        description: "Call a number or contact, or 911/311 with a description of the situation",
+        usage: "/call [number|contact] | /call [911|311] [message]",
+        params: [
+          { name: "number", type: "word" },
+          { name: "message", type: "text", optional: true, max: 200 },
+        ],
+        adminLevel: 0,
+        category: "Phone",
+        allowWhileDowned: true,
+        execute: (player, _args, params) => this.handleCall(player, params),
+      },
+      {
+        name: "hangup",
+        description: "End or decline a call",
+        usage: "/hangup",
+        adminLevel: 0,
+        category: "Phone",
+        execute: (player) => {
+          if (!this.hangUp(player)) {
+            this.sendPhoneMessage(player, "You are not on a call.", "error")
+            return
+          }
+          this.sendPhoneMessage(player, "Call ended.", "info")
+        },
+      },
+      {
+        name: "sms",
+        aliases: ["text"],
+        description: "Send a text message to a number or contact",
+        params: [
+          { name: "number", type: "word" },
+          { name: "message", type: "text", max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Phone",
+        execute: (player, _args, params) => this.handleSms(player, params),
+      },
+      {
+        name: "inbox",
+        description: "Read your latest text messages",
+        usage: "/inbox",
+        adminLevel: 0,
+        category: "Phone",
+        execute: (player) => this.showInbox(player),
+      },
+      {
+        name: "contacts",
+        description: "List, add or remove phone contacts",
+        usage: "/contacts | /contacts add [name] [number] | /contacts remove [name]",
+        params: [
+          { name: "action", type: "word", optional: true, choices: ["list", "add", "remove"] },
+          { name: "name", type: "word", optional: true, max: 32 },
+          { name: "number", type: "word", optional: true },
+        ],
+        adminLevel: 0,
+        category: "Phone",
+        execute: (player, _args, params) => this.handleContacts(player, params),
+      },
+    ])
+  }
+
+  private requireCharacter(player: any): boolean {
+    if (!player.characterData?.phone_number) {
+      this.sendPhoneMessage(player, "You don't have a phone number.", "error")
+      return false
+    }
+    return true
+  }
+
+  private async showPhone(player: any): Promise<void> {
+    if (!this.requireCharacter(player)) return
+
+    const unread = await this.database.query(
+      "SELECT COUNT(*) AS count FROM phone_messages WHERE recipient_id = ? AND read_at IS NULL",
+      [player.characterData.id],
+    )
+    this.sendPhoneMessage(
+      player,
+      `Your number: ${player.characterData.phone_number} | Unread messages: ${unread[0].count}`,
+      "info",
+    )
+  }
+
+  private async handleCall(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireCharacter(player)) return
+
+    // A downed character can still reach emergency services, but nobody else
+    if (params.number !== "911" && global.AmericanRP.getInjuryManager().isDowned(player)) {
+      this.sendPhoneMessage(player, "You can only call 911 while you are down.", "error")
+      return
+    }
+
+    if (Object.prototype.hasOwnProperty.call(DISPATCH_LINES, params.number)) {
+      if (!params.message) {
+        this.sendPhoneMessage(player, `Usage: /call ${params.number} [what is happening and where]`, "error")
+        return
+      }
+      const result = await this.placeServiceCall(player, params.number, params.message)
+      this.sendPhoneMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    const number = await this.resolveNumber(player.characterData.id, params.number)
+    if (!number) {
+      this.sendPhoneMessage(player, `No number or contact named "${params.number}".`, "error")
+      return
+    }
+
+    const result = await this.startCall(player, number)
+    this.sendPhoneMessage(player, result.message, result.success ? "info" : "error")
+  }
+
+  private async handleSms(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireCharacter(player)) return
+
+    const number = await this.resolveNumber(player.characterData.id, params.number)
+    if (!number) {
+      this.sendPhoneMessage(player, `No number or contact named "${params.number}".`, "error")
+      return
+    }
+
+    const result = await this.sendSms(player, number, params.message)
+    this.sendPhoneMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async showInbox(player: any): Promise<void> {
+    if (!this.requireCharacter(player)) return
+
+    try {
+      const characterId = player.characterData.id
+      const messages = await this.getInbox(characterId)
+      const contacts = await this.getContacts(characterId)
+
+      let message = "=== Inbox ===\n"
+      if (messages.length === 0) message += "No messages"
+      for (const sms of messages) {
+        const contact = contacts.find((saved) => saved.number === sms.sender_number)
+        const from = contact ? contact.name : sms.sender_number
+        message += `${sms.read_at ? "" : "[NEW] "}${new Date(sms.created_at).toLocaleString()} ${from}: ${sms.body}\n`
+      }
+      this.sendPhoneMessage(player, message, "info")
+
+      await this.database.query(
+        "UPDATE phone_messages SET read_at = NOW() WHERE recipient_id = ? AND read_at IS NULL",
+        [characterId],
+      )
+    } catch (error) {
+      this.logger.error("Error showing inbox:", error)
+      this.sendPhoneMessage(player, "Your inbox could not be loaded.", "error")
+    }
+  }
+
+  private async handleContacts(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireCharacter(player)) return
+
+    const characterId = player.characterData.id
+    const action = params.action ?? "list"
+
+    if (action === "add") {
+      const number = params.number ? await this.resolveNumber(characterId, params.number) : null
+      if (!params.name || !number) {
+        this.sendPhoneMessage(player, "Usage: /contacts add [name] [number]", "error")
+        return
+      }
+      const result = await this.saveContact(characterId, params.name, number)
+      this.sendPhoneMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    if (action === "remove") {
+      if (!params.name) {
+        this.sendPhoneMessage(player, "Usage: /contacts remove [name]", "error")
+        return
+      }
+      const removed = await this.removeContact(characterId, params.name)
+      this.sendPhoneMessage(
+        player,
+        removed ? `Removed ${params.name}.` : `No contact named ${params.name}.`,
+        removed ? "success" : "error",
+      )
+      return
+    }
+
+    const contacts = await this.getContacts(characterId)
+    let message = "=== Contacts ===\n"
+    if (contacts.length === 0) message += "No contacts"
+    for (const contact of contacts) {
+      message += `${contact.name}: ${contact.number}\n`
+    }
+    this.sendPhoneMessage(player, message, "info")
+  }
+
+  private sendPhoneMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[PHONE] ${message}`, colors[type])
+  }
+}
@@ -2,11 +2,14 @@
  * Character Manager - Handles character creation, selection, and data management
  */
 
+import type { ResultSetHeader } from "mysql2/promise"
 import type { Database } from "../../core/database"
 import type { EventManager } from "../../core/EventManager"
 import { Logger } from "../../utils/Logger"
 import type { Character } from "../../types"
 
+const STARTING_CASH = 5000
+
 export class CharacterManager {
   private database: Database
   private eventManager: EventManager
@@ -89,28 +92,46 @@ export class CharacterManager {
         return
       }
 
-      // Create character
-      const result = await this.database.query(
-        `
-        INSERT INTO characters (
-          user_id, first_name, last_name, age, gender,
-          position_x, position_y, position_z, dimension
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `,
-        [
-          player.userData.id,
-          characterData.firstName,
-          characterData.lastName,
-          characterData.age,
-          characterData.gender,
-          -1037.8,
-          -2738.5,
-          20.1, // Default spawn position
-          0, // Default dimension
-        ],
-      )
+      // Create character with a phone number; starting cash is granted through the ledger so the money supply
+      // accounts for it
+      const characterId = await this.database.transaction(async (connection) => {
+        const phoneNumber = await global.AmericanRP.getPhoneManager().allocateNumber(connection)
+        const [result] = await connection.execute<ResultSetHeader>(
+          `
+          INSERT INTO characters (
+            user_id, first_name, last_name, age, gender, phone_number, money, bank_money,
+            position_x, position_y, position_z, dimension
+          ) VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?, ?, ?, ?)
+        `,
+          [
+            player.userData.id,
+            characterData.firstName,
+            characterData.lastName,
+            characterData.age,
+            characterData.gender,
+            phoneNumber,
+            -1037.8,
+            -2738.5,
+            20.1, // Default spawn position
+            0, // Default dimension
+          ],
+        )
+
+        const grant = await global.AmericanRP.getEconomyManager().transfer(
+          null,
+          { type: "cash", characterId: result.insertId },
+          STARTING_CASH,
+          "grant",
+          "Starting cash",
+          connection,
+        )
+        if (!grant.success) {
+          throw new Error(`Starting cash grant failed: ${grant.error}`)
+        }
+
+        return result.insertId
+      })
 
-      const characterId = result.insertId
       const newCharacter = await this.getCharacterById(characterId)
 
       this.logger.success(
@@ -194,17 +215,16 @@ export class CharacterManager {
 
       const character = player.characterData
 
+      // Balances are not saved here: EconomyManager.transfer writes them as money moves
       await this.database.query(
         `
         UPDATE characters SET 
-          money = ?, bank_money = ?, position_x = ?, position_y = ?, position_z = ?,
+          position_x = ?, position_y = ?, position_z = ?,
           dimension = ?, health = ?, armor = ?, hunger = ?, thirst = ?,
           updated_at = NOW()
         WHERE id = ?
       `,
         [
-          character.money,
-          character.bank_money,
           player.position?.x || character.position_x,
           player.position?.y || character.position_y,
           player.position?.z || character.position_z,
@@ -274,11 +294,15 @@ export class CharacterManager {
     type: "cash" | "bank" = "cash",
   ): Promise<boolean> {
     try {
-      const field = type === "cash" ? "money" : "bank_money"
+      if (amount === 0) return true
 
-      await this.database.query(`UPDATE characters SET ${field} = ${field} + ? WHERE id = ?`, [amount, characterId])
+      const account = { type, characterId }
+      const result =
+        amount > 0
+          ? await global.AmericanRP.getEconomyManager().transfer(null, account, amount, "bonus")
+          : await global.AmericanRP.getEconomyManager().transfer(account, null, -amount, "fee")
 
-      return true
+      return result.success
     } catch (error) {
       this.logger.error("Error updating character money:", error)
       return false
@@ -265,12 +265,37 @@ export class PlayerManager {
 
   public getPlayerByName(playerName: string): any | null {
     // Updated to use 'any' type
+    const matches = this.findPlayersByName(playerName)
+    return matches.length === 1 ? matches[0] : null
+  }
+
+  /**
+   * Finds players by account or character name. Exact matches win over partial ones, so callers can
+   * tell a unique hit apart from an ambiguous query.
+   */
+  public findPlayersByName(query: string): any[] {
+    const needle = query.toLowerCase().replace(/_/g, " ").trim()
+    if (!needle) return []
+
+    const exact: any[] = []
+    const partial: any[] = []
+
     for (const player of this.connectedPlayers.values()) {
-      if (player.name === playerName) {
-        return player
+      const names = [player.name]
+      if (player.characterData) {
+        names.push(`${player.characterData.first_name} ${player.characterData.last_name}`)
+      }
+
+      const normalized = names.filter(Boolean).map((name: string) => name.toLowerCase().replace(/_/g, " "))
+
+      if (normalized.some((name) => name === needle)) {
+        exact.push(player)
+      } else if (normalized.some((name) => name.includes(needle))) {
+        partial.push(player)
       }
     }
-    return null
+
+    return exact.length > 0 ? exact : partial
   }
 
   public async kickPlayer(player: any, reason = "No reason provided"): Promise<void> {
@@ -0,0 +1,481 @@
+/**
+ * Detention Manager - Cuffing, dragging and arresting suspects, and jail time that only counts down while the
+ * prisoner is online
+ */
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import { LAW_ENFORCEMENT_JOBS } from "./MdcManager"
+import type { CommandParams, JailSentence, Position } from "../../types"
+
+interface ServingState {
+  sentenceId: number
+  remainingSeconds: number
+}
+
+const JAIL_DIMENSION = 9000
+const JAIL_POSITION: Position = { x: 459.5, y: -994.0, z: 24.9 }
+const JAIL_ESCAPE_RANGE = 30
+const RELEASE_JOB = "Police Officer" // Prisoners are released at this job's station spawn
+const FALLBACK_RELEASE_POSITION: Position = { x: 434.0, y: -981.9, z: 30.7 }
+
+const JAIL_TICK_INTERVAL = 10 * 1000
+const SAVE_EVERY_TICKS = 6 // Remaining time is written to MySQL once a minute
+const DRAG_INTERVAL = 500
+const CUFF_RANGE = 2
+const ARREST_RANGE = 5
+const MAX_JAIL_MINUTES = 240
+
+export class DetentionManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private serving: Map<number, ServingState> = new Map() // Keyed by player id
+  private dragging: Map<number, any> = new Map() // Officer player id -> dragged player
+  private tickCount = 0
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("DetentionManager")
+
+    this.registerEvents()
+    this.startJailTimer()
+    this.startDragTimer()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("character:spawned", this.handleCharacterSpawned.bind(this))
+    this.eventManager.on("player:disconnected", this.handlePlayerDisconnected.bind(this))
+  }
+
+  private startJailTimer(): void {
+    setInterval(() => {
+      this.processJailTime()
+    }, JAIL_TICK_INTERVAL)
+  }
+
+  private startDragTimer(): void {
+    setInterval(() => {
+      this.dragging.forEach((target, officerId) => {
+        const officer = global.AmericanRP.getPlayerManager().getPlayerById(officerId)
+        if (!officer || !target.getVariable("cuffed")) {
+          this.dragging.delete(officerId)
+          return
+        }
+
+        target.dimension = officer.dimension
+        target.position = { x: officer.position.x + 0.6, y: officer.position.y + 0.6, z: officer.position.z }
+      })
+    }, DRAG_INTERVAL)
+  }
+
+  public isCuffed(player: any): boolean {
+    return !!player.getVariable("cuffed")
+  }
+
+  public isJailed(player: any): boolean {
+    return this.serving.has(player.id)
+  }
+
+  public setCuffed(player: any, cuffed: boolean): void {
+    player.setVariable("cuffed", cuffed)
+    player.call("client:setCuffed", [cuffed])
+
+    if (!cuffed) {
+      this.dragging.forEach((target, officerId) => {
+        if (target === player) this.dragging.delete(officerId)
+      })
+    }
+  }
+
+  /**
+   * Records a jail sentence. An online prisoner is jailed immediately; an offline one on their next spawn. Pass a
+   * connection to take part in a transaction the caller already owns; the prisoner is then jailed once it commits.
+   */
+  public async sentence(
+    characterId: number,
+    minutes: number,
+    charges: string,
+    officerId: number | null,
+    connection?: PoolConnection,
+  ): Promise<{ success: boolean; message: string; sentenceId?: number }> {
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_JAIL_MINUTES) {
+      return { success: false, message: `Jail time must be between 1 and ${MAX_JAIL_MINUTES} minutes.` }
+    }
+
+    try {
+      const record = (conn: PoolConnection) => this.recordSentence(conn, characterId, minutes, charges, officerId)
+      const sentenceId = connection ? await record(connection) : await this.database.transaction(record)
+      if (sentenceId === null) {
+        return { success: false, message: "That person is already serving a sentence." }
+      }
+
+      const onRecorded = () => {
+        const prisoner = this.findOnlineCharacter(characterId)
+        if (prisoner) {
+          this.jail(prisoner, { sentenceId, remainingSeconds: minutes * 60 })
+        }
+
+        this.eventManager.emit("character:jailed", { characterId, sentenceId, minutes, charges, officerId })
+        this.logger.info(`Character ${characterId} sentenced to ${minutes} minutes for ${charges}`)
+      }
+      if (connection) {
+        this.database.afterCommit(connection, onRecorded)
+      } else {
+        onRecorded()
+      }
+
+      return { success: true, message: `Sentenced to ${minutes} minutes.`, sentenceId }
+    } catch (error) {
+      this.logger.error("Error sentencing character:", error)
+      // Rethrow so a transaction owned by the caller rolls back
+      if (connection) throw error
+      return { success: false, message: "An error occurred while recording the sentence." }
+    }
+  }
+
+  // Returns the new sentence's id, or null when the character is already serving one
+  private async recordSentence(
+    connection: PoolConnection,
+    characterId: number,
+    minutes: number,
+    charges: string,
+    officerId: number | null,
+  ): Promise<number | null> {
+    const [existing] = await connection.query<RowDataPacket[]>(
+      "SELECT id FROM jail_sentences WHERE character_id = ? AND status = 'serving' FOR UPDATE",
+      [characterId],
+    )
+    if (existing.length > 0) return null
+
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO jail_sentences (character_id, officer_id, charges, minutes, remaining_seconds)
+       VALUES (?, ?, ?, ?, ?)`,
+      [characterId, officerId, charges, minutes, minutes * 60],
+    )
+    return result.insertId
+  }
+
+  /**
+   * Arrests a cuffed suspect: books the charges on their record, serves their warrants and jails them
+   */
+  public async arrest(
+    officer: any,
+    suspect: any,
+    minutes: number,
+    charges: string,
+  ): Promise<{ success: boolean; message: string }> {
+    if (!this.isCuffed(suspect)) {
+      return { success: false, message: "The suspect must be cuffed first." }
+    }
+
+    if (this.getDistance(officer.position, suspect.position) > ARREST_RANGE) {
+      return { success: false, message: "The suspect must be with you to be booked." }
+    }
+
+    const characterId = suspect.characterData.id
+    const result = await this.sentence(characterId, minutes, charges, officer.characterData.id)
+    if (!result.success) {
+      return result
+    }
+
+    const mdcManager = global.AmericanRP.getMdcManager()
+    try {
+      await mdcManager.addRecord(characterId, `Arrested: ${charges} (${minutes} min)`, officer.characterData.id)
+      for (const warrant of await mdcManager.getActiveWarrants(characterId)) {
+        await mdcManager.closeWarrant(warrant.id, "served")
+      }
+    } catch (error) {
+      this.logger.error("Error booking arrest on the record:", error)
+    }
+    await global.AmericanRP.getJobManager().recordTaskCompleted(officer)
+
+    const suspectName = `${suspect.characterData.first_name} ${suspect.characterData.last_name}`
+    this.logger.info(`${officer.characterData.first_name} ${officer.characterData.last_name} arrested ${suspectName}`)
+    return { success: true, message: `You arrested ${suspectName} for ${minutes} minutes.` }
+  }
+
+  private jail(player: any, state: ServingState): void {
+    this.serving.set(player.id, state)
+    this.setCuffed(player, false)
+
+    player.dimension = JAIL_DIMENSION
+    player.position = JAIL_POSITION
+
+    const minutes = Math.ceil(state.remainingSeconds / 60)
+    this.sendDetentionMessage(player, `You are in jail. Time remaining: ${minutes} minute(s).`, "error")
+  }
+
+  private async release(player: any): Promise<void> {
+    const state = this.serving.get(player.id)
+    if (!state) return
+    this.serving.delete(player.id)
+
+    try {
+      await this.database.query(
+        "UPDATE jail_sentences SET status = 'released', remaining_seconds = 0, released_at = NOW() WHERE id = ?",
+        [state.sentenceId],
+      )
+    } catch (error) {
+      this.logger.error("Error recording jail release:", error)
+    }
+
+    const station = global.AmericanRP.getJobManager().getJobByName(RELEASE_JOB)
+    player.dimension = 0
+    player.position =
+      station && (station.spawn_x || station.spawn_y)
+        ? { x: station.spawn_x, y: station.spawn_y, z: station.spawn_z }
+        : FALLBACK_RELEASE_POSITION
+
+    this.sendDetentionMessage(player, "You have served your sentence and are free to go.", "success")
+    this.eventManager.emit("character:released", player, state.sentenceId)
+  }
+
+  private processJailTime(): void {
+    this.tickCount++
+    const save = this.tickCount % SAVE_EVERY_TICKS === 0
+
+    this.serving.forEach((state, playerId) => {
+      const player = global.AmericanRP.getPlayerManager().getPlayerById(playerId)
+      if (!player) return
+
+      state.remainingSeconds -= JAIL_TICK_INTERVAL / 1000
+      if (state.remainingSeconds <= 0) {
+        this.release(player)
+        return
+      }
+
+      // Anyone who gets out of the cells is put straight back
+      if (player.dimension !== JAIL_DIMENSION || this.getDistance(player.position, JAIL_POSITION) > JAIL_ESCAPE_RANGE) {
+        player.dimension = JAIL_DIMENSION
+        player.position = JAIL_POSITION
+      }
+
+      if (save) {
+        this.saveRemaining(state)
+      }
+    })
+  }
+
+  private async saveRemaining(state: ServingState): Promise<void> {
+    try {
+      await this.database.query("UPDATE jail_sentences SET remaining_seconds = ? WHERE id = ?", [
+        Math.max(0, Math.round(state.remainingSeconds)),
+        state.sentenceId,
+      ])
+    } catch (error) {
+      this.logger.error("Error saving jail time:", error)
+    }
+  }
+
+  private async handleCharacterSpawned(player: any, character: any): Promise<void> {
+    try {
+      const sentences = await this.database.query(
+        "SELECT * FROM jail_sentences WHERE character_id = ? AND status = 'serving' ORDER BY id DESC LIMIT 1",
+        [character.id],
+      )
+      if (sentences.length === 0) return
+
+      const sentence: JailSentence = sentences[0]
+      this.jail(player, { sentenceId: sentence.id, remainingSeconds: sentence.remaining_seconds })
+    } catch (error) {
+      this.logger.error("Error restoring jail sentence:", error)
+    }
+  }
+
+  private async handlePlayerDisconnected(player: any): Promise<void> {
+    this.dragging.delete(player.id)
+    this.dragging.forEach((target, officerId) => {
+      if (target === player) this.dragging.delete(officerId)
+    })
+
+    const state = this.serving.get(player.id)
+    if (state) {
+      this.serving.delete(player.id)
+      await this.saveRemaining(state)
+    }
+  }
+
+  private findOnlineCharacter(characterId: number): any | undefined {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player) => player.characterData?.id === characterId,
+    )
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "cuff",
+        description: "Handcuff a nearby player (on-duty police)",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleCuff(player, params.player),
+      },
+      {
+        name: "uncuff",
+        description: "Remove a nearby player's handcuffs (on-duty police)",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleUncuff(player, params.player),
+      },
+      {
+        name: "drag",
+        description: "Start or stop dragging a cuffed player (on-duty police)",
+        params: [{ name: "player", type: "player" }],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleDrag(player, params.player),
+      },
+      {
+        name: "arrest",
+        description: "Book a cuffed suspect and send them to jail (on-duty police)",
+        params: [
+          { name: "player", type: "player" },
+          { name: "minutes", type: "integer", min: 1, max: MAX_JAIL_MINUTES },
+          { name: "charges", type: "text", max: 200 },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleArrest(player, params),
+      },
+      {
+        name: "jailtime",
+        description: "Show how long you have left in jail",
+        usage: "/jailtime",
+        adminLevel: 0,
+        category: "Police",
+        execute: (player) => this.showJailTime(player),
+      },
+    ])
+  }
+
+  private requireOfficer(player: any, target: any): boolean {
+    if (!player.characterData || !global.AmericanRP.getJobManager().isOnDuty(player, LAW_ENFORCEMENT_JOBS)) {
+      this.sendDetentionMessage(player, "Only on-duty police officers and deputies can do that.", "error")
+      return false
+    }
+
+    if (target === player || !target.characterData) {
+      this.sendDetentionMessage(player, "Invalid target.", "error")
+      return false
+    }
+
+    return true
+  }
+
+  private async handleCuff(player: any, target: any): Promise<void> {
+    if (!this.requireOfficer(player, target)) return
+
+    if (this.isCuffed(target)) {
+      this.sendDetentionMessage(player, "That person is already cuffed.", "error")
+      return
+    }
+
+    if (this.getDistance(player.position, target.position) > CUFF_RANGE) {
+      this.sendDetentionMessage(player, "You must be right next to them to cuff them.", "error")
+      return
+    }
+
+    const handcuffs = await global.AmericanRP.getInventoryManager().countItem(
+      { type: "character", id: player.characterData.id },
+      "handcuffs",
+    )
+    if (handcuffs === 0) {
+      this.sendDetentionMessage(player, "You don't have any handcuffs.", "error")
+      return
+    }
+
+    this.setCuffed(target, true)
+    this.sendDetentionMessage(player, `You cuffed ${target.characterData.first_name} ${target.characterData.last_name}.`, "success")
+    this.sendDetentionMessage(target, `You were cuffed by ${player.characterData.first_name} ${player.characterData.last_name}.`, "error")
+  }
+
+  private handleUncuff(player: any, target: any): void {
+    if (!this.requireOfficer(player, target)) return
+
+    if (!this.isCuffed(target)) {
+      this.sendDetentionMessage(player, "That person is not cuffed.", "error")
+      return
+    }
+
+    if (this.getDistance(player.position, target.position) > CUFF_RANGE) {
+      this.sendDetentionMessage(player, "You must be right next to them to uncuff them.", "error")
+      return
+    }
+
+    this.setCuffed(target, false)
+    this.sendDetentionMessage(player, `You uncuffed ${target.characterData.first_name} ${target.characterData.last_name}.`, "success")
+    this.sendDetentionMessage(target, "Your handcuffs were removed.", "success")
+  }
+
+  private handleDrag(player: any, target: any): void {
+    if (!this.requireOfficer(player, target)) return
+
+    if (this.dragging.get(player.id) === target) {
+      this.dragging.delete(player.id)
+      this.sendDetentionMessage(player, "You let go.", "info")
+      return
+    }
+
+    if (!this.isCuffed(target)) {
+      this.sendDetentionMessage(player, "You can only drag a cuffed person.", "error")
+      return
+    }
+
+    if (this.getDistance(player.position, target.position) > CUFF_RANGE) {
+      this.sendDetentionMessage(player, "You must be right next to them to drag them.", "error")
+      return
+    }
+
+    this.dragging.forEach((dragged, officerId) => {
+      if (dragged === target) this.dragging.delete(officerId)
+    })
+    this.dragging.set(player.id, target)
+    this.sendDetentionMessage(player, "You are dragging them. Use /drag again to let go.", "info")
+    this.sendDetentionMessage(target, "You are being dragged.", "info")
+  }
+
+  private async handleArrest(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player, params.player)) return
+
+    const result = await this.arrest(player, params.player, params.minutes, params.charges)
+    this.sendDetentionMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private showJailTime(player: any): void {
+    const state = this.serving.get(player.id)
+    if (!state) {
+      this.sendDetentionMessage(player, "You are not in jail.", "info")
+      return
+    }
+
+    const minutes = Math.ceil(state.remainingSeconds / 60)
+    this.sendDetentionMessage(player, `Time remaining: ${minutes} minute(s).`, "info")
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendDetentionMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[POLICE] ${message}`, colors[type])
+  }
+}
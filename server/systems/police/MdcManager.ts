@@ -0,0 +1,703 @@
+/**
+ * MDC Manager - The police mobile data computer: criminal records, warrants, BOLOs and traffic citations,
+ * with lookups that cross-reference characters and vehicle plates
+ */
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { Logger } from "../../utils/Logger"
+import type { Bolo, Citation, CommandParams, CriminalRecord, Vehicle, Warrant } from "../../types"
+
+export const LAW_ENFORCEMENT_JOBS = ["Police Officer", "Sheriff Deputy"]
+
+const CITATION_DUE_DAYS = 3
+const CITATION_LATE_PENALTY_RATE = 0.25
+const CITATION_MAX_AMOUNT = 10000
+const CITATION_CHECK_INTERVAL = 60 * 60 * 1000
+const CITE_RANGE = 10
+const LOOKUP_RESULT_LIMIT = 5
+
+export class MdcManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("MdcManager")
+
+    this.startCitationTimer()
+  }
+
+  private startCitationTimer(): void {
+    setInterval(() => {
+      this.processOverdueCitations()
+    }, CITATION_CHECK_INTERVAL)
+
+    this.logger.info("Citation due-date checks started (runs every hour)")
+  }
+
+  public isLawEnforcement(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, LAW_ENFORCEMENT_JOBS)
+  }
+
+  public async addRecord(characterId: number, offense: string, officerId: number | null): Promise<number> {
+    const result = await this.database.query(
+      "INSERT INTO criminal_records (character_id, offense, officer_id) VALUES (?, ?, ?)",
+      [characterId, offense, officerId],
+    )
+    return result.insertId
+  }
+
+  public async getRecords(characterId: number): Promise<CriminalRecord[]> {
+    return this.database.query("SELECT * FROM criminal_records WHERE character_id = ? ORDER BY created_at DESC", [
+      characterId,
+    ])
+  }
+
+  public async issueWarrant(characterId: number, reason: string, issuedBy: number | null): Promise<number> {
+    const result = await this.database.query(
+      "INSERT INTO warrants (character_id, reason, issued_by) VALUES (?, ?, ?)",
+      [characterId, reason, issuedBy],
+    )
+    this.eventManager.emit("mdc:warrantIssued", { warrantId: result.insertId, characterId, reason })
+    return result.insertId
+  }
+
+  public async closeWarrant(warrantId: number, status: "served" | "revoked"): Promise<boolean> {
+    const result = await this.database.query(
+      "UPDATE warrants SET status = ?, closed_at = NOW() WHERE id = ? AND status = 'active'",
+      [status, warrantId],
+    )
+    return result.affectedRows > 0
+  }
+
+  public async getActiveWarrants(characterId?: number): Promise<Warrant[]> {
+    if (characterId === undefined) {
+      return this.database.query("SELECT * FROM warrants WHERE status = 'active' ORDER BY created_at DESC")
+    }
+    return this.database.query(
+      "SELECT * FROM warrants WHERE character_id = ? AND status = 'active' ORDER BY created_at DESC",
+      [characterId],
+    )
+  }
+
+  public async issueBolo(
+    target: { characterId: number } | { plate: string },
+    description: string,
+    issuedBy: number | null,
+  ): Promise<number> {
+    const result = await this.database.query(
+      "INSERT INTO bolos (character_id, plate, description, issued_by) VALUES (?, ?, ?, ?)",
+      [
+        "characterId" in target ? target.characterId : null,
+        "plate" in target ? target.plate : null,
+        description,
+        issuedBy,
+      ],
+    )
+    return result.insertId
+  }
+
+  public async clearBolo(boloId: number): Promise<boolean> {
+    const result = await this.database.query(
+      "UPDATE bolos SET status = 'cleared', cleared_at = NOW() WHERE id = ? AND status = 'active'",
+      [boloId],
+    )
+    return result.affectedRows > 0
+  }
+
+  public async getActiveBolos(): Promise<Bolo[]> {
+    return this.database.query("SELECT * FROM bolos WHERE status = 'active' ORDER BY created_at DESC")
+  }
+
+  /**
+   * Issues a citation payable within CITATION_DUE_DAYS. Unpaid citations pick up a late penalty after the due date.
+   * Pass a connection to take part in a transaction the caller already owns.
+   */
+  public async issueCitation(
+    characterId: number,
+    offense: string,
+    amount: number,
+    issuedBy: number | null,
+    vehicleId: number | null = null,
+    connection?: PoolConnection,
+  ): Promise<{ success: boolean; message: string; citationId?: number }> {
+    if (!Number.isFinite(amount) || amount <= 0 || amount > CITATION_MAX_AMOUNT) {
+      return { success: false, message: `Citations must be between $1 and $${CITATION_MAX_AMOUNT.toLocaleString()}.` }
+    }
+
+    try {
+      const insert = (conn: PoolConnection) =>
+        conn.execute<ResultSetHeader>(
+          `INSERT INTO citations (character_id, vehicle_id, offense, amount, issued_by, due_at)
+           VALUES (?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+          [characterId, vehicleId, offense, amount, issuedBy, CITATION_DUE_DAYS],
+        )
+      const [result] = connection ? await insert(connection) : await this.database.transaction(insert)
+      const citationId = result.insertId
+
+      const issued = { citationId, characterId, amount, offense }
+      if (connection) {
+        this.database.afterCommit(connection, () => this.eventManager.emit("mdc:citationIssued", issued))
+      } else {
+        this.eventManager.emit("mdc:citationIssued", issued)
+      }
+
+      return {
+        success: true,
+        message: `Citation #${citationId} issued for $${amount.toLocaleString()}, due in ${CITATION_DUE_DAYS} days.`,
+        citationId,
+      }
+    } catch (error) {
+      this.logger.error("Error issuing citation:", error)
+      // Rethrow so a transaction owned by the caller rolls back
+      if (connection) throw error
+      return { success: false, message: "An error occurred while issuing the citation." }
+    }
+  }
+
+  public async getCitations(characterId: number, unpaidOnly = false): Promise<Citation[]> {
+    const rows = await this.database.query(
+      `SELECT * FROM citations WHERE character_id = ? ${unpaidOnly ? "AND status IN ('unpaid', 'overdue')" : ""}
+       ORDER BY created_at DESC LIMIT 20`,
+      [characterId],
+    )
+    return rows.map((row: any) => ({ ...row, amount: Number(row.amount), late_penalty: Number(row.late_penalty) }))
+  }
+
+  public async payCitation(citationId: number, characterId: number): Promise<{ success: boolean; message: string }> {
+    try {
+      return await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>("SELECT * FROM citations WHERE id = ? FOR UPDATE", [
+          citationId,
+        ])
+        const citation = rows[0]
+        if (!citation || citation.character_id !== characterId) {
+          return { success: false, message: "Citation not found." }
+        }
+
+        if (citation.status === "paid") {
+          return { success: false, message: "That citation is already paid." }
+        }
+
+        if (citation.status === "dismissed") {
+          return { success: false, message: "That citation was dismissed in court." }
+        }
+
+        const total = Number(citation.amount) + Number(citation.late_penalty)
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "bank", characterId },
+          { type: "government" },
+          total,
+          "fine",
+          `Citation #${citationId}: ${citation.offense}`,
+          connection,
+        )
+        if (!payment.success) {
+          const message =
+            payment.error === "insufficient_funds"
+              ? `You need $${total.toLocaleString()} in your bank account.`
+              : "An error occurred while paying the citation."
+          return { success: false, message }
+        }
+
+        await connection.execute(
+          "UPDATE citations SET status = 'paid', paid_at = NOW(), transaction_id = ? WHERE id = ?",
+          [payment.transactionId ?? null, citationId],
+        )
+        return { success: true, message: `You paid citation #${citationId} ($${total.toLocaleString()}).` }
+      })
+    } catch (error) {
+      this.logger.error("Error paying citation:", error)
+      return { success: false, message: "An error occurred while paying the citation." }
+    }
+  }
+
+  public async dismissCitation(citationId: number): Promise<boolean> {
+    const result = await this.database.query(
+      "UPDATE citations SET status = 'dismissed' WHERE id = ? AND status IN ('unpaid', 'overdue')",
+      [citationId],
+    )
+    return result.affectedRows > 0
+  }
+
+  private async processOverdueCitations(): Promise<void> {
+    try {
+      const overdue = await this.database.query(
+        "SELECT id, character_id, amount FROM citations WHERE status = 'unpaid' AND due_at < NOW()",
+      )
+
+      for (const citation of overdue) {
+        const penalty = Math.round(Number(citation.amount) * CITATION_LATE_PENALTY_RATE * 100) / 100
+        await this.database.query(
+          "UPDATE citations SET status = 'overdue', late_penalty = ? WHERE id = ? AND status = 'unpaid'",
+          [penalty, citation.id],
+        )
+
+        const player = this.findOnlineCharacter(citation.character_id)
+        if (player) {
+          this.sendMdcMessage(
+            player,
+            `Citation #${citation.id} is overdue. A late penalty of $${penalty.toLocaleString()} was added.`,
+            "error",
+          )
+        }
+      }
+
+      if (overdue.length > 0) {
+        this.logger.info(`Marked ${overdue.length} citations overdue`)
+      }
+    } catch (error) {
+      this.logger.error("Error processing overdue citations:", error)
+    }
+  }
+
+  /**
+   * Looks up a plate first, then character names, and describes everything on file for the match
+   */
+  public async lookup(query: string): Promise<string> {
+    const vehicle = global.AmericanRP.getVehicleManager().getVehicleByPlate(query.replace(/\s/g, ""))
+    if (vehicle) {
+      return this.describeVehicle(vehicle)
+    }
+
+    const matches = await this.database.query(
+      `SELECT c.id, c.first_name, c.last_name FROM characters c
+       WHERE CONCAT(c.first_name, ' ', c.last_name) LIKE ? ORDER BY c.last_name, c.first_name LIMIT ${LOOKUP_RESULT_LIMIT + 1}`,
+      [`%${query.replace(/_/g, " ")}%`],
+    )
+
+    if (matches.length === 0) {
+      return `No person or plate on file matches "${query}".`
+    }
+
+    if (matches.length > 1) {
+      let message = `${matches.length > LOOKUP_RESULT_LIMIT ? "More than " + LOOKUP_RESULT_LIMIT : matches.length} people match "${query}":\n`
+      for (const match of matches.slice(0, LOOKUP_RESULT_LIMIT)) {
+        message += `#${match.id} ${match.first_name} ${match.last_name}\n`
+      }
+      return message + "Narrow the search with the full name."
+    }
+
+    return this.describePerson(matches[0].id)
+  }
+
+  private async describeVehicle(vehicle: Vehicle): Promise<string> {
+    const bolos = await this.database.query("SELECT * FROM bolos WHERE plate = ? AND status = 'active'", [vehicle.plate])
+    const insured = vehicle.insurance_expires && new Date(vehicle.insurance_expires) > new Date()
+
+    let message = `=== MDC: Plate ${vehicle.plate} ===\n`
+    message += `Model: ${vehicle.model} | Impounded: ${vehicle.impounded ? "Yes" : "No"} | Insurance: ${insured ? "Valid" : "EXPIRED"}\n`
+    for (const bolo of bolos) {
+      message += `!! BOLO #${bolo.id}: ${bolo.description}\n`
+    }
+    message += await this.describeTitle(vehicle)
+
+    return message + "Registered owner:\n" + (await this.describePerson(vehicle.owner_id))
+  }
+
+  // The current title and the owners before it, newest first
+  private async describeTitle(vehicle: Vehicle): Promise<string> {
+    const transfers = await this.database.query(
+      `SELECT t.*, c.first_name, c.last_name FROM vehicle_title_transfers t
+       LEFT JOIN characters c ON c.id = t.from_owner_id
+       WHERE t.vehicle_id = ? ORDER BY t.created_at DESC, t.id DESC`,
+      [vehicle.id],
+    )
+    const title = transfers[0]
+    if (!title) {
+      return "Title: No record on file\n"
+    }
+
+    const issued = new Date(title.created_at).toLocaleDateString()
+    if (title.type === "issued") {
+      return `Title #${title.id}: Issued new on ${issued}\n`
+    }
+
+    const seller = title.first_name ? `${title.first_name} ${title.last_name}` : "Unknown"
+    let message = `Title #${title.id}: Sold by ${seller} on ${issued} for $${Number(title.price).toLocaleString()}`
+    message += ` | Previous owners: ${transfers.length - 1}\n`
+    return message
+  }
+
+  private async describePerson(characterId: number): Promise<string> {
+    const people = await this.database.query(
+      `SELECT c.id, c.first_name, c.last_name, c.age, c.gender, c.phone_number, j.name as job_name
+       FROM characters c LEFT JOIN jobs j ON c.job_id = j.id WHERE c.id = ?`,
+      [characterId],
+    )
+    const person = people[0]
+    if (!person) {
+      return "No record of the owner."
+    }
+
+    const [warrants, bolos, citations, records] = await Promise.all([
+      this.getActiveWarrants(characterId),
+      this.database.query("SELECT * FROM bolos WHERE character_id = ? AND status = 'active'", [characterId]),
+      this.getCitations(characterId, true),
+      this.getRecords(characterId),
+    ])
+    const vehicles = global.AmericanRP.getVehicleManager().getPlayerVehicles(characterId)
+
+    let message = `=== MDC: ${person.first_name} ${person.last_name} (#${person.id}) ===\n`
+    message += `Age: ${person.age} | Gender: ${person.gender} | Phone: ${person.phone_number || "None"} | Job: ${person.job_name || "Unemployed"}\n`
+    message += `Vehicles: ${vehicles.length ? vehicles.map((owned) => `${owned.plate} (${owned.model})`).join(", ") : "None"}\n`
+
+    for (const warrant of warrants) {
+      message += `!! WARRANT #${warrant.id}: ${warrant.reason}\n`
+    }
+    for (const bolo of bolos) {
+      message += `!! BOLO #${bolo.id}: ${bolo.description}\n`
+    }
+
+    if (citations.length > 0) {
+      const owed = citations.reduce((total, citation) => total + citation.amount + citation.late_penalty, 0)
+      const overdue = citations.filter((citation) => citation.status === "overdue").length
+      message += `Citations: ${citations.length} unpaid ($${owed.toLocaleString()} owed, ${overdue} overdue)\n`
+    }
+
+    message += `Criminal record: ${records.length ? `${records.length} entries` : "Clean"}\n`
+    for (const record of records.slice(0, 5)) {
+      message += `#${record.id} ${new Date(record.created_at).toLocaleDateString()} - ${record.offense}\n`
+    }
+
+    return message
+  }
+
+  private findOnlineCharacter(characterId: number): any | undefined {
+    return Array.from(global.AmericanRP.getPlayerManager().getConnectedPlayers().values()).find(
+      (player) => player.characterData?.id === characterId,
+    )
+  }
+
+  private async characterExists(characterId: number): Promise<boolean> {
+    const result = await this.database.query("SELECT id FROM characters WHERE id = ?", [characterId])
+    return result.length > 0
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "mdc",
+        description: "Search the MDC by name or plate, or list active warrants and BOLOs (on-duty police)",
+        usage: "/mdc lookup [name|plate] | /mdc warrants | /mdc bolos",
+        params: [
+          { name: "action", type: "word", choices: ["lookup", "warrants", "bolos"] },
+          { name: "query", type: "text", optional: true },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleMdcCommand(player, params),
+      },
+      {
+        name: "record",
+        description: "Add an offense to a character's criminal record (on-duty police)",
+        params: [
+          { name: "character_id", type: "integer", min: 1 },
+          { name: "offense", type: "text", max: 150 },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleRecord(player, params),
+      },
+      {
+        name: "warrant",
+        description: "Issue an arrest warrant for a character (on-duty police)",
+        params: [
+          { name: "character_id", type: "integer", min: 1 },
+          { name: "reason", type: "text", max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleWarrant(player, params),
+      },
+      {
+        name: "clearwarrant",
+        description: "Close a warrant as served or revoked (on-duty police)",
+        params: [
+          { name: "warrant_id", type: "integer", min: 1 },
+          { name: "outcome", type: "word", optional: true, choices: ["served", "revoked"] },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleClearWarrant(player, params),
+      },
+      {
+        name: "bolo",
+        description: "Issue a BOLO for a person (character ID) or a vehicle (plate) (on-duty police)",
+        usage: "/bolo [person|vehicle] [character_id|plate] [description]",
+        params: [
+          { name: "type", type: "word", choices: ["person", "vehicle"] },
+          { name: "target", type: "word" },
+          { name: "description", type: "text", max: 255 },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleBolo(player, params),
+      },
+      {
+        name: "clearbolo",
+        description: "Clear a BOLO (on-duty police)",
+        params: [{ name: "bolo_id", type: "integer", min: 1 }],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleClearBolo(player, params.bolo_id),
+      },
+      {
+        name: "cite",
+        description: "Issue a citation to a nearby player (on-duty police)",
+        params: [
+          { name: "player", type: "player" },
+          { name: "amount", type: "money", min: 1, max: CITATION_MAX_AMOUNT },
+          { name: "offense", type: "text", max: 150 },
+        ],
+        adminLevel: 0,
+        category: "Police",
+        execute: (player, _args, params) => this.handleCite(player, params),
+      },
+      {
+        name: "citations",
+        description: "List your citations, or pay one from your bank account",
+        usage: "/citations | /citations pay [id]",
+        params: [
+          { name: "action", type: "word", optional: true, choices: ["pay"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Economy",
+        execute: (player, _args, params) => this.handleCitations(player, params),
+      },
+    ])
+  }
+
+  private requireOfficer(player: any): boolean {
+    if (!player.characterData || !this.isLawEnforcement(player)) {
+      this.sendMdcMessage(player, "Only on-duty police officers and deputies can use the MDC.", "error")
+      return false
+    }
+    return true
+  }
+
+  private async handleMdcCommand(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    try {
+      if (params.action === "lookup") {
+        if (!params.query) {
+          this.sendMdcMessage(player, "Usage: /mdc lookup [name|plate]", "error")
+          return
+        }
+        this.sendMdcMessage(player, await this.lookup(params.query), "info")
+        return
+      }
+
+      if (params.action === "warrants") {
+        const warrants = await this.database.query(
+          `SELECT w.*, c.first_name, c.last_name FROM warrants w JOIN characters c ON w.character_id = c.id
+           WHERE w.status = 'active' ORDER BY w.created_at DESC LIMIT 20`,
+        )
+        let message = "=== Active Warrants ===\n"
+        if (warrants.length === 0) message += "None"
+        for (const warrant of warrants) {
+          message += `#${warrant.id} ${warrant.first_name} ${warrant.last_name} (#${warrant.character_id}): ${warrant.reason}\n`
+        }
+        this.sendMdcMessage(player, message, "info")
+        return
+      }
+
+      const bolos = await this.getActiveBolos()
+      let message = "=== Active BOLOs ===\n"
+      if (bolos.length === 0) message += "None"
+      for (const bolo of bolos) {
+        const target = bolo.plate ? `Plate ${bolo.plate}` : `Character #${bolo.character_id}`
+        message += `#${bolo.id} ${target}: ${bolo.description}\n`
+      }
+      this.sendMdcMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error handling MDC command:", error)
+      this.sendMdcMessage(player, "The MDC is not responding. Try again.", "error")
+    }
+  }
+
+  private async handleRecord(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    if (!(await this.characterExists(params.character_id))) {
+      this.sendMdcMessage(player, `No character #${params.character_id} on file.`, "error")
+      return
+    }
+
+    await this.addRecord(params.character_id, params.offense, player.characterData.id)
+    this.sendMdcMessage(player, `Added "${params.offense}" to the record of #${params.character_id}.`, "success")
+  }
+
+  private async handleWarrant(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    if (!(await this.characterExists(params.character_id))) {
+      this.sendMdcMessage(player, `No character #${params.character_id} on file.`, "error")
+      return
+    }
+
+    const warrantId = await this.issueWarrant(params.character_id, params.reason, player.characterData.id)
+    this.sendMdcMessage(player, `Warrant #${warrantId} issued for #${params.character_id}.`, "success")
+  }
+
+  private async handleClearWarrant(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    const outcome = params.outcome ?? "revoked"
+    const closed = await this.closeWarrant(params.warrant_id, outcome)
+    this.sendMdcMessage(
+      player,
+      closed ? `Warrant #${params.warrant_id} marked ${outcome}.` : "No active warrant with that ID.",
+      closed ? "success" : "error",
+    )
+  }
+
+  private async handleBolo(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    let target: { characterId: number } | { plate: string }
+    if (params.type === "person") {
+      const characterId = Number.parseInt(params.target)
+      if (!Number.isInteger(characterId) || !(await this.characterExists(characterId))) {
+        this.sendMdcMessage(player, "Person BOLOs need a character ID on file (see /mdc lookup).", "error")
+        return
+      }
+      target = { characterId }
+    } else {
+      const plate = params.target.toUpperCase()
+      if (!/^[A-Z0-9]{2,8}$/.test(plate)) {
+        this.sendMdcMessage(player, "Vehicle BOLOs need a plate of 2-8 letters or digits.", "error")
+        return
+      }
+      target = { plate }
+    }
+
+    const boloId = await this.issueBolo(target, params.description, player.characterData.id)
+    this.sendMdcMessage(player, `BOLO #${boloId} issued.`, "success")
+
+    const officerName = `${player.characterData.first_name} ${player.characterData.last_name}`
+    global.AmericanRP.getJobManager()
+      .getOnDutyPlayers(LAW_ENFORCEMENT_JOBS)
+      .forEach((officer) => {
+        if (officer !== player) {
+          this.sendMdcMessage(officer, `New BOLO #${boloId} from ${officerName}: ${params.description}`, "info")
+        }
+      })
+  }
+
+  private async handleClearBolo(player: any, boloId: number): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    const cleared = await this.clearBolo(boloId)
+    this.sendMdcMessage(
+      player,
+      cleared ? `BOLO #${boloId} cleared.` : "No active BOLO with that ID.",
+      cleared ? "success" : "error",
+    )
+  }
+
+  private async handleCite(player: any, params: CommandParams): Promise<void> {
+    if (!this.requireOfficer(player)) return
+
+    const target = params.player
+    if (!target.characterData) {
+      this.sendMdcMessage(player, "That player is not logged in.", "error")
+      return
+    }
+
+    if (target === player) {
+      this.sendMdcMessage(player, "You can't cite yourself.", "error")
+      return
+    }
+
+    if (this.getDistance(player.position, target.position) > CITE_RANGE) {
+      this.sendMdcMessage(player, "You must be near the person you are citing.", "error")
+      return
+    }
+
+    // Citations written at a traffic stop are tied to the vehicle the driver is in
+    const vehicleId = target.vehicle?.getVariable("vehicleId") ?? null
+    const result = await this.issueCitation(
+      target.characterData.id,
+      params.offense,
+      params.amount,
+      player.characterData.id,
+      vehicleId,
+    )
+    this.sendMdcMessage(player, result.message, result.success ? "success" : "error")
+
+    if (result.success) {
+      const officerName = `${player.characterData.first_name} ${player.characterData.last_name}`
+      this.sendMdcMessage(
+        target,
+        `${officerName} cited you $${params.amount.toLocaleString()} for: ${params.offense}. Pay within ${CITATION_DUE_DAYS} days with /citations pay ${result.citationId}.`,
+        "error",
+      )
+    }
+  }
+
+  private async handleCitations(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) {
+      this.sendMdcMessage(player, "You must have a character to use this command.", "error")
+      return
+    }
+
+    const characterId = player.characterData.id
+
+    if (params.action === "pay") {
+      if (params.id === undefined) {
+        this.sendMdcMessage(player, "Usage: /citations pay [id]", "error")
+        return
+      }
+      const result = await this.payCitation(params.id, characterId)
+      this.sendMdcMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    try {
+      const citations = await this.getCitations(characterId)
+      if (citations.length === 0) {
+        this.sendMdcMessage(player, "You have no citations.", "info")
+        return
+      }
+
+      let message = "=== Your Citations ===\n"
+      for (const citation of citations) {
+        const total = citation.amount + citation.late_penalty
+        const due = citation.status === "paid" ? "" : ` | Due: ${new Date(citation.due_at).toLocaleDateString()}`
+        message += `#${citation.id} ${citation.offense} | $${total.toLocaleString()} | ${citation.status}${due}\n`
+      }
+      this.sendMdcMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error listing citations:", error)
+      this.sendMdcMessage(player, "An error occurred while loading your citations.", "error")
+    }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendMdcMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[MDC] ${message}`, colors[type])
+  }
+}
@@ -1,32 +1,36 @@
-import { EventManager } from "../../core/EventManager"
-import { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { CommandManager } from "../../core/CommandManager"
 import { Logger } from "../../utils/Logger"
-import type { Property, PropertyKey } from "../../types"
+import type { BusinessType, Position, Property, PropertyKey } from "../../types"
+
+const PROPERTY_DIMENSION_BASE = 10000 // Each property interior gets its own dimension
+const DOOR_RANGE = 3
 
 export class PropertyManager {
-  private static instance: PropertyManager
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
   private properties: Map<number, Property> = new Map()
   private propertyKeys: Map<number, PropertyKey[]> = new Map()
 
-  private constructor() {
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("PropertyManager")
+
     this.initializeEvents()
     this.loadProperties()
   }
 
-  public static getInstance(): PropertyManager {
-    if (!PropertyManager.instance) {
-      PropertyManager.instance = new PropertyManager()
-    }
-    return PropertyManager.instance
-  }
-
   private initializeEvents(): void {
     // Property events
-    EventManager.on("property:purchase", this.handlePropertyPurchase.bind(this))
-    EventManager.on("property:sell", this.handlePropertySell.bind(this))
-    EventManager.on("property:rent", this.handlePropertyRent.bind(this))
-    EventManager.on("property:giveKey", this.handleGiveKey.bind(this))
-    EventManager.on("property:removeKey", this.handleRemoveKey.bind(this))
+    this.eventManager.on("property:purchase", this.handlePropertyPurchase.bind(this))
+    this.eventManager.on("property:sell", this.handlePropertySell.bind(this))
+    this.eventManager.on("property:rent", this.handlePropertyRent.bind(this))
+    this.eventManager.on("property:giveKey", this.handleGiveKey.bind(this))
+    this.eventManager.on("property:removeKey", this.handleRemoveKey.bind(this))
   }
 
   private async loadProperties(): Promise<void> {
@@ -38,7 +42,7 @@ export class PropertyManager {
                 WHERE p.deleted_at IS NULL
             `
 
-      const results = await Database.query(query)
+      const results = await this.database.query(query)
       const propertyMap = new Map()
 
       for (const row of results) {
@@ -48,8 +52,9 @@ export class PropertyManager {
             owner_id: row.owner_id,
             name: row.name,
             type: row.type,
+            business_type: row.business_type,
             price: row.price,
-            position: JSON.parse(row.position),
+            position: this.parseJsonColumn(row.position),
             interior: row.interior,
             locked: row.locked,
             for_sale: row.for_sale,
@@ -77,12 +82,17 @@ export class PropertyManager {
       }
 
       this.properties = propertyMap
-      Logger.info(`Loaded ${this.properties.size} properties`)
+      this.logger.info(`Loaded ${this.properties.size} properties`)
     } catch (error) {
-      Logger.error("Error loading properties:", error)
+      this.logger.error("Error loading properties:", error)
     }
   }
 
+  // JSON columns arrive decoded or as strings depending on the driver's type casting
+  private parseJsonColumn(value: any): any {
+    return typeof value === "string" ? JSON.parse(value) : value
+  }
+
   public async purchaseProperty(propertyId: number, buyerId: number): Promise<{ success: boolean; message: string }> {
     try {
       const property = this.properties.get(propertyId)
@@ -98,19 +108,37 @@ export class PropertyManager {
         return { success: false, message: "Esta propiedad ya tiene propietario" }
       }
 
-      // Check player money
-      const playerQuery = "SELECT money FROM characters WHERE id = ?"
-      const playerResult = await Database.query(playerQuery, [buyerId])
+      // Charge the buyer and transfer ownership in one commit
+      const purchase = await this.database.transaction(async (connection) => {
+        // Lock the property so two buyers cannot both pass the ownership check
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT owner_id, for_sale FROM properties WHERE id = ? FOR UPDATE",
+          [propertyId],
+        )
+        if (!rows.length || rows[0].owner_id || !rows[0].for_sale) {
+          return { success: false, message: "Esta propiedad ya tiene propietario" }
+        }
 
-      if (!playerResult.length || playerResult[0].money < property.price) {
-        return { success: false, message: "No tienes suficiente dinero" }
-      }
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "cash", characterId: buyerId },
+          null,
+          property.price,
+          "purchase",
+          `Property purchase: ${property.name}`,
+          connection,
+        )
+        if (!payment.success) {
+          const message = payment.error === "insufficient_funds" ? "No tienes suficiente dinero" : "Error interno del servidor"
+          return { success: false, message }
+        }
 
-      // Transfer ownership
-      await Database.query("UPDATE properties SET owner_id = ?, for_sale = 0 WHERE id = ?", [buyerId, propertyId])
+        await connection.execute("UPDATE properties SET owner_id = ?, for_sale = 0 WHERE id = ?", [buyerId, propertyId])
+        return { success: true, message: "" }
+      })
 
-      // Deduct money
-      await Database.query("UPDATE characters SET money = money - ? WHERE id = ?", [property.price, buyerId])
+      if (!purchase.success) {
+        return purchase
+      }
 
       // Give keys
       await this.giveKey(propertyId, buyerId, "owner")
@@ -119,10 +147,10 @@ export class PropertyManager {
       property.owner_id = buyerId
       property.for_sale = false
 
-      Logger.info(`Property ${propertyId} purchased by player ${buyerId} for $${property.price}`)
+      this.logger.info(`Property ${propertyId} purchased by player ${buyerId} for $${property.price}`)
       return { success: true, message: `Has comprado ${property.name} por $${property.price}` }
     } catch (error) {
-      Logger.error("Error purchasing property:", error)
+      this.logger.error("Error purchasing property:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -138,17 +166,44 @@ export class PropertyManager {
         return { success: false, message: "No eres el propietario de esta propiedad" }
       }
 
+      if (global.AmericanRP.getLoanManager().isCollateralPledged("property", propertyId)) {
+        return { success: false, message: "Esta propiedad es la garantía de un préstamo activo" }
+      }
+
       // Calculate sell price (80% of original)
       const sellPrice = Math.floor(property.price * 0.8)
 
-      // Add money to player
-      await Database.query("UPDATE characters SET money = money + ? WHERE id = ?", [sellPrice, sellerId])
+      // Pay the seller, then remove ownership and keys in the same commit
+      const sale = await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>("SELECT owner_id FROM properties WHERE id = ? FOR UPDATE", [
+          propertyId,
+        ])
+        if (!rows.length || rows[0].owner_id !== sellerId) {
+          return { success: false, message: "No eres el propietario de esta propiedad" }
+        }
 
-      // Remove ownership and keys
-      await Database.query("UPDATE properties SET owner_id = NULL, for_sale = 1, rented_by = NULL WHERE id = ?", [
-        propertyId,
-      ])
-      await Database.query("DELETE FROM property_keys WHERE property_id = ?", [propertyId])
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          null,
+          { type: "cash", characterId: sellerId },
+          sellPrice,
+          "sale",
+          `Property sale: ${property.name}`,
+          connection,
+        )
+        if (!payment.success) {
+          return { success: false, message: "Error interno del servidor" }
+        }
+
+        await connection.execute("UPDATE properties SET owner_id = NULL, for_sale = 1, rented_by = NULL WHERE id = ?", [
+          propertyId,
+        ])
+        await connection.execute("DELETE FROM property_keys WHERE property_id = ?", [propertyId])
+        return { success: true, message: "" }
+      })
+
+      if (!sale.success) {
+        return sale
+      }
 
       // Update memory
       property.owner_id = null
@@ -156,10 +211,42 @@ export class PropertyManager {
       property.rented_by = null
       this.propertyKeys.delete(propertyId)
 
-      Logger.info(`Property ${propertyId} sold by player ${sellerId} for $${sellPrice}`)
+      this.logger.info(`Property ${propertyId} sold by player ${sellerId} for $${sellPrice}`)
       return { success: true, message: `Has vendido ${property.name} por $${sellPrice}` }
     } catch (error) {
-      Logger.error("Error selling property:", error)
+      this.logger.error("Error selling property:", error)
+      return { success: false, message: "Error interno del servidor" }
+    }
+  }
+
+  /**
+   * Takes a property back from its owner without payment (e.g. a defaulted loan) and puts it up for sale again.
+   */
+  public async repossessProperty(propertyId: number, reason: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const property = this.properties.get(propertyId)
+      if (!property || !property.owner_id) {
+        return { success: false, message: "Propiedad no encontrada o sin propietario" }
+      }
+
+      const previousOwner = property.owner_id
+
+      await this.database.transaction(async (connection) => {
+        await connection.execute("UPDATE properties SET owner_id = NULL, for_sale = 1, rented_by = NULL WHERE id = ?", [
+          propertyId,
+        ])
+        await connection.execute("DELETE FROM property_keys WHERE property_id = ?", [propertyId])
+      })
+
+      property.owner_id = null
+      property.for_sale = true
+      property.rented_by = null
+      this.propertyKeys.delete(propertyId)
+
+      this.logger.info(`Property ${propertyId} repossessed from player ${previousOwner}. Reason: ${reason}`)
+      return { success: true, message: "Propiedad embargada correctamente" }
+    } catch (error) {
+      this.logger.error("Error repossessing property:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -179,25 +266,48 @@ export class PropertyManager {
         return { success: false, message: "Esta propiedad ya está alquilada" }
       }
 
-      // Check player money
-      const playerQuery = "SELECT money FROM characters WHERE id = ?"
-      const playerResult = await Database.query(playerQuery, [renterId])
-
-      if (!playerResult.length || playerResult[0].money < property.rent_price) {
-        return { success: false, message: "No tienes suficiente dinero para el alquiler" }
-      }
-
       const rentExpires = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
+      const rentPrice = property.rent_price
+
+      // Charge the first month and set the rental in one commit
+      const rental = await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT owner_id, rented_by FROM properties WHERE id = ? FOR UPDATE",
+          [propertyId],
+        )
+        if (!rows.length || rows[0].rented_by) {
+          return { success: false, message: "Esta propiedad ya está alquilada" }
+        }
 
-      // Set rental
-      await Database.query("UPDATE properties SET rented_by = ?, rent_expires = ? WHERE id = ?", [
-        renterId,
-        rentExpires,
-        propertyId,
-      ])
+        // Rent goes to the landlord, or out of the economy when the property is unowned
+        const landlordId = rows[0].owner_id
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "cash", characterId: renterId },
+          landlordId ? { type: "bank", characterId: landlordId } : null,
+          rentPrice,
+          "rent",
+          `Rent: ${property.name}`,
+          connection,
+        )
+        if (!payment.success) {
+          const message =
+            payment.error === "insufficient_funds"
+              ? "No tienes suficiente dinero para el alquiler"
+              : "Error interno del servidor"
+          return { success: false, message }
+        }
 
-      // Deduct money
-      await Database.query("UPDATE characters SET money = money - ? WHERE id = ?", [property.rent_price, renterId])
+        await connection.execute("UPDATE properties SET rented_by = ?, rent_expires = ? WHERE id = ?", [
+          renterId,
+          rentExpires,
+          propertyId,
+        ])
+        return { success: true, message: "" }
+      })
+
+      if (!rental.success) {
+        return rental
+      }
 
       // Give keys
       await this.giveKey(propertyId, renterId, "renter")
@@ -206,10 +316,10 @@ export class PropertyManager {
       property.rented_by = renterId
       property.rent_expires = rentExpires
 
-      Logger.info(`Property ${propertyId} rented by player ${renterId} for $${property.rent_price}`)
+      this.logger.info(`Property ${propertyId} rented by player ${renterId} for $${property.rent_price}`)
       return { success: true, message: `Has alquilado ${property.name} por $${property.rent_price}/mes` }
     } catch (error) {
-      Logger.error("Error renting property:", error)
+      this.logger.error("Error renting property:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -226,7 +336,7 @@ export class PropertyManager {
       }
 
       // Check if player already has a key
-      const existingKey = await Database.query("SELECT * FROM property_keys WHERE property_id = ? AND player_id = ?", [
+      const existingKey = await this.database.query("SELECT * FROM property_keys WHERE property_id = ? AND player_id = ?", [
         propertyId,
         playerId,
       ])
@@ -236,7 +346,7 @@ export class PropertyManager {
       }
 
       // Insert new key
-      await Database.query(
+      await this.database.query(
         "INSERT INTO property_keys (property_id, player_id, key_type, created_at) VALUES (?, ?, ?, NOW())",
         [propertyId, playerId, keyType],
       )
@@ -255,14 +365,14 @@ export class PropertyManager {
 
       return { success: true, message: "Llave entregada correctamente" }
     } catch (error) {
-      Logger.error("Error giving property key:", error)
+      this.logger.error("Error giving property key:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
 
   public async removeKey(propertyId: number, playerId: number): Promise<{ success: boolean; message: string }> {
     try {
-      const result = await Database.query(
+      const result = await this.database.query(
         'DELETE FROM property_keys WHERE property_id = ? AND player_id = ? AND key_type != "owner"',
         [propertyId, playerId],
       )
@@ -280,11 +390,111 @@ export class PropertyManager {
 
       return { success: true, message: "Llave eliminada correctamente" }
     } catch (error) {
-      Logger.error("Error removing property key:", error)
+      this.logger.error("Error removing property key:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
 
+  public async setBusinessType(
+    propertyId: number,
+    businessType: BusinessType | null,
+  ): Promise<{ success: boolean; message: string }> {
+    const property = this.properties.get(propertyId)
+    if (!property) {
+      return { success: false, message: "Propiedad no encontrada" }
+    }
+
+    if (businessType && property.type !== "Business") {
+      return { success: false, message: "Solo los negocios pueden tener un tipo de negocio" }
+    }
+
+    try {
+      await this.database.query("UPDATE properties SET business_type = ? WHERE id = ?", [businessType, propertyId])
+      property.business_type = businessType
+
+      return {
+        success: true,
+        message: businessType
+          ? `${property.name} ahora es un negocio de tipo ${businessType}`
+          : `${property.name} ya no tiene tipo de negocio`,
+      }
+    } catch (error) {
+      this.logger.error("Error setting business type:", error)
+      return { success: false, message: "Error interno del servidor" }
+    }
+  }
+
+  public async setLocked(
+    propertyId: number,
+    characterId: number,
+    locked: boolean,
+  ): Promise<{ success: boolean; message: string }> {
+    const property = this.properties.get(propertyId)
+    if (!property) {
+      return { success: false, message: "Propiedad no encontrada" }
+    }
+
+    if (!this.canUnlock(property, characterId)) {
+      return { success: false, message: "No tienes llave de esta propiedad" }
+    }
+
+    try {
+      await this.database.query("UPDATE properties SET locked = ? WHERE id = ?", [locked, propertyId])
+      property.locked = locked
+
+      return { success: true, message: `${property.name} ${locked ? "cerrada" : "abierta"}` }
+    } catch (error) {
+      this.logger.error("Error setting property lock:", error)
+      return { success: false, message: "Error interno del servidor" }
+    }
+  }
+
+  /**
+   * Puts the player inside the property's interior. Locked properties need a key, or an on-duty officer with an
+   * active search warrant issued by a judge.
+   */
+  public enterProperty(player: any, propertyId: number): { success: boolean; message: string } {
+    const property = this.properties.get(propertyId)
+    if (!property) {
+      return { success: false, message: "Propiedad no encontrada" }
+    }
+
+    if (this.getDistance(player.position, property.position) > DOOR_RANGE) {
+      return { success: false, message: "Debes estar en la puerta de la propiedad" }
+    }
+
+    let message = `Has entrado en ${property.name}`
+    if (property.locked && !this.canUnlock(property, player.characterData.id)) {
+      if (!global.AmericanRP.getCourtManager().canSearch(player, propertyId)) {
+        return { success: false, message: "La propiedad está cerrada" }
+      }
+      message = `Has entrado en ${property.name} con una orden de registro`
+      this.logger.info(`Character ${player.characterData.id} entered property ${propertyId} on a search warrant`)
+    }
+
+    player.insideProperty = propertyId
+    player.dimension = PROPERTY_DIMENSION_BASE + propertyId
+
+    return { success: true, message }
+  }
+
+  public exitProperty(player: any): { success: boolean; message: string } {
+    const property = player.insideProperty ? this.properties.get(player.insideProperty) : undefined
+    if (!property) {
+      return { success: false, message: "No estás dentro de ninguna propiedad" }
+    }
+
+    player.insideProperty = null
+    player.dimension = 0
+    player.position = property.position
+
+    return { success: true, message: `Has salido de ${property.name}` }
+  }
+
+  private canUnlock(property: Property, characterId: number): boolean {
+    return property.owner_id === characterId || this.hasPropertyKey(property.id, characterId)
+  }
+
   public hasPropertyKey(propertyId: number, playerId: number): boolean {
     const keys = this.propertyKeys.get(propertyId)
     return keys ? keys.some((key) => key.player_id === playerId) : false
@@ -294,6 +504,21 @@ export class PropertyManager {
     return this.properties.get(propertyId)
   }
 
+  public getNearestProperty(position: Position, radius: number): Property | undefined {
+    let nearest: Property | undefined
+    let nearestDistance = radius
+
+    this.properties.forEach((property) => {
+      const distance = this.getDistance(position, property.position)
+      if (distance <= nearestDistance) {
+        nearest = property
+        nearestDistance = distance
+      }
+    })
+
+    return nearest
+  }
+
   public getPlayerProperties(playerId: number): Property[] {
     return Array.from(this.properties.values()).filter((property) => property.owner_id === playerId)
   }
@@ -306,29 +531,146 @@ export class PropertyManager {
     return Array.from(this.properties.values()).filter((property) => property.for_rent && !property.rented_by)
   }
 
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "property",
+        aliases: ["prop"],
+        description: "Buy, sell, rent, list, lock or enter properties",
+        usage: "/property [buy|sell|rent|list|lock|unlock|enter|exit] [ID]",
+        params: [
+          {
+            name: "action",
+            type: "word",
+            choices: ["buy", "sell", "rent", "list", "lock", "unlock", "enter", "exit"],
+          },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Properties",
+        execute: (player, _args, params) => this.handlePropertyCommand(player, params.action, params.id),
+      },
+      {
+        name: "asetbusiness",
+        description: "Set what a business property trades",
+        usage: "/asetbusiness [ID] [store|restaurant|bar|gas_station|dealership|none]",
+        params: [
+          { name: "id", type: "integer", min: 1 },
+          {
+            name: "business_type",
+            type: "word",
+            choices: ["store", "restaurant", "bar", "gas_station", "dealership", "none"],
+          },
+        ],
+        adminLevel: 3,
+        category: "Admin",
+        execute: async (player, _args, params) => {
+          const businessType = params.business_type === "none" ? null : params.business_type
+          const result = await this.setBusinessType(params.id, businessType)
+          this.sendPropertyMessage(player, result.message, result.success ? "success" : "error")
+        },
+      },
+    ])
+  }
+
+  private async handlePropertyCommand(player: any, subCommand: string, propertyId?: number): Promise<void> {
+    if (!player.characterData) {
+      this.sendPropertyMessage(player, "Debes tener un personaje para usar este comando", "error")
+      return
+    }
+
+    const characterId = player.characterData.id
+
+    if (subCommand === "list") {
+      const owned = this.getPlayerProperties(characterId)
+      if (owned.length === 0) {
+        this.sendPropertyMessage(player, "No tienes propiedades", "info")
+        return
+      }
+
+      let message = "=== MIS PROPIEDADES ===\n"
+      for (const property of owned) {
+        message += `ID: ${property.id} | ${property.name} (${property.type})\n`
+      }
+      this.sendPropertyMessage(player, message, "info")
+      return
+    }
+
+    if (subCommand === "exit") {
+      const result = this.exitProperty(player)
+      this.sendPropertyMessage(player, result.message, result.success ? "success" : "error")
+      return
+    }
+
+    // Door actions default to the property the player is standing at
+    if (propertyId === undefined && ["lock", "unlock", "enter"].includes(subCommand)) {
+      propertyId = player.insideProperty ?? this.getNearestProperty(player.position, DOOR_RANGE)?.id
+    }
+
+    if (propertyId === undefined) {
+      this.sendPropertyMessage(player, `Uso: /property ${subCommand} [ID]`, "error")
+      return
+    }
+
+    let result: { success: boolean; message: string }
+    if (subCommand === "enter") {
+      result = this.enterProperty(player, propertyId)
+    } else if (subCommand === "lock" || subCommand === "unlock") {
+      result = await this.setLocked(propertyId, characterId, subCommand === "lock")
+    } else if (subCommand === "buy") {
+      result = await this.purchaseProperty(propertyId, characterId)
+    } else if (subCommand === "sell") {
+      result = await this.sellProperty(propertyId, characterId)
+    } else {
+      result = await this.rentProperty(propertyId, characterId)
+    }
+
+    this.sendPropertyMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendPropertyMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#00BFFF",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[PROPERTY] ${message}`, colors[type])
+  }
+
   // Event handlers
   private async handlePropertyPurchase(data: any): Promise<void> {
     const result = await this.purchaseProperty(data.propertyId, data.buyerId)
-    EventManager.emit("property:purchaseResult", { playerId: data.buyerId, result })
+    this.eventManager.emit("property:purchaseResult", { playerId: data.buyerId, result })
   }
 
   private async handlePropertySell(data: any): Promise<void> {
     const result = await this.sellProperty(data.propertyId, data.sellerId)
-    EventManager.emit("property:sellResult", { playerId: data.sellerId, result })
+    this.eventManager.emit("property:sellResult", { playerId: data.sellerId, result })
   }
 
   private async handlePropertyRent(data: any): Promise<void> {
     const result = await this.rentProperty(data.propertyId, data.renterId)
-    EventManager.emit("property:rentResult", { playerId: data.renterId, result })
+    this.eventManager.emit("property:rentResult", { playerId: data.renterId, result })
   }
 
   private async handleGiveKey(data: any): Promise<void> {
     const result = await this.giveKey(data.propertyId, data.playerId, data.keyType)
-    EventManager.emit("property:giveKeyResult", { result })
+    this.eventManager.emit("property:giveKeyResult", { result })
   }
 
   private async handleRemoveKey(data: any): Promise<void> {
     const result = await this.removeKey(data.propertyId, data.playerId)
-    EventManager.emit("property:removeKeyResult", { result })
+    this.eventManager.emit("property:removeKeyResult", { result })
   }
 }
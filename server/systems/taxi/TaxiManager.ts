@@ -0,0 +1,703 @@
+/**
+ * Taxi Manager - Taxi requests from players, the fare meter that charges passengers by distance and time, NPC fare
+ * missions with pickup and dropoff checkpoints, and the split of every fare between the driver and the taxi company
+ */
+
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { envNumber } from "../../core/env"
+import { Logger } from "../../utils/Logger"
+import type { CommandParams, MoneyAccount, Position, TransactionKind } from "../../types"
+
+export interface TaxiConfig {
+  baseFare: number
+  perKilometer: number
+  perMinute: number
+  companyShare: number // Fraction of every fare paid to the taxi company
+}
+
+interface TaxiRequest {
+  id: number
+  caller: any
+  position: Position
+  note: string
+  createdAt: number
+  driver: any | null
+}
+
+interface FareMeter {
+  passenger: any | null // Null for NPC fares
+  npcPassenger: string | null
+  pickup: Position
+  lastPosition: Position
+  distance: number // Meters driven since the meter started
+  startedAt: number
+  npcRoute: { distance: number; maxSeconds: number } | null // What an NPC fare pays for, whatever was driven
+}
+
+interface NpcMission {
+  passengerName: string
+  pickup: { name: string; position: Position }
+  dropoff: { name: string; position: Position }
+  stage: "pickup" | "dropoff"
+}
+
+const TAXI_JOBS = ["Taxi Driver"]
+const TAXI_COMPANY_TAG = "TAXI"
+const METER_TICK_INTERVAL = 2 * 1000
+const CHECKPOINT_RANGE = 10
+const NPC_EXPECTED_SPEED = 10 // Meters per second across town, used to cap the time charged on NPC fares
+const REQUEST_EXPIRY_MINUTES = 15
+const STATS_DAYS = 7
+
+const NPC_LOCATIONS: { name: string; position: Position }[] = [
+  { name: "Legion Square", position: { x: 195.2, y: -933.8, z: 30.7 } },
+  { name: "Del Perro Pier", position: { x: -1604.6, y: -1048.3, z: 13.0 } },
+  { name: "Vinewood Bowl", position: { x: 685.1, y: 573.4, z: 130.5 } },
+  { name: "Los Santos International Airport", position: { x: -1037.8, y: -2737.5, z: 20.2 } },
+  { name: "Pillbox Hill Medical Center", position: { x: 298.6, y: -584.5, z: 43.3 } },
+  { name: "Rockford Plaza", position: { x: -171.6, y: -152.3, z: 43.6 } },
+  { name: "Vespucci Beach", position: { x: -1385.3, y: -1340.6, z: 4.2 } },
+  { name: "Mirror Park", position: { x: 1077.3, y: -696.4, z: 57.6 } },
+  { name: "Union Depository", position: { x: 4.4, y: -708.8, z: 45.9 } },
+  { name: "Maze Bank Arena", position: { x: -254.7, y: -2026.2, z: 30.1 } },
+]
+
+const NPC_NAMES = [
+  "Maria Lopez",
+  "James Carter",
+  "Kevin Nguyen",
+  "Sofia Russo",
+  "Darnell Hayes",
+  "Emily Walsh",
+  "Tomas Petrov",
+  "Grace Kim",
+]
+
+function loadTaxiConfig(): TaxiConfig {
+  return {
+    baseFare: envNumber("TAXI_BASE_FARE", 5),
+    perKilometer: envNumber("TAXI_RATE_PER_KM", 12),
+    perMinute: envNumber("TAXI_RATE_PER_MINUTE", 2),
+    companyShare: Math.min(envNumber("TAXI_COMPANY_SHARE", 0.2), 1),
+  }
+}
+
+export class TaxiManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private config: TaxiConfig
+  private requests: Map<number, TaxiRequest> = new Map()
+  private nextRequestId = 1
+  private meters: Map<number, FareMeter> = new Map() // Keyed by driver player id
+  private missions: Map<number, NpcMission> = new Map() // Keyed by driver player id
+  private companyFactionId: number | null | undefined
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("TaxiManager")
+    this.config = loadTaxiConfig()
+
+    this.registerEvents()
+    this.startMeterTimer()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("player:disconnected", this.handleDisconnect.bind(this))
+    this.eventManager.on("job:duty_off", (player: any) => this.stopWork(player))
+  }
+
+  private startMeterTimer(): void {
+    setInterval(() => {
+      this.processMeters()
+    }, METER_TICK_INTERVAL)
+  }
+
+  public isDriver(player: any): boolean {
+    return global.AmericanRP.getJobManager().isOnDuty(player, TAXI_JOBS)
+  }
+
+  public calculateFare(distanceMeters: number, seconds: number): number {
+    const fare =
+      this.config.baseFare + (distanceMeters / 1000) * this.config.perKilometer + (seconds / 60) * this.config.perMinute
+    return Math.round(fare * 100) / 100
+  }
+
+  /**
+   * Queues a pickup at the caller's position and alerts every on-duty driver
+   */
+  public requestTaxi(caller: any, note: string): { success: boolean; message: string } {
+    this.expireRequests()
+
+    if (this.findRequestByCaller(caller)) {
+      return { success: false, message: "You already called a taxi. Use /canceltaxi to cancel it." }
+    }
+
+    const drivers = global.AmericanRP.getJobManager().getOnDutyPlayers(TAXI_JOBS)
+    if (drivers.length === 0) {
+      return { success: false, message: "No taxi drivers are on duty right now." }
+    }
+
+    const request: TaxiRequest = {
+      id: this.nextRequestId++,
+      caller,
+      position: { x: caller.position.x, y: caller.position.y, z: caller.position.z },
+      note,
+      createdAt: Date.now(),
+      driver: null,
+    }
+    this.requests.set(request.id, request)
+
+    const callerName = `${caller.characterData.first_name} ${caller.characterData.last_name}`
+    global.AmericanRP.getChatManager().sendJobChannelMessage(
+      TAXI_JOBS,
+      `[TAXI] Pickup #${request.id} for ${callerName}${note ? `: ${note}` : ""} (/taxi accept ${request.id})`,
+      "#FFD700",
+    )
+    return { success: true, message: `Taxi requested. ${drivers.length} driver(s) have been notified.` }
+  }
+
+  public cancelRequest(caller: any): boolean {
+    const request = this.findRequestByCaller(caller)
+    if (!request) return false
+
+    this.requests.delete(request.id)
+    if (request.driver) {
+      this.sendTaxiMessage(request.driver, `Pickup #${request.id} was cancelled by the customer.`, "info")
+    }
+    return true
+  }
+
+  public acceptRequest(driver: any, requestId: number): { success: boolean; message: string } {
+    this.expireRequests()
+
+    const request = this.requests.get(requestId)
+    if (!request || request.driver) {
+      return { success: false, message: "That pickup is not waiting for a driver." }
+    }
+    if (this.missions.has(driver.id) || this.meters.has(driver.id)) {
+      return { success: false, message: "Finish your current fare first." }
+    }
+
+    request.driver = driver
+    driver.call("setWaypoint", [request.position.x, request.position.y])
+
+    const driverName = `${driver.characterData.first_name} ${driver.characterData.last_name}`
+    this.sendTaxiMessage(request.caller, `${driverName} accepted your taxi request and is on the way.`, "success")
+    return { success: true, message: `You accepted pickup #${requestId}. A waypoint has been set.` }
+  }
+
+  /**
+   * Gives an idle driver a fare to an NPC passenger: drive to the pickup checkpoint, then to the dropoff
+   */
+  public startMission(driver: any): { success: boolean; message: string } {
+    if (this.missions.has(driver.id) || this.meters.has(driver.id)) {
+      return { success: false, message: "Finish your current fare first." }
+    }
+
+    this.expireRequests()
+    const waiting = Array.from(this.requests.values()).filter((request) => !request.driver).length
+    if (waiting > 0) {
+      return { success: false, message: `${waiting} customer(s) are waiting. Check /taxi list first.` }
+    }
+
+    const pickup = NPC_LOCATIONS[Math.floor(Math.random() * NPC_LOCATIONS.length)]
+    const destinations = NPC_LOCATIONS.filter((location) => location !== pickup)
+    const dropoff = destinations[Math.floor(Math.random() * destinations.length)]
+    const passengerName = NPC_NAMES[Math.floor(Math.random() * NPC_NAMES.length)]
+
+    this.missions.set(driver.id, { passengerName, pickup, dropoff, stage: "pickup" })
+    driver.call("setWaypoint", [pickup.position.x, pickup.position.y])
+    return { success: true, message: `${passengerName} needs a ride from ${pickup.name}. A waypoint has been set.` }
+  }
+
+  public cancelMission(driver: any): boolean {
+    if (!this.missions.delete(driver.id)) return false
+    this.meters.delete(driver.id)
+    return true
+  }
+
+  public startMeter(driver: any, passenger: any): { success: boolean; message: string } {
+    if (this.meters.has(driver.id) || this.missions.has(driver.id)) {
+      return { success: false, message: "Your meter is already running." }
+    }
+    if (!driver.vehicle) {
+      return { success: false, message: "You must be driving your taxi." }
+    }
+    if (passenger === driver || passenger.vehicle !== driver.vehicle) {
+      return { success: false, message: "That player is not a passenger in your taxi." }
+    }
+
+    const position = { x: driver.position.x, y: driver.position.y, z: driver.position.z }
+    this.meters.set(driver.id, {
+      passenger,
+      npcPassenger: null,
+      pickup: position,
+      lastPosition: position,
+      distance: 0,
+      startedAt: Date.now(),
+      npcRoute: null,
+    })
+
+    // The passenger's own request is fulfilled once they are on board
+    const request = this.findRequestByCaller(passenger)
+    if (request) this.requests.delete(request.id)
+
+    const rates = `$${this.config.baseFare} + $${this.config.perKilometer}/km + $${this.config.perMinute}/min`
+    this.sendTaxiMessage(passenger, `The meter is running: ${rates}.`, "info")
+    return { success: true, message: "Meter started." }
+  }
+
+  /**
+   * Stops the meter and charges the fare. Player passengers pay from cash, then from the bank; NPC fares are paid by
+   * the world, so they are priced on the direct route from pickup to dropoff and at most the time that route should
+   * take; otherwise a driver could run up the meter by circling or idling. Either way the company's share goes to the
+   * taxi company's faction account.
+   */
+  public async stopMeter(driver: any): Promise<{ success: boolean; message: string }> {
+    const meter = this.meters.get(driver.id)
+    if (!meter) {
+      return { success: false, message: "Your meter is not running." }
+    }
+    this.meters.delete(driver.id)
+    this.missions.delete(driver.id)
+
+    const seconds = Math.floor((Date.now() - meter.startedAt) / 1000)
+    const fare = meter.npcRoute
+      ? this.calculateFare(meter.npcRoute.distance, Math.min(seconds, meter.npcRoute.maxSeconds))
+      : this.calculateFare(meter.distance, seconds)
+    const companyFactionId = await this.getCompanyFactionId()
+    const companyShare = companyFactionId ? Math.round(fare * this.config.companyShare * 100) / 100 : 0
+    const driverShare = Math.round((fare - companyShare) * 100) / 100
+
+    const split = { driverShare, companyShare, companyFactionId }
+    let paid: boolean
+    if (meter.passenger) {
+      const characterId = meter.passenger.characterData.id
+      paid =
+        (await this.payFare({ type: "cash", characterId }, driver, split, "purchase")) ||
+        (await this.payFare({ type: "bank", characterId }, driver, split, "purchase"))
+    } else {
+      paid = await this.payFare(null, driver, split, "sale")
+    }
+
+    const dropoff = { x: driver.position.x, y: driver.position.y, z: driver.position.z }
+    try {
+      await this.database.query(
+        `INSERT INTO taxi_fares (driver_id, passenger_id, npc_passenger, pickup, dropoff, distance_meters,
+           duration_seconds, fare, driver_share, company_share, status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          driver.characterData.id,
+          meter.passenger?.characterData.id ?? null,
+          meter.npcPassenger,
+          JSON.stringify(meter.pickup),
+          JSON.stringify(dropoff),
+          Math.round(meter.distance),
+          seconds,
+          fare,
+          paid ? driverShare : 0,
+          paid ? companyShare : 0,
+          paid ? "paid" : "unpaid",
+        ],
+      )
+    } catch (error) {
+      this.logger.error("Error recording taxi fare:", error)
+    }
+
+    const trip = `${(meter.distance / 1000).toFixed(2)} km in ${Math.ceil(seconds / 60)} min`
+    if (!paid) {
+      if (meter.passenger) {
+        this.sendTaxiMessage(meter.passenger, `You could not pay your $${fare.toLocaleString()} taxi fare.`, "error")
+      }
+      return { success: false, message: `The passenger could not pay the $${fare.toLocaleString()} fare (${trip}).` }
+    }
+
+    if (meter.passenger) {
+      this.sendTaxiMessage(meter.passenger, `You paid a $${fare.toLocaleString()} taxi fare (${trip}).`, "info")
+    }
+    await global.AmericanRP.getJobManager().recordTaskCompleted(driver)
+    this.eventManager.emit("taxi:fareCompleted", driver, { fare, driverShare, companyShare, npc: !meter.passenger })
+
+    return {
+      success: true,
+      message: `Fare complete: $${fare.toLocaleString()} for ${trip}. You earned $${driverShare.toLocaleString()}.`,
+    }
+  }
+
+  // Both shares move in one commit so a passenger who can cover only part of the fare pays nothing
+  private async payFare(
+    from: MoneyAccount,
+    driver: any,
+    split: { driverShare: number; companyShare: number; companyFactionId: number | null },
+    kind: TransactionKind,
+  ): Promise<boolean> {
+    const { driverShare, companyShare, companyFactionId } = split
+    const economyManager = global.AmericanRP.getEconomyManager()
+    try {
+      await this.database.transaction(async (connection) => {
+        const toDriver = await economyManager.transfer(
+          from,
+          { type: "cash", characterId: driver.characterData.id },
+          driverShare,
+          kind,
+          "Taxi fare",
+          connection,
+        )
+        if (!toDriver.success) throw new Error(toDriver.error)
+
+        if (companyShare > 0 && companyFactionId) {
+          const toCompany = await economyManager.transfer(
+            from,
+            { type: "faction", factionId: companyFactionId },
+            companyShare,
+            kind,
+            "Taxi fare company share",
+            connection,
+          )
+          if (!toCompany.success) throw new Error(toCompany.error)
+        }
+      })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private async getCompanyFactionId(): Promise<number | null> {
+    if (this.companyFactionId !== undefined) return this.companyFactionId
+
+    try {
+      const rows = await this.database.query("SELECT id FROM factions WHERE tag = ?", [TAXI_COMPANY_TAG])
+      this.companyFactionId = rows[0]?.id ?? null
+    } catch (error) {
+      this.logger.error("Error loading the taxi company:", error)
+      return null
+    }
+    return this.companyFactionId ?? null
+  }
+
+  /**
+   * Fares, distance and earnings of one driver over the last days
+   */
+  public async getDriverStats(
+    characterId: number,
+    days = STATS_DAYS,
+  ): Promise<{ fares: number; npcFares: number; unpaid: number; kilometers: number; earnings: number }> {
+    const rows = await this.database.query(
+      `SELECT COUNT(*) AS fares, SUM(npc_passenger IS NOT NULL) AS npc_fares, SUM(status = 'unpaid') AS unpaid,
+              COALESCE(SUM(distance_meters), 0) AS meters, COALESCE(SUM(driver_share), 0) AS earnings
+       FROM taxi_fares WHERE driver_id = ? AND created_at >= DATE_SUB(NOW(), INTERVAL ? DAY)`,
+      [characterId, days],
+    )
+    const row = rows[0]
+    return {
+      fares: Number(row.fares),
+      npcFares: Number(row.npc_fares ?? 0),
+      unpaid: Number(row.unpaid ?? 0),
+      kilometers: Number(row.meters) / 1000,
+      earnings: Number(row.earnings),
+    }
+  }
+
+  // Moves meters forward by the distance driven and walks NPC missions through their checkpoints
+  private async processMeters(): Promise<void> {
+    const playerManager = global.AmericanRP.getPlayerManager()
+
+    for (const [driverId, meter] of this.meters) {
+      const driver = playerManager.getPlayerById(driverId)
+      if (!driver) {
+        this.meters.delete(driverId)
+        continue
+      }
+
+      const position = { x: driver.position.x, y: driver.position.y, z: driver.position.z }
+      meter.distance += this.getDistance(meter.lastPosition, position)
+      meter.lastPosition = position
+
+      // A passenger who gets out ends the ride
+      if (meter.passenger && (!meter.passenger.vehicle || meter.passenger.vehicle !== driver.vehicle)) {
+        const result = await this.stopMeter(driver)
+        this.sendTaxiMessage(driver, `Your passenger got out. ${result.message}`, result.success ? "success" : "error")
+      }
+    }
+
+    for (const [driverId, mission] of this.missions) {
+      const driver = playerManager.getPlayerById(driverId)
+      if (!driver) {
+        this.missions.delete(driverId)
+        continue
+      }
+      if (!driver.vehicle) continue
+
+      const target = mission.stage === "pickup" ? mission.pickup : mission.dropoff
+      if (this.getDistance(driver.position, target.position) > CHECKPOINT_RANGE) continue
+
+      if (mission.stage === "pickup") {
+        mission.stage = "dropoff"
+        const position = { x: driver.position.x, y: driver.position.y, z: driver.position.z }
+        const routeDistance = this.getDistance(mission.pickup.position, mission.dropoff.position)
+        this.meters.set(driverId, {
+          passenger: null,
+          npcPassenger: mission.passengerName,
+          pickup: position,
+          lastPosition: position,
+          distance: 0,
+          startedAt: Date.now(),
+          npcRoute: { distance: routeDistance, maxSeconds: routeDistance / NPC_EXPECTED_SPEED },
+        })
+        driver.call("setWaypoint", [mission.dropoff.position.x, mission.dropoff.position.y])
+        this.sendTaxiMessage(
+          driver,
+          `${mission.passengerName} got in. Drive them to ${mission.dropoff.name}; the meter is running.`,
+          "info",
+        )
+      } else {
+        const result = await this.stopMeter(driver)
+        this.sendTaxiMessage(
+          driver,
+          `${mission.passengerName} got out at ${mission.dropoff.name}. ${result.message}`,
+          result.success ? "success" : "error",
+        )
+      }
+    }
+  }
+
+  private expireRequests(): void {
+    const cutoff = Date.now() - REQUEST_EXPIRY_MINUTES * 60 * 1000
+    for (const [id, request] of this.requests) {
+      if (request.createdAt < cutoff && !request.driver) {
+        this.requests.delete(id)
+        this.sendTaxiMessage(request.caller, "No taxi driver took your request. Try again later.", "info")
+      }
+    }
+  }
+
+  private findRequestByCaller(caller: any): TaxiRequest | undefined {
+    return Array.from(this.requests.values()).find((request) => request.caller === caller)
+  }
+
+  // Off-duty or disconnected drivers lose their NPC fare; a paying passenger is still charged for the ride so far
+  private async stopWork(driver: any): Promise<void> {
+    for (const [id, request] of this.requests) {
+      if (request.driver === driver) {
+        request.driver = null
+        this.sendTaxiMessage(request.caller, `Your driver for pickup #${id} is no longer available.`, "info")
+      }
+    }
+
+    if (this.meters.get(driver.id)?.passenger) {
+      await this.stopMeter(driver)
+    }
+    this.cancelMission(driver)
+  }
+
+  private async handleDisconnect(player: any): Promise<void> {
+    this.cancelRequest(player)
+
+    for (const [driverId, meter] of this.meters) {
+      if (meter.passenger === player) {
+        this.meters.delete(driverId)
+        const driver = global.AmericanRP.getPlayerManager().getPlayerById(driverId)
+        if (driver) this.sendTaxiMessage(driver, "Your passenger left. The meter has been reset.", "info")
+      }
+    }
+
+    await this.stopWork(player)
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "calltaxi",
+        description: "Call a taxi to your location",
+        usage: "/calltaxi [note]",
+        params: [{ name: "note", type: "text", optional: true, max: 100 }],
+        adminLevel: 0,
+        category: "Taxi",
+        execute: (player, _args, params) => {
+          const result = this.requestTaxi(player, params.note ?? "")
+          this.sendTaxiMessage(player, result.message, result.success ? "success" : "error")
+        },
+      },
+      {
+        name: "canceltaxi",
+        description: "Cancel your taxi request",
+        usage: "/canceltaxi",
+        adminLevel: 0,
+        category: "Taxi",
+        execute: (player) => {
+          const cancelled = this.cancelRequest(player)
+          this.sendTaxiMessage(
+            player,
+            cancelled ? "Your taxi request was cancelled." : "You have no taxi request.",
+            cancelled ? "success" : "error",
+          )
+        },
+      },
+      {
+        name: "taxi",
+        description: "Work as a taxi driver: pickups, NPC fares and your statistics (on-duty Taxi Drivers)",
+        usage: "/taxi list | accept [id] | mission | cancel | stats",
+        params: [
+          { name: "action", type: "word", choices: ["list", "accept", "mission", "cancel", "stats"] },
+          { name: "id", type: "integer", optional: true, min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Taxi",
+        execute: (player, _args, params) => this.handleTaxiCommand(player, params),
+      },
+      {
+        name: "meter",
+        description: "Start the fare meter for a passenger or stop it and charge the fare (on-duty Taxi Drivers)",
+        usage: "/meter start [player] | /meter stop",
+        params: [
+          { name: "action", type: "word", choices: ["start", "stop"] },
+          { name: "player", type: "player", optional: true },
+        ],
+        adminLevel: 0,
+        category: "Taxi",
+        execute: (player, _args, params) => this.handleMeterCommand(player, params),
+      },
+    ])
+  }
+
+  private async handleTaxiCommand(player: any, params: CommandParams): Promise<void> {
+    if (params.action === "stats") {
+      await this.showStats(player)
+      return
+    }
+
+    if (!player.characterData || !this.isDriver(player)) {
+      this.sendTaxiMessage(player, "Only on-duty taxi drivers can do that.", "error")
+      return
+    }
+
+    let result: { success: boolean; message: string }
+    if (params.action === "list") {
+      this.showRequests(player)
+      return
+    } else if (params.action === "accept") {
+      if (params.id === undefined) {
+        this.sendTaxiMessage(player, "Usage: /taxi accept [id]", "error")
+        return
+      }
+      result = this.acceptRequest(player, params.id)
+    } else if (params.action === "mission") {
+      result = this.startMission(player)
+    } else {
+      const cancelled = this.cancelMission(player)
+      result = { success: cancelled, message: cancelled ? "NPC fare cancelled." : "You have no NPC fare." }
+    }
+
+    this.sendTaxiMessage(player, result.message, result.success ? "success" : "error")
+  }
+
+  private async handleMeterCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData || !this.isDriver(player)) {
+      this.sendTaxiMessage(player, "Only on-duty taxi drivers can use the meter.", "error")
+      return
+    }
+
+    try {
+      let result: { success: boolean; message: string }
+      if (params.action === "start") {
+        if (!params.player) {
+          this.sendTaxiMessage(player, "Usage: /meter start [player]", "error")
+          return
+        }
+        result = this.startMeter(player, params.player)
+      } else if (this.missions.has(player.id)) {
+        this.sendTaxiMessage(player, "NPC fares are paid at the dropoff. Use /taxi cancel to abandon one.", "error")
+        return
+      } else {
+        result = await this.stopMeter(player)
+      }
+      this.sendTaxiMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling taxi meter:", error)
+      this.sendTaxiMessage(player, "The meter is not working. Try again.", "error")
+    }
+  }
+
+  private showRequests(player: any): void {
+    this.expireRequests()
+
+    let message = "=== Taxi Pickups ===\n"
+    if (this.requests.size === 0) message += "Nobody is waiting. Use /taxi mission for an NPC fare."
+    for (const request of this.requests.values()) {
+      const waiting = Math.round((Date.now() - request.createdAt) / 60000)
+      const distance = Math.round(this.getDistance(player.position, request.position))
+      const status = request.driver ? "taken" : "waiting"
+      message += `#${request.id} ${request.caller.characterData.first_name} | ${status}`
+      message += ` | ${waiting}m ago | ${distance}m away`
+      message += request.note ? `: ${request.note}\n` : "\n"
+    }
+    this.sendTaxiMessage(player, message, "info")
+  }
+
+  // Drivers see their own numbers; taxi supervisors see every driver's
+  private async showStats(player: any): Promise<void> {
+    if (!player.characterData) return
+
+    try {
+      const jobManager = global.AmericanRP.getJobManager()
+      const isSupervisor = TAXI_JOBS.includes(player.jobData?.name ?? "") && jobManager.canManageEmployees(player)
+
+      if (!isSupervisor) {
+        const stats = await this.getDriverStats(player.characterData.id)
+        let message = `=== Your Taxi Stats (last ${STATS_DAYS} days) ===\n`
+        message += `Fares: ${stats.fares} (${stats.npcFares} NPC, ${stats.unpaid} unpaid)\n`
+        message += `Distance: ${stats.kilometers.toFixed(1)} km | Earnings: $${stats.earnings.toLocaleString()}`
+        this.sendTaxiMessage(player, message, "info")
+        return
+      }
+
+      const rows = await this.database.query(
+        `SELECT c.first_name, c.last_name, COUNT(*) AS fares, SUM(tf.distance_meters) AS meters,
+                SUM(tf.driver_share) AS earnings, SUM(tf.company_share) AS company
+         FROM taxi_fares tf JOIN characters c ON tf.driver_id = c.id
+         WHERE tf.created_at >= DATE_SUB(NOW(), INTERVAL ? DAY)
+         GROUP BY tf.driver_id, c.first_name, c.last_name
+         ORDER BY earnings DESC`,
+        [STATS_DAYS],
+      )
+
+      let message = `=== Taxi Drivers (last ${STATS_DAYS} days) ===\n`
+      if (rows.length === 0) message += "No fares"
+      for (const row of rows) {
+        const kilometers = (Number(row.meters) / 1000).toFixed(1)
+        message += `${row.first_name} ${row.last_name}: ${row.fares} fares | ${kilometers} km`
+        message += ` | Driver $${Number(row.earnings).toLocaleString()}`
+        message += ` | Company $${Number(row.company).toLocaleString()}\n`
+      }
+      this.sendTaxiMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing taxi stats:", error)
+      this.sendTaxiMessage(player, "An error occurred while loading the statistics.", "error")
+    }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendTaxiMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#FFD700",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[TAXI] ${message}`, colors[type])
+  }
+}
@@ -0,0 +1,845 @@
+/**
+ * Dealership Manager - Dealerships and their stock, loaded from the database. Each dealership keeps a limited number
+ * of every model; state-run dealerships restock on a schedule, while dealerships run as business properties buy stock
+ * wholesale and set their own retail prices. Customers buy outright, finance the purchase with a bank loan secured by
+ * the vehicle, or take a model out for a timed test drive first.
+ */
+
+import type { RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { CommandManager } from "../../core/CommandManager"
+import { envNumber } from "../../core/env"
+import { Logger } from "../../utils/Logger"
+import type {
+  CommandParams,
+  Dealership,
+  DealershipStock,
+  Loan,
+  MoneyAccount,
+  Position,
+  Vehicle,
+  VehicleModel,
+} from "../../types"
+
+declare const mp: any
+
+export interface DealershipConfig {
+  wholesaleRate: number // Fraction of the list price dealerships pay for new stock
+  minDownPayment: number // Fraction of the price paid up front on a financed purchase
+  testDriveMinutes: number
+}
+
+interface TestDrive {
+  vehicle: any
+  dealershipId: number
+  expiresAt: number
+  warned: boolean
+}
+
+interface StockListing extends DealershipStock {
+  name: string
+  category: string
+  list_price: number
+}
+
+const RESTOCK_CHECK_INTERVAL = 5 * 60 * 1000
+const TEST_DRIVE_TICK_INTERVAL = 5 * 1000
+const TEST_DRIVE_COOLDOWN = 10 * 60 * 1000
+const TEST_DRIVE_WARNING = 60 * 1000
+const MIN_PRICE_RATE = 0.5 // Retail prices are kept between half and double the list price
+const MAX_PRICE_RATE = 2
+const DEFAULT_MAX_STOCK = 5 // For models a dealership starts carrying
+
+function loadDealershipConfig(): DealershipConfig {
+  return {
+    wholesaleRate: Math.min(envNumber("DEALERSHIP_WHOLESALE_RATE", 0.7), 1),
+    minDownPayment: Math.min(envNumber("DEALERSHIP_MIN_DOWN_PAYMENT", 0.2), 1),
+    testDriveMinutes: Math.max(envNumber("TEST_DRIVE_MINUTES", 5), 1),
+  }
+}
+
+export class DealershipManager {
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
+  private config: DealershipConfig
+  private dealerships: Map<number, Dealership> = new Map()
+  private models: Map<string, VehicleModel> = new Map()
+  private testDrives: Map<number, TestDrive> = new Map() // Keyed by player id
+  private lastTestDrive: Map<number, number> = new Map() // Character id -> end of their last test drive
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("DealershipManager")
+    this.config = loadDealershipConfig()
+
+    this.registerEvents()
+    this.loadDealerships()
+    this.startTimers()
+  }
+
+  private registerEvents(): void {
+    this.eventManager.on("player:disconnected", (player: any) => {
+      const drive = this.testDrives.get(player.id)
+      if (!drive) return
+      this.testDrives.delete(player.id)
+      this.destroyVehicle(drive.vehicle)
+    })
+  }
+
+  private startTimers(): void {
+    setInterval(() => {
+      this.restockDealerships()
+    }, RESTOCK_CHECK_INTERVAL)
+
+    setInterval(() => {
+      this.processTestDrives()
+    }, TEST_DRIVE_TICK_INTERVAL)
+  }
+
+  private async loadDealerships(): Promise<void> {
+    try {
+      const models = await this.database.query("SELECT * FROM vehicle_models")
+      this.models.clear()
+      for (const row of models) {
+        this.models.set(row.model, { ...row, list_price: Number(row.list_price) })
+      }
+
+      const rows = await this.database.query("SELECT * FROM dealerships ORDER BY id")
+      this.dealerships.clear()
+      for (const row of rows) {
+        this.dealerships.set(row.id, {
+          id: row.id,
+          tag: row.tag,
+          name: row.name,
+          position: typeof row.position === "string" ? JSON.parse(row.position) : row.position,
+          spawn_position: typeof row.spawn_position === "string" ? JSON.parse(row.spawn_position) : row.spawn_position,
+          radius: Number(row.radius),
+          restock_hours: row.restock_hours,
+          last_restocked_at: row.last_restocked_at ? new Date(row.last_restocked_at) : null,
+          property_id: row.property_id,
+        })
+      }
+      this.logger.success(`Loaded ${this.dealerships.size} dealerships and ${this.models.size} vehicle models`)
+    } catch (error) {
+      this.logger.error("Error loading dealerships:", error)
+    }
+  }
+
+  public getModel(model: string): VehicleModel | undefined {
+    return this.models.get(model.toLowerCase())
+  }
+
+  public getDealershipByTag(tag: string): Dealership | undefined {
+    return Array.from(this.dealerships.values()).find((dealership) => dealership.tag === tag)
+  }
+
+  /**
+   * The dealership whose showroom contains the position, if any
+   */
+  public getDealershipAt(position: Position): Dealership | undefined {
+    return Array.from(this.dealerships.values()).find(
+      (dealership) => this.getDistance(position, dealership.position) <= dealership.radius,
+    )
+  }
+
+  public async getStock(dealershipId: number): Promise<StockListing[]> {
+    const rows = await this.database.query(
+      `SELECT s.*, m.name, m.category, m.list_price FROM dealership_stock s
+       JOIN vehicle_models m ON m.model = s.model
+       WHERE s.dealership_id = ? ORDER BY m.category, s.retail_price`,
+      [dealershipId],
+    )
+    return rows.map((row: any) => this.mapListing(row))
+  }
+
+  public getWholesalePrice(model: VehicleModel): number {
+    return Math.round(model.list_price * this.config.wholesaleRate)
+  }
+
+  /**
+   * Sells a model from the dealership's stock. Without financing the buyer pays the retail price from cash or bank;
+   * with financing they pay the down payment from their bank and a loan secured by the vehicle pays the rest. Sales
+   * of a dealership run as a business go to its property account.
+   */
+  public async sellVehicle(
+    buyerId: number,
+    dealershipTag: string,
+    model: string,
+    payment: "cash" | "bank",
+    financing?: { downPayment: number; installments: number },
+  ): Promise<{ success: boolean; message: string; vehicleId?: number; vehicle?: Vehicle; loan?: Loan }> {
+    const dealership = this.getDealershipByTag(dealershipTag)
+    if (!dealership) {
+      return { success: false, message: "Dealership not found." }
+    }
+
+    const listing = (await this.getStock(dealership.id)).find((candidate) => candidate.model === model.toLowerCase())
+    if (!listing) {
+      return { success: false, message: `${dealership.name} does not sell that model. Use /catalog.` }
+    }
+    if (listing.stock < 1) {
+      return { success: false, message: `The ${listing.name} is out of stock at ${dealership.name}.` }
+    }
+
+    const price = listing.retail_price
+    const loanManager = global.AmericanRP.getLoanManager()
+    const principal = financing ? Math.round((price - financing.downPayment) * 100) / 100 : 0
+    if (financing) {
+      const minDown = Math.ceil(price * this.config.minDownPayment)
+      if (financing.downPayment < minDown) {
+        return { success: false, message: `Financing needs a down payment of at least $${minDown.toLocaleString()}.` }
+      }
+      if (principal <= 0) {
+        return { success: false, message: "That down payment covers the full price. Use /buyvehicle instead." }
+      }
+
+      const quote = await loanManager.quoteVehicleFinancing(buyerId, principal, financing.installments)
+      if (!quote.success) {
+        return { success: false, message: quote.message }
+      }
+    }
+
+    const seller: MoneyAccount = dealership.property_id
+      ? { type: "property", propertyId: dealership.property_id }
+      : null
+    const vehicleManager = global.AmericanRP.getVehicleManager()
+
+    let sale: { vehicle: Vehicle; loan: Loan | null }
+    try {
+      sale = await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT stock, retail_price FROM dealership_stock WHERE dealership_id = ? AND model = ? FOR UPDATE",
+          [dealership.id, listing.model],
+        )
+        if (!rows.length || rows[0].stock < 1) throw new Error("out_of_stock")
+        if (Number(rows[0].retail_price) !== price) throw new Error("price_changed")
+
+        const charge = await global.AmericanRP.getEconomyManager().transfer(
+          { type: financing ? "bank" : payment, characterId: buyerId },
+          seller,
+          financing ? financing.downPayment : price,
+          "purchase",
+          `Vehicle purchase: ${listing.name} at ${dealership.name}`,
+          connection,
+        )
+        if (!charge.success) throw new Error(charge.error)
+
+        const spawn = dealership.spawn_position
+        const vehicle = await vehicleManager.createVehicle(connection, buyerId, listing.model, spawn)
+        const loan = financing
+          ? await loanManager.openVehicleFinancing(
+              connection,
+              buyerId,
+              vehicle.id,
+              principal,
+              financing.installments,
+              seller,
+            )
+          : null
+
+        await connection.execute(
+          "UPDATE dealership_stock SET stock = stock - 1 WHERE dealership_id = ? AND model = ?",
+          [dealership.id, listing.model],
+        )
+        await connection.execute(
+          `INSERT INTO dealership_sales (dealership_id, vehicle_id, buyer_id, model, price, down_payment, loan_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            dealership.id,
+            vehicle.id,
+            buyerId,
+            listing.model,
+            price,
+            financing ? financing.downPayment : price,
+            loan?.id ?? null,
+          ],
+        )
+        return { vehicle, loan }
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : ""
+      if (reason === "out_of_stock") {
+        return { success: false, message: `The ${listing.name} just sold out at ${dealership.name}.` }
+      }
+      if (reason === "price_changed") {
+        return { success: false, message: "The price just changed. Check /catalog and try again." }
+      }
+      if (reason === "active_loan") {
+        return { success: false, message: "You already have an active loan. Pay it off first." }
+      }
+      if (reason === "insufficient_funds") {
+        const account = financing || payment === "bank" ? "bank account" : "cash"
+        return { success: false, message: `You do not have enough money in your ${account}.` }
+      }
+      this.logger.error("Error selling vehicle:", error)
+      return { success: false, message: "An error occurred while processing the purchase." }
+    }
+
+    await vehicleManager.addPurchasedVehicle(sale.vehicle)
+    if (sale.loan) {
+      loanManager.trackLoan(sale.loan)
+    }
+
+    this.logger.info(`Character ${buyerId} bought a ${listing.model} at ${dealership.name} for $${price}`)
+    const terms = sale.loan
+      ? ` with $${financing!.downPayment.toLocaleString()} down and loan #${sale.loan.id} for the rest ` +
+        `(${sale.loan.installments} daily installments of $${sale.loan.installment_amount.toLocaleString()})`
+      : ""
+    return {
+      success: true,
+      message: `You bought a ${listing.name} (${sale.vehicle.plate}) for $${price.toLocaleString()}${terms}.`,
+      vehicleId: sale.vehicle.id,
+      vehicle: sale.vehicle,
+      loan: sale.loan ?? undefined,
+    }
+  }
+
+  // Purchases are delivered to the dealership's lot
+  private deliverVehicle(vehicle: Vehicle, dealership: Dealership): void {
+    const entity = mp.vehicles.new(mp.joaat(vehicle.model), dealership.spawn_position)
+    entity.setVariable("vehicleId", vehicle.id)
+    entity.numberPlate = vehicle.plate
+    entity.locked = true
+  }
+
+  // Test drives
+
+  public async startTestDrive(player: any, model: string): Promise<{ success: boolean; message: string }> {
+    const dealership = this.getDealershipAt(player.position)
+    if (!dealership) {
+      return { success: false, message: "You must be at a dealership." }
+    }
+
+    if (this.testDrives.has(player.id)) {
+      return { success: false, message: "You are already on a test drive. Use /testdrive end to return the car." }
+    }
+
+    if (player.vehicle) {
+      return { success: false, message: "Step out of your vehicle first." }
+    }
+
+    const lastDrive = this.lastTestDrive.get(player.characterData.id) ?? 0
+    if (Date.now() - lastDrive < TEST_DRIVE_COOLDOWN) {
+      const minutes = Math.ceil((TEST_DRIVE_COOLDOWN - (Date.now() - lastDrive)) / 60000)
+      return { success: false, message: `You can take another test drive in ${minutes} min.` }
+    }
+
+    const listing = (await this.getStock(dealership.id)).find((candidate) => candidate.model === model.toLowerCase())
+    if (!listing || listing.stock < 1) {
+      return { success: false, message: `${dealership.name} has no ${model} in stock to test drive.` }
+    }
+
+    const vehicle = mp.vehicles.new(mp.joaat(listing.model), dealership.spawn_position)
+    vehicle.numberPlate = "TESTDRV"
+    vehicle.setVariable("testDrive", true)
+    player.putIntoVehicle(vehicle, 0)
+
+    this.testDrives.set(player.id, {
+      vehicle,
+      dealershipId: dealership.id,
+      expiresAt: Date.now() + this.config.testDriveMinutes * 60 * 1000,
+      warned: false,
+    })
+
+    return {
+      success: true,
+      message: `Enjoy the ${listing.name}. Bring it back within ${this.config.testDriveMinutes} min.`,
+    }
+  }
+
+  /**
+   * Removes the test drive vehicle and brings the driver back to the showroom
+   */
+  public endTestDrive(player: any, message: string): boolean {
+    const drive = this.testDrives.get(player.id)
+    if (!drive) return false
+    this.testDrives.delete(player.id)
+
+    this.destroyVehicle(drive.vehicle)
+    const dealership = this.dealerships.get(drive.dealershipId)
+    if (dealership) {
+      player.position = dealership.position
+    }
+    if (player.characterData) {
+      this.lastTestDrive.set(player.characterData.id, Date.now())
+    }
+
+    this.sendDealershipMessage(player, message, "info")
+    return true
+  }
+
+  private processTestDrives(): void {
+    const now = Date.now()
+    for (const [playerId, drive] of this.testDrives) {
+      const player = global.AmericanRP.getPlayerManager().getPlayerById(playerId)
+      if (!player) {
+        this.testDrives.delete(playerId)
+        this.destroyVehicle(drive.vehicle)
+        continue
+      }
+
+      if (!mp.vehicles.exists(drive.vehicle) || drive.vehicle.dead) {
+        this.endTestDrive(player, "The test drive car was wrecked. The test drive is over.")
+      } else if (now >= drive.expiresAt) {
+        this.endTestDrive(player, "Your test drive is over. You have been brought back to the showroom.")
+      } else if (!drive.warned && drive.expiresAt - now <= TEST_DRIVE_WARNING) {
+        drive.warned = true
+        this.sendDealershipMessage(player, "One minute of your test drive left.", "info")
+      }
+    }
+  }
+
+  // Business management
+
+  /**
+   * Buys stock at the wholesale price from the property account of a dealership run as a business. Models the
+   * dealership does not carry yet are added at their list price.
+   */
+  public async orderStock(
+    player: any,
+    dealership: Dealership,
+    model: string,
+    amount: number,
+  ): Promise<{ success: boolean; message: string }> {
+    if (!dealership.property_id) {
+      return { success: false, message: `${dealership.name} is state-run and restocks on its own.` }
+    }
+    if (!this.canManageDealership(player, dealership)) {
+      return { success: false, message: "Only the owner of this dealership can order stock." }
+    }
+
+    const catalog = this.getModel(model)
+    if (!catalog) {
+      return { success: false, message: "Unknown vehicle model." }
+    }
+
+    const cost = this.getWholesalePrice(catalog) * amount
+    const propertyId = dealership.property_id
+    try {
+      const ordered = await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT stock, max_stock FROM dealership_stock WHERE dealership_id = ? AND model = ? FOR UPDATE",
+          [dealership.id, catalog.model],
+        )
+        const stock = rows[0]?.stock ?? 0
+        const maxStock = rows[0]?.max_stock ?? DEFAULT_MAX_STOCK
+        if (stock + amount > maxStock) {
+          return { success: false, message: `The lot holds at most ${maxStock} ${catalog.name} (${stock} in stock).` }
+        }
+
+        const charge = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "property", propertyId },
+          null,
+          cost,
+          "purchase",
+          `Wholesale order: ${amount}x ${catalog.name} for ${dealership.name}`,
+          connection,
+        )
+        if (!charge.success) {
+          const message =
+            charge.error === "insufficient_funds"
+              ? `The business account cannot cover the $${cost.toLocaleString()} order.`
+              : "The order could not be paid."
+          return { success: false, message }
+        }
+
+        await connection.execute(
+          `INSERT INTO dealership_stock (dealership_id, model, retail_price, stock, max_stock)
+           VALUES (?, ?, ?, ?, ?) ON DUPLICATE KEY UPDATE stock = stock + ?`,
+          [dealership.id, catalog.model, catalog.list_price, amount, DEFAULT_MAX_STOCK, amount],
+        )
+        return {
+          success: true,
+          message: `Ordered ${amount}x ${catalog.name} for $${cost.toLocaleString()}. They are on the lot.`,
+        }
+      })
+      return ordered
+    } catch (error) {
+      this.logger.error("Error ordering dealership stock:", error)
+      return { success: false, message: "An error occurred while placing the order." }
+    }
+  }
+
+  /**
+   * Dealership owners price their own stock; state-run dealerships are priced by senior admins
+   */
+  public async setRetailPrice(
+    player: any,
+    dealership: Dealership,
+    model: string,
+    price: number,
+  ): Promise<{ success: boolean; message: string }> {
+    if (!this.canManageDealership(player, dealership)) {
+      return { success: false, message: "Only the owner of this dealership can set prices." }
+    }
+
+    const catalog = this.getModel(model)
+    if (!catalog) {
+      return { success: false, message: "Unknown vehicle model." }
+    }
+
+    const min = Math.ceil(catalog.list_price * MIN_PRICE_RATE)
+    const max = Math.floor(catalog.list_price * MAX_PRICE_RATE)
+    if (price < min || price > max) {
+      return {
+        success: false,
+        message: `The ${catalog.name} must be priced between $${min.toLocaleString()} and $${max.toLocaleString()}.`,
+      }
+    }
+
+    try {
+      const result = await this.database.query(
+        "UPDATE dealership_stock SET retail_price = ? WHERE dealership_id = ? AND model = ?",
+        [price, dealership.id, catalog.model],
+      )
+      if (result.affectedRows === 0) {
+        return { success: false, message: `${dealership.name} does not carry the ${catalog.name}.` }
+      }
+      return { success: true, message: `The ${catalog.name} now sells for $${price.toLocaleString()}.` }
+    } catch (error) {
+      this.logger.error("Error setting retail price:", error)
+      return { success: false, message: "The price could not be changed." }
+    }
+  }
+
+  /**
+   * Runs a dealership as a business property, or hands it back to the state with a null property id
+   */
+  public async linkDealership(
+    dealershipId: number,
+    propertyId: number | null,
+  ): Promise<{ success: boolean; message: string }> {
+    const dealership = this.dealerships.get(dealershipId)
+    if (!dealership) {
+      return { success: false, message: "Dealership not found." }
+    }
+
+    const property = propertyId ? global.AmericanRP.getPropertyManager().getProperty(propertyId) : undefined
+    if (propertyId && property?.business_type !== "dealership") {
+      return { success: false, message: "The property must be a business of type dealership (/asetbusiness)." }
+    }
+
+    try {
+      await this.database.query("UPDATE dealerships SET property_id = ?, last_restocked_at = NOW() WHERE id = ?", [
+        propertyId,
+        dealershipId,
+      ])
+      dealership.property_id = propertyId
+      dealership.last_restocked_at = new Date()
+      if (!property) {
+        return { success: true, message: `${dealership.name} is state-run again.` }
+      }
+      return { success: true, message: `${dealership.name} is now run by ${property.name}.` }
+    } catch (error) {
+      this.logger.error("Error linking dealership:", error)
+      return { success: false, message: "The dealership could not be updated." }
+    }
+  }
+
+  private canManageDealership(player: any, dealership: Dealership): boolean {
+    if (player.adminLevel >= 3) return true
+    if (!dealership.property_id || !player.characterData) return false
+
+    const property = global.AmericanRP.getPropertyManager().getProperty(dealership.property_id)
+    return property?.owner_id === player.characterData.id
+  }
+
+  // State-run dealerships get a delivery of each model every few hours, up to what their lot holds
+  private async restockDealerships(): Promise<void> {
+    const now = Date.now()
+    for (const dealership of this.dealerships.values()) {
+      if (dealership.property_id) continue
+
+      const last = dealership.last_restocked_at?.getTime() ?? 0
+      if (now - last < dealership.restock_hours * 60 * 60 * 1000) continue
+
+      try {
+        await this.database.query(
+          "UPDATE dealership_stock SET stock = LEAST(max_stock, stock + restock_amount) WHERE dealership_id = ?",
+          [dealership.id],
+        )
+        await this.database.query("UPDATE dealerships SET last_restocked_at = NOW() WHERE id = ?", [dealership.id])
+        dealership.last_restocked_at = new Date(now)
+      } catch (error) {
+        this.logger.error(`Error restocking ${dealership.name}:`, error)
+      }
+    }
+  }
+
+  public registerCommands(commandManager: CommandManager): void {
+    commandManager.registerMany([
+      {
+        name: "catalog",
+        description: "See the models, prices and stock of the dealership you are at",
+        usage: "/catalog",
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player) => this.handleCatalogCommand(player),
+      },
+      {
+        name: "buyvehicle",
+        description: "Buy a vehicle at the dealership you are at",
+        usage: "/buyvehicle [model] [cash|bank]",
+        params: [
+          { name: "model", type: "word" },
+          { name: "payment", type: "word", optional: true, choices: ["cash", "bank"] },
+        ],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleBuyCommand(player, params),
+      },
+      {
+        name: "financevehicle",
+        description: "Buy a vehicle with a down payment and a bank loan secured by the vehicle",
+        usage: "/financevehicle [model] [down payment] [installments]",
+        params: [
+          { name: "model", type: "word" },
+          { name: "downPayment", type: "money" },
+          { name: "installments", type: "integer", min: 1 },
+        ],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleBuyCommand(player, params),
+      },
+      {
+        name: "testdrive",
+        description: "Take a model from the dealership you are at for a test drive, or end it early",
+        usage: "/testdrive [model|end]",
+        params: [{ name: "model", type: "word" }],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleTestDriveCommand(player, params),
+      },
+      {
+        name: "dealer",
+        description: "Manage the dealership you are at: stock, wholesale orders, prices and sales (owners)",
+        usage: "/dealer stock | order [model] [amount] | price [model] [price] | sales",
+        params: [
+          { name: "action", type: "word", choices: ["stock", "order", "price", "sales"] },
+          { name: "model", type: "word", optional: true },
+          { name: "value", type: "money", optional: true },
+        ],
+        adminLevel: 0,
+        category: "Vehicles",
+        execute: (player, _args, params) => this.handleDealerCommand(player, params),
+      },
+      {
+        name: "alinkdealership",
+        description: "Run a dealership as a business property, or 0 to make it state-run",
+        usage: "/alinkdealership [dealership ID] [property ID|0]",
+        params: [
+          { name: "dealershipId", type: "integer", min: 1 },
+          { name: "propertyId", type: "integer", min: 0 },
+        ],
+        adminLevel: 3,
+        category: "Admin",
+        execute: async (player, _args, params) => {
+          const result = await this.linkDealership(params.dealershipId, params.propertyId || null)
+          this.sendDealershipMessage(player, result.message, result.success ? "success" : "error")
+        },
+      },
+    ])
+  }
+
+  private async handleCatalogCommand(player: any): Promise<void> {
+    const dealership = this.getDealershipAt(player.position)
+    if (!dealership) {
+      const list = Array.from(this.dealerships.values())
+        .map((candidate) => `${candidate.name} (#${candidate.id})`)
+        .join(", ")
+      this.sendDealershipMessage(player, `You must be at a dealership. Dealerships: ${list}`, "error")
+      return
+    }
+
+    try {
+      const stock = await this.getStock(dealership.id)
+      let message = `=== ${dealership.name} ===\n`
+      for (const listing of stock) {
+        const availability = listing.stock > 0 ? `${listing.stock} in stock` : "sold out"
+        message += `${listing.model} - ${listing.name} | $${listing.retail_price.toLocaleString()} | ${availability}\n`
+      }
+      message += `Buy with /buyvehicle, finance with /financevehicle (${this.config.minDownPayment * 100}% down), `
+      message += "or try one with /testdrive"
+      this.sendDealershipMessage(player, message, "info")
+    } catch (error) {
+      this.logger.error("Error showing catalog:", error)
+      this.sendDealershipMessage(player, "An error occurred while loading the catalog.", "error")
+    }
+  }
+
+  private async handleBuyCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    const dealership = this.getDealershipAt(player.position)
+    if (!dealership) {
+      this.sendDealershipMessage(player, "You must be at a dealership.", "error")
+      return
+    }
+
+    const financing =
+      params.downPayment !== undefined
+        ? { downPayment: params.downPayment, installments: params.installments }
+        : undefined
+    const result = await this.sellVehicle(
+      player.characterData.id,
+      dealership.tag,
+      params.model,
+      params.payment ?? "cash",
+      financing,
+    )
+    this.sendDealershipMessage(player, result.message, result.success ? "success" : "error")
+
+    if (result.vehicle) {
+      this.deliverVehicle(result.vehicle, dealership)
+      this.sendDealershipMessage(player, "Your new vehicle is waiting on the lot.", "info")
+      if (result.loan) {
+        this.sendDealershipMessage(player, "It can be repossessed if the loan defaults. See /loan status.", "info")
+      }
+    }
+  }
+
+  private async handleTestDriveCommand(player: any, params: CommandParams): Promise<void> {
+    if (!player.characterData) return
+
+    if (params.model === "end") {
+      if (!this.endTestDrive(player, "Test drive ended. Thanks for stopping by!")) {
+        this.sendDealershipMessage(player, "You are not on a test drive.", "error")
+      }
+      return
+    }
+
+    try {
+      const result = await this.startTestDrive(player, params.model)
+      this.sendDealershipMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error starting test drive:", error)
+      this.sendDealershipMessage(player, "An error occurred while preparing the test drive.", "error")
+    }
+  }
+
+  private async handleDealerCommand(player: any, params: CommandParams): Promise<void> {
+    const dealership = this.getDealershipAt(player.position)
+    if (!dealership) {
+      this.sendDealershipMessage(player, "You must be at a dealership.", "error")
+      return
+    }
+
+    if (!this.canManageDealership(player, dealership)) {
+      this.sendDealershipMessage(player, "Only the owner of this dealership can manage it.", "error")
+      return
+    }
+
+    try {
+      if (params.action === "stock") {
+        await this.showStock(player, dealership)
+        return
+      }
+      if (params.action === "sales") {
+        await this.showSales(player, dealership)
+        return
+      }
+
+      if (!params.model || params.value === undefined) {
+        const usage = params.action === "order" ? "order [model] [amount]" : "price [model] [price]"
+        this.sendDealershipMessage(player, `Usage: /dealer ${usage}`, "error")
+        return
+      }
+
+      if (params.action === "order" && (!Number.isInteger(params.value) || params.value < 1)) {
+        this.sendDealershipMessage(player, "Order a whole number of vehicles.", "error")
+        return
+      }
+
+      const result =
+        params.action === "order"
+          ? await this.orderStock(player, dealership, params.model, params.value)
+          : await this.setRetailPrice(player, dealership, params.model, params.value)
+      this.sendDealershipMessage(player, result.message, result.success ? "success" : "error")
+    } catch (error) {
+      this.logger.error("Error handling dealer command:", error)
+      this.sendDealershipMessage(player, "An error occurred while managing the dealership.", "error")
+    }
+  }
+
+  private async showStock(player: any, dealership: Dealership): Promise<void> {
+    const stock = await this.getStock(dealership.id)
+    const restock = dealership.property_id
+      ? "Restock with /dealer order"
+      : `Restocks every ${dealership.restock_hours}h`
+
+    let message = `=== ${dealership.name} stock | ${restock} ===\n`
+    for (const listing of stock) {
+      const wholesale = this.getWholesalePrice(listing)
+      message += `${listing.model} | ${listing.stock}/${listing.max_stock}`
+      message += ` | retail $${listing.retail_price.toLocaleString()} | wholesale $${wholesale.toLocaleString()}`
+      message += ` | list $${listing.list_price.toLocaleString()}\n`
+    }
+    this.sendDealershipMessage(player, message, "info")
+  }
+
+  private async showSales(player: any, dealership: Dealership): Promise<void> {
+    const sales = await this.database.query(
+      `SELECT s.*, c.first_name, c.last_name FROM dealership_sales s
+       JOIN characters c ON c.id = s.buyer_id
+       WHERE s.dealership_id = ? ORDER BY s.created_at DESC LIMIT 10`,
+      [dealership.id],
+    )
+    const [week] = await this.database.query(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(price), 0) AS revenue FROM dealership_sales
+       WHERE dealership_id = ? AND created_at > NOW() - INTERVAL 7 DAY`,
+      [dealership.id],
+    )
+
+    let message = `=== ${dealership.name} sales | last 7 days: ${week.count} for `
+    message += `$${Number(week.revenue).toLocaleString()} ===\n`
+    for (const sale of sales) {
+      const financed = sale.loan_id ? ` (financed, $${Number(sale.down_payment).toLocaleString()} down)` : ""
+      message += `${new Date(sale.created_at).toLocaleDateString()} | ${sale.model} to ${sale.first_name} `
+      message += `${sale.last_name} | $${Number(sale.price).toLocaleString()}${financed}\n`
+    }
+    this.sendDealershipMessage(player, message, "info")
+  }
+
+  private destroyVehicle(vehicle: any): void {
+    if (vehicle && mp.vehicles.exists(vehicle)) {
+      vehicle.destroy()
+    }
+  }
+
+  private mapListing(row: any): StockListing {
+    return {
+      dealership_id: row.dealership_id,
+      model: row.model,
+      name: row.name,
+      category: row.category,
+      list_price: Number(row.list_price),
+      retail_price: Number(row.retail_price),
+      stock: row.stock,
+      max_stock: row.max_stock,
+      restock_amount: row.restock_amount,
+    }
+  }
+
+  private getDistance(pos1: any, pos2: any): number {
+    if (!pos1 || !pos2) return Number.POSITIVE_INFINITY
+
+    const dx = pos1.x - pos2.x
+    const dy = pos1.y - pos2.y
+    const dz = pos1.z - pos2.z
+
+    return Math.sqrt(dx * dx + dy * dy + dz * dz)
+  }
+
+  private sendDealershipMessage(player: any, message: string, type: "success" | "error" | "info"): void {
+    const colors = {
+      success: "#00FF00",
+      error: "#FF0000",
+      info: "#FFD700",
+    }
+
+    global.AmericanRP.getChatManager().sendMessage(player, `[DEALERSHIP] ${message}`, colors[type])
+  }
+}
@@ -1,44 +1,47 @@
-import { EventManager } from "../../core/EventManager"
-import { Database } from "../../core/database"
+import type { EventManager } from "../../core/EventManager"
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise"
+import type { Database } from "../../core/database"
 import { Logger } from "../../utils/Logger"
-import type { Vehicle, VehicleKey } from "../../types"
+import type { GasStation, Position, TransferResult, Vehicle, VehicleKey, VehicleSaleOffer } from "../../types"
+
+const SALE_OFFER_EXPIRY = 2 * 60 * 1000
+
+declare const mp: any
 
 export class VehicleManager {
-  private static instance: VehicleManager
+  private database: Database
+  private eventManager: EventManager
+  private logger: Logger
   private vehicles: Map<number, Vehicle> = new Map()
   private vehicleKeys: Map<number, VehicleKey[]> = new Map()
-  private dealerships: Map<string, any[]> = new Map()
+  private saleOffers: Map<number, VehicleSaleOffer> = new Map() // Keyed by buyer character id
+
+  constructor(database: Database, eventManager: EventManager) {
+    this.database = database
+    this.eventManager = eventManager
+    this.logger = new Logger("VehicleManager")
 
-  private constructor() {
     this.initializeEvents()
     this.loadVehicles()
-    this.setupDealerships()
-  }
-
-  public static getInstance(): VehicleManager {
-    if (!VehicleManager.instance) {
-      VehicleManager.instance = new VehicleManager()
-    }
-    return VehicleManager.instance
   }
 
   private initializeEvents(): void {
     // Vehicle purchase events
-    EventManager.on("vehicle:purchase", this.handleVehiclePurchase.bind(this))
-    EventManager.on("vehicle:sell", this.handleVehicleSell.bind(this))
+    this.eventManager.on("vehicle:purchase", this.handleVehiclePurchase.bind(this))
+    this.eventManager.on("vehicle:sell", this.handleVehicleSell.bind(this))
 
     // Vehicle key events
-    EventManager.on("vehicle:giveKey", this.handleGiveKey.bind(this))
-    EventManager.on("vehicle:removeKey", this.handleRemoveKey.bind(this))
+    this.eventManager.on("vehicle:giveKey", this.handleGiveKey.bind(this))
+    this.eventManager.on("vehicle:removeKey", this.handleRemoveKey.bind(this))
 
     // Vehicle maintenance events
-    EventManager.on("vehicle:refuel", this.handleRefuel.bind(this))
-    EventManager.on("vehicle:repair", this.handleRepair.bind(this))
-    EventManager.on("vehicle:modify", this.handleModify.bind(this))
+    this.eventManager.on("vehicle:refuel", this.handleRefuel.bind(this))
+    this.eventManager.on("vehicle:repair", this.handleRepair.bind(this))
+    this.eventManager.on("vehicle:modify", this.handleModify.bind(this))
 
     // Vehicle impound events
-    EventManager.on("vehicle:impound", this.handleImpound.bind(this))
-    EventManager.on("vehicle:unimpound", this.handleUnimpound.bind(this))
+    this.eventManager.on("vehicle:impound", this.handleImpound.bind(this))
+    this.eventManager.on("vehicle:unimpound", this.handleUnimpound.bind(this))
   }
 
   private async loadVehicles(): Promise<void> {
@@ -50,7 +53,7 @@ export class VehicleManager {
                 WHERE v.deleted_at IS NULL
             `
 
-      const results = await Database.query(query)
+      const results = await this.database.query(query)
       const vehicleMap = new Map()
 
       for (const row of results) {
@@ -60,11 +63,11 @@ export class VehicleManager {
             owner_id: row.owner_id,
             model: row.model,
             plate: row.plate,
-            color_primary: JSON.parse(row.color_primary),
-            color_secondary: JSON.parse(row.color_secondary),
-            position: JSON.parse(row.position),
-            rotation: JSON.parse(row.rotation),
-            fuel: row.fuel,
+            color_primary: this.parseJsonColumn(row.color_primary),
+            color_secondary: this.parseJsonColumn(row.color_secondary),
+            position: this.parseJsonColumn(row.position),
+            rotation: this.parseJsonColumn(row.rotation),
+            fuel: Number(row.fuel),
             engine_health: row.engine_health,
             body_health: row.body_health,
             locked: row.locked,
@@ -80,165 +83,92 @@ export class VehicleManager {
       }
 
       this.vehicles = vehicleMap
-      Logger.info(`Loaded ${this.vehicles.size} vehicles`)
+      this.logger.info(`Loaded ${this.vehicles.size} vehicles`)
     } catch (error) {
-      Logger.error("Error loading vehicles:", error)
+      this.logger.error("Error loading vehicles:", error)
     }
   }
 
-  private setupDealerships(): void {
-    // Premium Deluxe Motorsport
-    this.dealerships.set("pdm", [
-      { model: "adder", name: "Truffade Adder", price: 1000000, category: "super" },
-      { model: "zentorno", name: "Pegassi Zentorno", price: 725000, category: "super" },
-      { model: "entityxf", name: "Overflod Entity XF", price: 795000, category: "super" },
-      { model: "infernus", name: "Pegassi Infernus", price: 440000, category: "super" },
-      { model: "vacca", name: "Pegassi Vacca", price: 240000, category: "super" },
-      { model: "bullet", name: "Vapid Bullet", price: 155000, category: "super" },
-      { model: "cheetah", name: "Grotti Cheetah", price: 650000, category: "super" },
-      { model: "voltic", name: "Coil Voltic", price: 150000, category: "super" },
-      { model: "banshee", name: "Bravado Banshee", price: 105000, category: "sports" },
-      { model: "carbonizzare", name: "Grotti Carbonizzare", price: 195000, category: "sports" },
-      { model: "coquette", name: "Invetero Coquette", price: 138000, category: "sports" },
-      { model: "ninef", name: "Obey 9F", price: 130000, category: "sports" },
-      { model: "rapidgt", name: "Dewbauchee Rapid GT", price: 132000, category: "sports" },
-      { model: "stinger", name: "Grotti Stinger", price: 850000, category: "sports_classic" },
-      { model: "buffalo", name: "Bravado Buffalo", price: 35000, category: "sports" },
-      { model: "feltzer2", name: "Benefactor Feltzer", price: 130000, category: "sports" },
-    ])
-
-    // Simeon's Dealership (Budget)
-    this.dealerships.set("simeon", [
-      { model: "blista", name: "Dinka Blista", price: 8000, category: "compact" },
-      { model: "brioso", name: "Grotti Brioso R/A", price: 18000, category: "compact" },
-      { model: "dilettante", name: "Karin Dilettante", price: 25000, category: "compact" },
-      { model: "issi2", name: "Weeny Issi", price: 18000, category: "compact" },
-      { model: "panto", name: "Benefactor Panto", price: 85000, category: "compact" },
-      { model: "prairie", name: "Bollokan Prairie", price: 25000, category: "compact" },
-      { model: "rhapsody", name: "Declasse Rhapsody", price: 140000, category: "compact" },
-      { model: "asea", name: "Declasse Asea", price: 12000, category: "sedan" },
-      { model: "asterope", name: "Karin Asterope", price: 26000, category: "sedan" },
-      { model: "fugitive", name: "Cheval Fugitive", price: 24000, category: "sedan" },
-      { model: "ingot", name: "Vulcar Ingot", price: 9000, category: "sedan" },
-      { model: "intruder", name: "Karin Intruder", price: 16000, category: "sedan" },
-      { model: "premier", name: "Declasse Premier", price: 10000, category: "sedan" },
-      { model: "primo", name: "Albany Primo", price: 9000, category: "sedan" },
-      { model: "regina", name: "Dundreary Regina", price: 8000, category: "sedan" },
-      { model: "stratum", name: "Zirconium Stratum", price: 10000, category: "sedan" },
-    ])
-
-    // Motorcycle Dealership
-    this.dealerships.set("bikes", [
-      { model: "akuma", name: "Dinka Akuma", price: 9000, category: "motorcycle" },
-      { model: "bagger", name: "Western Bagger", price: 16000, category: "motorcycle" },
-      { model: "bati", name: "Pegassi Bati 801", price: 15000, category: "motorcycle" },
-      { model: "bati2", name: "Pegassi Bati 801RR", price: 15000, category: "motorcycle" },
-      { model: "carbonrs", name: "Nagasaki Carbon RS", price: 40000, category: "motorcycle" },
-      { model: "daemon", name: "Western Daemon", price: 5000, category: "motorcycle" },
-      { model: "double", name: "Dinka Double-T", price: 12000, category: "motorcycle" },
-      { model: "faggio2", name: "Pegassi Faggio", price: 4000, category: "motorcycle" },
-      { model: "hexer", name: "LCC Hexer", price: 15000, category: "motorcycle" },
-      { model: "innovation", name: "LCC Innovation", price: 90000, category: "motorcycle" },
-      { model: "nemesis", name: "Principe Nemesis", price: 12000, category: "motorcycle" },
-      { model: "pcj", name: "Shitzu PCJ 600", price: 9000, category: "motorcycle" },
-      { model: "ruffian", name: "Pegassi Ruffian", price: 10000, category: "motorcycle" },
-      { model: "sanchez", name: "Maibatsu Sanchez", price: 7000, category: "motorcycle" },
-      { model: "sovereign", name: "Western Sovereign", price: 90000, category: "motorcycle" },
-      { model: "thrust", name: "Dinka Thrust", price: 75000, category: "motorcycle" },
-    ])
+  // JSON columns arrive decoded or as strings depending on the driver's type casting
+  private parseJsonColumn(value: any): any {
+    return typeof value === "string" ? JSON.parse(value) : value
   }
 
+  /**
+   * Buys a model from a dealership's stock with cash; the dealership manager handles stock, pricing and financing
+   */
   public async purchaseVehicle(
     playerId: number,
     dealership: string,
     model: string,
   ): Promise<{ success: boolean; message: string; vehicleId?: number }> {
-    try {
-      const dealershipVehicles = this.dealerships.get(dealership)
-      if (!dealershipVehicles) {
-        return { success: false, message: "Concesionario no encontrado" }
-      }
-
-      const vehicleInfo = dealershipVehicles.find((v) => v.model === model)
-      if (!vehicleInfo) {
-        return { success: false, message: "Vehículo no disponible en este concesionario" }
-      }
-
-      // Check player money
-      const playerQuery = "SELECT money FROM characters WHERE id = ?"
-      const playerResult = await Database.query(playerQuery, [playerId])
-
-      if (!playerResult.length || playerResult[0].money < vehicleInfo.price) {
-        return { success: false, message: "No tienes suficiente dinero" }
-      }
-
-      // Generate unique plate
-      const plate = this.generatePlate()
-
-      // Create vehicle
-      const insertQuery = `
-                INSERT INTO vehicles (owner_id, model, plate, color_primary, color_secondary, position, rotation, fuel, engine_health, body_health, locked, impounded, insurance_expires)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-            `
-
-      const defaultPosition = JSON.stringify({ x: -56.79, y: -1096.85, z: 25.42 })
-      const defaultRotation = JSON.stringify({ x: 0, y: 0, z: 0 })
-      const defaultColor = JSON.stringify({ r: 255, g: 255, b: 255 })
-      const insuranceExpires = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
+    return global.AmericanRP.getDealershipManager().sellVehicle(playerId, dealership, model, "cash")
+  }
 
-      const result = await Database.query(insertQuery, [
-        playerId,
+  /**
+   * Inserts a new vehicle for its owner inside the caller's purchase transaction, with a full tank, no insurance and
+   * a freshly issued title. Once the transaction commits, addPurchasedVehicle hands over the keys.
+   */
+  public async createVehicle(
+    connection: PoolConnection,
+    ownerId: number,
+    model: string,
+    position: Position,
+  ): Promise<Vehicle> {
+    const plate = this.generatePlate()
+    const color = { r: 255, g: 255, b: 255 }
+    const rotation = { x: 0, y: 0, z: 0 }
+    const fuel = global.AmericanRP.getFuelManager().getProfile(model).tank_liters // Full tank
+
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO vehicles (owner_id, model, plate, color_primary, color_secondary, position, rotation, fuel,
+         engine_health, body_health, locked, impounded, insurance_expires)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        ownerId,
         model,
         plate,
-        defaultColor,
-        defaultColor,
-        defaultPosition,
-        defaultRotation,
-        100,
+        JSON.stringify(color),
+        JSON.stringify(color),
+        JSON.stringify(position),
+        JSON.stringify(rotation),
+        fuel,
         1000,
         1000,
         true,
         false,
-        insuranceExpires,
-      ])
-
-      const vehicleId = result.insertId
-
-      // Deduct money
-      await Database.query("UPDATE characters SET money = money - ? WHERE id = ?", [vehicleInfo.price, playerId])
-
-      // Give keys
-      await this.giveKey(vehicleId, playerId, "owner")
-
-      // Add to memory
-      const newVehicle: Vehicle = {
-        id: vehicleId,
-        owner_id: playerId,
-        model,
-        plate,
-        color_primary: { r: 255, g: 255, b: 255 },
-        color_secondary: { r: 255, g: 255, b: 255 },
-        position: { x: -56.79, y: -1096.85, z: 25.42 },
-        rotation: { x: 0, y: 0, z: 0 },
-        fuel: 100,
-        engine_health: 1000,
-        body_health: 1000,
-        locked: true,
-        impounded: false,
-        insurance_expires: insuranceExpires,
-        modifications: new Map(),
-      }
-
-      this.vehicles.set(vehicleId, newVehicle)
-
-      Logger.info(`Player ${playerId} purchased vehicle ${model} (ID: ${vehicleId}) for $${vehicleInfo.price}`)
-      return { success: true, message: `Has comprado un ${vehicleInfo.name} por $${vehicleInfo.price}`, vehicleId }
-    } catch (error) {
-      Logger.error("Error purchasing vehicle:", error)
-      return { success: false, message: "Error interno del servidor" }
+        null, // Insurance is bought from an agent
+      ],
+    )
+    await connection.execute(
+      "INSERT INTO vehicle_title_transfers (vehicle_id, to_owner_id, type) VALUES (?, ?, 'issued')",
+      [result.insertId, ownerId],
+    )
+
+    return {
+      id: result.insertId,
+      owner_id: ownerId,
+      model,
+      plate,
+      color_primary: color,
+      color_secondary: { ...color },
+      position,
+      rotation,
+      fuel,
+      engine_health: 1000,
+      body_health: 1000,
+      locked: true,
+      impounded: false,
+      insurance_expires: null,
+      modifications: new Map(),
     }
   }
 
+  public async addPurchasedVehicle(vehicle: Vehicle): Promise<void> {
+    this.vehicles.set(vehicle.id, vehicle)
+    await this.giveKey(vehicle.id, vehicle.owner_id, "owner")
+  }
+
   public async sellVehicle(vehicleId: number, sellerId: number): Promise<{ success: boolean; message: string }> {
     try {
       const vehicle = this.vehicles.get(vehicleId)
@@ -254,32 +184,215 @@ export class VehicleManager {
         return { success: false, message: "No puedes vender un vehículo incautado" }
       }
 
+      if (global.AmericanRP.getLoanManager().isCollateralPledged("vehicle", vehicleId)) {
+        return { success: false, message: "Este vehículo es la garantía de un préstamo activo" }
+      }
+
       // Calculate sell price (50% of original)
-      const dealershipVehicles = Array.from(this.dealerships.values()).flat()
-      const vehicleInfo = dealershipVehicles.find((v) => v.model === vehicle.model)
-      const sellPrice = vehicleInfo ? Math.floor(vehicleInfo.price * 0.5) : 5000
+      const listPrice = this.getCatalogPrice(vehicle.model)
+      const sellPrice = listPrice ? Math.floor(listPrice * 0.5) : 5000
+
+      // Pay the seller, remove the keys and mark the vehicle as deleted in one commit
+      const sold = await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT owner_id FROM vehicles WHERE id = ? AND deleted_at IS NULL FOR UPDATE",
+          [vehicleId],
+        )
+        if (!rows.length || rows[0].owner_id !== sellerId) {
+          return false
+        }
 
-      // Add money to player
-      await Database.query("UPDATE characters SET money = money + ? WHERE id = ?", [sellPrice, sellerId])
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          null,
+          { type: "cash", characterId: sellerId },
+          sellPrice,
+          "sale",
+          `Vehicle sale: ${vehicle.plate}`,
+          connection,
+        )
+        if (!payment.success) {
+          return false
+        }
 
-      // Remove vehicle keys
-      await Database.query("DELETE FROM vehicle_keys WHERE vehicle_id = ?", [vehicleId])
+        await connection.execute("DELETE FROM vehicle_keys WHERE vehicle_id = ?", [vehicleId])
+        await connection.execute("UPDATE vehicles SET deleted_at = NOW() WHERE id = ?", [vehicleId])
+        return true
+      })
 
-      // Mark vehicle as deleted
-      await Database.query("UPDATE vehicles SET deleted_at = NOW() WHERE id = ?", [vehicleId])
+      if (!sold) {
+        return { success: false, message: "Error interno del servidor" }
+      }
 
       // Remove from memory
       this.vehicles.delete(vehicleId)
       this.vehicleKeys.delete(vehicleId)
 
-      Logger.info(`Player ${sellerId} sold vehicle ${vehicleId} for $${sellPrice}`)
+      this.logger.info(`Player ${sellerId} sold vehicle ${vehicleId} for $${sellPrice}`)
       return { success: true, message: `Has vendido tu vehículo por $${sellPrice}` }
     } catch (error) {
-      Logger.error("Error selling vehicle:", error)
+      this.logger.error("Error selling vehicle:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
 
+  /**
+   * Offers a vehicle to another player at a price. The offer waits in memory until the buyer accepts or declines it,
+   * the seller cancels it or it expires.
+   */
+  public offerVehicleSale(
+    vehicleId: number,
+    sellerId: number,
+    buyerId: number,
+    price: number,
+  ): { success: boolean; message: string } {
+    const vehicle = this.vehicles.get(vehicleId)
+    if (!vehicle) {
+      return { success: false, message: "Vehículo no encontrado" }
+    }
+
+    if (vehicle.owner_id !== sellerId) {
+      return { success: false, message: "No eres el propietario de este vehículo" }
+    }
+
+    if (sellerId === buyerId) {
+      return { success: false, message: "No puedes venderte un vehículo a ti mismo" }
+    }
+
+    if (vehicle.impounded) {
+      return { success: false, message: "No puedes vender un vehículo incautado" }
+    }
+
+    if (global.AmericanRP.getLoanManager().isCollateralPledged("vehicle", vehicleId)) {
+      return { success: false, message: "Este vehículo es la garantía de un préstamo activo" }
+    }
+
+    if (this.getSaleOfferBySeller(sellerId)) {
+      return { success: false, message: "Ya tienes una oferta de venta pendiente. Cancélala con /vsale cancel" }
+    }
+
+    if (this.getSaleOffer(buyerId)) {
+      return { success: false, message: "Ese jugador ya tiene una oferta de venta pendiente" }
+    }
+
+    this.saleOffers.set(buyerId, { vehicleId, sellerId, buyerId, price, expiresAt: Date.now() + SALE_OFFER_EXPIRY })
+    return { success: true, message: `Has ofrecido tu ${vehicle.model} (${vehicle.plate}) por $${price}` }
+  }
+
+  public getSaleOffer(buyerId: number): VehicleSaleOffer | undefined {
+    const offer = this.saleOffers.get(buyerId)
+    if (offer && offer.expiresAt < Date.now()) {
+      this.saleOffers.delete(buyerId)
+      return undefined
+    }
+    return offer
+  }
+
+  public getSaleOfferBySeller(sellerId: number): VehicleSaleOffer | undefined {
+    for (const offer of this.saleOffers.values()) {
+      if (offer.sellerId === sellerId) {
+        return this.getSaleOffer(offer.buyerId)
+      }
+    }
+    return undefined
+  }
+
+  // Removes the offer made to the buyer, returning it so the seller can be told
+  public declineVehicleSale(buyerId: number): VehicleSaleOffer | undefined {
+    const offer = this.getSaleOffer(buyerId)
+    if (offer) {
+      this.saleOffers.delete(buyerId)
+    }
+    return offer
+  }
+
+  // Removes the seller's own offer, returning it so the buyer can be told
+  public cancelVehicleSale(sellerId: number): VehicleSaleOffer | undefined {
+    const offer = this.getSaleOfferBySeller(sellerId)
+    if (offer) {
+      this.saleOffers.delete(offer.buyerId)
+    }
+    return offer
+  }
+
+  /**
+   * Completes the buyer's pending offer in one commit: the price moves from the buyer's bank to the seller's, the
+   * title passes to the buyer with a transfer record, every existing key is revoked and the previous owner's
+   * insurance is cancelled.
+   */
+  public async acceptVehicleSale(
+    buyerId: number,
+  ): Promise<{ success: boolean; message: string; offer?: VehicleSaleOffer }> {
+    const offer = this.getSaleOffer(buyerId)
+    this.saleOffers.delete(buyerId)
+    if (!offer) {
+      return { success: false, message: "No tienes ninguna oferta de venta pendiente" }
+    }
+
+    const vehicle = this.vehicles.get(offer.vehicleId)
+    if (!vehicle || vehicle.owner_id !== offer.sellerId || vehicle.impounded) {
+      return { success: false, message: "El vehículo ya no está a la venta" }
+    }
+
+    if (global.AmericanRP.getLoanManager().isCollateralPledged("vehicle", offer.vehicleId)) {
+      return { success: false, message: "Este vehículo es la garantía de un préstamo activo" }
+    }
+
+    try {
+      await this.database.transaction(async (connection) => {
+        const [rows] = await connection.query<RowDataPacket[]>(
+          "SELECT owner_id, impounded FROM vehicles WHERE id = ? AND deleted_at IS NULL FOR UPDATE",
+          [offer.vehicleId],
+        )
+        if (!rows.length || rows[0].owner_id !== offer.sellerId || rows[0].impounded) {
+          throw new Error("not_for_sale")
+        }
+
+        const payment = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "bank", characterId: buyerId },
+          { type: "bank", characterId: offer.sellerId },
+          offer.price,
+          "sale",
+          `Vehicle sale: ${vehicle.plate}`,
+          connection,
+        )
+        if (!payment.success) throw new Error(payment.error)
+
+        await connection.execute("UPDATE vehicles SET owner_id = ? WHERE id = ?", [buyerId, offer.vehicleId])
+        await connection.execute("DELETE FROM vehicle_keys WHERE vehicle_id = ?", [offer.vehicleId])
+        await connection.execute(
+          "INSERT INTO vehicle_keys (vehicle_id, player_id, key_type, created_at) VALUES (?, ?, 'owner', NOW())",
+          [offer.vehicleId, buyerId],
+        )
+        await connection.execute(
+          `INSERT INTO vehicle_title_transfers (vehicle_id, from_owner_id, to_owner_id, type, price, transaction_id)
+           VALUES (?, ?, ?, 'sale', ?, ?)`,
+          [offer.vehicleId, offer.sellerId, buyerId, offer.price, payment.transactionId ?? null],
+        )
+        await global.AmericanRP.getInsuranceManager().cancelVehicleCoverage(connection, offer.vehicleId)
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : ""
+      if (reason === "insufficient_funds") {
+        return { success: false, message: "No tienes suficiente dinero en el banco" }
+      }
+      if (reason === "not_for_sale") {
+        return { success: false, message: "El vehículo ya no está a la venta" }
+      }
+      this.logger.error("Error transferring vehicle title:", error)
+      return { success: false, message: "Error interno del servidor" }
+    }
+
+    // Update memory
+    vehicle.owner_id = buyerId
+    vehicle.insurance_expires = null
+    this.vehicleKeys.set(offer.vehicleId, [
+      { vehicle_id: offer.vehicleId, player_id: buyerId, key_type: "owner", created_at: new Date() },
+    ])
+
+    this.logger.info(`Player ${offer.sellerId} sold vehicle ${offer.vehicleId} to ${buyerId} for $${offer.price}`)
+    return { success: true, message: `Has comprado el ${vehicle.model} (${vehicle.plate}) por $${offer.price}`, offer }
+  }
+
   public async giveKey(
     vehicleId: number,
     playerId: number,
@@ -292,7 +405,7 @@ export class VehicleManager {
       }
 
       // Check if player already has a key
-      const existingKey = await Database.query("SELECT * FROM vehicle_keys WHERE vehicle_id = ? AND player_id = ?", [
+      const existingKey = await this.database.query("SELECT * FROM vehicle_keys WHERE vehicle_id = ? AND player_id = ?", [
         vehicleId,
         playerId,
       ])
@@ -302,7 +415,7 @@ export class VehicleManager {
       }
 
       // Insert new key
-      await Database.query(
+      await this.database.query(
         "INSERT INTO vehicle_keys (vehicle_id, player_id, key_type, created_at) VALUES (?, ?, ?, NOW())",
         [vehicleId, playerId, keyType],
       )
@@ -321,14 +434,14 @@ export class VehicleManager {
 
       return { success: true, message: "Llave entregada correctamente" }
     } catch (error) {
-      Logger.error("Error giving vehicle key:", error)
+      this.logger.error("Error giving vehicle key:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
 
   public async removeKey(vehicleId: number, playerId: number): Promise<{ success: boolean; message: string }> {
     try {
-      const result = await Database.query(
+      const result = await this.database.query(
         'DELETE FROM vehicle_keys WHERE vehicle_id = ? AND player_id = ? AND key_type != "owner"',
         [vehicleId, playerId],
       )
@@ -346,7 +459,7 @@ export class VehicleManager {
 
       return { success: true, message: "Llave eliminada correctamente" }
     } catch (error) {
-      Logger.error("Error removing vehicle key:", error)
+      this.logger.error("Error removing vehicle key:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -356,39 +469,77 @@ export class VehicleManager {
     return keys ? keys.some((key) => key.player_id === playerId) : false
   }
 
+  /**
+   * Fills the tank at a gas station at the station's price. The sale goes to the station's business property when it
+   * has one, otherwise out of the economy.
+   */
   public async refuelVehicle(
     vehicleId: number,
     amount: number,
-  ): Promise<{ success: boolean; message: string; cost?: number }> {
+    payerId: number,
+    station: GasStation,
+  ): Promise<{ success: boolean; message: string; cost?: number; liters?: number }> {
     try {
       const vehicle = this.vehicles.get(vehicleId)
       if (!vehicle) {
         return { success: false, message: "Vehículo no encontrado" }
       }
 
-      const fuelPrice = 2.5 // $2.5 per liter
-      const maxFuel = 100
+      const tankSize = global.AmericanRP.getFuelManager().getProfile(vehicle.model).tank_liters
       const currentFuel = vehicle.fuel
-      const actualAmount = Math.min(amount, maxFuel - currentFuel)
-      const cost = Math.floor(actualAmount * fuelPrice)
+      const actualAmount = Math.round(Math.min(amount, tankSize - currentFuel) * 100) / 100
+      const cost = Math.round(actualAmount * station.fuel_price * 100) / 100
 
       if (actualAmount <= 0) {
         return { success: false, message: "El tanque ya está lleno" }
       }
 
-      // Update fuel
-      vehicle.fuel = currentFuel + actualAmount
+      const newFuel = currentFuel + actualAmount
+
+      // Charge the driver and update fuel in one commit
+      const payment = await this.database.transaction(async (connection) => {
+        // Top-ups too small to round to a cent are free
+        const charge: TransferResult =
+          cost > 0
+            ? await global.AmericanRP.getEconomyManager().transfer(
+                { type: "cash", characterId: payerId },
+                station.property_id ? { type: "property", propertyId: station.property_id } : null,
+                cost,
+                "purchase",
+                `Fuel at ${station.name}: ${vehicle.plate}`,
+                connection,
+              )
+            : { success: true }
+        if (charge.success) {
+          await connection.execute("UPDATE vehicles SET fuel = ? WHERE id = ?", [newFuel, vehicleId])
+        }
+        return charge
+      })
+
+      if (!payment.success) {
+        const message =
+          payment.error === "insufficient_funds" ? `No tienes suficiente dinero. Costo: $${cost}` : "Error interno del servidor"
+        return { success: false, message, cost }
+      }
 
-      await Database.query("UPDATE vehicles SET fuel = ? WHERE id = ?", [vehicle.fuel, vehicleId])
+      vehicle.fuel = newFuel
 
-      return { success: true, message: `Repostado ${actualAmount}L de combustible`, cost }
+      return {
+        success: true,
+        message: `Repostado ${actualAmount}L de combustible a $${station.fuel_price}/L`,
+        cost,
+        liters: actualAmount,
+      }
     } catch (error) {
-      Logger.error("Error refueling vehicle:", error)
+      this.logger.error("Error refueling vehicle:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
 
-  public async repairVehicle(vehicleId: number): Promise<{ success: boolean; message: string; cost?: number }> {
+  public async repairVehicle(
+    vehicleId: number,
+    payerId: number,
+  ): Promise<{ success: boolean; message: string; cost?: number }> {
     try {
       const vehicle = this.vehicles.get(vehicleId)
       if (!vehicle) {
@@ -406,19 +557,71 @@ export class VehicleManager {
 
       const repairCost = Math.floor(totalDamage * 0.5) // $0.5 per damage point
 
-      // Repair vehicle
+      // Charge the owner and repair the vehicle in one commit
+      const payment = await this.database.transaction(async (connection) => {
+        // Repairs too small to round to a dollar are free
+        const charge: TransferResult =
+          repairCost > 0
+            ? await global.AmericanRP.getEconomyManager().transfer(
+                { type: "cash", characterId: payerId },
+                null,
+                repairCost,
+                "fee",
+                `Repair: ${vehicle.plate}`,
+                connection,
+              )
+            : { success: true }
+        if (charge.success) {
+          await connection.execute("UPDATE vehicles SET engine_health = ?, body_health = ? WHERE id = ?", [
+            maxHealth,
+            maxHealth,
+            vehicleId,
+          ])
+        }
+        return charge
+      })
+
+      if (!payment.success) {
+        const message =
+          payment.error === "insufficient_funds"
+            ? `No tienes suficiente dinero. Costo: $${repairCost}`
+            : "Error interno del servidor"
+        return { success: false, message, cost: repairCost }
+      }
+
       vehicle.engine_health = maxHealth
       vehicle.body_health = maxHealth
 
-      await Database.query("UPDATE vehicles SET engine_health = ?, body_health = ? WHERE id = ?", [
+      return { success: true, message: "Vehículo reparado completamente", cost: repairCost }
+    } catch (error) {
+      this.logger.error("Error repairing vehicle:", error)
+      return { success: false, message: "Error interno del servidor" }
+    }
+  }
+
+  /**
+   * Restores engine and body health without charging anyone; the mechanic's service order has already been paid
+   */
+  public async restoreVehicleHealth(vehicleId: number): Promise<{ success: boolean; message: string }> {
+    try {
+      const vehicle = this.vehicles.get(vehicleId)
+      if (!vehicle) {
+        return { success: false, message: "Vehículo no encontrado" }
+      }
+
+      const maxHealth = 1000
+      await this.database.query("UPDATE vehicles SET engine_health = ?, body_health = ? WHERE id = ?", [
         maxHealth,
         maxHealth,
         vehicleId,
       ])
 
-      return { success: true, message: "Vehículo reparado completamente", cost: repairCost }
+      vehicle.engine_health = maxHealth
+      vehicle.body_health = maxHealth
+
+      return { success: true, message: "Vehículo reparado completamente" }
     } catch (error) {
-      Logger.error("Error repairing vehicle:", error)
+      this.logger.error("Error restoring vehicle health:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -435,7 +638,7 @@ export class VehicleManager {
       }
 
       // Update or insert modification
-      await Database.query(
+      await this.database.query(
         "INSERT INTO vehicle_modifications (vehicle_id, component, value) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE value = ?",
         [vehicleId, component, value, value],
       )
@@ -445,7 +648,7 @@ export class VehicleManager {
 
       return { success: true, message: "Modificación aplicada correctamente" }
     } catch (error) {
-      Logger.error("Error modifying vehicle:", error)
+      this.logger.error("Error modifying vehicle:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -453,7 +656,7 @@ export class VehicleManager {
   public async impoundVehicle(
     vehicleId: number,
     reason: string,
-    impounderId: number,
+    impounderId: number | null, // null for automatic impounds
   ): Promise<{ success: boolean; message: string }> {
     try {
       const vehicle = this.vehicles.get(vehicleId)
@@ -468,18 +671,19 @@ export class VehicleManager {
       // Impound vehicle
       vehicle.impounded = true
 
-      await Database.query("UPDATE vehicles SET impounded = ? WHERE id = ?", [true, vehicleId])
+      await this.database.query("UPDATE vehicles SET impounded = ? WHERE id = ?", [true, vehicleId])
 
       // Log impound
-      await Database.query(
+      await this.database.query(
         "INSERT INTO vehicle_impounds (vehicle_id, reason, impounded_by, impounded_at) VALUES (?, ?, ?, NOW())",
         [vehicleId, reason, impounderId],
       )
 
-      Logger.info(`Vehicle ${vehicleId} impounded by player ${impounderId}. Reason: ${reason}`)
+      const impounder = impounderId ? `player ${impounderId}` : "the system"
+      this.logger.info(`Vehicle ${vehicleId} impounded by ${impounder}. Reason: ${reason}`)
       return { success: true, message: "Vehículo incautado correctamente" }
     } catch (error) {
-      Logger.error("Error impounding vehicle:", error)
+      this.logger.error("Error impounding vehicle:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -500,21 +704,35 @@ export class VehicleManager {
 
       const impoundCost = 500 // $500 to unimpound
 
-      // Check player money
-      const playerResult = await Database.query("SELECT money FROM characters WHERE id = ?", [payerId])
-      if (!playerResult.length || playerResult[0].money < impoundCost) {
-        return { success: false, message: "No tienes suficiente dinero para recuperar el vehículo" }
+      // The impound fee goes to the government and the release happens in the same commit
+      const payment = await this.database.transaction(async (connection) => {
+        const charge = await global.AmericanRP.getEconomyManager().transfer(
+          { type: "cash", characterId: payerId },
+          { type: "government" },
+          impoundCost,
+          "fee",
+          `Impound release: ${vehicle.plate}`,
+          connection,
+        )
+        if (charge.success) {
+          await connection.execute("UPDATE vehicles SET impounded = ? WHERE id = ?", [false, vehicleId])
+        }
+        return charge
+      })
+
+      if (!payment.success) {
+        const message =
+          payment.error === "insufficient_funds"
+            ? "No tienes suficiente dinero para recuperar el vehículo"
+            : "Error interno del servidor"
+        return { success: false, message }
       }
 
-      // Unimpound vehicle
       vehicle.impounded = false
 
-      await Database.query("UPDATE vehicles SET impounded = ? WHERE id = ?", [false, vehicleId])
-      await Database.query("UPDATE characters SET money = money - ? WHERE id = ?", [impoundCost, payerId])
-
       return { success: true, message: "Vehículo recuperado correctamente", cost: impoundCost }
     } catch (error) {
-      Logger.error("Error unimpounding vehicle:", error)
+      this.logger.error("Error unimpounding vehicle:", error)
       return { success: false, message: "Error interno del servidor" }
     }
   }
@@ -532,57 +750,110 @@ export class VehicleManager {
     return this.vehicles.get(vehicleId)
   }
 
+  public getVehicleByPlate(plate: string): Vehicle | undefined {
+    const normalized = plate.toUpperCase()
+    return Array.from(this.vehicles.values()).find((vehicle) => vehicle.plate === normalized)
+  }
+
   public getPlayerVehicles(playerId: number): Vehicle[] {
     return Array.from(this.vehicles.values()).filter((vehicle) => vehicle.owner_id === playerId)
   }
 
-  public getDealershipVehicles(dealership: string): any[] {
-    return this.dealerships.get(dealership) || []
+  public getCatalogPrice(model: string): number | undefined {
+    return global.AmericanRP.getDealershipManager().getModel(model)?.list_price
+  }
+
+  /**
+   * Writes off a vehicle inside the caller's transaction by revoking its keys and soft-deleting it. Once the
+   * transaction commits, forgetVehicle drops it from memory.
+   */
+  public async writeOffVehicle(vehicleId: number, connection: PoolConnection): Promise<void> {
+    await connection.execute("DELETE FROM vehicle_keys WHERE vehicle_id = ?", [vehicleId])
+    await connection.execute("UPDATE vehicles SET deleted_at = NOW() WHERE id = ?", [vehicleId])
+  }
+
+  /**
+   * Takes a vehicle back for a defaulted loan: the title is revoked by writing the vehicle off, with its keys and the
+   * owner's insurance, so it cannot be recovered from the impound lot for a fee.
+   */
+  public async repossessVehicle(vehicleId: number, reason: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const vehicle = this.vehicles.get(vehicleId)
+      if (!vehicle) {
+        return { success: false, message: "Vehículo no encontrado" }
+      }
+
+      const previousOwner = vehicle.owner_id
+
+      await this.database.transaction(async (connection) => {
+        await global.AmericanRP.getInsuranceManager().cancelVehicleCoverage(connection, vehicleId)
+        await this.writeOffVehicle(vehicleId, connection)
+      })
+
+      mp.vehicles.forEach((entity: any) => {
+        if (entity.getVariable("vehicleId") === vehicleId) entity.destroy()
+      })
+      this.forgetVehicle(vehicleId)
+
+      this.logger.info(`Vehicle ${vehicleId} repossessed from player ${previousOwner}. Reason: ${reason}`)
+      return { success: true, message: "Vehículo embargado correctamente" }
+    } catch (error) {
+      this.logger.error("Error repossessing vehicle:", error)
+      return { success: false, message: "Error interno del servidor" }
+    }
+  }
+
+  public forgetVehicle(vehicleId: number): void {
+    this.vehicles.delete(vehicleId)
+    this.vehicleKeys.delete(vehicleId)
   }
 
   // Event handlers
   private async handleVehiclePurchase(data: any): Promise<void> {
     const result = await this.purchaseVehicle(data.playerId, data.dealership, data.model)
-    EventManager.emit("vehicle:purchaseResult", { playerId: data.playerId, result })
+    this.eventManager.emit("vehicle:purchaseResult", { playerId: data.playerId, result })
   }
 
   private async handleVehicleSell(data: any): Promise<void> {
     const result = await this.sellVehicle(data.vehicleId, data.sellerId)
-    EventManager.emit("vehicle:sellResult", { playerId: data.sellerId, result })
+    this.eventManager.emit("vehicle:sellResult", { playerId: data.sellerId, result })
   }
 
   private async handleGiveKey(data: any): Promise<void> {
     const result = await this.giveKey(data.vehicleId, data.playerId, data.keyType)
-    EventManager.emit("vehicle:giveKeyResult", { result })
+    this.eventManager.emit("vehicle:giveKeyResult", { result })
   }
 
   private async handleRemoveKey(data: any): Promise<void> {
     const result = await this.removeKey(data.vehicleId, data.playerId)
-    EventManager.emit("vehicle:removeKeyResult", { result })
+    this.eventManager.emit("vehicle:removeKeyResult", { result })
   }
 
   private async handleRefuel(data: any): Promise<void> {
-    const result = await this.refuelVehicle(data.vehicleId, data.amount)
-    EventManager.emit("vehicle:refuelResult", { playerId: data.playerId, result })
+    const station = global.AmericanRP.getFuelManager().getStation(data.stationId)
+    const result = station
+      ? await this.refuelVehicle(data.vehicleId, data.amount, data.playerId, station)
+      : { success: false, message: "Gasolinera no encontrada" }
+    this.eventManager.emit("vehicle:refuelResult", { playerId: data.playerId, result })
   }
 
   private async handleRepair(data: any): Promise<void> {
-    const result = await this.repairVehicle(data.vehicleId)
-    EventManager.emit("vehicle:repairResult", { playerId: data.playerId, result })
+    const result = await this.repairVehicle(data.vehicleId, data.playerId)
+    this.eventManager.emit("vehicle:repairResult", { playerId: data.playerId, result })
   }
 
   private async handleModify(data: any): Promise<void> {
     const result = await this.modifyVehicle(data.vehicleId, data.component, data.value)
-    EventManager.emit("vehicle:modifyResult", { result })
+    this.eventManager.emit("vehicle:modifyResult", { result })
   }
 
   private async handleImpound(data: any): Promise<void> {
     const result = await this.impoundVehicle(data.vehicleId, data.reason, data.impounderId)
-    EventManager.emit("vehicle:impoundResult", { result })
+    this.eventManager.emit("vehicle:impoundResult", { result })
   }
 
   private async handleUnimpound(data: any): Promise<void> {
     const result = await this.unimpoundVehicle(data.vehicleId, data.payerId)
-    EventManager.emit("vehicle:unimpoundResult", { playerId: data.payerId, result })
+    this.eventManager.emit("vehicle:unimpoundResult", { playerId: data.payerId, result })
   }
 }
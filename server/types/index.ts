@@ -13,7 +13,10 @@ export interface Character {
   phone_number?: string
   money: number
   bank_money: number
+  credit_score: number
   job_id?: number
+  job_rank: number
+  job_tasks: number
   faction_id?: number
   faction_rank: number
   position_x: number
@@ -43,6 +46,54 @@ export interface Job {
   created_at: Date
 }
 
+export interface JobRank {
+  id: number
+  job_id: number
+  level: number
+  name: string
+  salary_multiplier: number
+  required_duty_hours: number
+  required_tasks: number
+  can_manage: boolean
+}
+
+export type JobApplicationStatus = "pending" | "interview" | "approved" | "rejected"
+
+export interface JobApplication {
+  id: number
+  character_id: number
+  job_id: number
+  application_date: Date
+  status: JobApplicationStatus
+  interview_at: Date | null
+  interviewer_id: number | null
+  reviewed_by: number | null
+  review_date: Date | null
+  review_notes: string | null
+  hired_at: Date | null
+}
+
+export interface EmploymentRecord {
+  id: number
+  character_id: number
+  job_id: number
+  started_at: Date
+  ended_at: Date | null
+  end_reason: "quit" | "fired" | null
+  final_rank: number | null
+}
+
+export interface JobRankChange {
+  id: number
+  character_id: number
+  job_id: number
+  from_level: number
+  to_level: number
+  changed_by: number | null
+  reason: string | null
+  created_at: Date
+}
+
 // Faction related types
 export interface Faction {
   id: number
@@ -64,6 +115,7 @@ export interface Property {
   owner_id?: number | null
   name: string
   type: "House" | "Business" | "Garage" | "Warehouse"
+  business_type?: BusinessType | null
   price: number
   position: Position
   interior: number
@@ -78,6 +130,8 @@ export interface Property {
   created_at: Date
 }
 
+export type BusinessType = "store" | "restaurant" | "bar" | "gas_station" | "dealership"
+
 // Vehicle related types
 export interface Vehicle {
   id: number
@@ -93,7 +147,7 @@ export interface Vehicle {
   body_health: number
   locked: boolean
   impounded: boolean
-  insurance_expires?: Date
+  insurance_expires?: Date | null
   modifications: Map<number, number>
 }
 
@@ -115,12 +169,31 @@ export interface User {
 // Command related types
 export interface Command {
   name: string
+  aliases?: string[]
   description: string
-  usage: string
+  usage?: string // Generated from params when omitted
+  params?: CommandArgument[]
   adminLevel: number
-  execute: (player: any, args: string[]) => void // Updated to use 'any' type as PlayerMp is undeclared
+  category?: string
+  allowWhileDowned?: boolean // Help and medical commands stay usable while the character is down
+  execute: (player: any, args: string[], params: CommandParams) => void | Promise<void> // Updated to use 'any' type as PlayerMp is undeclared
+}
+
+// Command argument related types
+export type CommandArgumentType = "player" | "integer" | "number" | "money" | "duration" | "plate" | "word" | "text"
+
+export interface CommandArgument {
+  name: string
+  type: CommandArgumentType
+  optional?: boolean
+  min?: number
+  max?: number
+  unit?: "m" | "h" | "d" // Unit applied to bare duration numbers, defaults to minutes
+  choices?: string[]
 }
 
+export type CommandParams = Record<string, any>
+
 // Chat related types
 export interface ChatMessage {
   player: any // Updated to use 'any' type as PlayerMp is undeclared
@@ -139,14 +212,490 @@ export interface Position {
 }
 
 // Economy related types
+export type TransactionKind =
+  | "salary"
+  | "purchase"
+  | "sale"
+  | "transfer"
+  | "fine"
+  | "fee"
+  | "rent"
+  | "tax"
+  | "bonus"
+  | "deposit"
+  | "withdraw"
+  | "grant"
+  | "faction_deposit"
+  | "faction_withdraw"
+  | "business_income"
+  | "adjustment"
+  | "interest"
+  | "loan_disbursement"
+  | "loan_payment"
+
 export interface Transaction {
   id: number
   from_character_id?: number
   to_character_id?: number
   amount: number
-  type: "salary" | "purchase" | "transfer" | "fine" | "bonus"
+  type: TransactionKind
+  description: string
+  created_at: Date
+}
+
+// A side of a money transfer; null is the world outside the player economy (NPC sellers, buyers and payers)
+export type MoneyAccount =
+  | { type: "cash" | "bank"; characterId: number }
+  | { type: "faction"; factionId: number }
+  | { type: "property"; propertyId: number }
+  | { type: "government" }
+  | null
+
+export type LedgerAccountType = "cash" | "bank" | "faction" | "property" | "government" | "world"
+
+export interface LedgerAccount {
+  id: number
+  type: LedgerAccountType
+  owner_id: number
+  balance: number
+  created_at: Date
+}
+
+// Credits are positive and debits negative, so the entries of every transaction sum to zero
+export interface LedgerEntry {
+  id: number
+  transaction_id: number
+  account_id: number
+  amount: number
+  created_at: Date
+}
+
+export interface TransferResult {
+  success: boolean
+  error?: "invalid_amount" | "insufficient_funds" | "account_not_found" | "failed"
+  transactionId?: number
+}
+
+// Loan related types
+export type LoanCollateralType = "none" | "vehicle" | "property"
+
+export interface Loan {
+  id: number
+  character_id: number
+  principal: number
+  apr: number
+  installments: number
+  installment_amount: number
+  balance: number
+  period_paid: number // Paid toward the installment currently due
+  installments_paid: number
+  missed_payments: number
+  collateral_type: LoanCollateralType
+  collateral_id: number | null
+  status: "active" | "paid" | "defaulted"
+  next_due_at: Date
+  created_at: Date
+  closed_at: Date | null
+}
+
+export type LoanEventType = "disbursed" | "payment" | "interest" | "missed" | "penalty" | "paid_off" | "defaulted" | "repossessed"
+
+// Tax related types
+export interface TaxBracket {
+  threshold: number // Taxable income above this amount is taxed at rate, up to the next bracket's threshold
+  rate: number
+}
+
+export interface TaxPolicy {
+  allowance: number // Tax-free income per payroll run
+  brackets: TaxBracket[]
+  min_rate: number // Limits set by admins within which the mayor may adjust the policy
+  max_rate: number
+  max_allowance: number
+  updated_by: number | null
+  updated_at: Date
+}
+
+export interface Payslip {
+  id: number
+  character_id: number
+  job_id: number | null
+  duty_minutes: number
+  salary: number
+  faction_bonus: number
+  tax_exempt_salary: boolean
+  allowance: number
+  taxable_income: number
+  income_tax: number
+  net_pay: number
+  created_at: Date
+}
+
+export interface DutySession {
+  id: number
+  character_id: number
+  job_id: number
+  job_rank: number
+  started_at: Date
+  ended_at: Date | null
+  end_reason: "off_duty" | "disconnect" | "quit" | "fired" | "server_restart" | null
+  active_seconds: number
+  paid_seconds: number
+}
+
+// Inventory related types
+export type ItemCategory = "food" | "drink" | "medical" | "tool" | "weapon" | "ammo" | "key" | "electronics" | "misc"
+
+export interface ItemDefinition {
+  key: string
+  name: string
+  description: string
+  category: ItemCategory
+  weight: number // Kilograms per unit
+  stackable: boolean
+  maxStack: number
+  hunger?: number // Points restored when eaten or drunk
+  thirst?: number
+}
+
+export type ContainerType = "character" | "vehicle" | "property" | "faction" | "ground"
+
+export interface ContainerRef {
+  type: ContainerType
+  id: number // Character, vehicle, property or faction id; 0 for the ground
+}
+
+export interface InventoryItem {
+  id: number
+  container_type: ContainerType
+  container_id: number
+  item_key: string
+  quantity: number
+  metadata: Record<string, any> | null
+  position: Position | null // Ground items only
+  dimension: number | null
+  created_at: Date
+}
+
+// Injury related types
+export type InjuryCause = "assault" | "accident" | "starvation" | "dehydration"
+
+export interface Injury {
+  id: number
+  character_id: number
+  cause: InjuryCause
+  weapon_hash: number | null
+  attacker_id: number | null
+  position: Position
+  status: "downed" | "revived" | "respawned"
+  treated_by: number | null
+  hospital_bill: number
+  transaction_id: number | null
+  created_at: Date
+  resolved_at: Date | null
+}
+
+// Law enforcement related types
+export interface CriminalRecord {
+  id: number
+  character_id: number
+  offense: string
+  officer_id: number | null
+  created_at: Date
+}
+
+export interface Warrant {
+  id: number
+  character_id: number
+  reason: string
+  issued_by: number | null
+  status: "active" | "served" | "revoked"
+  created_at: Date
+  closed_at: Date | null
+}
+
+export interface Bolo {
+  id: number
+  character_id: number | null // Set for person BOLOs
+  plate: string | null // Set for vehicle BOLOs
+  description: string
+  issued_by: number | null
+  status: "active" | "cleared"
+  created_at: Date
+  cleared_at: Date | null
+}
+
+export interface Citation {
+  id: number
+  character_id: number
+  vehicle_id: number | null
+  offense: string
+  amount: number
+  late_penalty: number
+  status: "unpaid" | "overdue" | "paid" | "dismissed"
+  issued_by: number | null
+  due_at: Date
+  paid_at: Date | null
+  transaction_id: number | null
+  created_at: Date
+}
+
+export interface JailSentence {
+  id: number
+  character_id: number
+  officer_id: number | null
+  charges: string
+  minutes: number
+  remaining_seconds: number
+  status: "serving" | "released"
+  created_at: Date
+  released_at: Date | null
+}
+
+export type CourtCaseStatus = "filed" | "scheduled" | "awaiting_sentence" | "closed"
+export type CourtPlea = "guilty" | "not_guilty" | "no_contest"
+export type CourtVerdict = "guilty" | "not_guilty" | "dismissed"
+
+export interface CourtCase {
+  id: number
+  defendant_id: number
+  record_id: number | null
+  citation_id: number | null
+  charges: string
+  prosecutor_id: number | null
+  defender_id: number | null
+  judge_id: number | null
+  status: CourtCaseStatus
+  hearing_at: Date | null
+  plea: CourtPlea | null
+  verdict: CourtVerdict | null
+  fine: number | null
+  jail_minutes: number | null
+  created_at: Date
+  closed_at: Date | null
+}
+
+export interface SearchWarrant {
+  id: number
+  property_id: number
+  reason: string
+  issued_by: number | null
+  status: "active" | "revoked"
+  expires_at: Date
+  created_at: Date
+}
+
+export interface PhoneMessage {
+  id: number
+  sender_id: number | null
+  sender_number: string
+  recipient_id: number
+  body: string
+  read_at: Date | null
+  created_at: Date
+}
+
+export interface PhoneContact {
+  id: number
+  character_id: number
+  name: string
+  number: string
+  created_at: Date
+}
+
+export type DispatchLine = "911" | "311"
+
+export interface DispatchCall {
+  id: number
+  line: DispatchLine
+  caller_id: number | null
+  caller_number: string | null
+  description: string
+  position: Position
+  status: "pending" | "accepted" | "en_route" | "closed"
+  unit_id: number | null
+  unit_job: string | null
+  report: string | null
+  created_at: Date
+  accepted_at: Date | null
+  en_route_at: Date | null
+  closed_at: Date | null
+}
+
+export interface TaxiFare {
+  id: number
+  driver_id: number
+  passenger_id: number | null
+  npc_passenger: string | null
+  pickup: Position
+  dropoff: Position
+  distance_meters: number
+  duration_seconds: number
+  fare: number
+  driver_share: number
+  company_share: number
+  status: "paid" | "unpaid"
+  created_at: Date
+}
+
+export interface LogisticsLocation {
+  id: number
+  name: string
+  type: "depot" | "destination"
+  position: Position
+}
+
+export interface LogisticsRoute {
+  id: number
+  job_id: number
+  name: string
+  depot: LogisticsLocation
+  destination: LogisticsLocation
+  cargo_name: string
+  cargo_weight_kg: number
+  cargo_value: number
+  vehicle_model: string
+  base_pay: number
+  pay_per_km: number
+  time_limit_minutes: number
+  active: boolean
+}
+
+export interface LogisticsDelivery {
+  id: number
+  route_id: number
+  character_id: number
+  status: "in_progress" | "delivered" | "failed" | "abandoned"
+  started_at: Date
+  loaded_at: Date | null
+  finished_at: Date | null
+  distance_meters: number | null
+  condition_percent: number | null
+  late_seconds: number | null
+  payout: number
+}
+
+export type ServiceOrderStatus =
+  | "requested"
+  | "quoted"
+  | "accepted"
+  | "in_progress"
+  | "completed"
+  | "rejected"
+  | "cancelled"
+
+export interface ServiceOrder {
+  id: number
+  vehicle_id: number
+  customer_id: number
+  mechanic_id: number | null
+  type: "repair" | "modification"
+  mod_component: number | null
+  mod_value: number | null
+  note: string | null
+  status: ServiceOrderStatus
+  parts_cost: number
+  labor_cost: number
+  work_seconds: number
+  progress_seconds: number
+  mechanic_share: number
+  shop_share: number
+  created_at: Date
+  quoted_at: Date | null
+  paid_at: Date | null
+  completed_at: Date | null
+}
+
+export interface TowRequest {
+  id: number
+  vehicle_id: number
+  requested_by: number
+  driver_id: number | null
+  destination: "shop" | "impound"
+  reason: string | null
+  status: "requested" | "accepted" | "delivered" | "cancelled"
+  fee: number
+  created_at: Date
+  accepted_at: Date | null
+  delivered_at: Date | null
+}
+
+export interface GasStation {
+  id: number
+  name: string
+  position: Position
+  radius: number
+  fuel_price: number
+  property_id: number | null
+}
+
+export interface FuelProfile {
+  model: string
+  tank_liters: number
+  liters_per_100km: number
+  idle_liters_per_hour: number
+}
+
+export interface VehicleModel {
+  model: string
+  name: string
+  category: string
+  list_price: number
+}
+
+export interface Dealership {
+  id: number
+  tag: string
+  name: string
+  position: Position
+  spawn_position: Position
+  radius: number
+  restock_hours: number
+  last_restocked_at: Date | null
+  property_id: number | null
+}
+
+export interface DealershipStock {
+  dealership_id: number
+  model: string
+  retail_price: number
+  stock: number
+  max_stock: number
+  restock_amount: number
+}
+
+export type InsuranceTier = "liability" | "collision" | "comprehensive"
+
+export interface InsurancePolicy {
+  id: number
+  vehicle_id: number
+  owner_id: number
+  agent_id: number | null
+  tier: InsuranceTier
+  coverage_value: number
+  premium: number
+  deductible: number
+  status: "active" | "lapsed" | "cancelled"
+  started_at: Date
+  paid_until: Date
+  ended_at: Date | null
+}
+
+export interface InsuranceClaim {
+  id: number
+  policy_id: number
+  claimant_id: number
+  type: "destroyed" | "stolen"
   description: string
+  verified: boolean
+  status: "pending" | "approved" | "denied"
+  settlement: "payout" | "replacement" | null
+  amount: number
+  agent_id: number | null
+  agent_commission: number
+  decision_reason: string | null
   created_at: Date
+  decided_at: Date | null
 }
 
 // PropertyKey related types
@@ -165,6 +714,26 @@ export interface VehicleKey {
   created_at: Date
 }
 
+// Vehicle title related types
+export interface VehicleTitleTransfer {
+  id: number
+  vehicle_id: number
+  from_owner_id: number | null
+  to_owner_id: number
+  type: "issued" | "sale"
+  price: number | null
+  transaction_id: number | null
+  created_at: Date
+}
+
+export interface VehicleSaleOffer {
+  vehicleId: number
+  sellerId: number // Character id
+  buyerId: number // Character id
+  price: number
+  expiresAt: number
+}
+
 // AdminLevel related types
 export interface AdminLevel {
   player_id: number
@@ -19,7 +19,7 @@ export const mp = {
     broadcast: (message: string) => {
       console.log(`[RageMP] Broadcast: ${message}`)
     },
-    getById: (id: number) => {
+    getById: (id: number): Player | null => {
       console.log(`[RageMP] Get player by ID: ${id}`)
       return null
     },